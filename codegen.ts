@@ -0,0 +1,40 @@
+/**
+ * GraphQL Code Generator Config
+ *
+ * ## Purpose
+ * - Generates TypeScript result and variable types for every document in `src/graphql`
+ *   from the checked-in schema snapshot (`src/graphql/schema.graphql`).
+ * - Output: `src/graphql/generated.ts` (committed, never edited by hand).
+ *
+ * ## Usage
+ * - `npm run graphql:codegen` after changing a query, fragment or the schema snapshot.
+ */
+import type { CodegenConfig } from "@graphql-codegen/cli";
+
+const config: CodegenConfig = {
+  schema: "src/graphql/schema.graphql",
+  documents: ["src/graphql/fragments/**/*.ts", "src/graphql/queries/**/*.ts"],
+  generates: {
+    "src/graphql/generated.ts": {
+      plugins: [
+        {
+          add: {
+            content:
+              "/* eslint-disable */\n// Generated by `npm run graphql:codegen`. Do not edit by hand.",
+          },
+        },
+        "typescript",
+        "typescript-operations",
+      ],
+      config: {
+        onlyOperationTypes: true,
+        skipTypename: true,
+        avoidOptionals: true,
+        enumsAsTypes: true,
+        scalars: { ID: "string" },
+      },
+    },
+  },
+};
+
+export default config;
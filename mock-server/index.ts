@@ -0,0 +1,211 @@
+/**
+ * Mock WordPress / WooCommerce GraphQL Server
+ *
+ * ## Purpose
+ * - Stands in for WPGraphQL + WooGraphQL when a live WordPress is not reachable (CI, offline laptops).
+ * - Executes real GraphQL against the checked-in schema snapshot (`src/graphql/schema.graphql`),
+ *   so every document in `src/graphql/queries` behaves exactly as it would against WordPress.
+ *
+ * ## Features
+ * - Implements `posts`, `post(idType: SLUG)`, `products` and `product(idType: SLUG)`, including
+ *   `VariableProduct` attributes and variations.
+ * - Cursor pagination with `first` / `after` and WPGraphQL-style `arrayconnection:<offset>` cursors.
+ * - Backed by the JSON fixtures in `mock-server/fixtures` (prices are stored raw, e.g. `"75.98"`,
+ *   and formatted per the `format` argument like WooGraphQL does).
+ *
+ * ## Usage
+ * - CLI: `npm run mock:wp` then point the app at it with
+ *   `NEXT_PUBLIC_WORDPRESS_API_URL=http://localhost:4000/graphql`.
+ * - Programmatic (tests): `const { url, close } = await startMockWordPressServer(0);`
+ */
+import { createServer, IncomingMessage, Server } from "node:http";
+import { readFileSync } from "node:fs";
+import { AddressInfo } from "node:net";
+import path from "node:path";
+import { buildSchema, graphql } from "graphql";
+import posts from "./fixtures/posts.json";
+import products from "./fixtures/products.json";
+
+const SCHEMA_PATH = path.resolve(__dirname, "../src/graphql/schema.graphql");
+
+// WPGraphQL's default page size when `first` is omitted, and its hard limit
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 100;
+
+interface ConnectionArgs {
+  first?: number | null;
+  after?: string | null;
+}
+
+interface NodeArgs {
+  id: string;
+  idType?: string | null;
+}
+
+interface Identifiable {
+  id: string;
+  databaseId: number;
+  slug: string;
+  sku?: string;
+}
+
+const encodeCursor = (offset: number) =>
+  Buffer.from(`arrayconnection:${offset}`).toString("base64");
+
+const decodeCursor = (cursor: string) => {
+  const offset = Number(
+    Buffer.from(cursor, "base64").toString("utf8").split(":")[1]
+  );
+  return Number.isInteger(offset) ? offset : -1;
+};
+
+// Slice a fixture list into a WPGraphQL-style connection
+export const paginate = <T>(items: T[], { first, after }: ConnectionArgs) => {
+  const start = after ? decodeCursor(after) + 1 : 0;
+  const size = Math.max(
+    0, // A negative `first` returns no nodes rather than counting back from the end
+    Math.min(first ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE)
+  );
+  const nodes = items.slice(start, start + size);
+
+  return {
+    nodes,
+    pageInfo: {
+      hasNextPage: start + size < items.length,
+      hasPreviousPage: start > 0,
+      startCursor: nodes.length > 0 ? encodeCursor(start) : null,
+      endCursor:
+        nodes.length > 0 ? encodeCursor(start + nodes.length - 1) : null,
+    },
+  };
+};
+
+// Resolve a single node the way WPGraphQL's `idType` argument does
+const findNode = <T extends Identifiable>(
+  items: T[],
+  { id, idType }: NodeArgs
+): T | null => {
+  switch (idType) {
+    case "SLUG":
+    case "URI":
+      return (
+        items.find((item) => item.slug === id.replace(/^\/|\/$/g, "")) ?? null
+      );
+    case "DATABASE_ID":
+      return items.find((item) => item.databaseId === Number(id)) ?? null;
+    case "SKU":
+      return items.find((item) => item.sku === id) ?? null;
+    default:
+      return items.find((item) => item.id === id) ?? null;
+  }
+};
+
+// WooGraphQL returns "&#36;75.98" by default and "75.98" with `format: RAW`.
+// Variable products store a "min,max" range, formatted as "&#36;25.99 - &#36;45.99".
+const pricingField =
+  (raw: string | null | undefined) =>
+  ({ format }: { format?: string | null }) => {
+    if (raw == null) return null;
+    if (format === "RAW") return raw;
+    return raw
+      .split(",")
+      .map((price) => `&#36;${Number(price).toFixed(2)}`)
+      .join(" - ");
+  };
+
+interface PricedFixture {
+  price: string | null;
+  regularPrice: string | null;
+  salePrice: string | null;
+}
+
+const pricingFields = (item: PricedFixture) => ({
+  price: pricingField(item.price),
+  regularPrice: pricingField(item.regularPrice),
+  salePrice: pricingField(item.salePrice),
+});
+
+const catalog = products.map((product) => ({
+  ...product,
+  ...pricingFields(product),
+  variations: product.variations && {
+    nodes: product.variations.nodes.map((variation) => ({
+      ...variation,
+      ...pricingFields(variation),
+    })),
+  },
+}));
+
+const rootValue = {
+  posts: (args: ConnectionArgs) => paginate(posts, args),
+  post: (args: NodeArgs) => findNode(posts, args),
+  products: (args: ConnectionArgs) => paginate(catalog, args),
+  product: (args: NodeArgs) => findNode(catalog, args),
+};
+
+const readBody = (request: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => resolve(body));
+    request.on("error", reject);
+  });
+
+export const createMockWordPressServer = (): Server => {
+  const schema = buildSchema(readFileSync(SCHEMA_PATH, "utf8"));
+
+  return createServer(async (request, response) => {
+    // The blog "Load More" button calls the endpoint straight from the browser
+    response.setHeader("Access-Control-Allow-Origin", "*");
+    response.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    response.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+
+    if (request.method === "OPTIONS") {
+      response.writeHead(204).end();
+      return;
+    }
+
+    if (request.method !== "POST") {
+      response
+        .writeHead(405, { "Content-Type": "application/json" })
+        .end(JSON.stringify({ errors: [{ message: "Use POST." }] }));
+      return;
+    }
+
+    try {
+      const { query, variables, operationName } = JSON.parse(
+        await readBody(request)
+      );
+      const result = await graphql({
+        schema,
+        source: query,
+        rootValue,
+        variableValues: variables,
+        operationName,
+      });
+
+      response
+        .writeHead(200, { "Content-Type": "application/json" })
+        .end(JSON.stringify(result));
+    } catch (error) {
+      response
+        .writeHead(400, { "Content-Type": "application/json" })
+        .end(
+          JSON.stringify({ errors: [{ message: (error as Error).message }] })
+        );
+    }
+  });
+};
+
+// Start the server and resolve with its GraphQL URL (pass port 0 for a random free port)
+export const startMockWordPressServer = (port: number) =>
+  new Promise<{ url: string; close: () => Promise<void> }>((resolve) => {
+    const server = createMockWordPressServer();
+    server.listen(port, () => {
+      const { port: boundPort } = server.address() as AddressInfo;
+      resolve({
+        url: `http://localhost:${boundPort}/graphql`,
+        close: () => new Promise<void>((done) => server.close(() => done())),
+      });
+    });
+  });
@@ -0,0 +1,13 @@
+/**
+ * Starts the mock WordPress GraphQL server from the command line.
+ *
+ * ## Usage
+ * - `npm run mock:wp` (listens on `MOCK_WP_PORT`, default 4000).
+ */
+import { startMockWordPressServer } from "./index";
+
+const port = Number(process.env.MOCK_WP_PORT || 4000);
+
+startMockWordPressServer(port).then(({ url }) => {
+  console.log(`✔ Mock WordPress GraphQL server running at ${url}`);
+});
@@ -0,0 +1,56 @@
+/**
+ * GraphQL Schema Snapshot
+ *
+ * ## Purpose
+ * - Refreshes `src/graphql/schema.graphql` by introspecting the live WPGraphQL endpoint.
+ *
+ * ## Usage
+ * - `NEXT_PUBLIC_WORDPRESS_API_URL=https://example.com/graphql npm run graphql:schema`
+ *
+ * ## Notes
+ * - Requires public introspection to be enabled in WPGraphQL settings.
+ * - Review the diff before committing: the checked-in snapshot is trimmed to what the app uses.
+ */
+import { writeFileSync } from "node:fs";
+import path from "node:path";
+import {
+  buildClientSchema,
+  getIntrospectionQuery,
+  IntrospectionQuery,
+  printSchema,
+} from "graphql";
+
+const SCHEMA_PATH = path.resolve(__dirname, "../src/graphql/schema.graphql");
+
+const main = async () => {
+  const endpoint = process.env.NEXT_PUBLIC_WORDPRESS_API_URL;
+  if (!endpoint) {
+    console.error("NEXT_PUBLIC_WORDPRESS_API_URL is not set.");
+    process.exit(1);
+  }
+
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ query: getIntrospectionQuery() }),
+  });
+  const result: { data?: IntrospectionQuery; errors?: unknown } =
+    await response.json();
+
+  if (!response.ok || !result.data) {
+    console.error(
+      "Introspection failed:",
+      result.errors || response.statusText
+    );
+    process.exit(1);
+  }
+
+  writeFileSync(SCHEMA_PATH, printSchema(buildClientSchema(result.data)));
+  console.log(
+    `✔ Schema written to ${path.relative(process.cwd(), SCHEMA_PATH)}`
+  );
+};
+
+main();
@@ -0,0 +1,36 @@
+/**
+ * Set a User's Role
+ *
+ * ## Purpose
+ * - Makes an account an admin (or a customer again). Accounts always start as customers, so this
+ *   is how a fresh store gets its first admin.
+ *
+ * ## Usage
+ * - `npm run users:role -- <email> <admin|customer>`, with the `DATA_DIR` the store runs with.
+ * - The account must exist: register it on the storefront first.
+ *
+ * ## Implementation Details
+ * - Exits with code 1 for a wrong role or an unknown email.
+ */
+import { setUserRole } from "@/services/authServices";
+import { UserRole } from "@/types/auth";
+
+const ROLES: UserRole[] = ["customer", "admin"];
+
+const main = async () => {
+  const [email, role] = process.argv.slice(2);
+  if (!email || !ROLES.includes(role as UserRole)) {
+    console.error(`Usage: npm run users:role -- <email> <${ROLES.join("|")}>`);
+    process.exit(1);
+  }
+
+  try {
+    const user = await setUserRole(email, role as UserRole);
+    console.log(`${user.email} is now ${user.role}. Sign in again to use it.`);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+};
+
+main();
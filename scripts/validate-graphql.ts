@@ -0,0 +1,72 @@
+/**
+ * GraphQL Document Validation
+ *
+ * ## Purpose
+ * - Fails the build when a document in `src/graphql/queries` is invalid against the checked-in
+ *   WPGraphQL schema snapshot (`src/graphql/schema.graphql`).
+ * - Catches typos, removed fields and missing fragments before they reach WordPress at runtime.
+ *
+ * ## Usage
+ * - `npm run graphql:validate` (also runs automatically as part of `npm run build`).
+ *
+ * ## Implementation Details
+ * - Imports every module under `src/graphql/queries` and validates each exported string.
+ * - Exits with code 1 and prints every validation error when any document is invalid.
+ */
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { buildSchema, parse, validate, GraphQLError } from "graphql";
+
+const ROOT = path.resolve(__dirname, "..");
+const SCHEMA_PATH = path.join(ROOT, "src/graphql/schema.graphql");
+const DOCUMENT_DIRS = [path.join(ROOT, "src/graphql/queries")];
+
+// Recursively collect all `.ts` files in a directory
+const collectFiles = (dir: string): string[] =>
+  readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return collectFiles(fullPath);
+    return entry.name.endsWith(".ts") ? [fullPath] : [];
+  });
+
+const main = async () => {
+  const schema = buildSchema(readFileSync(SCHEMA_PATH, "utf8"));
+  const files = DOCUMENT_DIRS.flatMap(collectFiles);
+  let documentCount = 0;
+  let failed = false;
+
+  for (const file of files) {
+    const documents: Record<string, unknown> = await import(
+      pathToFileURL(file).href
+    );
+
+    for (const [exportName, source] of Object.entries(documents)) {
+      if (typeof source !== "string") continue;
+      documentCount++;
+
+      const label = `${path.relative(ROOT, file)} (${exportName})`;
+      let errors: readonly GraphQLError[];
+      try {
+        errors = validate(schema, parse(source));
+      } catch (error) {
+        errors = [error as GraphQLError];
+      }
+
+      if (errors.length > 0) {
+        failed = true;
+        console.error(`✖ ${label}`);
+        errors.forEach((error) => console.error(`    ${error.message}`));
+      }
+    }
+  }
+
+  if (failed) {
+    console.error("\nGraphQL validation failed.");
+    process.exit(1);
+  }
+
+  console.log(`✔ ${documentCount} GraphQL documents are valid.`);
+};
+
+main();
@@ -1,30 +1,264 @@
-import BackButton from "@/components/common/BackButton";
-import Page from "@/components/common/Page";
-import Row from "@/components/common/Row";
-import { Button } from "@/components/ui/button";
-import Head from "next/head";
 import Link from "next/link";
-import React from "react";
+import { Download } from "lucide-react";
+import RevenueChart from "@/components/analytics/RevenueChart";
+import TopProductsChart from "@/components/analytics/TopProductsChart";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { lastDaysRange } from "@/lib/analytics";
+import { formatMoney } from "@/lib/money";
+import { StoreAnalytics } from "@/types/analytics";
+import { SessionUser } from "@/types/auth";
+
+interface AdminPortalContentProps {
+  user: SessionUser; // The signed-in admin
+  analytics: StoreAnalytics; // The figures of the selected range
+}
+
+// The admin screens, as cards on the dashboard
+const SECTIONS = [
+  {
+    href: "/admin-dashboard/products",
+    title: "Products",
+    description:
+      "Create, edit and delete products: prices, descriptions, images, categories and stock.",
+  },
+  {
+    href: "/admin-dashboard/orders",
+    title: "Orders",
+    description:
+      "Find orders by status, date or customer, ship them with a tracking number and issue refunds.",
+  },
+];
+
+// Quick ranges offered above the date fields
+const PRESETS = [
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 365, label: "12 months" },
+];
+
+const inputClassName =
+  "block w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+const formatPercent = (rate: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "percent",
+    maximumFractionDigits: 1,
+  }).format(rate);
+
+const AdminPortalContent = ({ user, analytics }: AdminPortalContentProps) => {
+  const { range, cartAbandonment, customers } = analytics;
+  const customerCount = customers.new + customers.returning;
+  const exportHref = `/api/analytics?${new URLSearchParams({ ...range })}`;
+
+  const stats = [
+    {
+      title: "Revenue",
+      value: formatMoney(analytics.revenue),
+      description: `${analytics.paidOrderCount} paid orders, at the exchange rates of their day`,
+    },
+    {
+      title: "Orders",
+      value: String(analytics.orderCount),
+      description: "Placed, including unpaid and cancelled",
+    },
+    {
+      title: "Average order value",
+      value: formatMoney(analytics.averageOrderValue),
+      description: "Revenue per paid order",
+    },
+    {
+      title: "Cart abandonment",
+      value: formatPercent(cartAbandonment.rate),
+      description: `${cartAbandonment.abandonedCarts} carts left, ${cartAbandonment.checkouts} checkouts`,
+    },
+  ];
 
-const AdminPortalContent = () => {
   return (
-    <>
-      <Head>
-        <title>AdminPortalContent</title>
-        <meta name="description" content="This is the template page" />
-      </Head>
-      <Page className={""} FULL={false}>
-        <Row className="prose">
-          <h1>This is the Admin Portal Dashboard Page</h1>
-          <p>
-            Lorem ipsum, dolor sit amet consectetur adipisicing elit. Dolores
-            molestias corrupti eius possimus iure, reiciendis reprehenderit fuga
-            officia accusantium tempora quos, beatae harum quia officiis, ut
-            porro natus sequi veniam.
+    <main className="mx-auto max-w-6xl px-4 py-16 sm:px-6 lg:px-8">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight text-gray-900">
+            Store admin
+          </h1>
+          <p className="mt-2 text-sm text-gray-500">
+            Signed in as {user.email}.
           </p>
-        </Row>
-      </Page>
-    </>
+        </div>
+        <a
+          href={exportHref}
+          className="inline-flex items-center gap-2 rounded-md border border-input bg-background px-4 py-2 text-sm font-medium shadow-sm hover:bg-accent hover:text-accent-foreground"
+        >
+          <Download className="size-4" />
+          Export CSV
+        </a>
+      </div>
+
+      <div className="mt-8 flex flex-wrap items-end gap-4">
+        <nav aria-label="Date range" className="flex flex-wrap gap-2">
+          {PRESETS.map((preset) => {
+            const presetRange = lastDaysRange(preset.days);
+            const isActive =
+              presetRange.from === range.from && presetRange.to === range.to;
+            return (
+              <Link
+                key={preset.days}
+                href={`/admin-dashboard?${new URLSearchParams({ ...presetRange })}`}
+                aria-current={isActive ? "page" : undefined}
+                className={`rounded-md px-3 py-1.5 text-sm font-medium ${
+                  isActive
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                }`}
+              >
+                {preset.label}
+              </Link>
+            );
+          })}
+        </nav>
+        <form method="get" className="flex flex-wrap items-end gap-2">
+          <div>
+            <label htmlFor="from" className="block text-xs font-medium">
+              From
+            </label>
+            <input
+              id="from"
+              name="from"
+              type="date"
+              defaultValue={range.from}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="to" className="block text-xs font-medium">
+              To
+            </label>
+            <input
+              id="to"
+              name="to"
+              type="date"
+              defaultValue={range.to}
+              className={inputClassName}
+            />
+          </div>
+          <button
+            type="submit"
+            className="rounded-md bg-primary px-3 py-1.5 text-sm font-medium text-primary-foreground shadow hover:bg-primary/90"
+          >
+            Apply
+          </button>
+        </form>
+      </div>
+
+      <div className="mt-8 grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {stats.map((stat) => (
+          <Card key={stat.title}>
+            <CardHeader className="pb-2">
+              <CardDescription>{stat.title}</CardDescription>
+              <CardTitle className="text-2xl">{stat.value}</CardTitle>
+            </CardHeader>
+            <CardContent className="text-xs text-muted-foreground">
+              {stat.description}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="mt-4 grid grid-cols-1 gap-4 lg:grid-cols-3">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Revenue</CardTitle>
+            <CardDescription>
+              Paid orders per {analytics.granularity}, {range.from} to{" "}
+              {range.to}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <RevenueChart analytics={analytics} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Customers</CardTitle>
+            <CardDescription>
+              {customerCount} customers with paid orders
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            <div className="flex h-3 overflow-hidden rounded-full bg-muted">
+              <div
+                className="bg-chart-1"
+                style={{
+                  width: `${customerCount > 0 ? (customers.new / customerCount) * 100 : 0}%`,
+                }}
+              />
+              <div
+                className="bg-chart-2"
+                style={{
+                  width: `${customerCount > 0 ? (customers.returning / customerCount) * 100 : 0}%`,
+                }}
+              />
+            </div>
+            <dl className="grid grid-cols-2 gap-4">
+              <div>
+                <dt className="flex items-center gap-2 text-muted-foreground">
+                  <span className="size-2 rounded-full bg-chart-1" />
+                  New
+                </dt>
+                <dd className="mt-1 text-2xl font-semibold">{customers.new}</dd>
+              </div>
+              <div>
+                <dt className="flex items-center gap-2 text-muted-foreground">
+                  <span className="size-2 rounded-full bg-chart-2" />
+                  Returning
+                </dt>
+                <dd className="mt-1 text-2xl font-semibold">
+                  {customers.returning}
+                </dd>
+              </div>
+            </dl>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-3">
+          <CardHeader>
+            <CardTitle>Top products</CardTitle>
+            <CardDescription>
+              By revenue, before order discounts
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TopProductsChart products={analytics.topProducts} />
+          </CardContent>
+        </Card>
+      </div>
+
+      <h2 className="mt-16 text-lg font-medium text-gray-900">Manage</h2>
+      <ul role="list" className="mt-4 grid grid-cols-1 gap-6 sm:grid-cols-2">
+        {SECTIONS.map((section) => (
+          <li key={section.href}>
+            <Link
+              href={section.href}
+              className="block rounded-lg border border-gray-200 bg-white p-6 shadow-sm hover:border-indigo-300"
+            >
+              <h3 className="text-lg font-medium text-gray-900">
+                {section.title}
+              </h3>
+              <p className="mt-2 text-sm text-gray-500">
+                {section.description}
+              </p>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </main>
   );
 };
 
@@ -0,0 +1,217 @@
+import Link from "next/link";
+import { ChevronDownIcon } from "@heroicons/react/20/solid";
+import OrderStatusBadge from "@/components/orders/OrderStatusBadge";
+import { formatMoney } from "@/lib/money";
+import { ORDER_TRANSITIONS, orderStatusLabel } from "@/lib/orderWorkflow";
+import { Order, OrderFilters, OrderStatus } from "@/types/order";
+
+interface AdminOrdersPageContentProps {
+  filters: OrderFilters; // The filters in the query string
+  orders: Order[]; // The matching orders, newest first
+}
+
+const inputClassName =
+  "block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6";
+
+const formatDate = (isoDate: string) =>
+  new Intl.DateTimeFormat("en-US", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(new Date(isoDate));
+
+// The filters are a plain GET form, so a filtered list can be bookmarked and shared
+const AdminOrdersPageContent = ({
+  filters,
+  orders,
+}: AdminOrdersPageContentProps) => {
+  return (
+    <main className="mx-auto max-w-6xl px-4 py-16 sm:px-6 lg:px-8">
+      <h1 className="text-3xl font-bold tracking-tight text-gray-900">
+        Orders
+      </h1>
+
+      <form
+        method="get"
+        className="mt-8 grid grid-cols-1 items-end gap-4 sm:grid-cols-2 lg:grid-cols-5"
+      >
+        <div>
+          <label
+            htmlFor="status"
+            className="block text-sm/6 font-medium text-gray-700"
+          >
+            Status
+          </label>
+          <div className="mt-2 grid grid-cols-1">
+            <select
+              id="status"
+              name="status"
+              defaultValue={filters.status}
+              className="col-start-1 row-start-1 w-full appearance-none rounded-md bg-white py-2 pl-3 pr-8 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
+            >
+              <option value="">Any status</option>
+              {(Object.keys(ORDER_TRANSITIONS) as OrderStatus[]).map(
+                (status) => (
+                  <option key={status} value={status}>
+                    {orderStatusLabel(status)}
+                  </option>
+                )
+              )}
+            </select>
+            <ChevronDownIcon
+              aria-hidden="true"
+              className="pointer-events-none col-start-1 row-start-1 mr-2 size-5 self-center justify-self-end fill-gray-500 sm:size-4"
+            />
+          </div>
+        </div>
+        <div>
+          <label
+            htmlFor="from"
+            className="block text-sm/6 font-medium text-gray-700"
+          >
+            Placed from
+          </label>
+          <div className="mt-2">
+            <input
+              id="from"
+              name="from"
+              type="date"
+              defaultValue={filters.from}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+        <div>
+          <label
+            htmlFor="to"
+            className="block text-sm/6 font-medium text-gray-700"
+          >
+            Placed until
+          </label>
+          <div className="mt-2">
+            <input
+              id="to"
+              name="to"
+              type="date"
+              defaultValue={filters.to}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+        <div>
+          <label
+            htmlFor="customer"
+            className="block text-sm/6 font-medium text-gray-700"
+          >
+            Customer
+          </label>
+          <div className="mt-2">
+            <input
+              id="customer"
+              name="customer"
+              type="search"
+              placeholder="Name or email"
+              defaultValue={filters.customer}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          <button
+            type="submit"
+            className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+          >
+            Filter
+          </button>
+          <Link
+            href="/admin-dashboard/orders"
+            className="text-sm font-medium text-gray-600 hover:text-gray-500"
+          >
+            Clear
+          </Link>
+        </div>
+      </form>
+
+      <p className="mt-6 text-sm text-gray-500">
+        {orders.length} {orders.length === 1 ? "order" : "orders"}
+      </p>
+
+      <div className="mt-4 overflow-x-auto rounded-lg border border-gray-200 bg-white shadow-sm">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th
+                scope="col"
+                className="px-4 py-3 text-left font-semibold text-gray-900"
+              >
+                Order
+              </th>
+              <th
+                scope="col"
+                className="px-4 py-3 text-left font-semibold text-gray-900"
+              >
+                Placed
+              </th>
+              <th
+                scope="col"
+                className="px-4 py-3 text-left font-semibold text-gray-900"
+              >
+                Customer
+              </th>
+              <th
+                scope="col"
+                className="px-4 py-3 text-left font-semibold text-gray-900"
+              >
+                Status
+              </th>
+              <th
+                scope="col"
+                className="px-4 py-3 text-right font-semibold text-gray-900"
+              >
+                Total
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {orders.map((order) => (
+              <tr key={order.id}>
+                <td className="px-4 py-3">
+                  <Link
+                    href={`/admin-dashboard/orders/${order.id}`}
+                    className="font-medium text-indigo-600 hover:text-indigo-500"
+                  >
+                    {order.id.slice(0, 8)}
+                  </Link>
+                </td>
+                <td className="px-4 py-3 text-gray-500">
+                  <time dateTime={order.createdAt}>
+                    {formatDate(order.createdAt)}
+                  </time>
+                </td>
+                <td className="px-4 py-3">
+                  <p className="font-medium text-gray-900">
+                    {order.shippingAddress.firstName}{" "}
+                    {order.shippingAddress.lastName}
+                  </p>
+                  <p className="text-gray-500">{order.email}</p>
+                </td>
+                <td className="px-4 py-3">
+                  <OrderStatusBadge status={order.status} />
+                </td>
+                <td className="px-4 py-3 text-right text-gray-900">
+                  {formatMoney(order.total)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {orders.length === 0 && (
+          <p className="px-4 py-6 text-sm text-gray-500">
+            No orders match these filters.
+          </p>
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default AdminOrdersPageContent;
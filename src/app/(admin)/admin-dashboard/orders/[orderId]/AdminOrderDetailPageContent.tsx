@@ -0,0 +1,146 @@
+import Link from "next/link";
+import OrderStatusBadge from "@/components/orders/OrderStatusBadge";
+import OrderSummary from "@/components/orders/OrderSummary";
+import { PAYMENT_METHODS } from "@/config/checkout";
+import { formatAddress } from "@/lib/addresses";
+import { orderHistory } from "@/lib/orderWorkflow";
+import { formatDeliveryEstimate } from "@/lib/shipping";
+import { Order } from "@/types/order";
+import OrderActions from "./OrderActions";
+
+interface AdminOrderDetailPageContentProps {
+  order: Order; // Any stored order
+}
+
+const formatDateTime = (isoDate: string) =>
+  new Intl.DateTimeFormat("en-US", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(new Date(isoDate));
+
+const AdminOrderDetailPageContent = ({
+  order,
+}: AdminOrderDetailPageContentProps) => {
+  const { shippingAddress } = order;
+  const paymentMethod = PAYMENT_METHODS.find(
+    (method) => method.id === order.paymentMethodId
+  );
+  // Newest first, like an activity feed
+  const history = [...orderHistory(order)].reverse();
+
+  return (
+    <main className="mx-auto max-w-5xl px-4 py-16 sm:px-6 lg:px-8">
+      <Link
+        href="/admin-dashboard/orders"
+        className="text-sm font-medium text-indigo-600 hover:text-indigo-500"
+      >
+        <span aria-hidden="true">&larr; </span>Orders
+      </Link>
+
+      <div className="mt-6 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight text-gray-900">
+            Order {order.id.slice(0, 8)}
+          </h1>
+          <p className="mt-2 text-sm text-gray-500">
+            Placed on{" "}
+            <time dateTime={order.createdAt}>
+              {formatDateTime(order.createdAt)}
+            </time>{" "}
+            by {order.email}
+            {order.userId === null && " (guest)"}
+          </p>
+        </div>
+        <OrderStatusBadge status={order.status} />
+      </div>
+
+      <div className="mt-10 grid grid-cols-1 gap-12 lg:grid-cols-3">
+        <div className="lg:col-span-2">
+          <OrderSummary order={order} />
+
+          <dl className="mt-16 grid grid-cols-1 gap-8 text-sm text-gray-600 sm:grid-cols-3">
+            <div>
+              <dt className="font-medium text-gray-900">Shipping Address</dt>
+              <dd className="mt-2">
+                <p>
+                  {shippingAddress.firstName} {shippingAddress.lastName}
+                </p>
+                {shippingAddress.company && <p>{shippingAddress.company}</p>}
+                <p>{formatAddress(shippingAddress)}</p>
+                {shippingAddress.phone && <p>{shippingAddress.phone}</p>}
+              </dd>
+            </div>
+            <div>
+              <dt className="font-medium text-gray-900">Delivery</dt>
+              <dd className="mt-2">
+                <p>{order.delivery.title}</p>
+                <p>{formatDeliveryEstimate(order.delivery.estimate)}</p>
+                {order.tracking && (
+                  <p>
+                    {order.tracking.carrier} {order.tracking.number}
+                  </p>
+                )}
+              </dd>
+            </div>
+            <div>
+              <dt className="font-medium text-gray-900">Payment</dt>
+              <dd className="mt-2">
+                <p>{paymentMethod?.title || order.paymentMethodId}</p>
+                {order.payment ? (
+                  <>
+                    <p>
+                      {order.payment.provider}: {order.payment.status}
+                    </p>
+                    <p className="break-all text-gray-500">
+                      {order.payment.transactionId}
+                    </p>
+                  </>
+                ) : (
+                  <p>Not paid</p>
+                )}
+              </dd>
+            </div>
+          </dl>
+        </div>
+
+        <div className="space-y-10">
+          <OrderActions order={order} />
+
+          <section aria-labelledby="history-heading">
+            <h2
+              id="history-heading"
+              className="text-lg font-medium text-gray-900"
+            >
+              History
+            </h2>
+            {history.length === 0 ? (
+              <p className="mt-4 text-sm text-gray-500">
+                This order was placed before changes were recorded.
+              </p>
+            ) : (
+              <ol role="list" className="mt-4 space-y-4 text-sm">
+                {history.map((event, index) => (
+                  <li
+                    key={`${event.at}-${index}`}
+                    className="border-l-2 border-gray-200 pl-4"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <OrderStatusBadge status={event.status} />
+                      <time dateTime={event.at} className="text-gray-500">
+                        {formatDateTime(event.at)}
+                      </time>
+                    </div>
+                    <p className="mt-2 text-gray-900">{event.note}</p>
+                    <p className="text-gray-500">{event.actor || "System"}</p>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </section>
+        </div>
+      </div>
+    </main>
+  );
+};
+
+export default AdminOrderDetailPageContent;
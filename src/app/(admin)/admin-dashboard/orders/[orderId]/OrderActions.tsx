@@ -0,0 +1,288 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useRouter } from "next/navigation";
+import { ChevronDownIcon } from "@heroicons/react/20/solid";
+import { formatMoney } from "@/lib/money";
+import {
+  canTransition,
+  nextStatuses,
+  orderStatusLabel,
+} from "@/lib/orderWorkflow";
+import { Order, OrderActionResult, OrderStatus } from "@/types/order";
+import {
+  refundOrderPayment,
+  updateOrderStatus,
+  updateOrderTracking,
+} from "../actions";
+
+const inputClassName =
+  "block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6";
+
+// Statuses where the parcel is (about to be) with the carrier
+const TRACKED_STATUSES: OrderStatus[] = ["packed", "shipped", "delivered"];
+
+/**
+ * OrderActions
+ *
+ * ## Purpose
+ * - The admin controls of an order: move it to one of its next statuses with a note, enter or
+ *   correct its tracking number, and refund it. Each runs a server action in `../actions.ts` and
+ *   then refreshes the page, so the status and history shown come from the store.
+ *
+ * ## Parameters
+ * - `order` (Order): The order being managed.
+ *
+ * ## Implementation Details
+ * - Shipping an order without a tracking number shows the carrier fields in the status form (instead
+ *   of the tracking form), as the workflow requires one.
+ * - Refunds return the whole payment through the provider and can't be undone, so they ask for
+ *   confirmation first.
+ */
+const OrderActions = ({ order }: { order: Order }) => {
+  const router = useRouter();
+  const statuses = nextStatuses(order);
+  const [chosen, setChosen] = useState<OrderStatus | null>(null);
+  // After a change the page refreshes with new next statuses; fall back to the first of them
+  const status = chosen && statuses.includes(chosen) ? chosen : statuses[0];
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canRefund =
+    canTransition(order.status, "refunded") &&
+    order.payment?.status === "captured";
+  const needsTracking = status === "shipped" && !order.tracking;
+
+  // Run an action, then show its error or reload the order
+  const run = async (action: () => Promise<OrderActionResult>) => {
+    setIsSaving(true);
+    setError(null);
+    const result = await action().catch((actionError) => {
+      console.error("Error updating order:", actionError);
+      return null;
+    });
+    setIsSaving(false);
+
+    if (!result || result.error) {
+      setError(result?.error || "The order could not be updated.");
+      return false;
+    }
+    router.refresh();
+    return true;
+  };
+
+  const handleStatus = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = event.currentTarget;
+    const data = new FormData(form);
+    const saved = await run(() =>
+      updateOrderStatus(
+        order.id,
+        status,
+        String(data.get("note") || ""),
+        String(data.get("carrier") || ""),
+        String(data.get("trackingNumber") || "")
+      )
+    );
+    if (saved) form.reset();
+  };
+
+  const handleTracking = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const data = new FormData(event.currentTarget);
+    await run(() =>
+      updateOrderTracking(
+        order.id,
+        String(data.get("carrier") || ""),
+        String(data.get("trackingNumber") || "")
+      )
+    );
+  };
+
+  const handleRefund = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const data = new FormData(event.currentTarget);
+    if (
+      !window.confirm(
+        `Refund ${formatMoney(order.total)} to the customer? This can't be undone.`
+      )
+    ) {
+      return;
+    }
+    await run(() =>
+      refundOrderPayment(order.id, String(data.get("refundNote") || ""))
+    );
+  };
+
+  const trackingFields = (
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <label
+          htmlFor="carrier"
+          className="block text-sm/6 font-medium text-gray-700"
+        >
+          Carrier
+        </label>
+        <div className="mt-2">
+          <input
+            id="carrier"
+            name="carrier"
+            type="text"
+            placeholder="Canada Post"
+            defaultValue={order.tracking?.carrier}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <div>
+        <label
+          htmlFor="trackingNumber"
+          className="block text-sm/6 font-medium text-gray-700"
+        >
+          Tracking number
+        </label>
+        <div className="mt-2">
+          <input
+            id="trackingNumber"
+            name="trackingNumber"
+            type="text"
+            defaultValue={order.tracking?.number}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <section aria-labelledby="actions-heading" className="space-y-8">
+      <h2 id="actions-heading" className="text-lg font-medium text-gray-900">
+        Fulfillment
+      </h2>
+
+      {error && (
+        <p
+          role="alert"
+          className="rounded-md bg-red-50 p-3 text-sm font-medium text-red-700"
+        >
+          {error}
+        </p>
+      )}
+
+      {statuses.length > 0 ? (
+        <form onSubmit={handleStatus} className="space-y-4">
+          <div>
+            <label
+              htmlFor="status"
+              className="block text-sm/6 font-medium text-gray-700"
+            >
+              Move to
+            </label>
+            <div className="mt-2 grid grid-cols-1">
+              <select
+                id="status"
+                value={status}
+                onChange={(e) => setChosen(e.target.value as OrderStatus)}
+                className="col-start-1 row-start-1 w-full appearance-none rounded-md bg-white py-2 pl-3 pr-8 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
+              >
+                {statuses.map((next) => (
+                  <option key={next} value={next}>
+                    {orderStatusLabel(next)}
+                  </option>
+                ))}
+              </select>
+              <ChevronDownIcon
+                aria-hidden="true"
+                className="pointer-events-none col-start-1 row-start-1 mr-2 size-5 self-center justify-self-end fill-gray-500 sm:size-4"
+              />
+            </div>
+          </div>
+          {needsTracking && trackingFields}
+          <div>
+            <label
+              htmlFor="note"
+              className="block text-sm/6 font-medium text-gray-700"
+            >
+              Note (optional)
+            </label>
+            <div className="mt-2">
+              <textarea
+                id="note"
+                name="note"
+                rows={2}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isSaving ? "Saving…" : "Update status"}
+          </button>
+        </form>
+      ) : (
+        <p className="text-sm text-gray-500">
+          This order is {orderStatusLabel(order.status).toLowerCase()}; its
+          status can&apos;t change any more.
+        </p>
+      )}
+
+      {TRACKED_STATUSES.includes(order.status) && !needsTracking && (
+        <form
+          onSubmit={handleTracking}
+          className="space-y-4 border-t border-gray-200 pt-8"
+        >
+          <h3 className="text-sm font-medium text-gray-900">Tracking</h3>
+          {trackingFields}
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {order.tracking ? "Update tracking" : "Save tracking"}
+          </button>
+        </form>
+      )}
+
+      {canRefund && (
+        <form
+          onSubmit={handleRefund}
+          className="space-y-4 border-t border-gray-200 pt-8"
+        >
+          <h3 className="text-sm font-medium text-gray-900">Refund</h3>
+          <p className="text-sm text-gray-500">
+            Returns {formatMoney(order.total)} to the customer through{" "}
+            {order.payment!.provider}.
+          </p>
+          <div>
+            <label
+              htmlFor="refundNote"
+              className="block text-sm/6 font-medium text-gray-700"
+            >
+              Reason (optional)
+            </label>
+            <div className="mt-2">
+              <input
+                id="refundNote"
+                name="refundNote"
+                type="text"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="text-sm font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+          >
+            Refund order
+          </button>
+        </form>
+      )}
+    </section>
+  );
+};
+
+export default OrderActions;
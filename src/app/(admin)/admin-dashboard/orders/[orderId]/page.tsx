@@ -0,0 +1,23 @@
+import { notFound } from "next/navigation";
+import AdminOrderDetailPageContent from "./AdminOrderDetailPageContent";
+import { fetchOrderById } from "@/services/orderServices";
+
+// Always show the current status and history of the order
+export const dynamic = "force-dynamic";
+
+// Admin order page: details, audit trail and fulfillment actions
+const AdminOrderDetail = async ({
+  params,
+}: {
+  params: Promise<{ orderId: string }>;
+}) => {
+  const order = await fetchOrderById((await params).orderId);
+
+  if (!order) {
+    notFound();
+  }
+
+  return <AdminOrderDetailPageContent order={order} />;
+};
+
+export default AdminOrderDetail;
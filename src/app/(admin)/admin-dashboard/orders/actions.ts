@@ -0,0 +1,95 @@
+"use server";
+
+/**
+ * Admin Order Actions
+ *
+ * ## Purpose
+ * - Server actions behind the admin order page: move an order through the fulfillment workflow
+ *   (see `src/lib/orderWorkflow.ts`), record its tracking number and refund it through the payment
+ *   provider. Every change is added to the order's audit trail with the admin's email.
+ *
+ * ## Error Handling
+ * - Every action checks the signed-in account is an admin (`requireRole`), as server actions can be
+ *   called without going through the admin pages.
+ * - Workflow and payment errors are answered with their message instead of being thrown.
+ */
+import { revalidatePath } from "next/cache";
+import {
+  ORDER_TRANSITIONS,
+  OrderWorkflowError,
+  parseOrderNote,
+  parseTracking,
+} from "@/lib/orderWorkflow";
+import { PaymentError } from "@/lib/paymentError";
+import { requireRole } from "@/services/authServices";
+import { changeOrderStatus, saveOrderTracking } from "@/services/orderServices";
+import { refundOrder } from "@/services/paymentServices";
+import { Order, OrderActionResult, OrderStatus } from "@/types/order";
+
+// Run an order change for the signed-in admin and turn its outcome into an `OrderActionResult`
+const runOrderAction = async (
+  failure: string,
+  change: (actor: string) => Promise<Order | null>
+): Promise<OrderActionResult> => {
+  const admin = await requireRole(["admin"]);
+
+  try {
+    if (!(await change(admin.email))) {
+      return { error: "This order no longer exists." };
+    }
+
+    revalidatePath("/admin-dashboard/orders", "layout");
+    return { error: null };
+  } catch (error) {
+    if (error instanceof OrderWorkflowError || error instanceof PaymentError) {
+      return { error: error.message };
+    }
+    console.error(`${failure}:`, error);
+    return { error: `${failure}. Please try again.` };
+  }
+};
+
+// Move an order to its next status; `carrier` and `trackingNumber` are needed to ship it
+export async function updateOrderStatus(
+  orderId: string,
+  status: OrderStatus,
+  note: string,
+  carrier: string,
+  trackingNumber: string
+): Promise<OrderActionResult> {
+  return runOrderAction("The order status could not be changed", (actor) => {
+    if (!Object.hasOwn(ORDER_TRANSITIONS, status)) {
+      throw new OrderWorkflowError("Choose a status from the list.");
+    }
+    const tracking =
+      carrier || trackingNumber ? parseTracking(carrier, trackingNumber) : null;
+    return changeOrderStatus(
+      orderId,
+      status,
+      parseOrderNote(note),
+      actor,
+      tracking
+    );
+  });
+}
+
+// Set or correct the carrier and tracking number of an order
+export async function updateOrderTracking(
+  orderId: string,
+  carrier: string,
+  trackingNumber: string
+): Promise<OrderActionResult> {
+  return runOrderAction("The tracking number could not be saved", (actor) =>
+    saveOrderTracking(orderId, parseTracking(carrier, trackingNumber), actor)
+  );
+}
+
+// Return the whole payment of an order to the customer
+export async function refundOrderPayment(
+  orderId: string,
+  note: string
+): Promise<OrderActionResult> {
+  return runOrderAction("The order could not be refunded", (actor) =>
+    refundOrder(orderId, parseOrderNote(note), actor)
+  );
+}
@@ -0,0 +1,41 @@
+import AdminOrdersPageContent from "./AdminOrdersPageContent";
+import { ORDER_TRANSITIONS } from "@/lib/orderWorkflow";
+import { searchOrders } from "@/services/orderServices";
+import { OrderFilters, OrderStatus } from "@/types/order";
+
+// Orders change at runtime, so this page is never statically generated
+export const dynamic = "force-dynamic";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Read the list filters from the query string, dropping values that aren't valid
+const parseFilters = (params: Record<string, string | undefined>) => {
+  const status = params.status || "";
+  return {
+    status: Object.hasOwn(ORDER_TRANSITIONS, status)
+      ? (status as OrderStatus)
+      : "",
+    from: DATE_PATTERN.test(params.from || "") ? params.from! : "",
+    to: DATE_PATTERN.test(params.to || "") ? params.to! : "",
+    customer: (params.customer || "").trim(),
+  } satisfies OrderFilters;
+};
+
+// Admin order list, filtered by status, date placed and customer
+const AdminOrders = async ({
+  searchParams,
+}: {
+  searchParams: Promise<{
+    status?: string;
+    from?: string;
+    to?: string;
+    customer?: string;
+  }>;
+}) => {
+  const filters = parseFilters(await searchParams);
+  const orders = await searchOrders(filters);
+
+  return <AdminOrdersPageContent filters={filters} orders={orders} />;
+};
+
+export default AdminOrders;
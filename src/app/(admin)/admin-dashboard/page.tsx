@@ -1,7 +1,23 @@
 import AdminPortalContent from "./AdminPortalContent";
+import { parseDateRange } from "@/lib/analytics";
+import { fetchStoreAnalytics } from "@/services/analyticsServices";
+import { requireRole } from "@/services/authServices";
 
-const AdminPortal = () => {
-  return <AdminPortalContent />;
+// The figures come from live orders and carts, so this page is never statically generated
+export const dynamic = "force-dynamic";
+
+// Admin dashboard: store analytics for a date range, and the entry point to the admin screens
+const AdminPortal = async ({
+  searchParams,
+}: {
+  searchParams: Promise<{ from?: string; to?: string }>;
+}) => {
+  const user = await requireRole(["admin"]);
+  const analytics = await fetchStoreAnalytics(
+    parseDateRange(await searchParams)
+  );
+
+  return <AdminPortalContent user={user} analytics={analytics} />;
 };
 
 export default AdminPortal;
@@ -0,0 +1,202 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { ChevronDownIcon, ChevronUpIcon } from "@heroicons/react/20/solid";
+import { formatMoney } from "@/lib/money";
+import { stockStatusOf } from "@/lib/productValidation";
+import { Product } from "@/types/product";
+
+type SortKey = "name" | "category" | "price" | "stock";
+
+interface AdminProductsPageContentProps {
+  products: Product[]; // The whole catalog, admin changes applied
+}
+
+// Units that can be sold, for sorting: unlimited sorts above any number
+const stockRank = (product: Product) =>
+  product.stockQuantity === null ? Infinity : product.stockQuantity;
+
+const SORT_VALUES: Record<SortKey, (product: Product) => string | number> = {
+  name: (product) => product.name.toLowerCase(),
+  category: (product) => product.color.toLowerCase(),
+  price: (product) => product.price.amount,
+  stock: stockRank,
+};
+
+const COLUMNS: { key: SortKey; label: string; className?: string }[] = [
+  { key: "name", label: "Product" },
+  { key: "category", label: "Categories" },
+  { key: "price", label: "Price", className: "text-right" },
+  { key: "stock", label: "Stock" },
+];
+
+const stockLabel = (product: Product) => {
+  switch (stockStatusOf(product)) {
+    case "out-of-stock":
+      return "Out of stock";
+    case "backorder":
+      return `Backorder (${product.leadTime})`;
+    default:
+      return product.stockQuantity === null
+        ? "In stock"
+        : `${product.stockQuantity} in stock`;
+  }
+};
+
+const AdminProductsPageContent = ({
+  products,
+}: AdminProductsPageContentProps) => {
+  const [query, setQuery] = useState("");
+  const [sortKey, setSortKey] = useState<SortKey>("name");
+  const [descending, setDescending] = useState(false);
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const rows = products
+    .filter(
+      (product) =>
+        !normalizedQuery ||
+        [
+          product.name,
+          product.slug,
+          ...product.breadcrumbs.map((category) => category.name),
+        ].some((value) => value.toLowerCase().includes(normalizedQuery))
+    )
+    .sort((a, b) => {
+      const valueA = SORT_VALUES[sortKey](a);
+      const valueB = SORT_VALUES[sortKey](b);
+      const order = valueA < valueB ? -1 : valueA > valueB ? 1 : 0;
+      return descending ? -order : order;
+    });
+
+  // Clicking the sorted column flips the direction; another column sorts ascending
+  const handleSort = (key: SortKey) => {
+    setDescending(key === sortKey ? !descending : false);
+    setSortKey(key);
+  };
+
+  return (
+    <main className="mx-auto max-w-6xl px-4 py-16 sm:px-6 lg:px-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold tracking-tight text-gray-900">
+          Products
+        </h1>
+        <Link
+          href="/admin-dashboard/products/new"
+          className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+        >
+          New product
+        </Link>
+      </div>
+
+      <div className="mt-8">
+        <label htmlFor="product-search" className="sr-only">
+          Search products
+        </label>
+        <input
+          id="product-search"
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by name, slug or category"
+          className="block w-full max-w-md rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
+        />
+        <p className="mt-2 text-sm text-gray-500">
+          {rows.length} of {products.length} products
+        </p>
+      </div>
+
+      <div className="mt-6 overflow-x-auto rounded-lg border border-gray-200 bg-white shadow-sm">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              {COLUMNS.map((column) => (
+                <th
+                  key={column.key}
+                  scope="col"
+                  aria-sort={
+                    sortKey === column.key
+                      ? descending
+                        ? "descending"
+                        : "ascending"
+                      : undefined
+                  }
+                  className={`px-4 py-3 font-semibold text-gray-900 ${column.className || "text-left"}`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => handleSort(column.key)}
+                    className="inline-flex items-center gap-1"
+                  >
+                    {column.label}
+                    {sortKey === column.key &&
+                      (descending ? (
+                        <ChevronDownIcon
+                          aria-hidden="true"
+                          className="size-4"
+                        />
+                      ) : (
+                        <ChevronUpIcon aria-hidden="true" className="size-4" />
+                      ))}
+                  </button>
+                </th>
+              ))}
+              <th scope="col" className="px-4 py-3">
+                <span className="sr-only">Edit</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {rows.map((product) => (
+              <tr key={product.id}>
+                <td className="px-4 py-3">
+                  <div className="flex items-center gap-3">
+                    {product.imageSrc && (
+                      <img
+                        alt=""
+                        src={product.imageSrc}
+                        className="size-10 flex-none rounded bg-gray-100 object-cover"
+                      />
+                    )}
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {product.name}
+                      </p>
+                      <p className="text-gray-500">/shop/{product.slug}</p>
+                    </div>
+                  </div>
+                </td>
+                <td className="px-4 py-3 text-gray-500">
+                  {product.breadcrumbs
+                    .map((category) => category.name)
+                    .join(", ")}
+                </td>
+                <td className="px-4 py-3 text-right text-gray-900">
+                  {formatMoney(product.price)}
+                </td>
+                <td className="px-4 py-3 text-gray-500">
+                  {stockLabel(product)}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  <Link
+                    href={`/admin-dashboard/products/${product.id}`}
+                    className="font-medium text-indigo-600 hover:text-indigo-500"
+                  >
+                    Edit<span className="sr-only">, {product.name}</span>
+                  </Link>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length === 0 && (
+          <p className="px-4 py-6 text-sm text-gray-500">
+            No products match your search.
+          </p>
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default AdminProductsPageContent;
@@ -0,0 +1,383 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ChevronDownIcon } from "@heroicons/react/20/solid";
+import { STORE_CURRENCY } from "@/lib/money";
+import { ProductFormValues, StockStatus } from "@/types/product";
+import { removeProduct, saveProduct } from "./actions";
+
+const inputClassName =
+  "block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6";
+
+const STOCK_STATUS_LABELS: Record<StockStatus, string> = {
+  "in-stock": "In stock",
+  backorder: "On backorder (ships after the lead time)",
+  "out-of-stock": "Out of stock",
+};
+
+const EMPTY_VALUES: ProductFormValues = {
+  name: "",
+  price: "",
+  description: "",
+  imageSrc: "",
+  imageAlt: "",
+  categories: "",
+  stockStatus: "in-stock",
+  stockQuantity: "",
+  leadTime: "7 days",
+};
+
+/**
+ * ProductForm
+ *
+ * ## Purpose
+ * - The admin form to create a product or edit one: name, price, description, image, categories,
+ *   stock and lead time. Saving and deleting run the server actions in `./actions.ts`, then return
+ *   to the catalog.
+ *
+ * ## Parameters
+ * - `productId` (number | null): The product to edit, `null` to create one.
+ * - `initialValues` (ProductFormValues | null): The product's current values (`toProductFormValues`).
+ * - `variationCount` (number, optional): Variations of the product; they keep their own prices and
+ *   stock, which this form doesn't change.
+ */
+const ProductForm = ({
+  productId,
+  initialValues,
+  variationCount = 0,
+}: {
+  productId: number | null;
+  initialValues: ProductFormValues | null;
+  variationCount?: number;
+}) => {
+  const router = useRouter();
+  const values = initialValues || EMPTY_VALUES;
+  const [stockStatus, setStockStatus] = useState(values.stockStatus);
+  const [imageSrc, setImageSrc] = useState(values.imageSrc);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = new FormData(event.currentTarget);
+    const field = (name: keyof ProductFormValues) =>
+      String(form.get(name) || "");
+
+    setIsSaving(true);
+    setError(null);
+    setFieldErrors({});
+    const result = await saveProduct(productId, {
+      name: field("name"),
+      price: field("price"),
+      description: field("description"),
+      imageSrc: field("imageSrc"),
+      imageAlt: field("imageAlt"),
+      categories: field("categories"),
+      stockStatus: field("stockStatus") as StockStatus,
+      stockQuantity: field("stockQuantity"),
+      leadTime: field("leadTime"),
+    }).catch((error) => {
+      console.error("Error saving product:", error);
+      return null;
+    });
+    setIsSaving(false);
+
+    if (!result || result.error) {
+      setError(result?.error || "The product could not be saved.");
+      setFieldErrors(result?.fieldErrors || {});
+      return;
+    }
+    router.push("/admin-dashboard/products");
+  };
+
+  const handleDelete = async () => {
+    if (productId === null) return;
+    if (!window.confirm("Delete this product? It disappears from the shop.")) {
+      return;
+    }
+    setIsSaving(true);
+    const result = await removeProduct(productId).catch((error) => {
+      console.error("Error deleting product:", error);
+      return null;
+    });
+    setIsSaving(false);
+    if (!result || result.error) {
+      setError(result?.error || "The product could not be deleted.");
+      return;
+    }
+    router.push("/admin-dashboard/products");
+  };
+
+  const fieldError = (name: keyof ProductFormValues) =>
+    fieldErrors[name] && (
+      <p className="mt-2 text-sm text-red-600">{fieldErrors[name]}</p>
+    );
+
+  return (
+    <main className="mx-auto max-w-3xl px-4 py-16 sm:px-6 lg:px-8">
+      <Link
+        href="/admin-dashboard/products"
+        className="text-sm font-medium text-indigo-600 hover:text-indigo-500"
+      >
+        <span aria-hidden="true">&larr; </span>Products
+      </Link>
+      <h1 className="mt-6 text-3xl font-bold tracking-tight text-gray-900">
+        {productId === null ? "New product" : values.name}
+      </h1>
+
+      <form
+        onSubmit={handleSubmit}
+        noValidate
+        className="mt-8 grid grid-cols-1 gap-y-6 sm:grid-cols-2 sm:gap-x-4"
+      >
+        <div className="sm:col-span-2">
+          <label
+            htmlFor="name"
+            className="block text-sm/6 font-medium text-gray-700"
+          >
+            Name
+          </label>
+          <div className="mt-2">
+            <input
+              id="name"
+              name="name"
+              type="text"
+              defaultValue={values.name}
+              className={inputClassName}
+            />
+          </div>
+          {fieldError("name")}
+        </div>
+
+        <div>
+          <label
+            htmlFor="price"
+            className="block text-sm/6 font-medium text-gray-700"
+          >
+            Price ({STORE_CURRENCY})
+          </label>
+          <div className="mt-2">
+            <input
+              id="price"
+              name="price"
+              type="text"
+              inputMode="decimal"
+              placeholder="25.99"
+              defaultValue={values.price}
+              className={inputClassName}
+            />
+          </div>
+          {variationCount > 0 && (
+            <p className="mt-2 text-sm text-gray-500">
+              Shown as the &ldquo;from&rdquo; price. Its {variationCount}{" "}
+              variations keep their own prices and stock; change them in
+              WooCommerce.
+            </p>
+          )}
+          {fieldError("price")}
+        </div>
+
+        <div>
+          <label
+            htmlFor="categories"
+            className="block text-sm/6 font-medium text-gray-700"
+          >
+            Categories
+          </label>
+          <div className="mt-2">
+            <input
+              id="categories"
+              name="categories"
+              type="text"
+              placeholder="Mexican, Bar & Grill"
+              defaultValue={values.categories}
+              className={inputClassName}
+            />
+          </div>
+          <p className="mt-2 text-sm text-gray-500">
+            Comma-separated, shown as breadcrumbs. The first one is the
+            product&apos;s subtitle.
+          </p>
+        </div>
+
+        <div className="sm:col-span-2">
+          <label
+            htmlFor="description"
+            className="block text-sm/6 font-medium text-gray-700"
+          >
+            Description
+          </label>
+          <div className="mt-2">
+            <textarea
+              id="description"
+              name="description"
+              rows={5}
+              defaultValue={values.description}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        <div className="sm:col-span-2 flex gap-4">
+          {imageSrc && (
+            <img
+              alt=""
+              src={imageSrc}
+              className="size-24 flex-none rounded-md bg-gray-100 object-cover"
+            />
+          )}
+          <div className="grid flex-auto grid-cols-1 gap-y-6">
+            <div>
+              <label
+                htmlFor="imageSrc"
+                className="block text-sm/6 font-medium text-gray-700"
+              >
+                Image URL
+              </label>
+              <div className="mt-2">
+                <input
+                  id="imageSrc"
+                  name="imageSrc"
+                  type="url"
+                  value={imageSrc}
+                  onChange={(e) => setImageSrc(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              {fieldError("imageSrc")}
+            </div>
+            <div>
+              <label
+                htmlFor="imageAlt"
+                className="block text-sm/6 font-medium text-gray-700"
+              >
+                Image description
+              </label>
+              <div className="mt-2">
+                <input
+                  id="imageAlt"
+                  name="imageAlt"
+                  type="text"
+                  defaultValue={values.imageAlt}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <label
+            htmlFor="stockStatus"
+            className="block text-sm/6 font-medium text-gray-700"
+          >
+            Stock
+          </label>
+          <div className="mt-2 grid grid-cols-1">
+            <select
+              id="stockStatus"
+              name="stockStatus"
+              value={stockStatus}
+              onChange={(e) => setStockStatus(e.target.value as StockStatus)}
+              className="col-start-1 row-start-1 w-full appearance-none rounded-md bg-white py-2 pl-3 pr-8 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
+            >
+              {(Object.keys(STOCK_STATUS_LABELS) as StockStatus[]).map(
+                (status) => (
+                  <option key={status} value={status}>
+                    {STOCK_STATUS_LABELS[status]}
+                  </option>
+                )
+              )}
+            </select>
+            <ChevronDownIcon
+              aria-hidden="true"
+              className="pointer-events-none col-start-1 row-start-1 mr-2 size-5 self-center justify-self-end fill-gray-500 sm:size-4"
+            />
+          </div>
+          {fieldError("stockStatus")}
+        </div>
+
+        <div>
+          <label
+            htmlFor="stockQuantity"
+            className="block text-sm/6 font-medium text-gray-700"
+          >
+            Units in stock
+          </label>
+          <div className="mt-2">
+            <input
+              id="stockQuantity"
+              name="stockQuantity"
+              type="number"
+              min={0}
+              placeholder="Not tracked"
+              disabled={stockStatus !== "in-stock"}
+              defaultValue={values.stockQuantity}
+              className={`${inputClassName} disabled:bg-gray-50 disabled:text-gray-400`}
+            />
+          </div>
+          {fieldError("stockQuantity")}
+        </div>
+
+        <div>
+          <label
+            htmlFor="leadTime"
+            className="block text-sm/6 font-medium text-gray-700"
+          >
+            Lead time
+          </label>
+          <div className="mt-2">
+            <input
+              id="leadTime"
+              name="leadTime"
+              type="text"
+              placeholder="7 days"
+              defaultValue={values.leadTime}
+              className={inputClassName}
+            />
+          </div>
+          <p className="mt-2 text-sm text-gray-500">
+            How long backorders take to ship, e.g. 7 days or 2 weeks.
+          </p>
+          {fieldError("leadTime")}
+        </div>
+
+        {error && (
+          <p
+            role="alert"
+            className="sm:col-span-2 rounded-md bg-red-50 p-3 text-sm font-medium text-red-700"
+          >
+            {error}
+          </p>
+        )}
+
+        <div className="sm:col-span-2 flex items-center justify-between border-t border-gray-200 pt-6">
+          {productId !== null ? (
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={isSaving}
+              className="text-sm font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+            >
+              Delete product
+            </button>
+          ) : (
+            <span />
+          )}
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isSaving ? "Saving…" : "Save product"}
+          </button>
+        </div>
+      </form>
+    </main>
+  );
+};
+
+export default ProductForm;
@@ -0,0 +1,33 @@
+import { notFound } from "next/navigation";
+import ProductForm from "../ProductForm";
+import { toProductFormValues } from "@/lib/productValidation";
+import { fetchProductById } from "@/services/productServices";
+
+// Always edit the current version of the product
+export const dynamic = "force-dynamic";
+
+// Edit product page
+const EditProduct = async ({
+  params,
+}: {
+  params: Promise<{ productId: string }>;
+}) => {
+  const productId = Number((await params).productId);
+  const { product } = Number.isInteger(productId)
+    ? await fetchProductById(productId)
+    : { product: null };
+
+  if (!product) {
+    notFound();
+  }
+
+  return (
+    <ProductForm
+      productId={product.id}
+      initialValues={toProductFormValues(product)}
+      variationCount={product.variations.length}
+    />
+  );
+};
+
+export default EditProduct;
@@ -0,0 +1,96 @@
+"use server";
+
+/**
+ * Admin Product Actions
+ *
+ * ## Purpose
+ * - Server actions behind the admin catalog forms: create, edit and delete products. Changes go to
+ *   the catalog overlay in the JSON file store (see `productServices`), and the shop pages are
+ *   revalidated so `/shop` shows them on the next request.
+ *
+ * ## Error Handling
+ * - Every action checks the signed-in account is an admin (`requireRole`), as server actions can be
+ *   called without going through the admin pages.
+ * - Validation errors are answered with the form's `fieldErrors` instead of being thrown.
+ */
+import { revalidatePath, revalidateTag } from "next/cache";
+import {
+  parseProductForm,
+  ProductValidationError,
+} from "@/lib/productValidation";
+import { requireRole } from "@/services/authServices";
+import {
+  createProduct,
+  deleteProduct,
+  updateProduct,
+} from "@/services/productServices";
+import { ProductActionResult, ProductFormValues } from "@/types/product";
+
+const notFound: ProductActionResult = {
+  error: "This product no longer exists.",
+  fieldErrors: {},
+  productId: null,
+};
+
+// Drop every cached page that lists or shows products
+const revalidateCatalog = () => {
+  revalidateTag("products");
+  revalidatePath("/shop");
+  revalidatePath("/shop/[slug]", "page");
+  revalidatePath("/admin-dashboard/products");
+};
+
+// Create a product (`productId` is `null`) or save the form over an existing one
+export async function saveProduct(
+  productId: number | null,
+  values: ProductFormValues
+): Promise<ProductActionResult> {
+  await requireRole(["admin"]);
+
+  try {
+    const fields = parseProductForm(values);
+    const product =
+      productId === null
+        ? await createProduct(fields)
+        : await updateProduct(productId, fields);
+    if (!product) return notFound;
+
+    revalidateCatalog();
+    return { error: null, fieldErrors: {}, productId: product.id };
+  } catch (error) {
+    if (error instanceof ProductValidationError) {
+      return {
+        error: error.message,
+        fieldErrors: error.fieldErrors,
+        productId: null,
+      };
+    }
+    console.error("Error saving product:", error);
+    return {
+      error: "The product could not be saved. Please try again.",
+      fieldErrors: {},
+      productId: null,
+    };
+  }
+}
+
+// Remove a product from the shop
+export async function removeProduct(
+  productId: number
+): Promise<ProductActionResult> {
+  await requireRole(["admin"]);
+
+  try {
+    if (!(await deleteProduct(productId))) return notFound;
+
+    revalidateCatalog();
+    return { error: null, fieldErrors: {}, productId };
+  } catch (error) {
+    console.error("Error deleting product:", error);
+    return {
+      error: "The product could not be deleted. Please try again.",
+      fieldErrors: {},
+      productId: null,
+    };
+  }
+}
@@ -0,0 +1,8 @@
+import ProductForm from "../ProductForm";
+
+// New product page
+const NewProduct = () => {
+  return <ProductForm productId={null} initialValues={null} />;
+};
+
+export default NewProduct;
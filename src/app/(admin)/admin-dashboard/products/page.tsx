@@ -0,0 +1,14 @@
+import AdminProductsPageContent from "./AdminProductsPageContent";
+import { fetchAllProducts } from "@/services/productServices";
+
+// Admin changes must show up right away, so this page is never statically generated
+export const dynamic = "force-dynamic";
+
+// Admin catalog: every product, searchable and sortable
+const AdminProducts = async () => {
+  const products = await fetchAllProducts();
+
+  return <AdminProductsPageContent products={products} />;
+};
+
+export default AdminProducts;
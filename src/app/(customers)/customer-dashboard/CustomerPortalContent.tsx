@@ -1,30 +1,98 @@
-import BackButton from "@/components/common/BackButton";
-import Page from "@/components/common/Page";
-import Row from "@/components/common/Row";
-import { Button } from "@/components/ui/button";
-import Head from "next/head";
 import Link from "next/link";
-import React from "react";
+import OrderStatusBadge from "@/components/orders/OrderStatusBadge";
+import { formatMoney } from "@/lib/money";
+import { SessionUser } from "@/types/auth";
+import { Order } from "@/types/order";
 
-const CustomerPortalContent = () => {
+interface CustomerPortalContentProps {
+  user: SessionUser; // The signed-in customer
+  orders: Order[]; // Their orders, newest first
+}
+
+const formatDate = (isoDate: string) =>
+  new Intl.DateTimeFormat("en-US", { dateStyle: "medium" }).format(
+    new Date(isoDate)
+  );
+
+const CustomerPortalContent = ({
+  user,
+  orders,
+}: CustomerPortalContentProps) => {
   return (
-    <>
-      <Head>
-        <title>CustomerPortalContent</title>
-        <meta name="description" content="This is the template page" />
-      </Head>
-      <Page className={""} FULL={false}>
-        <Row className="prose">
-          <h1>This is the Customer Portal Dashboard Page</h1>
-          <p>
-            Lorem ipsum, dolor sit amet consectetur adipisicing elit. Dolores
-            molestias corrupti eius possimus iure, reiciendis reprehenderit fuga
-            officia accusantium tempora quos, beatae harum quia officiis, ut
-            porro natus sequi veniam.
-          </p>
-        </Row>
-      </Page>
-    </>
+    <main className="mx-auto max-w-4xl px-4 py-16 sm:px-6 lg:px-8">
+      <h1 className="text-3xl font-bold tracking-tight text-gray-900">
+        Order history
+      </h1>
+      <p className="mt-2 text-sm text-gray-500">
+        Signed in as {user.email}. Check the status of your orders, download
+        invoices and buy again.
+      </p>
+
+      {orders.length === 0 ? (
+        <div className="mt-12 text-sm text-gray-500">
+          <p>You haven’t placed any orders yet.</p>
+          <Link
+            href="/shop"
+            className="mt-4 inline-block font-medium text-indigo-600 hover:text-indigo-500"
+          >
+            Start shopping<span aria-hidden="true"> &rarr;</span>
+          </Link>
+        </div>
+      ) : (
+        <ul role="list" className="mt-12 space-y-6">
+          {orders.map((order) => (
+            <li
+              key={order.id}
+              className="rounded-lg border border-gray-200 bg-white shadow-sm"
+            >
+              <div className="flex flex-wrap items-center gap-x-8 gap-y-4 border-b border-gray-200 p-4 text-sm sm:p-6">
+                <dl className="grid flex-1 grid-cols-2 gap-x-6 gap-y-4 sm:grid-cols-3">
+                  <div>
+                    <dt className="font-medium text-gray-900">Order number</dt>
+                    <dd className="mt-1 text-gray-500">
+                      {order.id.slice(0, 8)}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="font-medium text-gray-900">Date placed</dt>
+                    <dd className="mt-1 text-gray-500">
+                      <time dateTime={order.createdAt}>
+                        {formatDate(order.createdAt)}
+                      </time>
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="font-medium text-gray-900">Total amount</dt>
+                    <dd className="mt-1 font-medium text-gray-900">
+                      {formatMoney(order.total)}
+                    </dd>
+                  </div>
+                </dl>
+                <OrderStatusBadge status={order.status} />
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-4 p-4 text-sm sm:p-6">
+                <p className="text-gray-500">
+                  {order.lines
+                    .map((line) =>
+                      line.quantity > 1
+                        ? `${line.name} × ${line.quantity}`
+                        : line.name
+                    )
+                    .join(", ")}
+                </p>
+                <Link
+                  href={`/customer-dashboard/orders/${order.id}`}
+                  className="whitespace-nowrap font-medium text-indigo-600 hover:text-indigo-500"
+                >
+                  View order<span aria-hidden="true"> &rarr;</span>
+                </Link>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </main>
   );
 };
 
@@ -0,0 +1,104 @@
+import Link from "next/link";
+import OrderStatusBadge from "@/components/orders/OrderStatusBadge";
+import OrderSummary from "@/components/orders/OrderSummary";
+import ReorderButton from "@/components/orders/ReorderButton";
+import { PAYMENT_METHODS } from "@/config/checkout";
+import { formatDeliveryEstimate } from "@/lib/shipping";
+import { Order } from "@/types/order";
+
+interface OrderDetailPageContentProps {
+  order: Order; // One of the signed-in customer's orders
+}
+
+const OrderDetailPageContent = ({ order }: OrderDetailPageContentProps) => {
+  const { shippingAddress } = order;
+  const paymentMethod = PAYMENT_METHODS.find(
+    (method) => method.id === order.paymentMethodId
+  );
+
+  return (
+    <main className="mx-auto max-w-3xl px-4 py-16 sm:px-6 lg:px-8">
+      <Link
+        href="/customer-dashboard"
+        className="text-sm font-medium text-indigo-600 hover:text-indigo-500"
+      >
+        <span aria-hidden="true">&larr; </span>Order history
+      </Link>
+
+      <div className="mt-6 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight text-gray-900">
+            Order {order.id.slice(0, 8)}
+          </h1>
+          <p className="mt-2 text-sm text-gray-500">
+            Placed on{" "}
+            <time dateTime={order.createdAt}>
+              {new Intl.DateTimeFormat("en-US", { dateStyle: "long" }).format(
+                new Date(order.createdAt)
+              )}
+            </time>
+          </p>
+        </div>
+        <OrderStatusBadge status={order.status} />
+      </div>
+
+      <div className="mt-6 flex flex-wrap gap-4">
+        <ReorderButton order={order} />
+        <a
+          href={`/api/orders/${order.id}/invoice`}
+          className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+        >
+          Download invoice
+        </a>
+      </div>
+
+      <OrderSummary order={order} />
+
+      <dl className="mt-16 grid grid-cols-1 gap-8 text-sm text-gray-600 sm:grid-cols-3">
+        <div>
+          <dt className="font-medium text-gray-900">Shipping Address</dt>
+          <dd className="mt-2">
+            <address className="not-italic">
+              <span className="block">
+                {shippingAddress.firstName} {shippingAddress.lastName}
+              </span>
+              {shippingAddress.company && (
+                <span className="block">{shippingAddress.company}</span>
+              )}
+              <span className="block">
+                {shippingAddress.address}
+                {shippingAddress.apartment && `, ${shippingAddress.apartment}`}
+              </span>
+              <span className="block">
+                {shippingAddress.city}, {shippingAddress.region}{" "}
+                {shippingAddress.postalCode}
+              </span>
+              <span className="block">{shippingAddress.country}</span>
+            </address>
+          </dd>
+        </div>
+        <div>
+          <dt className="font-medium text-gray-900">Delivery</dt>
+          <dd className="mt-2">
+            <p>{order.delivery.title}</p>
+            <p>{formatDeliveryEstimate(order.delivery.estimate)}</p>
+            {order.tracking && (
+              <p>
+                Tracking: {order.tracking.carrier} {order.tracking.number}
+              </p>
+            )}
+          </dd>
+        </div>
+        <div>
+          <dt className="font-medium text-gray-900">Payment</dt>
+          <dd className="mt-2">
+            <p>{paymentMethod?.title || order.paymentMethodId}</p>
+            <p>Receipts sent to {order.email}</p>
+          </dd>
+        </div>
+      </dl>
+    </main>
+  );
+};
+
+export default OrderDetailPageContent;
@@ -0,0 +1,26 @@
+import { notFound } from "next/navigation";
+import OrderDetailPageContent from "./OrderDetailPageContent";
+import { requireRole } from "@/services/authServices";
+import { fetchOrderById } from "@/services/orderServices";
+
+// Orders change at runtime, so this page is never statically generated
+export const dynamic = "force-dynamic";
+
+// Order detail page; customers only see their own orders
+const OrderDetail = async ({
+  params,
+}: {
+  params: Promise<{ orderId: string }>;
+}) => {
+  const user = await requireRole(["customer", "admin"]);
+  const { orderId } = await params;
+  const order = await fetchOrderById(orderId);
+
+  if (!order || order.userId !== user.id) {
+    notFound();
+  }
+
+  return <OrderDetailPageContent order={order} />;
+};
+
+export default OrderDetail;
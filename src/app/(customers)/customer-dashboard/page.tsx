@@ -1,7 +1,16 @@
 import CustomerPortalContent from "./CustomerPortalContent";
+import { requireRole } from "@/services/authServices";
+import { fetchOrdersByUser } from "@/services/orderServices";
 
-const CustomerPortal = () => {
-  return <CustomerPortalContent />;
+// Orders change at runtime, so this page is never statically generated
+export const dynamic = "force-dynamic";
+
+// Customer dashboard: the signed-in customer's order history
+const CustomerPortal = async () => {
+  const user = await requireRole(["customer", "admin"]);
+  const orders = await fetchOrdersByUser(user.id);
+
+  return <CustomerPortalContent user={user} orders={orders} />;
 };
 
 export default CustomerPortal;
@@ -1,20 +1,22 @@
-"use client";
-
 import { ReactNode } from "react";
 import Navbar from "@/components/global/Navbar";
 import Sidebar from "@/components/common/Sidebar";
+import { requireRole } from "@/services/authServices";
 
 interface LayoutProps {
   children: ReactNode;
 }
 
-const MemberLayout = ({ children }: LayoutProps) => {
+// Only signed-in customers (and admins); the middleware checks first, this guard checks the stored account again
+const MemberLayout = async ({ children }: LayoutProps) => {
+  const user = await requireRole(["customer", "admin"]);
+
   return (
     <div className="flex flex-col min-h-screen">
       {/* <Navbar /> */}
       <section className="flex flex-1">
         <div className="hidden md:block h-auto flex-shrink-0 border-4 w-[25rem]">
-          <Sidebar />
+          <Sidebar role={user.role} />
         </div>
         <div className="flex-grow">{children}</div>
       </section>
@@ -0,0 +1,204 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import AddressForm from "@/components/profile/AddressForm";
+import { formatAddress, savedAddressTitle } from "@/lib/addresses";
+import { AddressBook, SavedAddress } from "@/types/address";
+import { SessionUser } from "@/types/auth";
+
+interface ProfilePageContentProps {
+  user: SessionUser; // The signed-in customer
+  initialAddressBook: AddressBook; // Their address book when the page loaded
+}
+
+const ProfilePageContent = ({
+  user,
+  initialAddressBook,
+}: ProfilePageContentProps) => {
+  const [addressBook, setAddressBook] = useState(initialAddressBook);
+  // The address being edited, "new" while adding one, `null` when the form is closed
+  const [editing, setEditing] = useState<SavedAddress | "new" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSaved = (updated: AddressBook) => {
+    setAddressBook(updated);
+    setEditing(null);
+  };
+
+  const handleRemove = async (saved: SavedAddress) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/addresses/${saved.id}`, {
+        method: "DELETE",
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || "The address could not be removed.");
+        return;
+      }
+      setAddressBook(result.addressBook);
+    } catch (error) {
+      console.error("Error removing address:", error);
+      setError("The address could not be removed. Please try again.");
+    }
+  };
+
+  const handleMakeDefault = async (saved: SavedAddress) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/addresses/${saved.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          label: saved.label,
+          address: saved.address,
+          isDefault: true,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || "The default address could not be changed.");
+        return;
+      }
+      setAddressBook(result.addressBook);
+    } catch (error) {
+      console.error("Error changing default address:", error);
+      setError("The default address could not be changed. Please try again.");
+    }
+  };
+
+  return (
+    <main className="mx-auto max-w-3xl px-4 py-16 sm:px-6 lg:px-8">
+      <h1 className="text-3xl font-bold tracking-tight text-gray-900">
+        Profile
+      </h1>
+
+      <dl className="mt-8 grid grid-cols-1 gap-6 rounded-lg border border-gray-200 bg-white p-6 text-sm shadow-sm sm:grid-cols-2">
+        <div>
+          <dt className="font-medium text-gray-900">Name</dt>
+          <dd className="mt-1 text-gray-500">{user.name}</dd>
+        </div>
+        <div>
+          <dt className="font-medium text-gray-900">Email address</dt>
+          <dd className="mt-1 text-gray-500">{user.email}</dd>
+        </div>
+        <div className="sm:col-span-2 flex gap-6">
+          <Link
+            href="/customer-dashboard"
+            className="font-medium text-indigo-600 hover:text-indigo-500"
+          >
+            Order history
+          </Link>
+          <Link
+            href="/forgot-password"
+            className="font-medium text-indigo-600 hover:text-indigo-500"
+          >
+            Change password
+          </Link>
+        </div>
+      </dl>
+
+      <div className="mt-12 flex items-center justify-between">
+        <h2 className="text-lg font-medium text-gray-900">Address book</h2>
+        {editing === null && (
+          <button
+            type="button"
+            onClick={() => setEditing("new")}
+            className="text-sm font-medium text-indigo-600 hover:text-indigo-500"
+          >
+            Add address
+          </button>
+        )}
+      </div>
+      <p className="mt-1 text-sm text-gray-500">
+        Saved addresses can be picked at checkout; the default one is filled in
+        for you.
+      </p>
+
+      {error && (
+        <p
+          role="alert"
+          className="mt-4 rounded-md bg-red-50 p-3 text-sm font-medium text-red-700"
+        >
+          {error}
+        </p>
+      )}
+
+      {editing !== null && (
+        <div className="mt-6">
+          <AddressForm
+            key={editing === "new" ? "new" : editing.id}
+            saved={editing === "new" ? null : editing}
+            isDefault={
+              editing === "new"
+                ? addressBook.addresses.length === 0
+                : addressBook.defaultAddressId === editing.id
+            }
+            onSaved={handleSaved}
+            onCancel={() => setEditing(null)}
+          />
+        </div>
+      )}
+
+      {addressBook.addresses.length === 0 && editing === null ? (
+        <p className="mt-6 text-sm text-gray-500">
+          You haven’t saved any addresses yet.
+        </p>
+      ) : (
+        <ul role="list" className="mt-6 space-y-4">
+          {addressBook.addresses.map((saved) => (
+            <li
+              key={saved.id}
+              className="flex flex-wrap items-start justify-between gap-4 rounded-lg border border-gray-200 bg-white p-4 text-sm shadow-sm"
+            >
+              <div>
+                <p className="font-medium text-gray-900">
+                  {savedAddressTitle(saved)}
+                  {addressBook.defaultAddressId === saved.id && (
+                    <span className="ml-2 rounded-full bg-indigo-50 px-2 py-0.5 text-xs font-medium text-indigo-700">
+                      Default
+                    </span>
+                  )}
+                </p>
+                <p className="mt-1 text-gray-500">
+                  {saved.address.firstName} {saved.address.lastName}
+                  {saved.address.company && `, ${saved.address.company}`}
+                </p>
+                <p className="text-gray-500">{formatAddress(saved.address)}</p>
+                <p className="text-gray-500">{saved.address.phone}</p>
+              </div>
+              <div className="flex gap-4">
+                {addressBook.defaultAddressId !== saved.id && (
+                  <button
+                    type="button"
+                    onClick={() => handleMakeDefault(saved)}
+                    className="font-medium text-indigo-600 hover:text-indigo-500"
+                  >
+                    Make default
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setEditing(saved)}
+                  className="font-medium text-indigo-600 hover:text-indigo-500"
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(saved)}
+                  className="font-medium text-red-600 hover:text-red-500"
+                >
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </main>
+  );
+};
+
+export default ProfilePageContent;
@@ -0,0 +1,16 @@
+import ProfilePageContent from "./ProfilePageContent";
+import { fetchAddressBook } from "@/services/addressServices";
+import { requireRole } from "@/services/authServices";
+
+// The address book changes at runtime, so this page is never statically generated
+export const dynamic = "force-dynamic";
+
+// Profile page: account details and the address book
+const Profile = async () => {
+  const user = await requireRole(["customer", "admin"]);
+  const addressBook = await fetchAddressBook(user.id);
+
+  return <ProfilePageContent user={user} initialAddressBook={addressBook} />;
+};
+
+export default Profile;
@@ -4,10 +4,10 @@ import Row from "@/components/common/Row";
 import Page from "@/components/common/Page";
 import Head from "next/head";
 import { notFound } from "next/navigation";
-import { BlogPost } from "@/types/blog";
+import { BlogPostDetail } from "@/types/blog";
 
 interface Props {
-  post: BlogPost;
+  post: BlogPostDetail;
 }
 const SinglePostContent = async ({ post }: Props) => {
   // If no post is found, show a 404 page
@@ -25,7 +25,7 @@ const SinglePostContent = async ({ post }: Props) => {
         <Row className="prose max-w-3xl mx-auto bg-gray-200">
           <div
             className={styles["wp-content"]}
-            dangerouslySetInnerHTML={{ __html: post.content }}
+            dangerouslySetInnerHTML={{ __html: post.content ?? "" }}
           />
         </Row>
       </Page>
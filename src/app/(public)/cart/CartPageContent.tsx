@@ -1,12 +1,21 @@
 "use client";
 
+import CouponForm from "@/components/cart/CouponForm";
 import Spinner from "@/components/common/Spinner";
 import { Button } from "@/components/ui/button";
-import { useCartStore } from "@/store/useCartStore";
+import { useCartStore, usePromotions } from "@/store/useCartStore";
+import { useCurrencyStore, useConvertMoney } from "@/store/useCurrencyStore";
+import { ESTIMATE_LOCATION } from "@/config/checkout";
+import { cartLineStockIssue, maxOrderQuantity } from "@/lib/inventory";
+import { formatMoney, multiplyMoney, toMoney } from "@/lib/money";
+import { calculateOrderTotals } from "@/lib/orderTotals";
+import { describeVariation } from "@/lib/productVariations";
+import { calculateShippingRates, toShippableItems } from "@/lib/shipping";
 import { ChevronDownIcon } from "@heroicons/react/16/solid";
 import {
   CheckIcon,
   ClockIcon,
+  ExclamationTriangleIcon,
   QuestionMarkCircleIcon,
   XMarkIcon as XMarkIconMini,
 } from "@heroicons/react/20/solid";
@@ -22,14 +31,14 @@ const relatedProducts = [
     imageSrc:
       "https://res.cloudinary.com/dyb0qa58h/image/upload/v1699356460/bxnjpaubvbqedieglq2w.jpg",
     imageAlt: "Front of Billfold Wallet in natural leather.",
-    price: "$118",
+    price: toMoney("118"),
     color: "Natural",
   },
   {
     id: 2,
     name: "Basic Tee",
     href: "#",
-    price: "$32.00",
+    price: toMoney("32.00"),
     color: "Sienna",
     inStock: true,
     size: "Large",
@@ -41,7 +50,7 @@ const relatedProducts = [
     id: 3,
     name: "Basic Tee",
     href: "#",
-    price: "$32.00",
+    price: toMoney("32.00"),
     color: "Black",
     inStock: false,
     leadTime: "3–4 weeks",
@@ -54,7 +63,7 @@ const relatedProducts = [
     id: 4,
     name: "Nomad Tumbler",
     href: "#",
-    price: "$35.00",
+    price: toMoney("35.00"),
     color: "White",
     inStock: true,
     imageSrc:
@@ -69,12 +78,36 @@ const CartPageContent = () => {
   // Access Zustand store
   const {
     cartDetails,
-    subtotal,
     removeFromCart,
     setIsCartOpen,
     isLoading,
-    setCartItems,
+    updateCartQuantity,
+    stockShortages,
   } = useCartStore();
+  const currency = useCurrencyStore((state) => state.currency);
+  const convert = useConvertMoney();
+
+  const promotions = usePromotions();
+
+  // Cheapest shipping and taxes for the store's estimate location until checkout knows the address
+  const [cheapestRate] = calculateShippingRates({
+    items: toShippableItems(cartDetails()),
+    location: ESTIMATE_LOCATION,
+  }).sort((a, b) => a.price.amount - b.price.amount);
+  const totals = calculateOrderTotals({
+    lines: cartDetails().map((item) => ({
+      key: `${item.id}-${item.variationId}`,
+      lineTotal: multiplyMoney(
+        convert(item.variationDetails?.price || item.productDetails.price),
+        item.quantity
+      ),
+      taxClass: item.productDetails.taxClass,
+    })),
+    shipping: cheapestRate ? convert(cheapestRate.price) : null,
+    promotions,
+    location: ESTIMATE_LOCATION,
+    currency,
+  });
 
   // Closes the sidebar Cart Slide
   useEffect(() => {
@@ -91,16 +124,17 @@ const CartPageContent = () => {
   }
 
   // Handle quantity changes
-  const handleQuantityChange = (itemId: number, newQuantity: number) => {
-    const updatedCartItems = cartDetails().map((item) =>
-      item.id === itemId ? { ...item, quantity: newQuantity } : item
-    );
-    setCartItems(updatedCartItems); // Update Zustand store
+  const handleQuantityChange = (
+    itemId: number,
+    variationId: number | null,
+    newQuantity: number
+  ) => {
+    updateCartQuantity(itemId, variationId, newQuantity);
   };
 
   // Redirect to shop if cart is empty
-  const handleRemoveCartItem = (id: number) => {
-    removeFromCart(id);
+  const handleRemoveCartItem = (id: number, variationId: number | null) => {
+    removeFromCart(id, variationId);
     console.log("Cart Item Count: [CartPageContent]", cartDetails.length);
     if (cartDetails().length === 0) {
       router.push("/shop");
@@ -149,11 +183,20 @@ const CartPageContent = () => {
                 className="divide-y divide-gray-200 border-b border-t border-gray-200"
               >
                 {cartDetails().map((product) => (
-                  <li key={product.id} className="flex py-6 sm:py-10">
+                  <li
+                    key={`${product.id}-${product.variationId}`}
+                    className="flex py-6 sm:py-10"
+                  >
                     <div className="shrink-0">
                       <img
-                        alt={product.productDetails.imageAlt}
-                        src={product.productDetails.imageSrc}
+                        alt={
+                          product.variationDetails?.imageAlt ||
+                          product.productDetails.imageAlt
+                        }
+                        src={
+                          product.variationDetails?.imageSrc ||
+                          product.productDetails.imageSrc
+                        }
                         className="size-24 rounded-md object-cover sm:size-48"
                       />
                     </div>
@@ -164,7 +207,7 @@ const CartPageContent = () => {
                           <div className="flex justify-between">
                             <h3 className="text-sm">
                               <Link
-                                href={`/shop/${product.id}`}
+                                href={`/shop/${product.productDetails.slug}`}
                                 className="font-medium text-gray-700 hover:text-gray-800"
                               >
                                 {product.productDetails.name}
@@ -175,28 +218,49 @@ const CartPageContent = () => {
                             <p className="text-gray-500">
                               {product.productDetails.color}
                             </p>
+                            {product.variationDetails && (
+                              <p className="ml-4 border-l border-gray-200 pl-4 text-gray-500">
+                                {describeVariation(product.variationDetails)}
+                              </p>
+                            )}
                           </div>
                           <p className="mt-1 text-sm font-medium text-gray-900">
-                            {product.productDetails.price}
+                            {formatMoney(
+                              convert(
+                                product.variationDetails?.price ||
+                                  product.productDetails.price
+                              )
+                            )}
                           </p>
                         </div>
 
                         <div className="mt-4 sm:mt-0 sm:pr-9">
                           <div className="inline-grid w-full max-w-16 grid-cols-1">
                             <select
-                              id={`quantity-${product.id}`}
-                              name={`quantity-${product.id}`}
+                              id={`quantity-${product.id}-${product.variationId}`}
+                              name={`quantity-${product.id}-${product.variationId}`}
                               value={product.quantity}
                               aria-label={`Quantity, ${product.productDetails.name}`}
                               className="col-start-1 row-start-1 appearance-none rounded-md bg-white py-1.5 pl-3 pr-8 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 focus:outline focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
                               onChange={(e) =>
                                 handleQuantityChange(
                                   product.id,
+                                  product.variationId,
                                   parseInt(e.target.value, 10)
                                 )
                               }
                             >
-                              {[...Array(10).keys()].map((n) => (
+                              {[
+                                ...Array(
+                                  Math.max(
+                                    maxOrderQuantity(
+                                      product.productDetails,
+                                      product.variationDetails
+                                    ),
+                                    product.quantity
+                                  )
+                                ).keys(),
+                              ].map((n) => (
                                 <option key={n + 1} value={n + 1}>
                                   {n + 1}
                                 </option>
@@ -212,7 +276,12 @@ const CartPageContent = () => {
                             <button
                               type="button"
                               className="-m-2 inline-flex p-2 text-gray-400 hover:text-gray-500"
-                              onClick={() => handleRemoveCartItem(product.id)}
+                              onClick={() =>
+                                handleRemoveCartItem(
+                                  product.id,
+                                  product.variationId
+                                )
+                              }
                             >
                               <span className="sr-only">Remove</span>
                               <XMarkIconMini
@@ -224,25 +293,39 @@ const CartPageContent = () => {
                         </div>
                       </div>
 
-                      <p className="mt-4 flex space-x-2 text-sm text-gray-700">
-                        {product.productDetails.inStock ? (
-                          <CheckIcon
+                      {cartLineStockIssue(product, stockShortages) ? (
+                        <p className="mt-4 flex space-x-2 text-sm font-medium text-red-600">
+                          <ExclamationTriangleIcon
                             aria-hidden="true"
-                            className="size-5 shrink-0 text-green-500"
+                            className="size-5 shrink-0"
                           />
-                        ) : (
-                          <ClockIcon
-                            aria-hidden="true"
-                            className="size-5 shrink-0 text-gray-300"
-                          />
-                        )}
+                          <span>
+                            {cartLineStockIssue(product, stockShortages)}
+                          </span>
+                        </p>
+                      ) : (
+                        <p className="mt-4 flex space-x-2 text-sm text-gray-700">
+                          {(product.variationDetails?.inStock ??
+                          product.productDetails.inStock) ? (
+                            <CheckIcon
+                              aria-hidden="true"
+                              className="size-5 shrink-0 text-green-500"
+                            />
+                          ) : (
+                            <ClockIcon
+                              aria-hidden="true"
+                              className="size-5 shrink-0 text-gray-300"
+                            />
+                          )}
 
-                        <span>
-                          {product.productDetails.inStock
-                            ? "In stock"
-                            : `Ships in ${product.productDetails.leadTime}`}
-                        </span>
-                      </p>
+                          <span>
+                            {(product.variationDetails?.inStock ??
+                            product.productDetails.inStock)
+                              ? "In stock"
+                              : `Ships in ${product.productDetails.leadTime}`}
+                          </span>
+                        </p>
+                      )}
                     </div>
                   </li>
                 ))}
@@ -266,9 +349,27 @@ const CartPageContent = () => {
                 <div className="flex items-center justify-between">
                   <dt className="text-sm text-gray-600">Subtotal</dt>
                   <dd className="text-sm font-medium text-gray-900">
-                    ${subtotal()}
+                    {formatMoney(totals.subtotal)}
                   </dd>
                 </div>
+                {totals.discounts.map((discount) => (
+                  <div
+                    key={discount.promotionId}
+                    className="flex items-center justify-between border-t border-gray-200 pt-4"
+                  >
+                    <dt className="text-sm text-gray-600">
+                      {discount.label}
+                      {discount.code && (
+                        <span className="ml-2 rounded-full bg-gray-200 px-2 py-0.5 text-xs tracking-wide text-gray-600">
+                          {discount.code}
+                        </span>
+                      )}
+                    </dt>
+                    <dd className="text-sm font-medium text-green-600">
+                      -{formatMoney(discount.amount)}
+                    </dd>
+                  </div>
+                ))}
                 <div className="flex items-center justify-between border-t border-gray-200 pt-4">
                   <dt className="flex items-center text-sm text-gray-600">
                     <span>Shipping estimate</span>
@@ -285,11 +386,15 @@ const CartPageContent = () => {
                       />
                     </a>
                   </dt>
-                  <dd className="text-sm font-medium text-gray-900">$5.00</dd>
+                  <dd className="text-sm font-medium text-gray-900">
+                    {formatMoney(totals.shipping)}
+                  </dd>
                 </div>
                 <div className="flex items-center justify-between border-t border-gray-200 pt-4">
                   <dt className="flex text-sm text-gray-600">
-                    <span>Tax estimate</span>
+                    <span>
+                      {totals.taxes.inclusive ? "Includes tax" : "Tax estimate"}
+                    </span>
                     <a
                       href="#"
                       className="ml-2 shrink-0 text-gray-400 hover:text-gray-500"
@@ -303,18 +408,24 @@ const CartPageContent = () => {
                       />
                     </a>
                   </dt>
-                  <dd className="text-sm font-medium text-gray-900">$8.32</dd>
+                  <dd className="text-sm font-medium text-gray-900">
+                    {formatMoney(totals.taxes.total)}
+                  </dd>
                 </div>
                 <div className="flex items-center justify-between border-t border-gray-200 pt-4">
                   <dt className="text-base font-medium text-gray-900">
                     Order total
                   </dt>
                   <dd className="text-base font-medium text-gray-900">
-                    ${(subtotal() + 5.0 + 8.32).toFixed(2)}
+                    {formatMoney(totals.total)}
                   </dd>
                 </div>
               </dl>
 
+              <div className="mt-6 border-t border-gray-200 pt-6">
+                <CouponForm promotions={promotions} />
+              </div>
+
               <div className="mt-6">
                 <Link href={"/checkout"} type="submit">
                   <div className="text-center w-full rounded-md border border-transparent bg-indigo-600 px-4 py-3 text-base font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-gray-50">
@@ -360,7 +471,7 @@ const CartPageContent = () => {
                       </p>
                     </div>
                     <p className="text-sm font-medium text-gray-900">
-                      {relatedProduct.price}
+                      {formatMoney(convert(relatedProduct.price))}
                     </p>
                   </div>
                 </div>
@@ -7,40 +7,78 @@ import {
   ChevronDownIcon,
   TrashIcon,
 } from "@heroicons/react/20/solid";
-import { useEffect, useState } from "react";
+import { FormEvent, useEffect, useState } from "react";
+import CouponForm from "@/components/cart/CouponForm";
 import Spinner from "@/components/common/Spinner";
-import { useCartStore } from "@/store/useCartStore";
+import { useCartStore, usePromotions } from "@/store/useCartStore";
+import { useCurrencyStore, useConvertMoney } from "@/store/useCurrencyStore";
+import { PAYMENT_METHODS, SHIPPING_COUNTRIES } from "@/config/checkout";
+import { cartLineStockIssue, maxOrderQuantity } from "@/lib/inventory";
+import { formatMoney, multiplyMoney } from "@/lib/money";
+import { calculateOrderTotals } from "@/lib/orderTotals";
+import { describeVariation } from "@/lib/productVariations";
+import {
+  calculateShippingRates,
+  formatDeliveryEstimate,
+  toShippableItems,
+} from "@/lib/shipping";
+import { formatTaxLine } from "@/lib/taxes";
+import { formatAddress, savedAddressTitle } from "@/lib/addresses";
+import { AddressBook } from "@/types/address";
+import { SessionUser } from "@/types/auth";
+import { AddressLocation } from "@/types/order";
 import { useRouter } from "next/navigation";
-import Link from "next/link";
-
-const deliveryMethods = [
-  {
-    id: 1,
-    title: "Standard",
-    turnaround: "4–10 business days",
-    price: "$5.00",
-  },
-  { id: 2, title: "Express", turnaround: "2–5 business days", price: "$16.00" },
-];
-const paymentMethods = [
-  { id: "credit-card", title: "Credit card" },
-  { id: "paypal", title: "PayPal" },
-  { id: "etransfer", title: "eTransfer" },
-];
-
-const CheckoutPageContent = () => {
+
+// Value of the saved-address picker when the customer types in an address
+const NEW_ADDRESS = "new";
+
+interface CheckoutPageContentProps {
+  user: SessionUser | null; // The signed-in customer, `null` for guests
+  addressBook: AddressBook | null; // Their saved addresses, `null` for guests
+}
+
+const CheckoutPageContent = ({
+  user,
+  addressBook,
+}: CheckoutPageContentProps) => {
   const router = useRouter();
-  const [selectedDeliveryMethod, setSelectedDeliveryMethod] = useState(
-    deliveryMethods[0]
+  const savedAddresses = addressBook?.addresses || [];
+  // The saved address the form is filled in with; starts on the default address
+  const [selectedAddressId, setSelectedAddressId] = useState(
+    savedAddresses.find((saved) => saved.id === addressBook?.defaultAddressId)
+      ?.id || NEW_ADDRESS
   );
+  const selectedAddress =
+    savedAddresses.find((saved) => saved.id === selectedAddressId)?.address ||
+    null;
+  const [deliveryMethodId, setDeliveryMethodId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [paymentMethodId, setPaymentMethodId] = useState(PAYMENT_METHODS[0].id);
+  const [paymentError, setPaymentError] = useState<string | null>(null);
+  // Country and region of the shipping address, which decide shipping rates and taxes
+  const [destination, setDestination] = useState<AddressLocation>({
+    country: selectedAddress?.country || SHIPPING_COUNTRIES[0],
+    region: selectedAddress?.region || "",
+  });
   const {
+    cartItems,
+    couponCodes,
     cartDetails,
-    subtotal,
-    setCartItems,
+    clearCart,
+    updateCartQuantity,
     removeFromCart,
     isLoading,
     setIsCartOpen,
+    stockShortages,
+    setStockShortages,
+    reservationId,
+    reserveStock,
   } = useCartStore();
+  const currency = useCurrencyStore((state) => state.currency);
+  const convert = useConvertMoney();
+  const promotions = usePromotions();
 
   const cartData = cartDetails() || [];
 
@@ -49,27 +87,151 @@ const CheckoutPageContent = () => {
     setIsCartOpen(false);
   }, [setIsCartOpen]); // This runs once when the component mounts
 
-  const taxes = 5.52;
-  const shipping = 5.0;
-  const total = subtotal() + taxes + shipping;
+  // Hold the cart's stock while the customer fills in the form, again whenever the cart changes
+  useEffect(() => {
+    if (!isLoading && cartItems.length > 0) reserveStock();
+  }, [cartItems, isLoading, reserveStock]);
+
+  // Rates depend on the cart and the address; keep the chosen method while it's still offered
+  const shippingRates = calculateShippingRates({
+    items: toShippableItems(cartData),
+    location: destination,
+  });
+  const selectedRate =
+    shippingRates.find((rate) => rate.id === deliveryMethodId) ||
+    shippingRates[0] ||
+    null;
+  const hasStockIssues = cartData.some((item) =>
+    Boolean(cartLineStockIssue(item, stockShortages))
+  );
+  const { subtotal, discounts, shipping, taxes, total } = calculateOrderTotals({
+    lines: cartData.map((item) => ({
+      key: `${item.id}-${item.variationId}`,
+      lineTotal: multiplyMoney(
+        convert(item.variationDetails?.price || item.productDetails.price),
+        item.quantity
+      ),
+      taxClass: item.productDetails.taxClass,
+    })),
+    shipping: selectedRate ? convert(selectedRate.price) : null,
+    promotions,
+    location: destination,
+    currency,
+  });
 
   // Handle quantity changes
-  const handleQuantityChange = (itemId: number, newQuantity: number) => {
-    const updatedCartItems = cartDetails().map((item) =>
-      item.id === itemId ? { ...item, quantity: newQuantity } : item
-    );
-    setCartItems(updatedCartItems); // Update Zustand store
+  const handleQuantityChange = (
+    itemId: number,
+    variationId: number | null,
+    newQuantity: number
+  ) => {
+    updateCartQuantity(itemId, variationId, newQuantity);
+  };
+
+  // Fill the address fields in with a saved address (or empty them for a new one)
+  const handleSelectAddress = (addressId: string) => {
+    const saved = savedAddresses.find((item) => item.id === addressId);
+    setSelectedAddressId(addressId);
+    setDestination({
+      country: saved?.address.country || SHIPPING_COUNTRIES[0],
+      region: saved?.address.region || "",
+    });
   };
 
   // Redirect to shop if cart is empty
-  const handleRemoveCartItem = (id: number) => {
-    removeFromCart(id);
+  const handleRemoveCartItem = (id: number, variationId: number | null) => {
+    removeFromCart(id, variationId);
     // console.log("Cart Item Count: [CheckoutPageContent]", cartDetails.length);
     if (cartDetails().length === 0) {
       router.push("/shop");
     }
   };
 
+  // Place the order; the server re-prices the cart, so only ids and quantities are sent
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = new FormData(event.currentTarget);
+    const field = (name: string) => String(form.get(name) || "");
+
+    setIsSubmitting(true);
+    setFieldErrors({});
+    setSubmitError(null);
+    setPaymentError(null);
+    try {
+      const response = await fetch("/api/create-order", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          email: field("email-address"),
+          shippingAddress: {
+            firstName: field("first-name"),
+            lastName: field("last-name"),
+            company: field("company"),
+            address: field("address"),
+            apartment: field("apartment"),
+            city: field("city"),
+            country: field("country"),
+            region: field("region"),
+            postalCode: field("postal-code"),
+            phone: field("phone"),
+          },
+          deliveryMethodId: selectedRate?.id,
+          paymentMethodId,
+          card:
+            paymentMethodId === "credit-card"
+              ? {
+                  number: field("card-number"),
+                  name: field("name-on-card"),
+                  expiry: field("expiration-date"),
+                  cvc: field("cvc"),
+                }
+              : null,
+          currency,
+          items: cartItems.map(({ id, variationId, quantity }) => ({
+            id,
+            variationId,
+            quantity,
+          })),
+          couponCodes,
+          reservationId,
+          saveAddress: form.get("save-address") === "on",
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        // Payment failures carry a `code` and are shown next to the payment fields
+        // Stock ran out since the cart was reserved; flag the affected lines
+        if (result.shortages) {
+          setStockShortages(result.shortages);
+          setSubmitError(result.error);
+          return;
+        }
+        if (result.code) {
+          setPaymentError(result.error);
+          return;
+        }
+        setFieldErrors(result.fieldErrors || {});
+        setSubmitError(result.error || "Your order could not be placed.");
+        return;
+      }
+
+      // The bank wants a confirmation first; the cart is cleared once it's given
+      if (result.actionUrl) {
+        router.push(result.actionUrl);
+        return;
+      }
+
+      clearCart();
+      router.push(`/thankyou/${result.orderId}`);
+    } catch (error) {
+      console.error("Error placing order:", error);
+      setSubmitError("Your order could not be placed. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   // Makes sure Zustand states are loaded
   if (isLoading) {
     return (
@@ -85,7 +247,11 @@ const CheckoutPageContent = () => {
         <div className="mx-auto max-w-2xl lg:max-w-none">
           <h1 className="">Checkout</h1>
 
-          <form className="lg:grid lg:grid-cols-2 lg:gap-x-12 xl:gap-x-16">
+          <form
+            className="lg:grid lg:grid-cols-2 lg:gap-x-12 xl:gap-x-16"
+            onSubmit={handleSubmit}
+            noValidate
+          >
             {/* Left Panel - Shipping and Contact Info */}
             <div>
               <div>
@@ -106,6 +272,7 @@ const CheckoutPageContent = () => {
                       name="email-address"
                       type="email"
                       autoComplete="email"
+                      defaultValue={user?.email}
                       className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
                     />
                   </div>
@@ -117,7 +284,42 @@ const CheckoutPageContent = () => {
                   Shipping information
                 </h2>
 
-                <div className="mt-4 grid grid-cols-1 gap-y-6 sm:grid-cols-2 sm:gap-x-4">
+                {savedAddresses.length > 0 && (
+                  <div className="mt-4">
+                    <label
+                      htmlFor="saved-address"
+                      className="block text-sm/6 font-medium text-gray-700"
+                    >
+                      Saved addresses
+                    </label>
+                    <div className="mt-2 grid grid-cols-1">
+                      <select
+                        id="saved-address"
+                        value={selectedAddressId}
+                        onChange={(e) => handleSelectAddress(e.target.value)}
+                        className="col-start-1 row-start-1 w-full appearance-none rounded-md bg-white py-2 pl-3 pr-8 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
+                      >
+                        {savedAddresses.map((saved) => (
+                          <option key={saved.id} value={saved.id}>
+                            {savedAddressTitle(saved)} —{" "}
+                            {formatAddress(saved.address)}
+                          </option>
+                        ))}
+                        <option value={NEW_ADDRESS}>Use a new address</option>
+                      </select>
+                      <ChevronDownIcon
+                        aria-hidden="true"
+                        className="pointer-events-none col-start-1 row-start-1 mr-2 size-5 self-center justify-self-end fill-gray-500 sm:size-4"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {/* Keyed by the picked address, so its uncontrolled fields start over with its values */}
+                <div
+                  key={selectedAddressId}
+                  className="mt-4 grid grid-cols-1 gap-y-6 sm:grid-cols-2 sm:gap-x-4"
+                >
                   <div>
                     <label
                       htmlFor="first-name"
@@ -130,6 +332,7 @@ const CheckoutPageContent = () => {
                         id="first-name"
                         name="first-name"
                         type="text"
+                        defaultValue={selectedAddress?.firstName}
                         autoComplete="given-name"
                         className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
                       />
@@ -148,6 +351,7 @@ const CheckoutPageContent = () => {
                         id="last-name"
                         name="last-name"
                         type="text"
+                        defaultValue={selectedAddress?.lastName}
                         autoComplete="family-name"
                         className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
                       />
@@ -166,6 +370,7 @@ const CheckoutPageContent = () => {
                         id="company"
                         name="company"
                         type="text"
+                        defaultValue={selectedAddress?.company}
                         className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
                       />
                     </div>
@@ -183,6 +388,7 @@ const CheckoutPageContent = () => {
                         id="address"
                         name="address"
                         type="text"
+                        defaultValue={selectedAddress?.address}
                         autoComplete="street-address"
                         className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
                       />
@@ -201,6 +407,7 @@ const CheckoutPageContent = () => {
                         id="apartment"
                         name="apartment"
                         type="text"
+                        defaultValue={selectedAddress?.apartment}
                         className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
                       />
                     </div>
@@ -218,6 +425,7 @@ const CheckoutPageContent = () => {
                         id="city"
                         name="city"
                         type="text"
+                        defaultValue={selectedAddress?.city}
                         autoComplete="address-level2"
                         className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
                       />
@@ -236,11 +444,18 @@ const CheckoutPageContent = () => {
                         id="country"
                         name="country"
                         autoComplete="country-name"
+                        value={destination.country}
+                        onChange={(e) =>
+                          setDestination({
+                            ...destination,
+                            country: e.target.value,
+                          })
+                        }
                         className="col-start-1 row-start-1 w-full appearance-none rounded-md bg-white py-2 pl-3 pr-8 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
                       >
-                        <option>United States</option>
-                        <option>Canada</option>
-                        <option>Mexico</option>
+                        {SHIPPING_COUNTRIES.map((country) => (
+                          <option key={country}>{country}</option>
+                        ))}
                       </select>
                       <ChevronDownIcon
                         aria-hidden="true"
@@ -262,6 +477,13 @@ const CheckoutPageContent = () => {
                         name="region"
                         type="text"
                         autoComplete="address-level1"
+                        value={destination.region}
+                        onChange={(e) =>
+                          setDestination({
+                            ...destination,
+                            region: e.target.value,
+                          })
+                        }
                         className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
                       />
                     </div>
@@ -279,6 +501,7 @@ const CheckoutPageContent = () => {
                         id="postal-code"
                         name="postal-code"
                         type="text"
+                        defaultValue={selectedAddress?.postalCode}
                         autoComplete="postal-code"
                         className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
                       />
@@ -297,11 +520,30 @@ const CheckoutPageContent = () => {
                         id="phone"
                         name="phone"
                         type="text"
+                        defaultValue={selectedAddress?.phone}
                         autoComplete="tel"
                         className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
                       />
                     </div>
                   </div>
+
+                  {user && selectedAddressId === NEW_ADDRESS && (
+                    <div className="flex items-center sm:col-span-2">
+                      <input
+                        id="save-address"
+                        name="save-address"
+                        type="checkbox"
+                        defaultChecked
+                        className="size-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-600"
+                      />
+                      <label
+                        htmlFor="save-address"
+                        className="ml-3 text-sm text-gray-700"
+                      >
+                        Save this address to my address book
+                      </label>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -311,29 +553,36 @@ const CheckoutPageContent = () => {
                 </h2>
 
                 <fieldset aria-label="Delivery method" className="mt-4">
+                  {shippingRates.length === 0 && (
+                    <p className="text-sm text-gray-500">
+                      We don&apos;t ship to this address yet.
+                    </p>
+                  )}
                   <RadioGroup
-                    value={selectedDeliveryMethod}
-                    onChange={setSelectedDeliveryMethod}
+                    value={selectedRate?.id ?? null}
+                    onChange={setDeliveryMethodId}
                     className="grid grid-cols-1 gap-y-6 sm:grid-cols-2 sm:gap-x-4"
                   >
-                    {deliveryMethods.map((deliveryMethod) => (
+                    {shippingRates.map((rate) => (
                       <Radio
-                        key={deliveryMethod.id}
-                        value={deliveryMethod}
-                        aria-label={deliveryMethod.title}
-                        aria-description={`${deliveryMethod.turnaround} for ${deliveryMethod.price}`}
+                        key={rate.id}
+                        value={rate.id}
+                        aria-label={rate.title}
+                        aria-description={`Arrives ${formatDeliveryEstimate(rate.estimate)} for ${formatMoney(convert(rate.price))}`}
                         className="group relative flex cursor-pointer rounded-lg border border-gray-300 bg-white p-4 shadow-sm focus:outline-none data-[checked]:border-transparent data-[focus]:ring-2 data-[focus]:ring-indigo-500"
                       >
                         <span className="flex flex-1">
                           <span className="flex flex-col">
                             <span className="block text-sm font-medium text-gray-900">
-                              {deliveryMethod.title}
+                              {rate.title}
                             </span>
                             <span className="mt-1 flex items-center text-sm text-gray-500">
-                              {deliveryMethod.turnaround}
+                              Arrives {formatDeliveryEstimate(rate.estimate)}
                             </span>
                             <span className="mt-6 text-sm font-medium text-gray-900">
-                              {deliveryMethod.price}
+                              {rate.isFree
+                                ? "Free"
+                                : formatMoney(convert(rate.price))}
                             </span>
                           </span>
                         </span>
@@ -358,12 +607,14 @@ const CheckoutPageContent = () => {
                 <fieldset className="mt-4">
                   <legend className="sr-only">Payment type</legend>
                   <div className="space-y-4 sm:flex sm:items-center sm:space-x-10 sm:space-y-0">
-                    {paymentMethods.map((paymentMethod, paymentMethodIdx) => (
+                    {PAYMENT_METHODS.map((paymentMethod) => (
                       <div key={paymentMethod.id} className="flex items-center">
                         <input
-                          defaultChecked={paymentMethodIdx === 0}
+                          checked={paymentMethod.id === paymentMethodId}
+                          onChange={() => setPaymentMethodId(paymentMethod.id)}
                           id={paymentMethod.id}
                           name="payment-type"
+                          value={paymentMethod.id}
                           type="radio"
                           className="relative size-4 appearance-none rounded-full border border-gray-300 bg-white before:absolute before:inset-1 before:rounded-full before:bg-white checked:border-indigo-600 checked:bg-indigo-600 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600 disabled:border-gray-300 disabled:bg-gray-100 disabled:before:bg-gray-400 forced-colors:appearance-auto forced-colors:before:hidden [&:not(:checked)]:before:hidden"
                         />
@@ -378,79 +629,96 @@ const CheckoutPageContent = () => {
                   </div>
                 </fieldset>
 
-                <div className="mt-6 grid grid-cols-4 gap-x-4 gap-y-6">
-                  <div className="col-span-4">
-                    <label
-                      htmlFor="card-number"
-                      className="block text-sm/6 font-medium text-gray-700"
-                    >
-                      Card number
-                    </label>
-                    <div className="mt-2">
-                      <input
-                        id="card-number"
-                        name="card-number"
-                        type="text"
-                        autoComplete="cc-number"
-                        className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
-                      />
+                {paymentError && (
+                  <p
+                    role="alert"
+                    className="mt-4 rounded-md bg-red-50 p-3 text-sm font-medium text-red-700"
+                  >
+                    {paymentError}
+                  </p>
+                )}
+
+                {paymentMethodId === "credit-card" && (
+                  <div className="mt-6 grid grid-cols-4 gap-x-4 gap-y-6">
+                    <div className="col-span-4">
+                      <label
+                        htmlFor="card-number"
+                        className="block text-sm/6 font-medium text-gray-700"
+                      >
+                        Card number
+                      </label>
+                      <div className="mt-2">
+                        <input
+                          id="card-number"
+                          name="card-number"
+                          type="text"
+                          autoComplete="cc-number"
+                          className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
+                        />
+                      </div>
                     </div>
-                  </div>
 
-                  <div className="col-span-4">
-                    <label
-                      htmlFor="name-on-card"
-                      className="block text-sm/6 font-medium text-gray-700"
-                    >
-                      Name on card
-                    </label>
-                    <div className="mt-2">
-                      <input
-                        id="name-on-card"
-                        name="name-on-card"
-                        type="text"
-                        autoComplete="cc-name"
-                        className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
-                      />
+                    <div className="col-span-4">
+                      <label
+                        htmlFor="name-on-card"
+                        className="block text-sm/6 font-medium text-gray-700"
+                      >
+                        Name on card
+                      </label>
+                      <div className="mt-2">
+                        <input
+                          id="name-on-card"
+                          name="name-on-card"
+                          type="text"
+                          autoComplete="cc-name"
+                          className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
+                        />
+                      </div>
                     </div>
-                  </div>
 
-                  <div className="col-span-3">
-                    <label
-                      htmlFor="expiration-date"
-                      className="block text-sm/6 font-medium text-gray-700"
-                    >
-                      Expiration date (MM/YY)
-                    </label>
-                    <div className="mt-2">
-                      <input
-                        id="expiration-date"
-                        name="expiration-date"
-                        type="text"
-                        autoComplete="cc-exp"
-                        className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
-                      />
+                    <div className="col-span-3">
+                      <label
+                        htmlFor="expiration-date"
+                        className="block text-sm/6 font-medium text-gray-700"
+                      >
+                        Expiration date (MM/YY)
+                      </label>
+                      <div className="mt-2">
+                        <input
+                          id="expiration-date"
+                          name="expiration-date"
+                          type="text"
+                          autoComplete="cc-exp"
+                          className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
+                        />
+                      </div>
                     </div>
-                  </div>
 
-                  <div>
-                    <label
-                      htmlFor="cvc"
-                      className="block text-sm/6 font-medium text-gray-700"
-                    >
-                      CVC
-                    </label>
-                    <div className="mt-2">
-                      <input
-                        id="cvc"
-                        name="cvc"
-                        type="text"
-                        autoComplete="csc"
-                        className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
-                      />
+                    <div>
+                      <label
+                        htmlFor="cvc"
+                        className="block text-sm/6 font-medium text-gray-700"
+                      >
+                        CVC
+                      </label>
+                      <div className="mt-2">
+                        <input
+                          id="cvc"
+                          name="cvc"
+                          type="text"
+                          autoComplete="csc"
+                          className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
+                        />
+                      </div>
                     </div>
+
+                    <p className="col-span-4 text-sm text-gray-500">
+                      Test cards: 4242 4242 4242 4242 is approved, 4000 0000
+                      0000 0002 is declined and 4000 0000 0000 3220 asks for a
+                      bank confirmation. Use any future expiration date and CVC.
+                    </p>
                   </div>
-                </div>
+                )}
               </div>
             </div>
 
@@ -466,11 +734,20 @@ const CheckoutPageContent = () => {
                 <ul role="list" className="divide-y divide-gray-200">
                   {cartData.length > 0 &&
                     cartData.map((product) => (
-                      <li key={product.id} className="flex px-4 py-6 sm:px-6">
+                      <li
+                        key={`${product.id}-${product.variationId}`}
+                        className="flex px-4 py-6 sm:px-6"
+                      >
                         <div className="shrink-0">
                           <img
-                            alt={product.productDetails.imageAlt}
-                            src={product.productDetails.imageSrc}
+                            alt={
+                              product.variationDetails?.imageAlt ||
+                              product.productDetails.imageAlt
+                            }
+                            src={
+                              product.variationDetails?.imageSrc ||
+                              product.productDetails.imageSrc
+                            }
                             className="w-20 rounded-md"
                           />
                         </div>
@@ -483,12 +760,27 @@ const CheckoutPageContent = () => {
                               <p className="mt-1 text-sm text-gray-500">
                                 {product.productDetails.color}
                               </p>
+                              {product.variationDetails && (
+                                <p className="mt-1 text-sm text-gray-500">
+                                  {describeVariation(product.variationDetails)}
+                                </p>
+                              )}
+                              {cartLineStockIssue(product, stockShortages) && (
+                                <p className="mt-1 text-sm font-medium text-red-600">
+                                  {cartLineStockIssue(product, stockShortages)}
+                                </p>
+                              )}
                             </div>
                             <div className="ml-4 flow-root shrink-0">
                               <button
                                 type="button"
                                 className="-m-2.5 flex items-center justify-center bg-white p-2.5 text-gray-400 hover:text-gray-500"
-                                onClick={() => handleRemoveCartItem(product.id)}
+                                onClick={() =>
+                                  handleRemoveCartItem(
+                                    product.id,
+                                    product.variationId
+                                  )
+                                }
                               >
                                 <span className="sr-only">Remove</span>
                                 <TrashIcon className="h-5 w-5" />
@@ -497,21 +789,37 @@ const CheckoutPageContent = () => {
                           </div>
                           <div className="flex flex-1 items-end justify-between pt-2">
                             <p className="mt-1 text-sm font-medium text-gray-900">
-                              {product.productDetails.price}
+                              {formatMoney(
+                                convert(
+                                  product.variationDetails?.price ||
+                                    product.productDetails.price
+                                )
+                              )}
                             </p>
                             <select
-                              id={`quantity-${product.id}`}
-                              name={`quantity-${product.id}`}
+                              id={`quantity-${product.id}-${product.variationId}`}
+                              name={`quantity-${product.id}-${product.variationId}`}
                               value={product.quantity}
                               onChange={(e) =>
                                 handleQuantityChange(
                                   product.id,
+                                  product.variationId,
                                   parseInt(e.target.value, 10)
                                 )
                               }
                               className="w-16 h-10 rounded-md bg-white px-3 text-sm text-gray-900 border border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 sm:text-base"
                             >
-                              {[...Array(10).keys()].map((n) => (
+                              {[
+                                ...Array(
+                                  Math.max(
+                                    maxOrderQuantity(
+                                      product.productDetails,
+                                      product.variationDetails
+                                    ),
+                                    product.quantity
+                                  )
+                                ).keys(),
+                              ].map((n) => (
                                 <option key={n + 1} value={n + 1}>
                                   {n + 1}
                                 </option>
@@ -523,41 +831,104 @@ const CheckoutPageContent = () => {
                     ))}
                 </ul>
 
+                <div className="border-t border-gray-200 px-4 py-6 sm:px-6">
+                  <CouponForm
+                    promotions={promotions}
+                    error={fieldErrors.couponCodes}
+                  />
+                </div>
+
                 <dl className="space-y-6 border-t border-gray-200 px-4 py-6 sm:px-6">
                   <div className="flex items-center justify-between">
                     <dt className="text-sm">Subtotal</dt>
                     <dd className="text-sm font-medium text-gray-900">
-                      ${subtotal().toFixed(2)}
+                      {formatMoney(subtotal)}
                     </dd>
                   </div>
+                  {discounts.map((discount) => (
+                    <div
+                      key={discount.promotionId}
+                      className="flex items-center justify-between"
+                    >
+                      <dt className="text-sm">
+                        {discount.label}
+                        {discount.code && (
+                          <span className="ml-2 rounded-full bg-gray-200 px-2 py-0.5 text-xs tracking-wide text-gray-600">
+                            {discount.code}
+                          </span>
+                        )}
+                      </dt>
+                      <dd className="text-sm font-medium text-green-600">
+                        -{formatMoney(discount.amount)}
+                      </dd>
+                    </div>
+                  ))}
                   <div className="flex items-center justify-between">
                     <dt className="text-sm">Shipping</dt>
                     <dd className="text-sm font-medium text-gray-900">
-                      ${shipping.toFixed(2)}
-                    </dd>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <dt className="text-sm">Taxes</dt>
-                    <dd className="text-sm font-medium text-gray-900">
-                      ${taxes.toFixed(2)}
+                      {formatMoney(shipping)}
                     </dd>
                   </div>
+                  {taxes.lines.length === 0 ? (
+                    <div className="flex items-center justify-between">
+                      <dt className="text-sm">Taxes</dt>
+                      <dd className="text-sm font-medium text-gray-900">
+                        {formatMoney(taxes.total)}
+                      </dd>
+                    </div>
+                  ) : (
+                    taxes.lines.map((line) => (
+                      <div
+                        key={line.rate}
+                        className="flex items-center justify-between"
+                      >
+                        <dt className="text-sm">
+                          {taxes.inclusive && "Includes "}
+                          {formatTaxLine(line)}
+                        </dt>
+                        <dd className="text-sm font-medium text-gray-900">
+                          {formatMoney(line.amount)}
+                        </dd>
+                      </div>
+                    ))
+                  )}
                   <div className="flex items-center justify-between border-t border-gray-200 pt-6">
                     <dt className="text-base font-medium">Total</dt>
                     <dd className="text-base font-medium text-gray-900">
-                      ${total.toFixed(2)}
+                      {formatMoney(total)}
                     </dd>
                   </div>
                 </dl>
                 <div className="px-4 py-6">
-                  <Link href={"/thankyou"}>
+                  {submitError && (
                     <div
-                      // type="submit"
-                      className="w-full text-center rounded-md bg-indigo-600 px-4 py-3 text-base font-medium text-white hover:bg-indigo-700"
+                      role="alert"
+                      className="mb-4 rounded-md bg-red-50 p-4 text-sm text-red-700"
                     >
-                      Confirm order
+                      <p className="font-medium">{submitError}</p>
+                      {Object.keys(fieldErrors).length > 0 && (
+                        <ul role="list" className="mt-2 list-disc pl-5">
+                          {Object.entries(fieldErrors).map(
+                            ([field, message]) => (
+                              <li key={field}>{message}</li>
+                            )
+                          )}
+                        </ul>
+                      )}
                     </div>
-                  </Link>
+                  )}
+                  <button
+                    type="submit"
+                    disabled={
+                      isSubmitting ||
+                      cartData.length === 0 ||
+                      !selectedRate ||
+                      hasStockIssues
+                    }
+                    className="w-full text-center rounded-md bg-indigo-600 px-4 py-3 text-base font-medium text-white hover:bg-indigo-700 disabled:cursor-not-allowed disabled:bg-gray-300"
+                  >
+                    {isSubmitting ? "Placing order..." : "Confirm order"}
+                  </button>
                 </div>
               </div>
             </div>
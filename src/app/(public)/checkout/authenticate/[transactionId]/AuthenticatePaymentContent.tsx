@@ -0,0 +1,116 @@
+"use client";
+
+import { useState } from "react";
+import { ShieldCheckIcon } from "@heroicons/react/24/outline";
+import { formatMoney } from "@/lib/money";
+import { useCartStore } from "@/store/useCartStore";
+import { Money } from "@/types/money";
+
+interface AuthenticatePaymentContentProps {
+  transactionId: string;
+  amount: Money;
+  isPending: boolean; // False once the payment was confirmed or cancelled
+  returnUrl: string; // Order confirmation page
+}
+
+const AuthenticatePaymentContent = ({
+  transactionId,
+  amount,
+  isPending,
+  returnUrl,
+}: AuthenticatePaymentContentProps) => {
+  const { clearCart } = useCartStore();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Tell the fake bank whether the customer confirmed, then return to the order
+  const handleDecision = async (approved: boolean) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/confirm-fake-payment", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ transactionId, approved }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(result.error || "The payment could not be confirmed.");
+        return;
+      }
+
+      // Keep the cart after a cancellation so the customer can try again
+      if (approved) clearCart();
+      window.location.assign(result.returnUrl);
+    } catch (error) {
+      console.error("Error confirming payment:", error);
+      setError("The payment could not be confirmed. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="mx-auto max-w-md px-4 py-16 sm:px-6 sm:py-24">
+      <div className="rounded-lg border border-gray-200 bg-white p-8 text-center shadow-sm">
+        <ShieldCheckIcon
+          aria-hidden="true"
+          className="mx-auto size-12 text-indigo-600"
+        />
+        <h1 className="mt-4 text-2xl font-bold tracking-tight text-gray-900">
+          Confirm your payment
+        </h1>
+        <p className="mt-2 text-sm text-gray-500">
+          Your bank wants to make sure it&apos;s you. This is the fake payment
+          gateway&apos;s test bank, so no real money is involved.
+        </p>
+        <p className="mt-6 text-3xl font-medium text-gray-900">
+          {formatMoney(amount)}
+        </p>
+
+        {error && (
+          <p role="alert" className="mt-6 text-sm text-red-600">
+            {error}
+          </p>
+        )}
+
+        {isPending ? (
+          <div className="mt-8 space-y-3">
+            <button
+              type="button"
+              disabled={isSubmitting}
+              onClick={() => handleDecision(true)}
+              className="w-full rounded-md bg-indigo-600 px-4 py-3 text-base font-medium text-white hover:bg-indigo-700 disabled:cursor-not-allowed disabled:bg-gray-300"
+            >
+              Confirm payment
+            </button>
+            <button
+              type="button"
+              disabled={isSubmitting}
+              onClick={() => handleDecision(false)}
+              className="w-full rounded-md border border-gray-300 bg-white px-4 py-3 text-base font-medium text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed"
+            >
+              Cancel payment
+            </button>
+          </div>
+        ) : (
+          <div className="mt-8">
+            <p className="text-sm text-gray-500">
+              This payment has already been confirmed or cancelled.
+            </p>
+            <a
+              href={returnUrl}
+              className="mt-4 inline-block text-sm font-medium text-indigo-600 hover:text-indigo-500"
+            >
+              View your order
+              <span aria-hidden="true"> &rarr;</span>
+            </a>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default AuthenticatePaymentContent;
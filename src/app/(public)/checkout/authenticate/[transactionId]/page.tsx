@@ -0,0 +1,31 @@
+import { notFound } from "next/navigation";
+import AuthenticatePaymentContent from "./AuthenticatePaymentContent";
+import { fetchFakeTransaction } from "@/lib/fakePaymentGateway";
+
+// Transactions are created at runtime, so this page is never statically generated
+export const dynamic = "force-dynamic";
+
+// Fake bank confirmation page (3DS-style) for the fake payment gateway
+const AuthenticatePayment = async ({
+  params,
+}: {
+  params: Promise<{ transactionId: string }>;
+}) => {
+  const { transactionId } = await params;
+  const transaction = await fetchFakeTransaction(transactionId);
+
+  if (!transaction) {
+    notFound();
+  }
+
+  return (
+    <AuthenticatePaymentContent
+      transactionId={transaction.id}
+      amount={transaction.amount}
+      isPending={transaction.status === "requires_action"}
+      returnUrl={transaction.returnUrl}
+    />
+  );
+};
+
+export default AuthenticatePayment;
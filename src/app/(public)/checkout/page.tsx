@@ -1,7 +1,13 @@
 import CheckoutPageContent from "./CheckoutPageContent";
+import { fetchAddressBook } from "@/services/addressServices";
+import { getCurrentUser } from "@/services/authServices";
 
-const Checkout = () => {
-  return <CheckoutPageContent />;
+// Signed-in customers get their email and saved addresses filled in
+const Checkout = async () => {
+  const user = await getCurrentUser();
+  const addressBook = user ? await fetchAddressBook(user.id) : null;
+
+  return <CheckoutPageContent user={user} addressBook={addressBook} />;
 };
 
 export default Checkout;
@@ -0,0 +1,103 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import Link from "next/link";
+
+const ForgotPasswordPageContent = () => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const email = String(new FormData(event.currentTarget).get("email") || "");
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/auth/forgot-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || "The link could not be sent.");
+      } else {
+        setSentTo(email);
+      }
+    } catch (error) {
+      console.error("Error requesting password reset:", error);
+      setError("The link could not be sent. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="mx-auto w-full max-w-md px-4 py-16 sm:px-6 sm:py-24">
+      <div className="rounded-lg border border-gray-200 bg-white p-8 shadow-sm">
+        <h1 className="text-2xl font-bold tracking-tight text-gray-900">
+          Reset your password
+        </h1>
+
+        {sentTo ? (
+          <p className="mt-4 text-sm text-gray-700">
+            If <span className="font-medium">{sentTo}</span> has an account, we
+            sent it a link to choose a new password.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="mt-8 space-y-6">
+            <p className="text-sm text-gray-500">
+              Enter your email and we&apos;ll send you a link to choose a new
+              password.
+            </p>
+            <div>
+              <label
+                htmlFor="email"
+                className="block text-sm/6 font-medium text-gray-700"
+              >
+                Email address
+              </label>
+              <div className="mt-2">
+                <input
+                  id="email"
+                  name="email"
+                  type="email"
+                  required
+                  autoComplete="email"
+                  className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
+                />
+              </div>
+            </div>
+
+            {error && (
+              <p role="alert" className="text-sm text-red-600">
+                {error}
+              </p>
+            )}
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full rounded-md bg-indigo-600 px-4 py-3 text-base font-medium text-white hover:bg-indigo-700 disabled:cursor-not-allowed disabled:bg-gray-300"
+            >
+              {isSubmitting ? "Sending…" : "Send reset link"}
+            </button>
+          </form>
+        )}
+
+        <p className="mt-6 text-sm">
+          <Link
+            href="/login"
+            className="font-medium text-indigo-600 hover:text-indigo-500"
+          >
+            <span aria-hidden="true">&larr; </span>
+            Back to sign in
+          </Link>
+        </p>
+      </div>
+    </main>
+  );
+};
+
+export default ForgotPasswordPageContent;
@@ -0,0 +1,7 @@
+import ForgotPasswordPageContent from "./ForgotPasswordPageContent";
+
+const ForgotPassword = () => {
+  return <ForgotPasswordPageContent />;
+};
+
+export default ForgotPassword;
@@ -0,0 +1,176 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useSessionStore } from "@/store/useSessionStore";
+
+interface LoginPageContentProps {
+  next: string; // Same-site path to open once signed in
+  linkExpired: boolean; // The customer followed an expired or used magic link
+}
+
+const inputClassName =
+  "block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6";
+
+const LoginPageContent = ({ next, linkExpired }: LoginPageContentProps) => {
+  const router = useRouter();
+  const signIn = useSessionStore((state) => state.signIn);
+  const [useMagicLink, setUseMagicLink] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(
+    linkExpired
+      ? "This sign-in link has expired or was already used. Request a new one."
+      : null
+  );
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = new FormData(event.currentTarget);
+    const email = String(form.get("email") || "");
+    setIsSubmitting(true);
+    setError(null);
+
+    if (useMagicLink) {
+      try {
+        const response = await fetch("/api/auth/magic-link", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email, next }),
+        });
+        const result = await response.json();
+        if (!response.ok) {
+          setError(result.error || "The link could not be sent.");
+        } else {
+          setLinkSentTo(email);
+        }
+      } catch (error) {
+        console.error("Error requesting magic link:", error);
+        setError("The link could not be sent. Please try again.");
+      }
+      setIsSubmitting(false);
+      return;
+    }
+
+    const reason = await signIn(email, String(form.get("password") || ""));
+    setIsSubmitting(false);
+    if (reason) {
+      setError(reason);
+      return;
+    }
+    router.push(next);
+  };
+
+  return (
+    <main className="mx-auto w-full max-w-md px-4 py-16 sm:px-6 sm:py-24">
+      <div className="rounded-lg border border-gray-200 bg-white p-8 shadow-sm">
+        <h1 className="text-2xl font-bold tracking-tight text-gray-900">
+          Sign in to your account
+        </h1>
+        <p className="mt-2 text-sm text-gray-500">
+          New here?{" "}
+          <Link
+            href={`/register?next=${encodeURIComponent(next)}`}
+            className="font-medium text-indigo-600 hover:text-indigo-500"
+          >
+            Create an account
+          </Link>
+        </p>
+
+        {linkSentTo ? (
+          <p className="mt-8 text-sm text-gray-700">
+            We sent a sign-in link to{" "}
+            <span className="font-medium">{linkSentTo}</span>. It works once,
+            for a few minutes.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="mt-8 space-y-6">
+            <div>
+              <label
+                htmlFor="email"
+                className="block text-sm/6 font-medium text-gray-700"
+              >
+                Email address
+              </label>
+              <div className="mt-2">
+                <input
+                  id="email"
+                  name="email"
+                  type="email"
+                  required
+                  autoComplete="email"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            {!useMagicLink && (
+              <div>
+                <div className="flex items-center justify-between">
+                  <label
+                    htmlFor="password"
+                    className="block text-sm/6 font-medium text-gray-700"
+                  >
+                    Password
+                  </label>
+                  <Link
+                    href="/forgot-password"
+                    className="text-sm font-medium text-indigo-600 hover:text-indigo-500"
+                  >
+                    Forgot password?
+                  </Link>
+                </div>
+                <div className="mt-2">
+                  <input
+                    id="password"
+                    name="password"
+                    type="password"
+                    required
+                    autoComplete="current-password"
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+            )}
+
+            {error && (
+              <p role="alert" className="text-sm text-red-600">
+                {error}
+              </p>
+            )}
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full rounded-md bg-indigo-600 px-4 py-3 text-base font-medium text-white hover:bg-indigo-700 disabled:cursor-not-allowed disabled:bg-gray-300"
+            >
+              {useMagicLink
+                ? isSubmitting
+                  ? "Sending…"
+                  : "Email me a sign-in link"
+                : isSubmitting
+                  ? "Signing in…"
+                  : "Sign in"}
+            </button>
+
+            <button
+              type="button"
+              onClick={() => {
+                setUseMagicLink(!useMagicLink);
+                setError(null);
+              }}
+              className="w-full text-sm font-medium text-indigo-600 hover:text-indigo-500"
+            >
+              {useMagicLink
+                ? "Sign in with a password instead"
+                : "Sign in with an email link instead"}
+            </button>
+          </form>
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default LoginPageContent;
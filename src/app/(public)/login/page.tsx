@@ -0,0 +1,20 @@
+import { safeNextPath } from "@/lib/access";
+import LoginPageContent from "./LoginPageContent";
+
+// Sign-in page: `?next=` is where to go afterwards, `?error=invalid-link` follows a used magic link
+const Login = async ({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string; error?: string }>;
+}) => {
+  const { next, error } = await searchParams;
+
+  return (
+    <LoginPageContent
+      next={safeNextPath(next)}
+      linkExpired={error === "invalid-link"}
+    />
+  );
+};
+
+export default Login;
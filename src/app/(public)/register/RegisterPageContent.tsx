@@ -0,0 +1,134 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { MIN_PASSWORD_LENGTH } from "@/config/auth";
+import { useSessionStore } from "@/store/useSessionStore";
+
+const inputClassName =
+  "block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6";
+
+const RegisterPageContent = ({ next }: { next: string }) => {
+  const router = useRouter();
+  const register = useSessionStore((state) => state.register);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = new FormData(event.currentTarget);
+    setIsSubmitting(true);
+    setError(null);
+
+    const reason = await register(
+      String(form.get("name") || ""),
+      String(form.get("email") || ""),
+      String(form.get("password") || "")
+    );
+    setIsSubmitting(false);
+    if (reason) {
+      setError(reason);
+      return;
+    }
+    router.push(next);
+  };
+
+  return (
+    <main className="mx-auto w-full max-w-md px-4 py-16 sm:px-6 sm:py-24">
+      <div className="rounded-lg border border-gray-200 bg-white p-8 shadow-sm">
+        <h1 className="text-2xl font-bold tracking-tight text-gray-900">
+          Create an account
+        </h1>
+        <p className="mt-2 text-sm text-gray-500">
+          Already have one?{" "}
+          <Link
+            href={`/login?next=${encodeURIComponent(next)}`}
+            className="font-medium text-indigo-600 hover:text-indigo-500"
+          >
+            Sign in
+          </Link>
+        </p>
+
+        <form onSubmit={handleSubmit} className="mt-8 space-y-6">
+          <div>
+            <label
+              htmlFor="name"
+              className="block text-sm/6 font-medium text-gray-700"
+            >
+              Name
+            </label>
+            <div className="mt-2">
+              <input
+                id="name"
+                name="name"
+                type="text"
+                required
+                autoComplete="name"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label
+              htmlFor="email"
+              className="block text-sm/6 font-medium text-gray-700"
+            >
+              Email address
+            </label>
+            <div className="mt-2">
+              <input
+                id="email"
+                name="email"
+                type="email"
+                required
+                autoComplete="email"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label
+              htmlFor="password"
+              className="block text-sm/6 font-medium text-gray-700"
+            >
+              Password
+            </label>
+            <div className="mt-2">
+              <input
+                id="password"
+                name="password"
+                type="password"
+                required
+                minLength={MIN_PASSWORD_LENGTH}
+                autoComplete="new-password"
+                className={inputClassName}
+              />
+            </div>
+            <p className="mt-2 text-sm text-gray-500">
+              At least {MIN_PASSWORD_LENGTH} characters.
+            </p>
+          </div>
+
+          {error && (
+            <p role="alert" className="text-sm text-red-600">
+              {error}
+            </p>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full rounded-md bg-indigo-600 px-4 py-3 text-base font-medium text-white hover:bg-indigo-700 disabled:cursor-not-allowed disabled:bg-gray-300"
+          >
+            {isSubmitting ? "Creating your account…" : "Create account"}
+          </button>
+        </form>
+      </div>
+    </main>
+  );
+};
+
+export default RegisterPageContent;
@@ -0,0 +1,15 @@
+import { safeNextPath } from "@/lib/access";
+import RegisterPageContent from "./RegisterPageContent";
+
+// Registration page: `?next=` is where to go once the account exists
+const Register = async ({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string }>;
+}) => {
+  const { next } = await searchParams;
+
+  return <RegisterPageContent next={safeNextPath(next)} />;
+};
+
+export default Register;
@@ -0,0 +1,111 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { MIN_PASSWORD_LENGTH } from "@/config/auth";
+import { useCartStore } from "@/store/useCartStore";
+import { useSessionStore } from "@/store/useSessionStore";
+
+const ResetPasswordPageContent = ({ token }: { token: string }) => {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const password = String(
+      new FormData(event.currentTarget).get("password") || ""
+    );
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/auth/reset-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || "The password could not be changed.");
+        return;
+      }
+      // The reset also signs the customer in
+      await useSessionStore.getState().loadSession();
+      useCartStore.getState().loadServerCart(); // With the guest cart merged in
+      router.push("/");
+    } catch (error) {
+      console.error("Error resetting password:", error);
+      setError("The password could not be changed. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="mx-auto w-full max-w-md px-4 py-16 sm:px-6 sm:py-24">
+      <div className="rounded-lg border border-gray-200 bg-white p-8 shadow-sm">
+        <h1 className="text-2xl font-bold tracking-tight text-gray-900">
+          Choose a new password
+        </h1>
+
+        {token ? (
+          <form onSubmit={handleSubmit} className="mt-8 space-y-6">
+            <div>
+              <label
+                htmlFor="password"
+                className="block text-sm/6 font-medium text-gray-700"
+              >
+                New password
+              </label>
+              <div className="mt-2">
+                <input
+                  id="password"
+                  name="password"
+                  type="password"
+                  required
+                  minLength={MIN_PASSWORD_LENGTH}
+                  autoComplete="new-password"
+                  className="block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
+                />
+              </div>
+              <p className="mt-2 text-sm text-gray-500">
+                At least {MIN_PASSWORD_LENGTH} characters.
+              </p>
+            </div>
+
+            {error && (
+              <p role="alert" className="text-sm text-red-600">
+                {error}{" "}
+                <Link href="/forgot-password" className="font-medium underline">
+                  Request a new link
+                </Link>
+              </p>
+            )}
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full rounded-md bg-indigo-600 px-4 py-3 text-base font-medium text-white hover:bg-indigo-700 disabled:cursor-not-allowed disabled:bg-gray-300"
+            >
+              {isSubmitting ? "Saving…" : "Save password"}
+            </button>
+          </form>
+        ) : (
+          <p className="mt-4 text-sm text-gray-700">
+            This link is incomplete.{" "}
+            <Link
+              href="/forgot-password"
+              className="font-medium text-indigo-600 hover:text-indigo-500"
+            >
+              Request a new one
+            </Link>
+            .
+          </p>
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default ResetPasswordPageContent;
@@ -0,0 +1,14 @@
+import ResetPasswordPageContent from "./ResetPasswordPageContent";
+
+// Opened from the password reset email: `?token=` is the single-use reset token
+const ResetPassword = async ({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) => {
+  const { token } = await searchParams;
+
+  return <ResetPasswordPageContent token={token || ""} />;
+};
+
+export default ResetPassword;
@@ -1,7 +0,0 @@
-import SingleProductContent from "./SingleProductContent";
-
-const SingleProduct = () => {
-  return <SingleProductContent />;
-};
-
-export default SingleProduct;
@@ -1,17 +1,23 @@
 "use client";
 
 import Head from "next/head";
-import React from "react";
+import React, { useEffect, useState } from "react";
+import { Radio, RadioGroup } from "@headlessui/react";
 import {
   CheckIcon,
+  ClockIcon,
   QuestionMarkCircleIcon,
   ShieldCheckIcon,
   StarIcon,
 } from "@heroicons/react/24/outline";
 import Page from "@/components/common/Page";
-import { useParams } from "next/navigation";
 import { useProductStore } from "@/store/useProductStore";
 import { useCartStore } from "@/store/useCartStore";
+import { useConvertMoney } from "@/store/useCurrencyStore";
+import { maxOrderQuantity } from "@/lib/inventory";
+import { formatMoney } from "@/lib/money";
+import { findVariation } from "@/lib/productVariations";
+import { Product } from "@/types/product";
 
 const reviews = { average: 4, totalCount: 1624 };
 
@@ -19,30 +25,52 @@ function classNames(...classes: string[]) {
   return classes.filter(Boolean).join(" ");
 }
 
-const SingleProductContent = () => {
-  const params = useParams(); // Retrieve all route params
-  const { id } = params; // Access the `id` parameter
-  const products = useProductStore((state) => state.products);
+interface Props {
+  product: Product;
+}
+
+const SingleProductContent = ({ product }: Props) => {
+  const upsertProducts = useProductStore((state) => state.upsertProducts);
   const { cartItems, setIsCartOpen, increaseCartQuantity, removeFromCart } =
     useCartStore();
+  const convert = useConvertMoney();
+
+  // Cache the server-rendered product so the cart can resolve it on any page
+  useEffect(() => {
+    upsertProducts([product]);
+  }, [product, upsertProducts]);
 
-  // Find the product by ID
-  const product = products.find((p) => p.id === Number(id));
+  // Attribute values picked so far (e.g. { size: "Large" }), only used by variable products
+  const [selectedAttributes, setSelectedAttributes] = useState<
+    Record<string, string>
+  >({});
 
-  if (!product) {
-    return <div>Product not found</div>;
-  }
+  const isVariable = product.variations.length > 0;
+  const variation = findVariation(product, selectedAttributes);
+  const variationId = variation?.id ?? null;
+  const price = variation?.price || product.price;
+  const inStock = variation?.inStock ?? product.inStock;
+  // Can't be added at all; variable products only know once an option is picked
+  const isSoldOut =
+    (!isVariable || Boolean(variation)) &&
+    maxOrderQuantity(product, variation) === 0;
+
+  const handleSelectAttribute = (name: string, value: string) => {
+    setSelectedAttributes((current) => ({ ...current, [name]: value }));
+  };
 
   const isProductInCart = (productId: number) => {
-    return cartItems.some((item) => item.id === productId);
+    return cartItems.some(
+      (item) => item.id === productId && item.variationId === variationId
+    );
   };
 
   const handleAddToCart = (id: number) => {
-    increaseCartQuantity(id);
+    increaseCartQuantity(id, variationId);
     setIsCartOpen(true);
   };
   const handleRemoveCartItem = (id: number) => {
-    removeFromCart(id);
+    removeFromCart(id, variationId);
     setIsCartOpen(true);
   };
 
@@ -98,7 +126,8 @@ const SingleProductContent = () => {
 
                 <div className="flex items-center">
                   <p className="text-lg text-gray-900 sm:text-xl">
-                    {product.price}
+                    {isVariable && !variation && "From "}
+                    {formatMoney(convert(price))}
                   </p>
 
                   <div className="ml-4 border-l border-gray-300 pl-4">
@@ -139,12 +168,23 @@ const SingleProductContent = () => {
                 </div>
 
                 <div className="mt-6 flex items-center">
-                  <CheckIcon
-                    className="h-5 w-5 flex-shrink-0 text-green-500"
-                    aria-hidden="true"
-                  />
+                  {inStock && !isSoldOut ? (
+                    <CheckIcon
+                      className="h-5 w-5 flex-shrink-0 text-green-500"
+                      aria-hidden="true"
+                    />
+                  ) : (
+                    <ClockIcon
+                      className="h-5 w-5 flex-shrink-0 text-gray-300"
+                      aria-hidden="true"
+                    />
+                  )}
                   <p className="ml-2 text-sm text-gray-500">
-                    In stock and ready to ship
+                    {isSoldOut
+                      ? "Out of stock"
+                      : inStock
+                        ? "In stock and ready to ship"
+                        : `Ships in ${product.leadTime}`}
                   </p>
                 </div>
               </section>
@@ -154,8 +194,8 @@ const SingleProductContent = () => {
             <div className="mt-10 lg:col-start-2 lg:row-span-2 lg:mt-0 lg:self-center">
               <div className="aspect-h-1 aspect-w-1 overflow-hidden rounded-lg">
                 <img
-                  src={product.imageSrc}
-                  alt={product.imageAlt}
+                  src={variation?.imageSrc || product.imageSrc}
+                  alt={variation?.imageAlt || product.imageAlt}
                   className="h-full w-full object-cover object-center"
                 />
               </div>
@@ -169,6 +209,38 @@ const SingleProductContent = () => {
                 </h2>
 
                 <form>
+                  {/* Attribute selectors (size, color, ...) for variable products */}
+                  {product.attributes.map((attribute) => (
+                    <fieldset key={attribute.name} className="mt-6">
+                      <legend className="block text-sm font-medium text-gray-700">
+                        {attribute.label}
+                      </legend>
+                      <RadioGroup
+                        value={selectedAttributes[attribute.name] || null}
+                        onChange={(value: string) =>
+                          handleSelectAttribute(attribute.name, value)
+                        }
+                        className="mt-1 grid grid-cols-1 gap-4 sm:grid-cols-2"
+                      >
+                        {attribute.options.map((option) => (
+                          <Radio
+                            key={option}
+                            value={option}
+                            aria-label={option}
+                            className="group relative flex cursor-pointer rounded-lg border border-gray-300 p-4 focus:outline-none data-[focus]:ring-2 data-[focus]:ring-indigo-500"
+                          >
+                            <p className="text-base font-medium text-gray-900">
+                              {option}
+                            </p>
+                            <div
+                              aria-hidden="true"
+                              className="pointer-events-none absolute -inset-px rounded-lg border-2 border-transparent group-data-[focus]:border group-data-[checked]:border-indigo-500"
+                            />
+                          </Radio>
+                        ))}
+                      </RadioGroup>
+                    </fieldset>
+                  ))}
                   <div className="mt-4">
                     <a
                       href="#"
@@ -185,10 +257,15 @@ const SingleProductContent = () => {
                     {!isProductInCart(product.id) && (
                       <button
                         type="submit"
-                        className="flex w-full items-center justify-center rounded-md border border-transparent bg-indigo-600 px-8 py-3 text-base font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-gray-50"
+                        className="flex w-full items-center justify-center rounded-md border border-transparent bg-indigo-600 px-8 py-3 text-base font-medium text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-gray-50 disabled:cursor-not-allowed disabled:bg-gray-300"
                         onClick={() => handleAddToCart(product.id)}
+                        disabled={(isVariable && !variation) || isSoldOut}
                       >
-                        Add to Order
+                        {isVariable && !variation
+                          ? "Select Options"
+                          : isSoldOut
+                            ? "Out of Stock"
+                            : "Add to Order"}
                       </button>
                     )}
                     {isProductInCart(product.id) && (
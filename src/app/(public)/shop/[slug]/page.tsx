@@ -0,0 +1,31 @@
+import { notFound } from "next/navigation";
+import SingleProductContent from "./SingleProductContent";
+import {
+  fetchAllProductSlugs,
+  fetchProductBySlug,
+} from "@/services/productServices";
+
+// Generate static params for SSG
+export async function generateStaticParams() {
+  const slugs = await fetchAllProductSlugs();
+  return slugs.map((slug: string) => ({ slug }));
+}
+
+// Single product page component
+const SingleProduct = async ({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}) => {
+  const { slug } = await params;
+  const { product } = await fetchProductBySlug(slug);
+
+  // Handle 404 with ISR
+  if (!product) {
+    notFound();
+  }
+
+  return <SingleProductContent product={product} />;
+};
+
+export default SingleProduct;
@@ -0,0 +1,125 @@
+import { PAYMENT_METHODS } from "@/config/checkout";
+import { formatDeliveryEstimate } from "@/lib/shipping";
+import { Order } from "@/types/order";
+import Link from "next/link";
+import OrderSummary from "@/components/orders/OrderSummary";
+
+// Heading shown above "Thanks for ordering" for each payment outcome
+const STATUS_HEADINGS: Partial<Record<Order["status"], string>> = {
+  processing: "Payment successful",
+  pending: "Awaiting payment",
+  failed: "Payment failed",
+};
+
+interface ThankyouPageContentProps {
+  order: Order; // The order that was just placed
+}
+
+const ThankyouPageContent = ({ order }: ThankyouPageContentProps) => {
+  const { shippingAddress } = order;
+  const paymentMethod = PAYMENT_METHODS.find(
+    (method) => method.id === order.paymentMethodId
+  );
+
+  return (
+    <>
+      <main className="relative lg:min-h-full">
+        <div className="h-80 overflow-hidden lg:absolute lg:h-full lg:w-1/2 lg:pr-4 xl:pr-12">
+          <img
+            alt="TODO"
+            src="https://tailwindui.com/plus/img/ecommerce-images/confirmation-page-06-hero.jpg"
+            className="size-full object-cover"
+          />
+        </div>
+
+        <div>
+          <div className="mx-auto max-w-2xl px-4 py-16 sm:px-6 sm:py-24 lg:grid lg:max-w-7xl lg:grid-cols-2 lg:gap-x-8 lg:px-8 lg:py-32 xl:gap-x-24">
+            <div className="lg:col-start-2">
+              <h1
+                className={`text-sm font-medium ${
+                  order.status === "failed" ? "text-red-600" : "text-indigo-600"
+                }`}
+              >
+                {STATUS_HEADINGS[order.status] || "Order received"}
+              </h1>
+              <p className="mt-2 text-4xl font-bold tracking-tight text-gray-900 sm:text-5xl">
+                Thanks for ordering
+              </p>
+              <p className="mt-2 text-base text-gray-500">
+                {order.status === "failed"
+                  ? "Your payment didn’t go through, so this order won’t be shipped. Your cart is still saved, so you can check out again."
+                  : "We appreciate your order, we’re currently processing it. So hang tight and we’ll send you confirmation very soon!"}
+              </p>
+
+              <dl className="mt-16 grid grid-cols-2 gap-x-4 text-sm font-medium">
+                <div>
+                  <dt className="text-gray-900">Order number</dt>
+                  <dd className="mt-2 break-all text-indigo-600">{order.id}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-900">Estimated delivery</dt>
+                  <dd className="mt-2 text-indigo-600">
+                    {formatDeliveryEstimate(order.delivery.estimate)}
+                  </dd>
+                </div>
+              </dl>
+
+              <OrderSummary order={order} />
+
+              <dl className="mt-16 grid grid-cols-2 gap-x-4 text-sm text-gray-600">
+                <div>
+                  <dt className="font-medium text-gray-900">
+                    Shipping Address
+                  </dt>
+                  <dd className="mt-2">
+                    <address className="not-italic">
+                      <span className="block">
+                        {shippingAddress.firstName} {shippingAddress.lastName}
+                      </span>
+                      {shippingAddress.company && (
+                        <span className="block">{shippingAddress.company}</span>
+                      )}
+                      <span className="block">
+                        {shippingAddress.address}
+                        {shippingAddress.apartment &&
+                          `, ${shippingAddress.apartment}`}
+                      </span>
+                      <span className="block">
+                        {shippingAddress.city}, {shippingAddress.region}{" "}
+                        {shippingAddress.postalCode}
+                      </span>
+                      <span className="block">{shippingAddress.country}</span>
+                    </address>
+                  </dd>
+                </div>
+                <div>
+                  <dt className="font-medium text-gray-900">
+                    Payment Information
+                  </dt>
+                  <dd className="mt-2">
+                    <p className="text-gray-900">
+                      {paymentMethod?.title || order.paymentMethodId}
+                    </p>
+                    <p>Sent to {order.email}</p>
+                  </dd>
+                </div>
+              </dl>
+
+              <div className="mt-16 border-t border-gray-200 py-6 text-right">
+                <Link
+                  href="/shop"
+                  className="text-sm font-medium text-indigo-600 hover:text-indigo-500"
+                >
+                  Continue Shopping
+                  <span aria-hidden="true"> &rarr;</span>
+                </Link>
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+    </>
+  );
+};
+
+export default ThankyouPageContent;
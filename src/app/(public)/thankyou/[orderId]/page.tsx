@@ -0,0 +1,35 @@
+import { notFound } from "next/navigation";
+import ThankyouPageContent from "./ThankyouPageContent";
+import { hasOrderAccess } from "@/lib/orderAccess";
+import { getCurrentUser } from "@/services/authServices";
+import { fetchOrderById } from "@/services/orderServices";
+
+// Orders are created at runtime, so this page is never statically generated
+export const dynamic = "force-dynamic";
+
+// Order confirmation page component
+// Account orders are shown to their customer and admins; guest orders to the browser that placed
+// them (`order_access` cookie). Anyone else gets a 404, so order ids don't reveal addresses
+const Thankyou = async ({
+  params,
+}: {
+  params: Promise<{ orderId: string }>;
+}) => {
+  const { orderId } = await params;
+  const [order, user] = await Promise.all([
+    fetchOrderById(orderId),
+    getCurrentUser(),
+  ]);
+
+  const canView =
+    !!order &&
+    (user?.role === "admin" ||
+      (order.userId ? order.userId === user?.id : await hasOrderAccess(order)));
+  if (!canView) {
+    notFound();
+  }
+
+  return <ThankyouPageContent order={order} />;
+};
+
+export default Thankyou;
@@ -1,7 +0,0 @@
-import ThankyouPageContent from "./ThankyouPageContent";
-
-const Template = () => {
-  return <ThankyouPageContent />;
-};
-
-export default Template;
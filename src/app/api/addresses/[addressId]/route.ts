@@ -0,0 +1,72 @@
+/**
+ * ## API Endpoint: Saved Address
+ * Changes or removes one address of the signed-in customer's address book.
+ *
+ * ## Data Source
+ * Uses `requireUser` (`/services/authServices.ts`), `parseAddressInput`
+ * (`/lib/checkoutValidation.ts`) and `addressServices` (`/services/addressServices.ts`).
+ *
+ * ## Methods
+ * - **PATCH** `{ label, address, isDefault }`: Replaces the address (and makes it the default when `isDefault`).
+ * - **DELETE**: Removes the address.
+ *
+ * ## Response
+ * - **Success (200)**: Returns `{ addressBook }` (`AddressBook`) after the change.
+ * - **Error (400)**: Returns `error` and `fieldErrors` (field → message) when the address is invalid.
+ * - **Error (401)**: Returns `error` and `code` when nobody is signed in.
+ * - **Error (404)**: Returns `error` when the address isn't in the customer's address book.
+ *
+ * ## Usage
+ * Example request:
+ * ```
+ * DELETE https://my-app.com/api/addresses/3f2c…
+ * ```
+ */
+
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiResponses";
+import { parseAddressInput } from "@/lib/checkoutValidation";
+import { removeAddress, updateAddress } from "@/services/addressServices";
+import { requireUser } from "@/services/authServices";
+
+const SIGN_IN_MESSAGE = "Sign in to manage your addresses.";
+
+const notFound = () =>
+  NextResponse.json({ error: "Address not found." }, { status: 404 });
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ addressId: string }> }
+) {
+  const body = await request.json().catch(() => null);
+
+  try {
+    const user = await requireUser(SIGN_IN_MESSAGE);
+    const addressBook = await updateAddress(
+      user.id,
+      (await params).addressId,
+      parseAddressInput(body)
+    );
+
+    return addressBook ? NextResponse.json({ addressBook }) : notFound();
+  } catch (error) {
+    return errorResponse(error, "An error occurred while saving the address.");
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ addressId: string }> }
+) {
+  try {
+    const user = await requireUser(SIGN_IN_MESSAGE);
+    const addressBook = await removeAddress(user.id, (await params).addressId);
+
+    return addressBook ? NextResponse.json({ addressBook }) : notFound();
+  } catch (error) {
+    return errorResponse(
+      error,
+      "An error occurred while removing the address."
+    );
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * ## API Endpoint: Address Book
+ * The signed-in customer's saved addresses, managed on the profile page and offered at checkout.
+ *
+ * ## Data Source
+ * Uses `requireUser` (`/services/authServices.ts`), `parseAddressInput`
+ * (`/lib/checkoutValidation.ts`) and `addressServices` (`/services/addressServices.ts`). Address
+ * books are stored in the JSON file store (`/lib/jsonStore.ts`).
+ *
+ * ## Methods
+ * - **GET**: Returns the address book.
+ * - **POST** `{ label, address, isDefault }`: Saves an address (`address` has the checkout's shipping fields).
+ *
+ * ## Response
+ * - **Success (200/201)**: Returns `{ addressBook }` (`AddressBook`) after the change.
+ * - **Error (400)**: Returns `error` and `fieldErrors` (field → message) when the address is invalid.
+ * - **Error (401)**: Returns `error` and `code` when nobody is signed in.
+ *
+ * ## Usage
+ * Example request:
+ * ```
+ * POST https://my-app.com/api/addresses
+ * { "label": "Home", "address": { "firstName": "Jane", ... }, "isDefault": true }
+ * ```
+ */
+
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiResponses";
+import { parseAddressInput } from "@/lib/checkoutValidation";
+import { addAddress, fetchAddressBook } from "@/services/addressServices";
+import { requireUser } from "@/services/authServices";
+
+const SIGN_IN_MESSAGE = "Sign in to manage your addresses.";
+
+export async function GET() {
+  try {
+    const user = await requireUser(SIGN_IN_MESSAGE);
+    const addressBook = await fetchAddressBook(user.id);
+
+    return NextResponse.json({ addressBook });
+  } catch (error) {
+    return errorResponse(error, "An error occurred while loading addresses.");
+  }
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+
+  try {
+    const user = await requireUser(SIGN_IN_MESSAGE);
+    const addressBook = await addAddress(user.id, parseAddressInput(body));
+
+    return NextResponse.json({ addressBook }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, "An error occurred while saving the address.");
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * ## API Endpoint: Analytics Export
+ * Downloads the admin dashboard figures of a date range as a CSV file: the summary, the revenue
+ * per day (or month) and the best sellers. Admins only.
+ *
+ * ## Data Source
+ * Uses `requireUser` (`/services/authServices.ts`), `fetchStoreAnalytics`
+ * (`/services/analyticsServices.ts`) and `analyticsToCsv` (`/lib/analytics.ts`).
+ *
+ * ## Query Parameters
+ * - `from`, `to` (YYYY-MM-DD, optional): The range, both days included; defaults to the last 30 days.
+ *
+ * ## Response
+ * - **Success (200)**: The figures (`text/csv`, as an attachment).
+ * - **Error (401)**: Returns `error` and `code` when nobody is signed in.
+ * - **Error (403)**: Returns `error` when the account isn't an admin.
+ *
+ * ## Usage
+ * Example request:
+ * ```
+ * GET https://my-app.com/api/analytics?from=2026-09-01&to=2026-09-30
+ * ```
+ */
+
+import { NextResponse } from "next/server";
+import {
+  analyticsFileName,
+  analyticsToCsv,
+  parseDateRange,
+} from "@/lib/analytics";
+import { errorResponse } from "@/lib/apiResponses";
+import { fetchStoreAnalytics } from "@/services/analyticsServices";
+import { requireUser } from "@/services/authServices";
+
+export async function GET(request: Request) {
+  try {
+    const user = await requireUser("Sign in to export the store analytics.");
+    if (user.role !== "admin") {
+      return NextResponse.json(
+        { error: "Only admins can export the store analytics." },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const range = parseDateRange({
+      from: searchParams.get("from") || undefined,
+      to: searchParams.get("to") || undefined,
+    });
+    const analytics = await fetchStoreAnalytics(range);
+
+    return new NextResponse(analyticsToCsv(analytics), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${analyticsFileName(range)}"`,
+      },
+    });
+  } catch (error) {
+    return errorResponse(
+      error,
+      "An error occurred while exporting the analytics."
+    );
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * ## API Endpoint: Apply Promotions
+ * This endpoint checks coupon codes and prices the discounts of a cart.
+ * It re-prices the cart from WooCommerce and runs the promotion engine on the server, so coupon
+ * codes and promotion rules never reach the browser. `/api/create-order` applies the same
+ * promotions again when the order is placed.
+ *
+ * ## Data Source
+ * Uses `parsePromotionQuery` (`/lib/checkoutValidation.ts`) and `quotePromotions`
+ * (`/services/orderServices.ts`). Promotions are configured in `/config/promotions.ts`.
+ *
+ * ## Request Body
+ * - **items**: The cart lines (`{ id, variationId, quantity }`). Prices are never read from the request.
+ * - **couponCodes**: The codes the customer entered (may be empty).
+ * - **currency**: The currency to price the discounts in.
+ *
+ * ## Response
+ * - **Success (200)**: Returns the `PromotionResult`: `discounts`, `lineDiscounts`, `freeShipping`
+ *   and `rejectedCodes` (code → reason) for every code that doesn't apply.
+ * - **Error (400)**: Returns `error` and `fieldErrors` (field → message) when the request is invalid.
+ * - **Error (500/503/504)**: Returns an error message and `details` if WooCommerce can't be reached.
+ *
+ * ## Usage
+ * Example request:
+ * ```
+ * POST https://my-app.com/api/apply-promotions
+ * { "items": [{ "id": 1, "variationId": null, "quantity": 2 }], "couponCodes": ["WELCOME10"], "currency": "USD" }
+ * ```
+ */
+
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiResponses";
+import { parsePromotionQuery } from "@/lib/checkoutValidation";
+import { fetchExchangeRates } from "@/services/currencyServices";
+import { quotePromotions } from "@/services/orderServices";
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+
+  try {
+    const rates = await fetchExchangeRates();
+    const query = parsePromotionQuery(body, Object.keys(rates.rates));
+
+    return NextResponse.json(await quotePromotions(query));
+  } catch (error) {
+    return errorResponse(
+      error,
+      "An error occurred while applying the promotions."
+    );
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * ## API Endpoint: Forgot Password
+ * Emails a single-use link to `/reset-password`. The answer is the same whether or not the email
+ * has an account, so the form can't be used to find out who shops here.
+ *
+ * ## Data Source
+ * Uses `parseEmailRequest` (`/lib/authValidation.ts`) and `sendPasswordReset`
+ * (`/services/authServices.ts`). Emails go through `/lib/mailer.ts`; the link points to `SITE_URL`
+ * (`/lib/siteUrl.ts`), not the request's host.
+ *
+ * ## Request Body
+ * - **email**: The account's email.
+ *
+ * ## Response
+ * - **Success (200)**: Returns `{ sent: true }`.
+ * - **Error (400)**: Returns `error` and `code` when the email is invalid.
+ *
+ * ## Usage
+ * Example request:
+ * ```
+ * POST https://my-app.com/api/auth/forgot-password
+ * { "email": "jane@example.com" }
+ * ```
+ */
+
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiResponses";
+import { parseEmailRequest } from "@/lib/authValidation";
+import { siteUrl } from "@/lib/siteUrl";
+import { sendPasswordReset } from "@/services/authServices";
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+
+  try {
+    const { email } = parseEmailRequest(body);
+    await sendPasswordReset(email, siteUrl());
+
+    return NextResponse.json({ sent: true });
+  } catch (error) {
+    return errorResponse(error, "An error occurred while sending the link.");
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * ## API Endpoint: Sign In
+ * Signs a customer in with their email and password and moves this browser's guest cart into
+ * their account.
+ *
+ * ## Data Source
+ * Uses `parseCredentials` (`/lib/authValidation.ts`), `authenticateUser` and `startSession`
+ * (`/services/authServices.ts`). Users are stored in the JSON file store (`/lib/jsonStore.ts`).
+ *
+ * ## Request Body
+ * - **email**, **password**.
+ *
+ * ## Response
+ * - **Success (200)**: Returns `{ user }` (`SessionUser`) and sets the signed `session` cookie.
+ * - **Error (400)**: Returns `error` and `code` when the email or password is missing.
+ * - **Error (401)**: Returns `error` and `code` when they don't match an account.
+ *
+ * ## Usage
+ * Example request:
+ * ```
+ * POST https://my-app.com/api/auth/login
+ * { "email": "jane@example.com", "password": "correct horse" }
+ * ```
+ */
+
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiResponses";
+import { parseCredentials } from "@/lib/authValidation";
+import { authenticateUser, startSession } from "@/services/authServices";
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+
+  try {
+    const { email, password } = parseCredentials(body);
+    const user = await startSession(await authenticateUser(email, password));
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    return errorResponse(error, "An error occurred while signing in.");
+  }
+}
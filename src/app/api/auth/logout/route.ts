@@ -0,0 +1,27 @@
+/**
+ * ## API Endpoint: Sign Out
+ * Clears the `session` cookie. The account's cart stays on the server for the next sign-in.
+ *
+ * ## Response
+ * - **Success (200)**: Returns `{ user: null }`.
+ *
+ * ## Usage
+ * Example request:
+ * ```
+ * POST https://my-app.com/api/auth/logout
+ * ```
+ */
+
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiResponses";
+import { endSession } from "@/services/authServices";
+
+export async function POST() {
+  try {
+    await endSession();
+
+    return NextResponse.json({ user: null });
+  } catch (error) {
+    return errorResponse(error, "An error occurred while signing out.");
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * ## API Endpoint: Magic Link
+ * Passwordless sign-in. `POST` emails a single-use sign-in link; the link points back to `GET`,
+ * which signs the customer in (creating their account on first use) and sends them on.
+ *
+ * ## Data Source
+ * Uses `parseEmailRequest` (`/lib/authValidation.ts`), `sendMagicLink`, `verifyMagicLink` and
+ * `startSession` (`/services/authServices.ts`). Emails go through `/lib/mailer.ts`; links point to
+ * `SITE_URL` (`/lib/siteUrl.ts`), not the request's host.
+ *
+ * ## Request Body (POST)
+ * - **email**: Where to send the link.
+ * - **next** (optional): Path to open once signed in (defaults to `/`).
+ *
+ * ## Query Parameters (GET)
+ * - **token**: The token from the emailed link.
+ * - **next**: Path to open once signed in.
+ *
+ * ## Response
+ * - **POST (200)**: Returns `{ sent: true }`.
+ * - **POST (400)**: Returns `error` and `code` when the email is invalid.
+ * - **GET**: Redirects to `next`, or to `/login?error=invalid-link` when the link expired or was used.
+ *
+ * ## Usage
+ * Example request:
+ * ```
+ * POST https://my-app.com/api/auth/magic-link
+ * { "email": "jane@example.com", "next": "/checkout" }
+ * ```
+ */
+
+import { NextResponse } from "next/server";
+import { safeNextPath } from "@/lib/access";
+import { errorResponse } from "@/lib/apiResponses";
+import { AuthError } from "@/lib/authError";
+import { parseEmailRequest } from "@/lib/authValidation";
+import { siteUrl } from "@/lib/siteUrl";
+import {
+  sendMagicLink,
+  startSession,
+  verifyMagicLink,
+} from "@/services/authServices";
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+
+  try {
+    const { email } = parseEmailRequest(body);
+    const origin = siteUrl();
+    await sendMagicLink(email, origin, safeNextPath(body?.next, origin));
+
+    return NextResponse.json({ sent: true });
+  } catch (error) {
+    return errorResponse(error, "An error occurred while sending the link.");
+  }
+}
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const token = url.searchParams.get("token") || "";
+
+  try {
+    await startSession(await verifyMagicLink(token));
+
+    return NextResponse.redirect(
+      new URL(
+        safeNextPath(url.searchParams.get("next"), url.origin),
+        url.origin
+      )
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.redirect(
+        new URL("/login?error=invalid-link", url.origin)
+      );
+    }
+    return errorResponse(error, "An error occurred while signing in.");
+  }
+}
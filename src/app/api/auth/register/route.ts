@@ -0,0 +1,46 @@
+/**
+ * ## API Endpoint: Register
+ * Creates a password account and signs the new customer in, moving this browser's guest cart into
+ * their account. New accounts are customers; admins are made with `npm run users:role`.
+ *
+ * ## Data Source
+ * Uses `parseRegistration` (`/lib/authValidation.ts`), `registerUser` and `startSession`
+ * (`/services/authServices.ts`). Users are stored in the JSON file store (`/lib/jsonStore.ts`).
+ *
+ * ## Request Body
+ * - **name**, **email**, **password** (at least `MIN_PASSWORD_LENGTH` characters).
+ *
+ * ## Response
+ * - **Success (200)**: Returns `{ user }` (`SessionUser`) and sets the signed `session` cookie.
+ * - **Error (400)**: Returns `error` and `code` when a field is invalid.
+ * - **Error (409)**: Returns `error` and `code` when the email already has an account.
+ *
+ * ## Usage
+ * Example request:
+ * ```
+ * POST https://my-app.com/api/auth/register
+ * { "name": "Jane", "email": "jane@example.com", "password": "correct horse" }
+ * ```
+ */
+
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiResponses";
+import { parseRegistration } from "@/lib/authValidation";
+import { registerUser, startSession } from "@/services/authServices";
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+
+  try {
+    const user = await startSession(
+      await registerUser(parseRegistration(body))
+    );
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    return errorResponse(
+      error,
+      "An error occurred while creating the account."
+    );
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * ## API Endpoint: Reset Password
+ * Sets a new password from a reset link and signs the customer in.
+ *
+ * ## Data Source
+ * Uses `parsePasswordReset` (`/lib/authValidation.ts`), `resetPassword` and `startSession`
+ * (`/services/authServices.ts`).
+ *
+ * ## Request Body
+ * - **token**: The token from the emailed link.
+ * - **password**: The new password (at least `MIN_PASSWORD_LENGTH` characters).
+ *
+ * ## Response
+ * - **Success (200)**: Returns `{ user }` (`SessionUser`) and sets the signed `session` cookie.
+ * - **Error (400)**: Returns `error` and `code` when the password is too short or the link expired.
+ *
+ * ## Usage
+ * Example request:
+ * ```
+ * POST https://my-app.com/api/auth/reset-password
+ * { "token": "…", "password": "correct horse" }
+ * ```
+ */
+
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiResponses";
+import { parsePasswordReset } from "@/lib/authValidation";
+import { resetPassword, startSession } from "@/services/authServices";
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+
+  try {
+    const { token, password } = parsePasswordReset(body);
+    const user = await startSession(await resetPassword(token, password));
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    return errorResponse(
+      error,
+      "An error occurred while resetting the password."
+    );
+  }
+}
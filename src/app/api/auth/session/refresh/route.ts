@@ -0,0 +1,46 @@
+/**
+ * ## API Endpoint: Refresh Session
+ * Brings the `session` cookie up to date with the stored account and sends the visitor back to the
+ * page they asked for, so the middleware answers it again with the right role. `requireRole`
+ * redirects here when the cookie no longer matches its account.
+ *
+ * ## Data Source
+ * Uses `refreshSession` (`/services/authServices.ts`).
+ *
+ * ## Query Parameters
+ * - **next**: The page to open again (same-site paths only, defaults to `/`).
+ *
+ * ## Response
+ * - Redirects to `next`: signed out when the account was deleted, with the current role otherwise.
+ *
+ * ## Usage
+ * Example request:
+ * ```
+ * GET https://my-app.com/api/auth/session/refresh?next=%2Fadmin-dashboard
+ * ```
+ */
+
+import { NextResponse } from "next/server";
+import { safeNextPath } from "@/lib/access";
+import { errorResponse } from "@/lib/apiResponses";
+import { refreshSession } from "@/services/authServices";
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+
+  try {
+    await refreshSession();
+
+    return NextResponse.redirect(
+      new URL(
+        safeNextPath(url.searchParams.get("next"), url.origin),
+        url.origin
+      )
+    );
+  } catch (error) {
+    return errorResponse(
+      error,
+      "An error occurred while refreshing the session."
+    );
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * ## API Endpoint: Session
+ * Tells the browser who is signed in (`useSession`). The `session` cookie is `httpOnly`, so this
+ * is the only way client code can find out. A cookie whose account is gone is cleared, and a
+ * changed role is signed into a new cookie, so the middleware stays in step.
+ *
+ * ## Data Source
+ * Uses `refreshSession` (`/services/authServices.ts`).
+ *
+ * ## Response
+ * - **Success (200)**: Returns `{ user }`: a `SessionUser`, or `null` for guests.
+ *
+ * ## Usage
+ * Example request:
+ * ```
+ * GET https://my-app.com/api/auth/session
+ * ```
+ */
+
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiResponses";
+import { refreshSession } from "@/services/authServices";
+
+export async function GET() {
+  try {
+    const user = await refreshSession();
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    return errorResponse(error, "An error occurred while loading the session.");
+  }
+}
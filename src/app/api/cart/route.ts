@@ -0,0 +1,129 @@
+/**
+ * ## API Endpoint: Cart
+ * The customer's cart, stored on the server so it survives a cleared browser and follows them to
+ * other devices. Guests are identified by the `cart_session` cookie, set on their first request.
+ *
+ * ## Data Source
+ * Uses `getCurrentUser` (`/services/authServices.ts`), `getCartId` (`/lib/cartSession.ts`),
+ * `parseCartUpdate` / `parseCartLine` (`/lib/checkoutValidation.ts`) and `cartServices`
+ * (`/services/cartServices.ts`). Carts are stored in the JSON file store (`/lib/jsonStore.ts`).
+ *
+ * ## Methods
+ * - **GET**: Returns the cart.
+ * - **PUT** `{ items, couponCodes }`: Replaces the whole cart (how `useCartStore` syncs).
+ * - **POST** `{ id, variationId, quantity }`: Adds units of a line (`quantity` defaults to 1).
+ * - **PATCH** `{ id, variationId, quantity }`: Sets the quantity of a line.
+ * - **DELETE** `?id=1&variationId=12`: Removes a line; without `id`, empties the cart.
+ *
+ * ## Response
+ * - **Success (200)**: Returns `{ cart }` (`ServerCart`) after the change.
+ * - **Error (400)**: Returns `error` and `fieldErrors` (field → message) when the request is invalid.
+ *
+ * ## Usage
+ * Example request:
+ * ```
+ * POST https://my-app.com/api/cart
+ * { "id": 1, "variationId": null, "quantity": 2 }
+ * ```
+ */
+
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiResponses";
+import { getCartId } from "@/lib/cartSession";
+import {
+  CheckoutValidationError,
+  parseCartLine,
+  parseCartUpdate,
+} from "@/lib/checkoutValidation";
+import { getCurrentUser } from "@/services/authServices";
+import {
+  addCartItem,
+  clearCart,
+  fetchCart,
+  removeCartItem,
+  saveCart,
+  updateCartItem,
+} from "@/services/cartServices";
+
+export async function GET() {
+  try {
+    const cart = await fetchCart(await getCartId(await getCurrentUser()));
+
+    return NextResponse.json({ cart });
+  } catch (error) {
+    return errorResponse(error, "An error occurred while loading the cart.");
+  }
+}
+
+export async function PUT(request: Request) {
+  const body = await request.json().catch(() => null);
+
+  try {
+    const cart = await saveCart(
+      await getCartId(await getCurrentUser()),
+      parseCartUpdate(body)
+    );
+
+    return NextResponse.json({ cart });
+  } catch (error) {
+    return errorResponse(error, "An error occurred while saving the cart.");
+  }
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+
+  try {
+    const cart = await addCartItem(
+      await getCartId(await getCurrentUser()),
+      parseCartLine(body)
+    );
+
+    return NextResponse.json({ cart });
+  } catch (error) {
+    return errorResponse(error, "An error occurred while updating the cart.");
+  }
+}
+
+export async function PATCH(request: Request) {
+  const body = await request.json().catch(() => null);
+
+  try {
+    const cart = await updateCartItem(
+      await getCartId(await getCurrentUser()),
+      parseCartLine(body)
+    );
+
+    return NextResponse.json({ cart });
+  } catch (error) {
+    return errorResponse(error, "An error occurred while updating the cart.");
+  }
+}
+
+export async function DELETE(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+  const variationId = searchParams.get("variationId");
+
+  try {
+    const cartId = await getCartId(await getCurrentUser());
+    if (id === null) {
+      return NextResponse.json({ cart: await clearCart(cartId) });
+    }
+
+    const productId = Number(id);
+    const variation = variationId ? Number(variationId) : null;
+    if (
+      !Number.isInteger(productId) ||
+      (variation !== null && !Number.isInteger(variation))
+    ) {
+      throw new CheckoutValidationError({ items: "Unknown cart line." });
+    }
+
+    const cart = await removeCartItem(cartId, productId, variation);
+
+    return NextResponse.json({ cart });
+  } catch (error) {
+    return errorResponse(error, "An error occurred while updating the cart.");
+  }
+}
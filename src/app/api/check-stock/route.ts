@@ -0,0 +1,46 @@
+/**
+ * ## API Endpoint: Check Stock
+ * This endpoint reports which cart lines can't be bought in the requested quantity.
+ * It counts the catalog stock, the units held by placed orders and by other customers' checkout
+ * reservations, and the per-order limit. Nothing is reserved.
+ *
+ * ## Data Source
+ * Uses `parseStockRequest` (`/lib/checkoutValidation.ts`) and `checkStock`
+ * (`/services/inventoryServices.ts`). Limits are configured in `/config/inventory.ts`.
+ *
+ * ## Request Body
+ * - **items**: The cart lines (`{ id, variationId, quantity }`).
+ * - **reservationId**: The customer's own reservation, if checkout made one (optional).
+ *
+ * ## Response
+ * - **Success (200)**: Returns `{ shortages }`, one `{ productId, variationId, name, requested, available }`
+ *   per line that can't be bought as it is (`[]` when the whole cart can).
+ * - **Error (400)**: Returns `error` and `fieldErrors` (field → message) when the request is invalid.
+ * - **Error (500/503/504)**: Returns an error message and `details` if WooCommerce can't be reached.
+ *
+ * ## Usage
+ * Example request:
+ * ```
+ * POST https://my-app.com/api/check-stock
+ * { "items": [{ "id": 1, "variationId": null, "quantity": 2 }] }
+ * ```
+ */
+
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiResponses";
+import { parseStockRequest } from "@/lib/checkoutValidation";
+import { checkStock } from "@/services/inventoryServices";
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+
+  try {
+    const { items, reservationId } = parseStockRequest(body);
+
+    return NextResponse.json({
+      shortages: await checkStock(items, reservationId),
+    });
+  } catch (error) {
+    return errorResponse(error, "An error occurred while checking stock.");
+  }
+}
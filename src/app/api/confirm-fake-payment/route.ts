@@ -0,0 +1,45 @@
+/**
+ * ## API Endpoint: Confirm Fake Payment
+ * This endpoint plays the customer's bank for the fake payment gateway. It approves or cancels a payment
+ * waiting for confirmation, then applies the event a real gateway would send to its webhook. The event is
+ * handled in-process rather than posted back to this server: the request's host can't be trusted.
+ *
+ * ## Data Source
+ * Uses `completeFakeAuthentication` (`/lib/fakePaymentGateway.ts`) and `handlePaymentEvent`
+ * (`/services/paymentServices.ts`).
+ *
+ * ## Request Body
+ * - **transactionId**: The fake gateway transaction id.
+ * - **approved**: `true` to confirm the payment, `false` to cancel it.
+ *
+ * ## Response
+ * - **Success (200)**: Returns `{ returnUrl }`, the page to send the customer to.
+ * - **Error (409)**: Returns an error message when the payment isn't waiting for confirmation.
+ */
+
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiResponses";
+import {
+  completeFakeAuthentication,
+  fakePaymentGateway,
+} from "@/lib/fakePaymentGateway";
+import { handlePaymentEvent } from "@/services/paymentServices";
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+
+  try {
+    const { event, returnUrl } = await completeFakeAuthentication(
+      String(body?.transactionId || ""),
+      body?.approved === true
+    );
+    await handlePaymentEvent(fakePaymentGateway.id, event);
+
+    return NextResponse.json({ returnUrl });
+  } catch (error) {
+    return errorResponse(
+      error,
+      "An error occurred while confirming the payment."
+    );
+  }
+}
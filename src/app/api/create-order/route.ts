@@ -0,0 +1,89 @@
+/**
+ * ## API Endpoint: Create Order
+ * This endpoint places an order from the checkout form.
+ * It validates the submitted contact, shipping, delivery and payment details, checks the cart is
+ * still in stock, re-prices it from WooCommerce, recomputes every total on the server, stores the
+ * order and pays for it with the payment method's provider.
+ *
+ * ## Data Source
+ * Uses `parseCheckoutInput` (`/lib/checkoutValidation.ts`), `withReservedStock`
+ * (`/services/inventoryServices.ts`) and `createOrder` (`/services/orderServices.ts`).
+ * Orders are stored in the JSON file store (`/lib/jsonStore.ts`).
+ * Payments run through `payForOrder` (`/services/paymentServices.ts`).
+ * Orders placed while signed in are linked to the account (`getCurrentUser`), for the order history.
+ * Their shipping address can be saved to the account's address book (`addAddress`, `/services/addressServices.ts`).
+ * Guest orders set an `order_access` cookie (`/lib/orderAccess.ts`), so only this browser can open their confirmation page.
+ *
+ * ## Request Body
+ * - **email**, **shippingAddress**, **deliveryMethodId**, **paymentMethodId**, **currency**
+ * - **card**: `{ number, name, expiry, cvc }` when paying by credit card. Never stored.
+ * - **items**: The cart lines (`{ id, variationId, quantity }`). Prices are never read from the request.
+ * - **couponCodes**: The coupon codes applied to the cart.
+ * - **reservationId**: The checkout's stock reservation (`/api/reserve-stock`), released once the order is placed.
+ * - **saveAddress**: `true` to save the shipping address to the signed-in customer's address book.
+ *
+ * ## Response
+ * - **Success (201)**: Returns `{ orderId, actionUrl }`. `actionUrl` is set when the customer must
+ *   confirm the payment with their bank before the order is paid.
+ * - **Error (400)**: Returns `error` and `fieldErrors` (field → message) when validation fails.
+ * - **Error (400/402)**: Returns `error` and `code` when the payment is declined; the order is kept as `failed`.
+ * - **Error (409)**: Returns `error` and `shortages` when part of the cart is no longer in stock.
+ * - **Error (500/503/504)**: Returns an error message and `details` if WooCommerce can't be reached.
+ *
+ * ## Usage
+ * Example request:
+ * ```
+ * POST https://my-app.com/api/create-order
+ * { "email": "jane@example.com", "shippingAddress": { ... }, "items": [{ "id": 1, "variationId": null, "quantity": 2 }], ... }
+ * ```
+ */
+
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiResponses";
+import { parseCheckoutInput } from "@/lib/checkoutValidation";
+import {
+  createOrderAccessToken,
+  setOrderAccessCookie,
+} from "@/lib/orderAccess";
+import { addAddress } from "@/services/addressServices";
+import { getCurrentUser } from "@/services/authServices";
+import { fetchExchangeRates } from "@/services/currencyServices";
+import { withReservedStock } from "@/services/inventoryServices";
+import { createOrder } from "@/services/orderServices";
+import { payForOrder } from "@/services/paymentServices";
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+
+  try {
+    const rates = await fetchExchangeRates();
+    const input = parseCheckoutInput(body, Object.keys(rates.rates));
+    const user = await getCurrentUser();
+    const access = user ? null : createOrderAccessToken();
+    const order = await withReservedStock(
+      input.items,
+      input.reservationId,
+      () => createOrder(input, user?.id ?? null, access?.tokenHash ?? null)
+    );
+    if (access) {
+      await setOrderAccessCookie(order.id, access.token);
+    }
+    if (user && body?.saveAddress === true) {
+      // The order is placed either way; a failed save only costs the customer some typing next time
+      await addAddress(user.id, {
+        label: "",
+        address: input.shippingAddress,
+        isDefault: false,
+      }).catch((error) => console.error("Error saving address:", error));
+    }
+    const { actionUrl } = await payForOrder(
+      order,
+      input.card,
+      new URL(`/thankyou/${order.id}`, request.url).toString()
+    );
+
+    return NextResponse.json({ orderId: order.id, actionUrl }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, "An error occurred while placing the order.");
+  }
+}
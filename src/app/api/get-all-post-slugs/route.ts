@@ -19,61 +19,32 @@
  */
 
 import { NextResponse } from "next/server";
-
-const WORDPRESS_API_URL = process.env.NEXT_PUBLIC_WORDPRESS_API_URL!;
-const GRAPHQL_QUERY = `
-  query GetAllSlugs($first: Int!) {
-    posts(first: $first) {
-      nodes {
-        slug
-      }
-    }
-  }
-`;
+import { fetchGraphQL } from "@/lib/graphqlClient";
+import { errorResponse } from "@/lib/apiResponses";
+import {
+  GetAllPostSlugsQuery,
+  GetAllPostSlugsQueryVariables,
+} from "@/graphql/generated";
+import { GRAPHQL_QUERY_GET_ALL_POST_SLUGS } from "@/graphql/queries/posts/getAllPostSlugs";
 
 export async function GET() {
   try {
-    // Set the fetch variables
-    const variables = { first: 100 };
-
     // Make the GraphQL request
-    const response = await fetch(WORDPRESS_API_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        query: GRAPHQL_QUERY,
-        variables,
-      }),
-      next: {
-        revalidate: 60, // Revalidate cache every 60 seconds
-      },
-    });
-
-    const data = await response.json();
-
-    if (!response.ok || data.errors) {
-      console.error("GraphQL Error:", data.errors || response.statusText);
-      return NextResponse.json(
-        {
-          error: "Failed to fetch slugs.",
-          details: data.errors || response.statusText,
-        },
-        { status: 500 }
-      );
-    }
+    const data = await fetchGraphQL<
+      GetAllPostSlugsQuery,
+      GetAllPostSlugsQueryVariables
+    >(
+      GRAPHQL_QUERY_GET_ALL_POST_SLUGS,
+      { first: 100, after: null },
+      { revalidate: 60 } // Revalidate cache every 60 seconds
+    );
 
-    const slugs = data.data.posts.nodes.map(
-      (node: { slug: string }) => node.slug
+    const slugs = (data.posts?.nodes || []).flatMap((node) =>
+      node.slug ? [node.slug] : []
     );
 
     return NextResponse.json(slugs, { status: 200 });
   } catch (error) {
-    console.error("API Error:", error);
-    return NextResponse.json(
-      { error: "Internal server error." },
-      { status: 500 }
-    );
+    return errorResponse(error, "Failed to fetch slugs.");
   }
 }
@@ -6,15 +6,15 @@
  * ## Functionality
  * - Fetches paginated blog posts from the WordPress GraphQL API.
  * - Supports query variables (`first` and `after`) to manage pagination.
- * - Returns detailed information about each post, including:
- *   - `id`: Unique identifier of the post.
+ * - Uses the shared `GetBlogPosts` query (`/graphql/queries/posts/getAllPosts.ts`), so each post
+ *   carries the `PostCard` fragment fields:
+ *   - `id` / `databaseId`: Unique identifiers of the post.
  *   - `title`: Title of the post.
  *   - `date`: Publication date.
  *   - `excerpt`: Short excerpt from the post content.
- *   - `content`: Full post content.
  *   - `featuredImage`: URL of the post's featured image.
  *   - `categories`: Categories associated with the post.
- *   - `author`: Information about the author, including name and description.
+ *   - `author`: Information about the author (name).
  * - Designed for testing without caching to verify Next.js 15's non-caching behavior.
  *
  * ## Query Variables
@@ -33,50 +33,19 @@
  *
  * ## Future Enhancements
  * - Add support for SSG and ISR to optimize performance.
- * - Implement robust error handling and logging for production.
  *
  * ## Author
  * - The Moose
  */
 
 import { NextResponse } from "next/server";
-
-const WORDPRESS_API_URL = process.env.NEXT_PUBLIC_WORDPRESS_API_URL!;
-const GRAPHQL_QUERY = `
-  query GetBlogPosts($first: Int!, $after: String) {
-    posts(first: $first, after: $after) {
-      pageInfo {
-        hasNextPage
-        endCursor
-      }
-      nodes {
-        id
-        databaseId
-        slug
-        title
-        date
-        excerpt
-        content
-        featuredImage {
-          node {
-            sourceUrl
-          }
-        }
-        categories {
-          nodes {
-            name
-          }
-        }
-        author {
-          node {
-            name
-            description
-          }
-        }
-      }
-    }
-  }
-`;
+import { fetchGraphQL } from "@/lib/graphqlClient";
+import { errorResponse } from "@/lib/apiResponses";
+import { GRAPHQL_QUERY_GET_ALL_POSTS } from "@/graphql/queries/posts/getAllPosts";
+import {
+  GetBlogPostsQuery,
+  GetBlogPostsQueryVariables,
+} from "@/graphql/generated";
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
@@ -84,34 +53,17 @@ export async function GET(request: Request) {
   const after = searchParams.get("after") || null; // Default to null for the first page
 
   try {
-    const response = await fetch(WORDPRESS_API_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        query: GRAPHQL_QUERY,
-        variables: { first, after },
-      }),
-      next: {
-        revalidate: 60, // Revalidate the cached data every 60 seconds
-      },
-    });
-
-    if (!response.ok) {
-      return NextResponse.json(
-        { error: "Failed to fetch data from GraphQL API" },
-        { status: response.status }
-      );
-    }
+    const data = await fetchGraphQL<
+      GetBlogPostsQuery,
+      GetBlogPostsQueryVariables
+    >(
+      GRAPHQL_QUERY_GET_ALL_POSTS,
+      { first, after },
+      { revalidate: 60 } // Revalidate the cached data every 60 seconds
+    );
 
-    const data = await response.json();
-    return NextResponse.json(data);
+    return NextResponse.json({ data });
   } catch (error) {
-    console.error("Error fetching posts:", error);
-    return NextResponse.json(
-      { error: "Internal Server Error" },
-      { status: 500 }
-    );
+    return errorResponse(error, "Failed to fetch data from GraphQL API");
   }
 }
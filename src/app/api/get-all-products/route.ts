@@ -1,11 +1,13 @@
 /**
  * @file /src/app/api/get-all-products/route.ts
  * @description API route to fetch all WooCommerce products with pagination using GraphQL.
- *              Returns a list of products including their ID, name, slug, SKU, price, categories,
- *              and featured image URL. Supports cursor-based pagination via the `first` and `after` query parameters.
+ *              Returns `{ items, hasNextPage, endCursor }` where `items` are products mapped into our
+ *              `Product` type by `fetchProducts` (`/services/productServices.ts`). Supports cursor-based
+ *              pagination via the `first` and `after` query parameters.
  *
  * ## Features
  * - Fetches WooCommerce products with details like price, categories, and images.
+ * - Used by the shop's "Load More" button to fetch further pages from the browser.
  * - Supports both simple and variable product types.
  * - Includes cursor-based pagination for seamless loading of additional products.
  *
@@ -19,50 +21,12 @@
  *
  * ## Notes
  * - Ensure the `NEXT_PUBLIC_WORDPRESS_API_URL` environment variable points to your WooCommerce GraphQL endpoint.
- * - Set up error handling for unexpected cases (e.g., missing environment variables, invalid query parameters).
+ * - Upstream failures are answered with `{ error, details }` and the status from `GraphQLClientError`.
  */
 
 import { NextResponse } from "next/server";
-
-const WORDPRESS_API_URL = process.env.NEXT_PUBLIC_WORDPRESS_API_URL!;
-const GRAPHQL_QUERY = `
-          query GetProductsWithPagination($first: Int!, $after: String) {
-            products(first: $first, after: $after) {
-              pageInfo {
-                hasNextPage
-                endCursor
-              }
-              nodes {
-                id
-                name
-                slug
-                sku
-                ... on SimpleProduct {
-                  price
-                  productCategories {
-                    nodes {
-                      name
-                    }
-                  }
-                  image {
-                    sourceUrl
-                  }
-                }
-                ... on VariableProduct {
-                  price
-                  productCategories {
-                    nodes {
-                      name
-                    }
-                  }
-                  image {
-                    sourceUrl
-                  }
-                }
-              }
-            }
-          }
-        `;
+import { errorResponse } from "@/lib/apiResponses";
+import { fetchProducts } from "@/services/productServices";
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
@@ -79,36 +43,10 @@ export async function GET(request: Request) {
   }
 
   try {
-    const response = await fetch(WORDPRESS_API_URL || "", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        query: GRAPHQL_QUERY,
-        variables: { first, after },
-      }),
-    });
-
-    const data = await response.json();
-
-    if (!response.ok || data.errors) {
-      console.error("GraphQL Error:", data.errors || response.statusText);
-      return NextResponse.json(
-        {
-          error: "Failed to fetch products.",
-          details: data.errors || response.statusText,
-        },
-        { status: 500 }
-      );
-    }
+    const products = await fetchProducts(first, after);
 
-    return NextResponse.json(data.data.products);
+    return NextResponse.json(products);
   } catch (error) {
-    console.error("API Error:", error);
-    return NextResponse.json(
-      { error: "Internal server error." },
-      { status: 500 }
-    );
+    return errorResponse(error, "Failed to fetch products.");
   }
 }
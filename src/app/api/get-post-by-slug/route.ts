@@ -23,35 +23,13 @@
  */
 
 import { NextResponse } from "next/server";
-
-const WORDPRESS_API_URL = process.env.NEXT_PUBLIC_WORDPRESS_API_URL!;
-const GRAPHQL_QUERY = `
-          query GetSinglePostBySlug($slug: ID!) {
-            post(id: $slug, idType: SLUG) {
-              id
-              databaseId
-              title
-              slug
-              date
-              content
-              categories {
-                nodes {
-                  name
-                }
-              }
-              featuredImage {
-                node {
-                  sourceUrl
-                }
-              }
-              author {
-                node {
-                  name
-                }
-              }
-            }
-          }
-        `;
+import { fetchGraphQL } from "@/lib/graphqlClient";
+import { errorResponse } from "@/lib/apiResponses";
+import { GRAPHQL_QUERY_GET_SINGLE_POST_BY_SLUG } from "@/graphql/queries/posts/getSinglePostBySlug";
+import {
+  GetSinglePostBySlugQuery,
+  GetSinglePostBySlugQueryVariables,
+} from "@/graphql/generated";
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
@@ -67,46 +45,24 @@ export async function GET(request: Request) {
   }
 
   try {
-    const response = await fetch(WORDPRESS_API_URL || "", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        query: GRAPHQL_QUERY,
-        variables: { slug },
-      }),
-      next: {
-        revalidate: 60, // Revalidate the cached data every 60 seconds
-      },
-    });
-
-    const data = await response.json();
-
-    if (!response.ok || data.errors) {
-      console.error("GraphQL Error:", data.errors || response.statusText);
-      return NextResponse.json(
-        {
-          error: "Failed to fetch the post.",
-          details: data.errors || response.statusText,
-        },
-        { status: 500 }
-      );
-    }
+    const data = await fetchGraphQL<
+      GetSinglePostBySlugQuery,
+      GetSinglePostBySlugQueryVariables
+    >(
+      GRAPHQL_QUERY_GET_SINGLE_POST_BY_SLUG,
+      { slug },
+      { revalidate: 60 } // Revalidate the cached data every 60 seconds
+    );
 
-    if (!data.data.post) {
+    if (!data.post) {
       return NextResponse.json(
         { error: "Post not found. Check the slug and try again." },
         { status: 404 }
       );
     }
 
-    return NextResponse.json(data.data.post);
+    return NextResponse.json(data.post);
   } catch (error) {
-    console.error("API Error:", error);
-    return NextResponse.json(
-      { error: "Internal server error." },
-      { status: 500 }
-    );
+    return errorResponse(error, "Failed to fetch the post.");
   }
 }
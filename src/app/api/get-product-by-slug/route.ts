@@ -4,22 +4,18 @@
  * The slug is used as the unique identifier for products, which is SEO-friendly
  * and commonly used in URLs for product pages.
  *
- * ## GraphQL Query Used
- * The query fetches the following fields:
- * - **id**: Global unique ID for the product.
- * - **name**: The product's name.
- * - **slug**: SEO-friendly identifier for the product.
- * - **sku**: Stock Keeping Unit for inventory tracking.
- * - **price**: Price of the product (both for simple and variable products).
- * - **productCategories**: List of categories the product belongs to.
- * - **image**: URL of the product's featured image.
+ * ## Data Source
+ * Uses `fetchProductBySlug` (`/services/productServices.ts`), which queries
+ * `GetSingleProductBySlug` and maps the WooCommerce product into our `Product` type
+ * (`id`, `slug`, `name`, `price`, `breadcrumbs`, `imageSrc`, ...).
  *
  * ## Parameters
  * - **slug** (Required): The slug of the product you want to fetch.
  *
  * ## Response
  * - **Success (200)**: Returns product data in JSON format.
- * - **Error (500)**: Returns an error message if the product is not found or if there's a query issue.
+ * - **Error (404)**: Returns an error message if the product is not found.
+ * - **Error (500/504)**: Returns an error message and `details` if there's a query issue or timeout.
  *
  * ## Usage
  * Example request:
@@ -30,41 +26,8 @@
  */
 
 import { NextResponse } from "next/server";
-
-const WORDPRESS_API_URL = process.env.NEXT_PUBLIC_WORDPRESS_API_URL!;
-const GRAPHQL_QUERY = `
-    query GetSingleProductBySlug($slug: ID!) {
-      product(id: $slug, idType: SLUG) {
-        id
-        databaseId
-        name
-        slug
-        sku
-        ... on SimpleProduct {
-          price
-          productCategories {
-            nodes {
-              name
-            }
-          }
-          image {
-            sourceUrl
-          }
-        }
-        ... on VariableProduct {
-          price
-          productCategories {
-            nodes {
-              name
-            }
-          }
-          image {
-            sourceUrl
-          }
-        }
-      }
-    }
-  `;
+import { errorResponse } from "@/lib/apiResponses";
+import { fetchProductBySlug } from "@/services/productServices";
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
@@ -78,42 +41,20 @@ export async function GET(request: Request) {
   }
 
   try {
-    const response = await fetch(WORDPRESS_API_URL as string, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        query: GRAPHQL_QUERY,
-        variables: { slug },
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch product data. Status: ${response.status}`
-      );
-    }
+    const { product } = await fetchProductBySlug(slug);
 
-    const { data, errors } = await response.json();
-
-    if (errors) {
-      throw new Error(`GraphQL errors: ${JSON.stringify(errors)}`);
-    }
-
-    if (!data.product) {
+    if (!product) {
       return NextResponse.json(
         { error: "Product not found with the provided slug." },
         { status: 404 }
       );
     }
 
-    return NextResponse.json(data.product);
+    return NextResponse.json(product);
   } catch (error) {
-    console.error("Error fetching product by slug:", error);
-    return NextResponse.json(
-      { error: "An error occurred while fetching the product." },
-      { status: 500 }
+    return errorResponse(
+      error,
+      "An error occurred while fetching the product."
     );
   }
 }
@@ -0,0 +1,58 @@
+/**
+ * @file /src/app/api/get-products-by-ids/route.ts
+ * @description API route to fetch the current version of several WooCommerce products by id.
+ *              Returns `{ products }` mapped into our `Product` type by `fetchProductsByIds`
+ *              (`/services/productServices.ts`). Products that no longer exist are left out.
+ *
+ * ## Features
+ * - Used by the cart store to reconcile a persisted cart with the catalog: dropping deleted
+ *   products and picking up new prices and stock.
+ * - Never cached, so the cart always sees the current price.
+ *
+ * ## Query Parameters
+ * - `ids` (required): Comma-separated product ids (e.g., ?ids=1,3). At most 100.
+ *
+ * ## Usage
+ * - Testable via browser or API tools:
+ *   https://my-app.com/api/get-products-by-ids?ids=1,3
+ *
+ * ## Notes
+ * - Upstream failures are answered with `{ error, details }` and the status from `GraphQLClientError`.
+ */
+
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiResponses";
+import { fetchProductsByIds } from "@/services/productServices";
+
+const MAX_IDS = 100;
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+
+  // Extract query parameters
+  const ids = (searchParams.get("ids") || "")
+    .split(",")
+    .filter(Boolean)
+    .map(Number);
+
+  if (
+    ids.length === 0 ||
+    ids.length > MAX_IDS ||
+    ids.some((id) => !Number.isInteger(id) || id <= 0)
+  ) {
+    return NextResponse.json(
+      {
+        error: `Invalid "ids" parameter. Must be 1 to ${MAX_IDS} comma-separated product ids.`,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const products = await fetchProductsByIds(Array.from(new Set(ids)));
+
+    return NextResponse.json({ products });
+  } catch (error) {
+    return errorResponse(error, "Failed to fetch products.");
+  }
+}
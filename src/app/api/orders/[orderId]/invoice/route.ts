@@ -0,0 +1,51 @@
+/**
+ * ## API Endpoint: Order Invoice
+ * Downloads the invoice of an order as a standalone HTML file (printable, or savable as PDF).
+ * Customers can download the invoices of their own orders; admins can download any.
+ *
+ * ## Data Source
+ * Uses `requireUser` (`/services/authServices.ts`), `fetchOrderById`
+ * (`/services/orderServices.ts`) and `renderInvoice` (`/lib/invoice.ts`).
+ *
+ * ## Response
+ * - **Success (200)**: The invoice (`text/html`, as an attachment).
+ * - **Error (401)**: Returns `error` and `code` when nobody is signed in.
+ * - **Error (404)**: Returns `error` when the order doesn't exist or belongs to someone else.
+ *
+ * ## Usage
+ * Example request:
+ * ```
+ * GET https://my-app.com/api/orders/3f2c…/invoice
+ * ```
+ */
+
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiResponses";
+import { invoiceFileName, renderInvoice } from "@/lib/invoice";
+import { requireUser } from "@/services/authServices";
+import { fetchOrderById } from "@/services/orderServices";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ orderId: string }> }
+) {
+  try {
+    const user = await requireUser("Sign in to download your invoices.");
+    const order = await fetchOrderById((await params).orderId);
+    if (!order || (order.userId !== user.id && user.role !== "admin")) {
+      return NextResponse.json({ error: "Order not found." }, { status: 404 });
+    }
+
+    return new NextResponse(renderInvoice(order), {
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${invoiceFileName(order)}"`,
+      },
+    });
+  } catch (error) {
+    return errorResponse(
+      error,
+      "An error occurred while creating the invoice."
+    );
+  }
+}
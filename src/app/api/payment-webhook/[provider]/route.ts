@@ -0,0 +1,57 @@
+/**
+ * ## API Endpoint: Payment Webhook
+ * This endpoint receives payment notifications (bank confirmations, refunds, ...) from a payment provider.
+ * The provider checks the request signature before anything on the order changes.
+ *
+ * ## Data Source
+ * Uses the provider registered under `[provider]` in `/lib/paymentProviders.ts` and `handlePaymentEvent`
+ * (`/services/paymentServices.ts`).
+ *
+ * ## Response
+ * - **Success (200)**: Returns `{ received: true }`.
+ * - **Error (401)**: Returns an error message when the signature is invalid.
+ * - **Error (404)**: Returns an error message when no provider has that id.
+ * - **Error (409)**: Returns an error message when the event doesn't match an order's payment.
+ *
+ * ## Usage
+ * Example request (sent by the fake gateway):
+ * ```
+ * POST https://my-app.com/api/payment-webhook/fake
+ * x-fake-gateway-signature: 5f0c...
+ * { "type": "payment.authorized", "transactionId": "fake_...", "orderId": "..." }
+ * ```
+ */
+
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiResponses";
+import { getPaymentProvider } from "@/lib/paymentProviders";
+import { handlePaymentEvent } from "@/services/paymentServices";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const provider = getPaymentProvider((await params).provider);
+  if (!provider) {
+    return NextResponse.json(
+      { error: "Unknown payment provider." },
+      { status: 404 }
+    );
+  }
+
+  try {
+    // The signature covers the exact bytes sent, so read the body as text
+    const event = await provider.verifyWebhook(
+      await request.text(),
+      request.headers
+    );
+    await handlePaymentEvent(provider.id, event);
+
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    return errorResponse(
+      error,
+      "An error occurred while handling the payment webhook."
+    );
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * ## API Endpoint: Reserve Stock
+ * This endpoint holds the cart's units while the customer is on the checkout page.
+ * A reservation lasts `RESERVATION_MINUTES`; posting again with its id renews it and replaces the
+ * reserved lines. `/api/create-order` releases it once the order is placed.
+ *
+ * ## Data Source
+ * Uses `parseStockRequest` (`/lib/checkoutValidation.ts`) and `reserveStock`
+ * (`/services/inventoryServices.ts`). Reservations are stored in the JSON file store (`/lib/jsonStore.ts`).
+ *
+ * ## Request Body
+ * - **items**: The cart lines (`{ id, variationId, quantity }`).
+ * - **reservationId**: The reservation to renew, or `null` for a new one.
+ *
+ * ## Response
+ * - **Success (200)**: Returns `{ reservationId, expiresAt }`.
+ * - **Error (400)**: Returns `error` and `fieldErrors` (field → message) when the request is invalid.
+ * - **Error (409)**: Returns `error` and `shortages` when part of the cart can't be bought; nothing
+ *   is reserved.
+ * - **Error (500/503/504)**: Returns an error message and `details` if WooCommerce can't be reached.
+ *
+ * ## Usage
+ * Example request:
+ * ```
+ * POST https://my-app.com/api/reserve-stock
+ * { "reservationId": null, "items": [{ "id": 1, "variationId": null, "quantity": 2 }] }
+ * ```
+ */
+
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiResponses";
+import { parseStockRequest } from "@/lib/checkoutValidation";
+import { reserveStock } from "@/services/inventoryServices";
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+
+  try {
+    const { items, reservationId } = parseStockRequest(body);
+    const reservation = await reserveStock(reservationId, items);
+
+    return NextResponse.json({
+      reservationId: reservation.id,
+      expiresAt: reservation.expiresAt,
+    });
+  } catch (error) {
+    return errorResponse(error, "An error occurred while reserving stock.");
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * ## API Endpoint: Search
+ * Finds products and blog posts for the command palette (⌘K).
+ *
+ * ## Data Source
+ * Uses `searchSite` (`/services/searchServices.ts`), which searches a cached index of the
+ * WooCommerce catalog (with the admin's changes) and the WordPress posts.
+ *
+ * ## Query Parameters
+ * - `q` (string): What to look for; queries shorter than `MIN_SEARCH_LENGTH` find nothing, and only
+ *   the first `MAX_SEARCH_LENGTH` characters are used.
+ *
+ * ## Response
+ * - **Success (200)**: Returns `{ products, posts }` (`SearchResult[]` each).
+ * - **Error (500)**: Returns `error` when the catalog or blog can't be reached.
+ *
+ * ## Usage
+ * Example request:
+ * ```
+ * GET https://my-app.com/api/search?q=taco
+ * ```
+ */
+
+import { NextResponse } from "next/server";
+import { MIN_SEARCH_LENGTH } from "@/config/commands";
+import { errorResponse } from "@/lib/apiResponses";
+import { searchSite } from "@/services/searchServices";
+
+export async function GET(request: Request) {
+  try {
+    const query = (new URL(request.url).searchParams.get("q") || "").trim();
+    if (query.length < MIN_SEARCH_LENGTH) {
+      return NextResponse.json({ products: [], posts: [] });
+    }
+
+    return NextResponse.json(await searchSite(query));
+  } catch (error) {
+    return errorResponse(error, "An error occurred while searching.");
+  }
+}
@@ -0,0 +1,19 @@
+// app/forbidden/page.tsx
+import Link from "next/link";
+
+// Shown (with a 403 status) by the middleware when a signed-in user lacks the role for a page
+const ForbiddenPage = () => {
+  return (
+    <div className="min-h-screen flex flex-col justify-center items-center">
+      <h1 className="text-4xl font-bold">Access Denied</h1>
+      <p className="mt-4">
+        Sorry, your account doesn&apos;t have access to this page.
+      </p>
+      <Link href="/" className="mt-6 text-blue-500 hover:underline">
+        Go back to Home
+      </Link>
+    </div>
+  );
+};
+
+export default ForbiddenPage;
@@ -20,9 +20,9 @@ import "./globals.scss";
 import Navbar from "@/components/global/Navbar";
 import Main from "@/components/common/Main";
 import Footer from "@/components/global/Footer";
-import { CartProvider } from "@/contexts/CartContext";
-import { ProductProvider } from "@/contexts/ProductContext";
 import Cart from "@/components/cart/Cart";
+import CartNotices from "@/components/cart/CartNotices";
+import CommandPalette from "@/components/global/CommandPalette";
 // import { Toaster } from "@/components/ui/toaster";
 // import { ThemeProvider } from "./providers/ThemeProvider";
 
@@ -50,6 +50,8 @@ export default async function RootLayout({
           </Main>
           <Footer />
           <Cart />
+          <CartNotices />
+          <CommandPalette />
         </div>
         {/* <Toaster /> */}
       </body>
@@ -0,0 +1,86 @@
+import { formatPeriod } from "@/lib/analytics";
+import { formatMoney } from "@/lib/money";
+import { StoreAnalytics } from "@/types/analytics";
+
+const CHART_HEIGHT = 100; // viewBox units; the SVG is stretched to its box
+const BAR_WIDTH = 10;
+const BAR_GAP = 2;
+
+/**
+ * RevenueChart
+ *
+ * ## Purpose
+ * - Bar chart of the revenue per day (or month) of the admin dashboard.
+ *
+ * ## Parameters
+ * - `analytics` (StoreAnalytics): The figures of the selected range.
+ *
+ * ## Implementation Details
+ * - A plain SVG rendered on the server: no chart library or client JavaScript. Each bar has a
+ *   `<title>`, so hovering it shows the period, revenue and order count.
+ * - Colours come from the shadcn `--chart-*` theme variables.
+ */
+const RevenueChart = ({ analytics }: { analytics: StoreAnalytics }) => {
+  const { revenueSeries, granularity } = analytics;
+  const max = Math.max(...revenueSeries.map((point) => point.revenue.amount));
+  const width = revenueSeries.length * BAR_WIDTH;
+  const middle = revenueSeries[Math.floor(revenueSeries.length / 2)];
+
+  if (max <= 0) {
+    return (
+      <p className="flex h-48 items-center justify-center text-sm text-muted-foreground">
+        No paid orders in this period.
+      </p>
+    );
+  }
+
+  return (
+    <figure>
+      <div className="flex gap-3">
+        <div className="flex h-48 flex-col justify-between text-right text-xs text-muted-foreground">
+          <span>
+            {formatMoney({ amount: max, currency: analytics.revenue.currency })}
+          </span>
+          <span>0</span>
+        </div>
+        <svg
+          viewBox={`0 0 ${width} ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+          role="img"
+          aria-label={`Revenue per ${granularity}`}
+          className="h-48 w-full flex-1 border-b border-l border-border"
+        >
+          {revenueSeries.map((point, index) => {
+            const height = (point.revenue.amount / max) * CHART_HEIGHT;
+            return (
+              <rect
+                key={point.period}
+                x={index * BAR_WIDTH + BAR_GAP / 2}
+                y={CHART_HEIGHT - height}
+                width={BAR_WIDTH - BAR_GAP}
+                height={height}
+                className="fill-chart-1"
+              >
+                <title>
+                  {`${formatPeriod(point.period, granularity)}: ${formatMoney(point.revenue)} (${point.orders} ${point.orders === 1 ? "order" : "orders"})`}
+                </title>
+              </rect>
+            );
+          })}
+        </svg>
+      </div>
+      <figcaption className="ml-12 mt-2 flex justify-between text-xs text-muted-foreground">
+        <span>{formatPeriod(revenueSeries[0].period, granularity)}</span>
+        <span>{formatPeriod(middle.period, granularity)}</span>
+        <span>
+          {formatPeriod(
+            revenueSeries[revenueSeries.length - 1].period,
+            granularity
+          )}
+        </span>
+      </figcaption>
+    </figure>
+  );
+};
+
+export default RevenueChart;
@@ -0,0 +1,39 @@
+import { formatMoney } from "@/lib/money";
+import { TopProduct } from "@/types/analytics";
+
+// Best sellers as horizontal bars, relative to the first (largest) one
+const TopProductsChart = ({ products }: { products: TopProduct[] }) => {
+  if (products.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No products sold in this period.
+      </p>
+    );
+  }
+  const max = products[0].revenue.amount;
+
+  return (
+    <ol role="list" className="space-y-4">
+      {products.map((product) => (
+        <li key={product.productId} className="text-sm">
+          <div className="flex justify-between gap-4">
+            <span className="truncate font-medium">{product.name}</span>
+            <span className="whitespace-nowrap text-muted-foreground">
+              {formatMoney(product.revenue)} · {product.quantity} sold
+            </span>
+          </div>
+          <div className="mt-1 h-2 rounded-full bg-muted">
+            <div
+              className="h-2 rounded-full bg-chart-2"
+              style={{
+                width: `${max > 0 ? (product.revenue.amount / max) * 100 : 0}%`,
+              }}
+            />
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default TopProductsChart;
@@ -54,16 +54,18 @@ const BlogPostItems = ({ initialPosts, endCursor, hasNextPage }: Props) => {
         >
           <img
             alt=""
-            src={post?.featuredImage.node.sourceUrl}
+            src={post.featuredImage?.node.sourceUrl ?? undefined}
             className="absolute inset-0 -z-10 size-full object-cover"
           />
           <div className="absolute inset-0 -z-10 bg-gradient-to-t from-gray-900 via-gray-900/40" />
           <div className="absolute inset-0 -z-10 rounded-2xl ring-1 ring-inset ring-gray-900/10" />
 
           <div className="flex flex-wrap items-center gap-y-1 overflow-hidden text-sm/6 text-gray-300">
-            <time dateTime={post.date} className="mr-8">
-              {formatDateString(post.date)}
-            </time>
+            {post.date && (
+              <time dateTime={post.date} className="mr-8">
+                {formatDateString(post.date)}
+              </time>
+            )}
             <div className="-ml-4 flex items-center gap-x-4">
               <svg
                 viewBox="0 0 2 2"
@@ -71,7 +73,7 @@ const BlogPostItems = ({ initialPosts, endCursor, hasNextPage }: Props) => {
               >
                 <circle r={1} cx={1} cy={1} />
               </svg>
-              <div className="flex gap-x-2.5">{post.author.node.name}</div>
+              <div className="flex gap-x-2.5">{post.author?.node.name}</div>
             </div>
           </div>
           <h3 className="mt-3 text-lg/6 font-semibold text-white">
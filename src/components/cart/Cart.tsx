@@ -8,7 +8,11 @@ import {
 } from "@headlessui/react";
 import { XMarkIcon } from "@heroicons/react/24/outline";
 import { useRouter } from "next/navigation";
-import { useCartStore } from "@/store/useCartStore";
+import { useCartStore, useStockCheck } from "@/store/useCartStore";
+import { useCurrencyStore, useConvertMoney } from "@/store/useCurrencyStore";
+import { cartLineStockIssue, maxOrderQuantity } from "@/lib/inventory";
+import { formatMoney } from "@/lib/money";
+import { describeVariation } from "@/lib/productVariations";
 import Link from "next/link";
 import { Button } from "../ui/button";
 
@@ -22,22 +26,27 @@ const Cart = () => {
     removeFromCart,
     setIsCartOpen,
     isCartOpen,
-    setCartItems,
+    updateCartQuantity,
+    stockShortages,
   } = useCartStore();
+  const currency = useCurrencyStore((state) => state.currency);
+  const convert = useConvertMoney();
+  useStockCheck();
 
   // console.log("CART DETAILS (/comp/cart)", cartDetails);
 
   // Handle quantity changes
-  const handleQuantityChange = (itemId: number, newQuantity: number) => {
-    const updatedCartItems = cartDetails().map((item) =>
-      item.id === itemId ? { ...item, quantity: newQuantity } : item
-    );
-    setCartItems(updatedCartItems); // Update Zustand store
+  const handleQuantityChange = (
+    itemId: number,
+    variationId: number | null,
+    newQuantity: number
+  ) => {
+    updateCartQuantity(itemId, variationId, newQuantity);
   };
 
   // Redirect to shop if cart is empty
-  const handleRemoveCartItem = (id: number) => {
-    removeFromCart(id);
+  const handleRemoveCartItem = (id: number, variationId: number | null) => {
+    removeFromCart(id, variationId);
     if (cartDetails.length === 1) {
       router.push("/shop");
     }
@@ -90,11 +99,20 @@ const Cart = () => {
                           <h3 className="mt-12">The Shopping Cart is empty!</h3>
                         )}
                         {cartDetails().map((cartItem) => (
-                          <li key={cartItem.id} className="flex py-6">
+                          <li
+                            key={`${cartItem.id}-${cartItem.variationId}`}
+                            className="flex py-6"
+                          >
                             <div className="h-24 w-24 flex-shrink-0 overflow-hidden rounded-md border border-gray-200">
                               <img
-                                src={cartItem.productDetails.imageSrc}
-                                alt={cartItem.productDetails.imageAlt}
+                                src={
+                                  cartItem.variationDetails?.imageSrc ||
+                                  cartItem.productDetails.imageSrc
+                                }
+                                alt={
+                                  cartItem.variationDetails?.imageAlt ||
+                                  cartItem.productDetails.imageAlt
+                                }
                                 className="h-full w-full object-cover object-center"
                               />
                             </div>
@@ -104,34 +122,68 @@ const Cart = () => {
                                 <div className="flex justify-between text-base font-medium text-gray-900">
                                   <h3>{cartItem.productDetails.name}</h3>
                                   <p className="ml-4">
-                                    {cartItem.productDetails.price}
+                                    {formatMoney(
+                                      convert(
+                                        cartItem.variationDetails?.price ||
+                                          cartItem.productDetails.price
+                                      )
+                                    )}
                                   </p>
                                 </div>
                                 <p className="mt-1 text-sm text-gray-500">
                                   {cartItem.productDetails.color}
                                 </p>
+                                {cartItem.variationDetails && (
+                                  <p className="mt-1 text-sm text-gray-500">
+                                    {describeVariation(
+                                      cartItem.variationDetails
+                                    )}
+                                  </p>
+                                )}
+                                {cartLineStockIssue(
+                                  cartItem,
+                                  stockShortages
+                                ) && (
+                                  <p className="mt-1 text-sm font-medium text-red-600">
+                                    {cartLineStockIssue(
+                                      cartItem,
+                                      stockShortages
+                                    )}
+                                  </p>
+                                )}
                               </div>
                               <div className="flex flex-1 items-end justify-between text-sm">
                                 <div className="flex items-center">
                                   <label
-                                    htmlFor={`quantity-${cartItem.id}`}
+                                    htmlFor={`quantity-${cartItem.id}-${cartItem.variationId}`}
                                     className="text-gray-500 mr-2 font-bold"
                                   >
                                     Qty
                                   </label>
                                   <select
-                                    id={`quantity-${cartItem.id}`}
-                                    name={`quantity-${cartItem.id}`}
+                                    id={`quantity-${cartItem.id}-${cartItem.variationId}`}
+                                    name={`quantity-${cartItem.id}-${cartItem.variationId}`}
                                     value={cartItem.quantity}
                                     onChange={(e) =>
                                       handleQuantityChange(
                                         cartItem.id,
+                                        cartItem.variationId,
                                         parseInt(e.target.value, 10)
                                       )
                                     }
                                     className="block max-w-full rounded-md border border-gray-300 py-1.5 px-3 text-base font-medium text-gray-700 shadow-sm focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
                                   >
-                                    {[...Array(10).keys()].map((i) => (
+                                    {[
+                                      ...Array(
+                                        Math.max(
+                                          maxOrderQuantity(
+                                            cartItem.productDetails,
+                                            cartItem.variationDetails
+                                          ),
+                                          cartItem.quantity
+                                        )
+                                      ).keys(),
+                                    ].map((i) => (
                                       <option key={i} value={i + 1}>
                                         {i + 1}
                                       </option>
@@ -142,7 +194,10 @@ const Cart = () => {
                                   type="button"
                                   className="font-medium text-red-600 hover:text-red-500"
                                   onClick={() =>
-                                    handleRemoveCartItem(cartItem.id)
+                                    handleRemoveCartItem(
+                                      cartItem.id,
+                                      cartItem.variationId
+                                    )
                                   }
                                 >
                                   Remove
@@ -159,7 +214,7 @@ const Cart = () => {
                 <div className="border-t border-gray-200 px-4 py-6 sm:px-6">
                   <div className="flex justify-between text-base font-medium text-gray-900">
                     <p>Subtotal</p>
-                    <p>${subtotal()}</p>
+                    <p>{formatMoney(subtotal(currency))}</p>
                   </div>
                   <div className="mt-6">
                     <Link
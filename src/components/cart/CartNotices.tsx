@@ -0,0 +1,67 @@
+"use client";
+
+import { InformationCircleIcon } from "@heroicons/react/24/outline";
+import { XMarkIcon } from "@heroicons/react/20/solid";
+import { useCartStore } from "@/store/useCartStore";
+
+/**
+ * CartNotices
+ *
+ * ## Purpose
+ * - Tells the customer what changed in their saved cart since their last visit: products that were
+ *   removed from the catalog, quantities lowered to the available stock and new prices.
+ *
+ * ## Implementation Details
+ * - The notices come from `useCartStore.reconcileCart`, which runs once the cart has rehydrated.
+ * - Mounted once in the root layout, next to the cart drawer, and stays until dismissed.
+ */
+const CartNotices = () => {
+  const cartNotices = useCartStore((state) => state.cartNotices);
+  const dismissCartNotices = useCartStore((state) => state.dismissCartNotices);
+
+  if (cartNotices.length === 0) return null;
+
+  return (
+    <div
+      aria-live="polite"
+      className="pointer-events-none fixed inset-x-0 bottom-0 z-20 flex px-4 py-6 sm:items-end sm:justify-end sm:p-6"
+    >
+      <div className="pointer-events-auto w-full max-w-sm overflow-hidden rounded-lg bg-white shadow-lg ring-1 ring-black/5">
+        <div className="p-4">
+          <div className="flex items-start">
+            <div className="shrink-0">
+              <InformationCircleIcon
+                aria-hidden="true"
+                className="size-6 text-indigo-600"
+              />
+            </div>
+            <div className="ml-3 w-0 flex-1 pt-0.5">
+              <p className="text-sm font-medium text-gray-900">
+                Your cart was updated
+              </p>
+              <ul role="list" className="mt-1 space-y-1">
+                {cartNotices.map((notice, index) => (
+                  <li key={index} className="text-sm text-gray-500">
+                    {notice.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div className="ml-4 flex shrink-0">
+              <button
+                type="button"
+                onClick={dismissCartNotices}
+                className="inline-flex rounded-md bg-white text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+              >
+                <span className="sr-only">Close</span>
+                <XMarkIcon aria-hidden="true" className="size-5" />
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CartNotices;
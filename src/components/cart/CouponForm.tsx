@@ -0,0 +1,110 @@
+"use client";
+
+import { KeyboardEvent, useState } from "react";
+import { XMarkIcon } from "@heroicons/react/20/solid";
+import { useCartStore } from "@/store/useCartStore";
+import { PromotionResult } from "@/types/promotion";
+
+/**
+ * CouponForm
+ *
+ * ## Purpose
+ * - Lets customers enter coupon codes on the cart and checkout pages, and lists the applied codes
+ *   so they can be removed again.
+ *
+ * ## Parameters
+ * - `promotions` (PromotionResult | null): The current quote, used to flag applied codes that
+ *   stopped applying (e.g. the cart dropped below a minimum subtotal).
+ * - `error` (string, optional): A coupon error returned by `/api/create-order`.
+ *
+ * ## Implementation Details
+ * - Rendered inside the checkout `<form>`, so it's a plain group of fields: Enter applies the code
+ *   instead of submitting the order.
+ */
+const CouponForm = ({
+  promotions,
+  error,
+}: {
+  promotions: PromotionResult | null;
+  error?: string;
+}) => {
+  const { couponCodes, applyCoupon, removeCoupon } = useCartStore();
+  const [code, setCode] = useState("");
+  const [isApplying, setIsApplying] = useState(false);
+  const [codeError, setCodeError] = useState<string | null>(null);
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    const reason = await applyCoupon(code);
+    setIsApplying(false);
+    setCodeError(reason);
+    if (!reason) setCode("");
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      handleApply();
+    }
+  };
+
+  return (
+    <div>
+      <label
+        htmlFor="coupon-code"
+        className="block text-sm/6 font-medium text-gray-700"
+      >
+        Discount code
+      </label>
+      <div className="mt-2 flex space-x-4">
+        <input
+          id="coupon-code"
+          name="coupon-code"
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={handleKeyDown}
+          className="block w-full rounded-md bg-white px-3 py-2 text-base uppercase text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
+        />
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={isApplying || !code.trim()}
+          className="rounded-md bg-gray-200 px-4 text-sm font-medium text-gray-600 hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {isApplying ? "Applying…" : "Apply"}
+        </button>
+      </div>
+      {(codeError || error) && (
+        <p className="mt-2 text-sm text-red-600">{codeError || error}</p>
+      )}
+
+      {couponCodes.length > 0 && (
+        <ul role="list" className="mt-4 space-y-2">
+          {couponCodes.map((appliedCode) => (
+            <li key={appliedCode} className="text-sm">
+              <span className="inline-flex items-center rounded-full bg-indigo-50 px-3 py-1 font-medium text-indigo-700">
+                {appliedCode}
+                <button
+                  type="button"
+                  onClick={() => removeCoupon(appliedCode)}
+                  className="-mr-1 ml-1 text-indigo-400 hover:text-indigo-600"
+                >
+                  <span className="sr-only">Remove {appliedCode}</span>
+                  <XMarkIcon aria-hidden="true" className="size-4" />
+                </button>
+              </span>
+              {promotions?.rejectedCodes[appliedCode] && (
+                <span className="ml-2 text-red-600">
+                  {promotions.rejectedCodes[appliedCode]}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CouponForm;
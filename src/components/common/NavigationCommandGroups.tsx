@@ -0,0 +1,63 @@
+"use client";
+
+import { Fragment } from "react";
+import {
+  CommandGroup,
+  CommandItem,
+  CommandSeparator,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { shortcutLabel } from "@/lib/commands";
+import { CommandGroupName, NavigationCommand } from "@/types/command";
+
+const GROUPS: CommandGroupName[] = ["Pages", "Account", "Admin"];
+
+/**
+ * NavigationCommandGroups
+ *
+ * ## Purpose
+ * - The page commands of the command palette and the sidebar, grouped under their headings, with
+ *   their keyboard shortcuts.
+ *
+ * ## Parameters
+ * - `commands` (NavigationCommand[]): The commands to show (see `commandsFor`).
+ * - `onSelect` (function): Called with the command picked by click or Enter.
+ */
+const NavigationCommandGroups = ({
+  commands,
+  onSelect,
+}: {
+  commands: NavigationCommand[];
+  onSelect: (command: NavigationCommand) => void;
+}) => {
+  const groups = GROUPS.map((group) => ({
+    group,
+    items: commands.filter((command) => command.group === group),
+  })).filter(({ items }) => items.length > 0);
+
+  return groups.map(({ group, items }, index) => (
+    <Fragment key={group}>
+      {index > 0 && <CommandSeparator />}
+      <CommandGroup heading={group}>
+        {items.map((command) => (
+          <CommandItem
+            key={command.id}
+            value={`${command.label} ${command.href}`}
+            keywords={command.keywords}
+            onSelect={() => onSelect(command)}
+          >
+            <command.icon className="mr-2 h-4 w-4" />
+            <span>{command.label}</span>
+            {command.shortcut && (
+              <CommandShortcut>
+                {shortcutLabel(command.shortcut)}
+              </CommandShortcut>
+            )}
+          </CommandItem>
+        ))}
+      </CommandGroup>
+    </Fragment>
+  ));
+};
+
+export default NavigationCommandGroups;
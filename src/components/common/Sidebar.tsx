@@ -1,7 +1,11 @@
-import React from "react";
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Search } from "lucide-react";
+import NavigationCommandGroups from "@/components/common/NavigationCommandGroups";
 import {
   Command,
-  CommandDialog,
   CommandEmpty,
   CommandGroup,
   CommandInput,
@@ -11,49 +15,47 @@ import {
   CommandShortcut,
 } from "@/components/ui/command";
 import {
-  LayoutDashboard,
-  Newspaper,
-  Folders,
-  CreditCard,
-  Settings,
-  User,
-} from "lucide-react";
-import Link from "next/link";
+  commandsFor,
+  isApplePlatform,
+  paletteShortcutLabel,
+} from "@/lib/commands";
+import { useCommandPaletteStore } from "@/store/useCommandPaletteStore";
+import { UserRole } from "@/types/auth";
+
+interface SidebarProps {
+  role: UserRole; // The signed-in user's role; admins also get the admin pages
+}
+
+// Member area navigation: the command palette's pages, filtered inline, plus a way into the palette
+const Sidebar = ({ role }: SidebarProps) => {
+  const router = useRouter();
+  const openPalette = useCommandPaletteStore((state) => state.setIsOpen);
+  const [isApple, setIsApple] = useState(false);
+
+  useEffect(() => {
+    setIsApple(isApplePlatform());
+  }, []);
 
-const Sidebar = () => {
   return (
     <Command className="bg-secondary">
-      <CommandInput placeholder="Type a command or search..." />
+      <CommandInput placeholder="Filter pages..." />
       <CommandList className="px-8">
-        <CommandEmpty>No results found.</CommandEmpty>
-        <CommandGroup heading="Suggestions">
-          <CommandItem>
-            <LayoutDashboard className="mr-2 h-4 w-4" />
-            <Link href="/members-portal">Dashboard</Link>
-          </CommandItem>
-          <CommandItem>
-            <Newspaper className="mr-2 h-4 w-4" />
-            <Link href="/booking">New Booking</Link>
+        <CommandEmpty>No pages found.</CommandEmpty>
+        <CommandGroup>
+          <CommandItem
+            value="Search products and posts"
+            onSelect={() => openPalette(true)}
+          >
+            <Search className="mr-2 h-4 w-4" />
+            <span>Search products and posts</span>
+            <CommandShortcut>{paletteShortcutLabel(isApple)}</CommandShortcut>
           </CommandItem>
         </CommandGroup>
         <CommandSeparator />
-        <CommandGroup heading="Settings">
-          <CommandItem>
-            <User className="mr-2 h-4 w-4" />
-            <span>Profile</span>
-            <CommandShortcut>&#x2318; P</CommandShortcut>
-          </CommandItem>
-          <CommandItem>
-            <CreditCard className="mr-2 h-4 w-4" />
-            <span>Billing</span>
-            <CommandShortcut>&#x2318; B</CommandShortcut>
-          </CommandItem>
-          <CommandItem>
-            <Settings className="mr-2 h-4 w-4" />
-            <span>Settings</span>
-            <CommandShortcut>&#x2318; S</CommandShortcut>
-          </CommandItem>
-        </CommandGroup>
+        <NavigationCommandGroups
+          commands={commandsFor(role)}
+          onSelect={(command) => router.push(command.href)}
+        />
       </CommandList>
     </Command>
   );
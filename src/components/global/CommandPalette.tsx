@@ -0,0 +1,212 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { FileText, LogOut, Package } from "lucide-react";
+import NavigationCommandGroups from "@/components/common/NavigationCommandGroups";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "@/components/ui/command";
+import { DialogTitle } from "@/components/ui/dialog";
+import { MAX_SEARCH_LENGTH, MIN_SEARCH_LENGTH } from "@/config/commands";
+import {
+  commandsFor,
+  isApplePlatform,
+  isEditableTarget,
+  isPaletteShortcut,
+  sequenceKey,
+  SHORTCUT_PREFIX,
+  SHORTCUT_TIMEOUT_MS,
+} from "@/lib/commands";
+import { useCommandPaletteStore } from "@/store/useCommandPaletteStore";
+import { useSession, useSessionStore } from "@/store/useSessionStore";
+import { SearchResult, SearchResults } from "@/types/command";
+
+const SEARCH_DELAY_MS = 200; // Wait for a pause in typing before searching
+
+/**
+ * CommandPalette
+ *
+ * ## Purpose
+ * - The global command palette, opened with ⌘K (Ctrl+K) on every page or from the sidebar. It
+ *   searches products and blog posts (`/api/search`) and lists the pages the visitor may open,
+ *   admin pages included for admins.
+ * - Also handles the page shortcuts shown in the palette and sidebar (e.g. G P for the profile)
+ *   anywhere on the site, except while the visitor is typing in a field (or in the palette).
+ *
+ * ## Implementation Details
+ * - Pages come from `commandsFor` with the visitor's role ("guest" until the session loads), so a
+ *   shortcut only works for someone who may open its page.
+ * - Searches are debounced and aborted when the query changes, so results never arrive out of
+ *   order.
+ */
+const CommandPalette = () => {
+  const router = useRouter();
+  const { isOpen, setIsOpen, toggle } = useCommandPaletteStore();
+  const { user } = useSession();
+  const signOut = useSessionStore((state) => state.signOut);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const role = user?.role || "guest";
+  const commands = useMemo(() => commandsFor(role), [role]);
+
+  // When G was pressed, while it waits for the page shortcut's letter
+  const prefixPressedAt = useRef(0);
+
+  // ⌘K and the page shortcuts
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isPaletteShortcut(event, isApplePlatform())) {
+        event.preventDefault();
+        toggle();
+        return;
+      }
+      const key = sequenceKey(event);
+      if (!key || isEditableTarget(event.target)) return;
+
+      const isWaiting =
+        Date.now() - prefixPressedAt.current < SHORTCUT_TIMEOUT_MS;
+      prefixPressedAt.current = 0;
+      const command =
+        isWaiting && commands.find((item) => item.shortcut === key);
+      if (command) {
+        event.preventDefault();
+        setIsOpen(false);
+        router.push(command.href);
+      } else if (key === SHORTCUT_PREFIX) {
+        prefixPressedAt.current = Date.now();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [commands, router, setIsOpen, toggle]);
+
+  // Search products and posts once typing pauses
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < MIN_SEARCH_LENGTH) {
+      setResults(null);
+      setIsSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/search?${new URLSearchParams({ q: trimmed })}`,
+          { signal: controller.signal }
+        );
+        if (!response.ok) throw new Error(`Status ${response.status}`);
+        setResults(await response.json());
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("Error searching:", error);
+        setResults(null);
+      }
+      setIsSearching(false);
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  // Close the palette (clearing the query) and run the chosen command
+  const run = (action: () => void) => {
+    setIsOpen(false);
+    setQuery("");
+    action();
+  };
+
+  const resultGroup = (
+    heading: string,
+    items: SearchResult[] | undefined,
+    Icon: typeof Package
+  ) =>
+    items &&
+    items.length > 0 && (
+      <CommandGroup heading={heading}>
+        {items.map((result) => (
+          <CommandItem
+            key={result.id}
+            value={`${result.title} ${result.id}`}
+            keywords={[query, result.description]}
+            onSelect={() => run(() => router.push(result.href))}
+          >
+            {result.imageSrc ? (
+              <img
+                alt=""
+                src={result.imageSrc}
+                className="mr-2 size-6 flex-none rounded object-cover"
+              />
+            ) : (
+              <Icon className="mr-2 h-4 w-4" />
+            )}
+            <span className="truncate">{result.title}</span>
+            {result.description && (
+              <span className="ml-auto truncate text-xs text-muted-foreground">
+                {result.description}
+              </span>
+            )}
+          </CommandItem>
+        ))}
+      </CommandGroup>
+    );
+
+  return (
+    <CommandDialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTitle className="sr-only">Command palette</DialogTitle>
+      <CommandInput
+        value={query}
+        onValueChange={setQuery}
+        maxLength={MAX_SEARCH_LENGTH}
+        placeholder="Search products, posts and pages…"
+      />
+      <CommandList>
+        <CommandEmpty>
+          {isSearching ? "Searching…" : "No results found."}
+        </CommandEmpty>
+        {resultGroup("Products", results?.products, Package)}
+        {resultGroup("Blog posts", results?.posts, FileText)}
+        <NavigationCommandGroups
+          commands={commands}
+          onSelect={(command) => run(() => router.push(command.href))}
+        />
+        {user && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading="Actions">
+              <CommandItem
+                value="Sign out"
+                keywords={["log out"]}
+                onSelect={() =>
+                  run(async () => {
+                    await signOut();
+                    router.push("/");
+                  })
+                }
+              >
+                <LogOut className="mr-2 h-4 w-4" />
+                <span>Sign out</span>
+              </CommandItem>
+            </CommandGroup>
+          </>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default CommandPalette;
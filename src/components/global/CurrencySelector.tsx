@@ -0,0 +1,57 @@
+"use client";
+
+import { useEffect } from "react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+
+/**
+ * CurrencySelector
+ *
+ * ## Purpose
+ * - Lets international customers pick the currency prices are shown and paid in.
+ * - Lists every currency in the active exchange-rate table; the choice is persisted in
+ *   `currency-storage`.
+ *
+ * ## Implementation Details
+ * - The currency store skips automatic hydration so server-rendered prices (always in the store
+ *   currency) match the first client render. It is rehydrated here after mount, and the remote
+ *   exchange rates are loaded at the same time.
+ */
+const CurrencySelector = () => {
+  const { currency, rates, setCurrency, loadRates } = useCurrencyStore();
+
+  useEffect(() => {
+    useCurrencyStore.persist.rehydrate();
+    loadRates();
+  }, [loadRates]);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger className="mr-3 rounded border border-gray-400 px-2 py-1 text-sm font-medium text-gray-300 hover:text-gray-50">
+        <span className="sr-only">Change currency, current currency is </span>
+        {currency}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="bg-white dark:bg-slate-600">
+        <DropdownMenuLabel>Currency</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={currency} onValueChange={setCurrency}>
+          {Object.keys(rates.rates).map((code) => (
+            <DropdownMenuRadioItem key={code} value={code}>
+              {code}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default CurrencySelector;
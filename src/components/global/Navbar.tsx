@@ -16,13 +16,17 @@ import { usePathname } from "next/navigation";
 import { MenuIcon } from "lucide-react";
 import { ShoppingBagIcon } from "@heroicons/react/24/outline";
 import { useCartStore } from "@/store/useCartStore";
+import { useSession, useSessionStore } from "@/store/useSessionStore";
 import Spinner from "../common/Spinner";
+import CurrencySelector from "./CurrencySelector";
 
 const Navbar = () => {
   const pathname = usePathname();
   // Access Zustand store
   const { cartDetails, isLoading } = useCartStore();
   const cartItemCount = cartDetails().length;
+  const { user } = useSession();
+  const signOut = useSessionStore((state) => state.signOut);
   // console.log("Cart Item Count [Navbar]", cartItemCount);
 
   interface NavLinkProps {
@@ -81,8 +85,15 @@ const Navbar = () => {
 
       {/* DARK MODE BUTTON */}
       <div className="flex items-center">
-        <span className="mr-3 text-white">fake-user@email.com</span>
-        {/* {user && <span className="mr-3 text-white">{user.email}</span>} */}
+        {user ? (
+          <span className="mr-3 text-white">{user.email}</span>
+        ) : (
+          <Link href="/login" className="mr-3 text-white hover:underline">
+            Sign in
+          </Link>
+        )}
+        {/* CURRENCY SELECTOR */}
+        <CurrencySelector />
         {/* SHOPPING BAG ICON */}
         <div className="ml-4 flow-root lg:ml-6">
           <Link href="/cart" className="group -m-2 flex items-center p-2">
@@ -107,14 +118,29 @@ const Navbar = () => {
             {/* </button> */}
           </DropdownMenuTrigger>
           <DropdownMenuContent className="bg-white dark:bg-slate-600">
-            <DropdownMenuLabel>My Account</DropdownMenuLabel>
+            <DropdownMenuLabel>
+              {user ? user.name : "My Account"}
+            </DropdownMenuLabel>
             <DropdownMenuSeparator />
-            <DropdownMenuItem>
-              <Link href={"/profile"}>Profile</Link>
-            </DropdownMenuItem>
-            <DropdownMenuItem>
-              {/* <Logout /> Use the Logout component */}
-            </DropdownMenuItem>
+            {user ? (
+              <>
+                <DropdownMenuItem>
+                  <Link href={"/profile"}>Profile</Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => signOut()}>
+                  Sign out
+                </DropdownMenuItem>
+              </>
+            ) : (
+              <>
+                <DropdownMenuItem>
+                  <Link href={"/login"}>Sign in</Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem>
+                  <Link href={"/register"}>Create account</Link>
+                </DropdownMenuItem>
+              </>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
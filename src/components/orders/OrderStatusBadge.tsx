@@ -0,0 +1,27 @@
+import { orderStatusLabel } from "@/lib/orderWorkflow";
+import { OrderStatus } from "@/types/order";
+
+// Colours of each order status
+const STATUS_CLASSES: Record<OrderStatus, string> = {
+  pending: "bg-yellow-50 text-yellow-800",
+  processing: "bg-blue-50 text-blue-700",
+  packed: "bg-indigo-50 text-indigo-700",
+  shipped: "bg-purple-50 text-purple-700",
+  delivered: "bg-green-50 text-green-700",
+  "on-hold": "bg-yellow-50 text-yellow-800",
+  completed: "bg-green-50 text-green-700",
+  cancelled: "bg-gray-100 text-gray-600",
+  refunded: "bg-gray-100 text-gray-600",
+  failed: "bg-red-50 text-red-700",
+};
+
+// A coloured pill with the order status, for order lists and detail pages
+const OrderStatusBadge = ({ status }: { status: OrderStatus }) => (
+  <span
+    className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${STATUS_CLASSES[status]}`}
+  >
+    {orderStatusLabel(status)}
+  </span>
+);
+
+export default OrderStatusBadge;
@@ -0,0 +1,98 @@
+import Link from "next/link";
+import { formatMoney } from "@/lib/money";
+import { formatTaxLine } from "@/lib/taxes";
+import { Order } from "@/types/order";
+
+/**
+ * OrderSummary
+ *
+ * ## Purpose
+ * - The lines and totals of a placed order (subtotal, discounts, shipping, taxes, total), as shown
+ *   on the order confirmation page and in the customer's order history.
+ *
+ * ## Parameters
+ * - `order` (Order): The stored order; every amount is already in `order.currency`.
+ */
+const OrderSummary = ({ order }: { order: Order }) => {
+  return (
+    <>
+      <ul
+        role="list"
+        className="mt-6 divide-y divide-gray-200 border-t border-gray-200 text-sm font-medium text-gray-500"
+      >
+        {order.lines.map((line) => (
+          <li
+            key={`${line.productId}-${line.variationId}`}
+            className="flex space-x-6 py-6"
+          >
+            <img
+              alt={line.imageAlt}
+              src={line.imageSrc}
+              className="size-24 flex-none rounded-md bg-gray-100 object-cover"
+            />
+            <div className="flex-auto space-y-1">
+              <h3 className="text-gray-900">
+                <Link href={`/shop/${line.slug}`}>{line.name}</Link>
+              </h3>
+              {line.variation && <p>{line.variation}</p>}
+              <p>qty: {line.quantity}</p>
+            </div>
+            <p className="flex-none font-medium text-gray-900">
+              {formatMoney(line.lineTotal)}
+            </p>
+          </li>
+        ))}
+      </ul>
+
+      <dl className="space-y-6 border-t border-gray-200 pt-6 text-sm font-medium text-gray-500">
+        <div className="flex justify-between">
+          <dt>Subtotal</dt>
+          <dd className="text-gray-900">{formatMoney(order.subtotal)}</dd>
+        </div>
+
+        {order.discounts.map((discount) => (
+          <div key={discount.promotionId} className="flex justify-between">
+            <dt>
+              {discount.label}
+              {discount.code && (
+                <span className="ml-2 rounded-full bg-gray-200 px-2 py-0.5 text-xs tracking-wide text-gray-600">
+                  {discount.code}
+                </span>
+              )}
+            </dt>
+            <dd className="text-green-600">-{formatMoney(discount.amount)}</dd>
+          </div>
+        ))}
+
+        <div className="flex justify-between">
+          <dt>Shipping ({order.delivery.title})</dt>
+          <dd className="text-gray-900">{formatMoney(order.shipping)}</dd>
+        </div>
+
+        {order.taxLines.length === 0 ? (
+          <div className="flex justify-between">
+            <dt>Taxes</dt>
+            <dd className="text-gray-900">{formatMoney(order.taxes)}</dd>
+          </div>
+        ) : (
+          order.taxLines.map((line) => (
+            <div key={line.rate} className="flex justify-between">
+              <dt>
+                {order.pricesIncludeTax && "Includes "}
+                {formatTaxLine(line)}
+              </dt>
+              <dd className="text-gray-900">{formatMoney(line.amount)}</dd>
+            </div>
+          ))
+        )}
+
+        <div className="flex items-center justify-between border-t border-gray-200 pt-6 text-gray-900">
+          <dt className="text-base">Total</dt>
+          <dd className="text-base">{formatMoney(order.total)}</dd>
+        </div>
+      </dl>
+    </>
+  );
+};
+
+export default OrderSummary;
@@ -0,0 +1,48 @@
+"use client";
+
+import { useState } from "react";
+import { useCartStore } from "@/store/useCartStore";
+import { Order } from "@/types/order";
+
+/**
+ * ReorderButton
+ *
+ * ## Purpose
+ * - Puts the lines of a past order back in the cart and opens the cart drawer.
+ *
+ * ## Parameters
+ * - `order` (Order): The order to buy again.
+ *
+ * ## Implementation Details
+ * - Lines add to what's already in the cart. Current prices apply; products that were removed or
+ *   are short on stock are reported as cart notices by `reconcileCart`.
+ */
+const ReorderButton = ({ order }: { order: Order }) => {
+  const addCartItems = useCartStore((state) => state.addCartItems);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const handleReorder = async () => {
+    setIsAdding(true);
+    await addCartItems(
+      order.lines.map((line) => ({
+        id: line.productId,
+        variationId: line.variationId,
+        quantity: line.quantity,
+      }))
+    );
+    setIsAdding(false);
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleReorder}
+      disabled={isAdding}
+      className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+    >
+      {isAdding ? "Adding to cart…" : "Buy again"}
+    </button>
+  );
+};
+
+export default ReorderButton;
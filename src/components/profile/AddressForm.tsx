@@ -0,0 +1,229 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { ChevronDownIcon } from "@heroicons/react/20/solid";
+import { SHIPPING_COUNTRIES } from "@/config/checkout";
+import { AddressBook, SavedAddress } from "@/types/address";
+import { OrderAddress } from "@/types/order";
+
+const inputClassName =
+  "block w-full rounded-md bg-white px-3 py-2 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 placeholder:text-gray-400 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6";
+
+// The text fields of the form, in display order (`wide` fields span both columns)
+const TEXT_FIELDS: {
+  name: Exclude<keyof OrderAddress, "country">;
+  label: string;
+  autoComplete?: string;
+  wide?: boolean;
+}[] = [
+  { name: "firstName", label: "First name", autoComplete: "given-name" },
+  { name: "lastName", label: "Last name", autoComplete: "family-name" },
+  { name: "company", label: "Company", wide: true },
+  {
+    name: "address",
+    label: "Address",
+    autoComplete: "street-address",
+    wide: true,
+  },
+  { name: "apartment", label: "Apartment, suite, etc.", wide: true },
+  { name: "city", label: "City", autoComplete: "address-level2" },
+  { name: "region", label: "State / Province", autoComplete: "address-level1" },
+  { name: "postalCode", label: "Postal code", autoComplete: "postal-code" },
+  { name: "phone", label: "Phone", autoComplete: "tel" },
+];
+
+/**
+ * AddressForm
+ *
+ * ## Purpose
+ * - Adds an address to the signed-in customer's address book, or edits a saved one, on the profile
+ *   page.
+ *
+ * ## Parameters
+ * - `saved` (SavedAddress | null): The address to edit, `null` to add one.
+ * - `isDefault` (boolean): Whether `saved` is the default address (preticks the checkbox).
+ * - `onSaved` (function): Called with the updated `AddressBook` once the server saved it.
+ * - `onCancel` (function): Closes the form without saving.
+ *
+ * ## Error Handling
+ * - Field errors from `/api/addresses` are listed under the form.
+ */
+const AddressForm = ({
+  saved,
+  isDefault,
+  onSaved,
+  onCancel,
+}: {
+  saved: SavedAddress | null;
+  isDefault: boolean;
+  onSaved: (addressBook: AddressBook) => void;
+  onCancel: () => void;
+}) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = new FormData(event.currentTarget);
+    const field = (name: string) => String(form.get(name) || "");
+
+    setIsSaving(true);
+    setError(null);
+    setFieldErrors({});
+    try {
+      const response = await fetch(
+        saved ? `/api/addresses/${saved.id}` : "/api/addresses",
+        {
+          method: saved ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            label: field("label"),
+            isDefault: form.get("isDefault") === "on",
+            address: Object.fromEntries(
+              [...TEXT_FIELDS.map(({ name }) => name), "country"].map(
+                (name) => [name, field(name)]
+              )
+            ),
+          }),
+        }
+      );
+      const result = await response.json();
+      if (!response.ok) {
+        setFieldErrors(result.fieldErrors || {});
+        setError(result.error || "The address could not be saved.");
+        return;
+      }
+      onSaved(result.addressBook);
+    } catch (error) {
+      console.error("Error saving address:", error);
+      setError("The address could not be saved. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      noValidate
+      className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm"
+    >
+      <div className="grid grid-cols-1 gap-y-6 sm:grid-cols-2 sm:gap-x-4">
+        <div className="sm:col-span-2">
+          <label
+            htmlFor="label"
+            className="block text-sm/6 font-medium text-gray-700"
+          >
+            Label (optional)
+          </label>
+          <div className="mt-2">
+            <input
+              id="label"
+              name="label"
+              type="text"
+              placeholder="Home, Work, …"
+              defaultValue={saved?.label}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        {TEXT_FIELDS.map(({ name, label, autoComplete, wide }) => (
+          <div key={name} className={wide ? "sm:col-span-2" : undefined}>
+            <label
+              htmlFor={name}
+              className="block text-sm/6 font-medium text-gray-700"
+            >
+              {label}
+            </label>
+            <div className="mt-2">
+              <input
+                id={name}
+                name={name}
+                type="text"
+                autoComplete={autoComplete}
+                defaultValue={saved?.address[name]}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+        ))}
+
+        <div>
+          <label
+            htmlFor="country"
+            className="block text-sm/6 font-medium text-gray-700"
+          >
+            Country
+          </label>
+          <div className="mt-2 grid grid-cols-1">
+            <select
+              id="country"
+              name="country"
+              autoComplete="country-name"
+              defaultValue={saved?.address.country}
+              className="col-start-1 row-start-1 w-full appearance-none rounded-md bg-white py-2 pl-3 pr-8 text-base text-gray-900 outline outline-1 -outline-offset-1 outline-gray-300 focus:outline-2 focus:-outline-offset-2 focus:outline-indigo-600 sm:text-sm/6"
+            >
+              {SHIPPING_COUNTRIES.map((country) => (
+                <option key={country}>{country}</option>
+              ))}
+            </select>
+            <ChevronDownIcon
+              aria-hidden="true"
+              className="pointer-events-none col-start-1 row-start-1 mr-2 size-5 self-center justify-self-end fill-gray-500 sm:size-4"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center sm:col-span-2">
+          <input
+            id="isDefault"
+            name="isDefault"
+            type="checkbox"
+            defaultChecked={isDefault}
+            className="size-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-600"
+          />
+          <label htmlFor="isDefault" className="ml-3 text-sm text-gray-700">
+            Use as my default address
+          </label>
+        </div>
+      </div>
+
+      {error && (
+        <div
+          role="alert"
+          className="mt-6 rounded-md bg-red-50 p-4 text-sm text-red-700"
+        >
+          <p className="font-medium">{error}</p>
+          {Object.keys(fieldErrors).length > 0 && (
+            <ul role="list" className="mt-2 list-disc pl-5">
+              {Object.entries(fieldErrors).map(([field, message]) => (
+                <li key={field}>{message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="mt-6 flex justify-end gap-4">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-md px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {isSaving ? "Saving…" : "Save address"}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default AddressForm;
@@ -0,0 +1,157 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import Spinner from "@/components/common/Spinner";
+import { useProductStore } from "@/store/useProductStore";
+import { useCartStore } from "@/store/useCartStore";
+import { maxOrderQuantity } from "@/lib/inventory";
+import { useConvertMoney } from "@/store/useCurrencyStore";
+import { formatMoney } from "@/lib/money";
+import { Product } from "@/types/product";
+import type { ProductsResponse } from "@/services/productServices";
+
+const PAGE_SIZE = 8;
+
+interface Props {
+  initialProducts: Product[];
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+const ProductItems = ({ initialProducts, hasNextPage, endCursor }: Props) => {
+  const [products, setProducts] = useState(initialProducts);
+  const [pageInfo, setPageInfo] = useState({ hasNextPage, endCursor });
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const upsertProducts = useProductStore((state) => state.upsertProducts);
+  const { increaseCartQuantity, setIsCartOpen, removeFromCart, cartItems } =
+    useCartStore();
+  const convert = useConvertMoney();
+
+  // Cache the server-rendered products so the cart can resolve them on any page
+  useEffect(() => {
+    upsertProducts(initialProducts);
+  }, [initialProducts, upsertProducts]);
+
+  const isProductInCart = (productId: number) => {
+    return cartItems.some(
+      (item) => item.id === productId && item.variationId === null
+    );
+  };
+
+  const handleAddToCart = (id: number) => {
+    increaseCartQuantity(id);
+    setIsCartOpen(true);
+  };
+  const handleRemoveCartItem = (id: number) => {
+    removeFromCart(id);
+    setIsCartOpen(true);
+  };
+
+  // Fetch the next page through the products API route
+  const handleLoadMore = async () => {
+    setIsLoadingMore(true);
+    try {
+      const params = new URLSearchParams({ first: String(PAGE_SIZE) });
+      if (pageInfo.endCursor) params.set("after", pageInfo.endCursor);
+
+      const response = await fetch(`/api/get-all-products?${params}`);
+      if (!response.ok) throw new Error(`Status ${response.status}`);
+      const page: ProductsResponse = await response.json();
+
+      upsertProducts(page.items);
+      setProducts((current) => [...current, ...page.items]);
+      setPageInfo({ hasNextPage: page.hasNextPage, endCursor: page.endCursor });
+    } catch (error) {
+      console.error("Error fetching next page of products:", error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="mt-6 grid grid-cols-2 gap-x-4 gap-y-10 sm:gap-x-6 md:grid-cols-4 md:gap-y-0 lg:gap-x-8">
+        {products.map((product) => (
+          <div key={product.id} className="group relative my-5">
+            <Link href={`/shop/${product.slug}`}>
+              <div className="h-56 w-full overflow-hidden rounded-md bg-gray-200 group-hover:opacity-75 lg:h-72 xl:h-80">
+                <img
+                  src={product.imageSrc}
+                  alt={product.imageAlt}
+                  className="h-full w-full object-cover object-center"
+                />
+              </div>
+            </Link>
+            <section className="">
+              <h3 className="mt-4 text-sm text-gray-700">
+                {/* <span className="absolute inset-0" /> THIS MAKES THE WHOLE DIV CLICKABLE ... TROUBLE! */}
+                {product.name}
+              </h3>
+              <p className="mt-1 text-sm text-gray-500">{product.color}</p>
+              <p className="mt-1 text-sm font-medium text-gray-900">
+                {product.variations.length > 0 && "From "}
+                {formatMoney(convert(product.price))}
+              </p>
+
+              {/* Variable products need a size / color picked on the product page */}
+              {product.variations.length > 0 && (
+                <Link
+                  href={`/shop/${product.slug}`}
+                  className="rounded-full bg-indigo-600 px-2.5 py-1 text-xs font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600 float-right xl:mb-10 disabled:cursor-not-allowed disabled:bg-gray-300"
+                >
+                  Choose Options
+                </Link>
+              )}
+              {product.variations.length === 0 &&
+                !isProductInCart(product.id) && (
+                  <button
+                    type="button"
+                    className="rounded-full bg-indigo-600 px-2.5 py-1 text-xs font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600 float-right xl:mb-10 disabled:cursor-not-allowed disabled:bg-gray-300"
+                    onClick={() => handleAddToCart(product.id)}
+                    disabled={maxOrderQuantity(product, null) === 0}
+                  >
+                    {maxOrderQuantity(product, null) === 0
+                      ? "Out Of Stock"
+                      : "Add To Cart"}
+                  </button>
+                )}
+              {product.variations.length === 0 &&
+                isProductInCart(product.id) && (
+                  <button
+                    type="button"
+                    className="rounded-full bg-red-600 px-2.5 py-1 text-xs font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600 float-right"
+                    onClick={() => handleRemoveCartItem(product.id)}
+                  >
+                    Remove Item
+                  </button>
+                )}
+            </section>
+          </div>
+        ))}
+      </div>
+
+      {pageInfo.hasNextPage && (
+        <div className="text-center mt-10">
+          <Button
+            className="w-75"
+            size={"lg"}
+            onClick={handleLoadMore}
+            disabled={isLoadingMore}
+          >
+            {isLoadingMore ? (
+              <>
+                <Spinner /> Loading
+              </>
+            ) : (
+              "Load More"
+            )}
+          </Button>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ProductItems;
@@ -0,0 +1,11 @@
+import { AccessRule } from "@/types/auth";
+
+// Who may open which pages (see src/lib/access.ts); paths without a rule are public
+// Route groups don't show up in URLs, so every page of `(admin)` and `(customers)` is listed by path
+export const ACCESS_RULES: AccessRule[] = [
+  { path: "/admin-dashboard", roles: ["admin"] },
+  { path: "/customer-dashboard", roles: ["customer", "admin"] },
+  { path: "/profile", roles: ["customer", "admin"] },
+  { path: "/login", roles: ["guest"] },
+  { path: "/register", roles: ["guest"] },
+];
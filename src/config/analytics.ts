@@ -0,0 +1,17 @@
+import { OrderStatus } from "@/types/order";
+
+// Admin dashboard settings (see src/lib/analytics.ts)
+
+export const DEFAULT_RANGE_DAYS = 30; // Reported when no range is picked, ending today
+export const MAX_DAILY_POINTS = 92; // Longer ranges chart revenue per month instead of per day
+export const TOP_PRODUCTS_LIMIT = 5;
+export const ABANDONED_CART_HOURS = 24; // Carts idle this long without an order count as abandoned
+
+// Orders in these statuses count as revenue (paid, and not refunded or cancelled since)
+export const REVENUE_STATUSES: OrderStatus[] = [
+  "processing",
+  "packed",
+  "shipped",
+  "delivered",
+  "completed",
+];
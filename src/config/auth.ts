@@ -0,0 +1,7 @@
+// Sign-in settings (see src/lib/session.ts and src/services/authServices.ts)
+
+export const SESSION_COOKIE = "session";
+export const SESSION_DAYS = 30; // How long a sign-in lasts
+export const MAGIC_LINK_MINUTES = 15; // How long a sign-in link can be used
+export const PASSWORD_RESET_MINUTES = 60; // How long a password reset link can be used
+export const MIN_PASSWORD_LENGTH = 8;
@@ -0,0 +1,20 @@
+import { SHIPPING_CONFIG } from "@/config/shipping";
+import { AddressLocation, PaymentMethod } from "@/types/order";
+
+// `provider` picks the gateway in `src/lib/paymentProviders.ts`
+export const PAYMENT_METHODS: PaymentMethod[] = [
+  { id: "credit-card", title: "Credit card", provider: "fake" },
+  { id: "paypal", title: "PayPal", provider: "fake" },
+  { id: "etransfer", title: "eTransfer", provider: "fake" },
+];
+
+// Countries offered in the shipping address form: every country with a shipping zone
+export const SHIPPING_COUNTRIES = Array.from(
+  new Set(SHIPPING_CONFIG.zones.flatMap((zone) => zone.countries))
+);
+
+// Where shipping and taxes are estimated for before the customer enters an address (cart page)
+export const ESTIMATE_LOCATION: AddressLocation = {
+  country: "United States",
+  region: "CA",
+};
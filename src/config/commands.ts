@@ -0,0 +1,143 @@
+import {
+  BarChart3,
+  FilePlus,
+  Home,
+  LayoutDashboard,
+  LogIn,
+  Newspaper,
+  Package,
+  ShoppingBag,
+  ShoppingCart,
+  Store,
+  Truck,
+  User,
+  UserPlus,
+} from "lucide-react";
+import { NavigationCommand } from "@/types/command";
+
+export const MIN_SEARCH_LENGTH = 2; // Shorter queries only filter the pages below
+export const SEARCH_RESULT_LIMIT = 5; // Products and posts shown each
+export const MAX_SEARCH_LENGTH = 64; // Longer queries are cut off
+export const SEARCH_INDEX_SECONDS = 300; // How long the search index is reused before it's rebuilt
+
+// The pages of the command palette (⌘K) and sidebar, in display order
+// Who sees each one follows `ACCESS_RULES` (src/config/access.ts), see `commandsFor`
+export const NAVIGATION_COMMANDS: NavigationCommand[] = [
+  {
+    id: "home",
+    label: "Home",
+    href: "/",
+    group: "Pages",
+    icon: Home,
+    shortcut: null,
+    keywords: [],
+  },
+  {
+    id: "shop",
+    label: "Shop",
+    href: "/shop",
+    group: "Pages",
+    icon: Store,
+    shortcut: null,
+    keywords: ["products", "catalog"],
+  },
+  {
+    id: "blog",
+    label: "Blog",
+    href: "/blog",
+    group: "Pages",
+    icon: Newspaper,
+    shortcut: null,
+    keywords: ["posts", "articles"],
+  },
+  {
+    id: "cart",
+    label: "Cart",
+    href: "/cart",
+    group: "Pages",
+    icon: ShoppingCart,
+    shortcut: null,
+    keywords: ["bag", "checkout"],
+  },
+  {
+    id: "orders",
+    label: "Orders & invoices",
+    href: "/customer-dashboard",
+    group: "Account",
+    icon: LayoutDashboard,
+    shortcut: "o",
+    keywords: ["billing", "order history", "reorder"],
+  },
+  {
+    id: "profile",
+    label: "Profile & addresses",
+    href: "/profile",
+    group: "Account",
+    icon: User,
+    shortcut: "p",
+    keywords: ["account", "address book", "settings"],
+  },
+  {
+    id: "login",
+    label: "Sign in",
+    href: "/login",
+    group: "Account",
+    icon: LogIn,
+    shortcut: null,
+    keywords: ["log in", "magic link"],
+  },
+  {
+    id: "register",
+    label: "Create account",
+    href: "/register",
+    group: "Account",
+    icon: UserPlus,
+    shortcut: null,
+    keywords: ["sign up", "register"],
+  },
+  {
+    id: "admin-dashboard",
+    label: "Store analytics",
+    href: "/admin-dashboard",
+    group: "Admin",
+    icon: BarChart3,
+    shortcut: null,
+    keywords: ["dashboard", "revenue", "reports"],
+  },
+  {
+    id: "admin-products",
+    label: "Products",
+    href: "/admin-dashboard/products",
+    group: "Admin",
+    icon: ShoppingBag,
+    shortcut: null,
+    keywords: ["catalog", "stock"],
+  },
+  {
+    id: "admin-new-product",
+    label: "New product",
+    href: "/admin-dashboard/products/new",
+    group: "Admin",
+    icon: FilePlus,
+    shortcut: null,
+    keywords: ["create product", "add product"],
+  },
+  {
+    id: "admin-orders",
+    label: "Orders",
+    href: "/admin-dashboard/orders",
+    group: "Admin",
+    icon: Package,
+    shortcut: null,
+    keywords: ["fulfillment", "refunds"],
+  },
+  {
+    id: "admin-orders-to-ship",
+    label: "Orders to ship",
+    href: "/admin-dashboard/orders?status=packed",
+    group: "Admin",
+    icon: Truck,
+    shortcut: null,
+    keywords: ["packed", "tracking", "fulfillment"],
+  },
+];
@@ -0,0 +1,23 @@
+import { OrderStatus } from "@/types/order";
+
+// Most units of one product (or variation) a single order can contain
+export const MAX_PER_ORDER = 10;
+
+// How long checkout holds the cart's stock for the customer
+export const RESERVATION_MINUTES = 15;
+
+// How long an unpaid (`pending`) order holds its stock while the customer confirms the payment
+// with their bank; later confirmations cancel the order instead of capturing the payment
+export const PAYMENT_WINDOW_MINUTES = 30;
+
+// Orders in these statuses keep their units out of the available stock (`pending` ones only
+// within `PAYMENT_WINDOW_MINUTES`)
+export const STOCK_HOLDING_STATUSES: OrderStatus[] = [
+  "pending",
+  "processing",
+  "packed",
+  "shipped",
+  "delivered",
+  "on-hold",
+  "completed",
+];
@@ -0,0 +1,51 @@
+import { toMoney } from "@/lib/money";
+import { Promotion } from "@/types/promotion";
+
+// Server only: importing this into a client component would publish every coupon code
+export const PROMOTIONS: Promotion[] = [
+  // Automatic promotions
+  {
+    id: "asian-cuisine-10",
+    code: null,
+    label: "10% off all Asian cuisine",
+    effect: { type: "percent", percent: 10 },
+    categories: ["Asian"],
+  },
+  // Coupons
+  {
+    id: "welcome-10",
+    code: "WELCOME10",
+    label: "Welcome discount (10%)",
+    effect: { type: "percent", percent: 10 },
+    minSubtotal: toMoney("30.00"),
+  },
+  {
+    id: "save-5",
+    code: "SAVE5",
+    label: "$5 off",
+    effect: { type: "fixed", amount: toMoney("5.00") },
+    minSubtotal: toMoney("25.00"),
+  },
+  {
+    id: "free-shipping",
+    code: "FREESHIP",
+    label: "Free shipping",
+    effect: { type: "free-shipping" },
+    minSubtotal: toMoney("40.00"),
+  },
+  {
+    id: "dimsum-3-for-2",
+    code: "DIMSUM3FOR2",
+    label: "Dimsum: buy 2, get 1 free",
+    effect: { type: "buy-x-get-y", buy: 2, get: 1 },
+    categories: ["Chinese"],
+  },
+  {
+    id: "summer-25",
+    code: "SUMMER25",
+    label: "Summer sale (25%)",
+    effect: { type: "percent", percent: 25 },
+    startsAt: "2026-06-01T00:00:00Z",
+    expiresAt: "2026-09-01T00:00:00Z",
+  },
+];
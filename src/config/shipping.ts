@@ -0,0 +1,89 @@
+import { toMoney } from "@/lib/money";
+import { ShippingConfig } from "@/types/shipping";
+
+// Shipping zones and rate tables; destinations outside every zone can't be shipped to
+export const SHIPPING_CONFIG: ShippingConfig = {
+  handlingDays: 1,
+  zones: [
+    // Alaska and Hawaii ship by air only
+    {
+      id: "us-remote",
+      name: "Alaska & Hawaii",
+      countries: ["United States"],
+      regions: ["AK", "Alaska", "HI", "Hawaii"],
+      methods: [
+        {
+          id: "express",
+          title: "Express",
+          basis: "weight",
+          tiers: [
+            { upTo: 2, price: toMoney("24.00") },
+            { upTo: 5, price: toMoney("36.00") },
+            { upTo: null, price: toMoney("52.00") },
+          ],
+          transitDays: [3, 6],
+        },
+      ],
+    },
+    {
+      id: "us",
+      name: "United States",
+      countries: ["United States"],
+      methods: [
+        {
+          id: "standard",
+          title: "Standard",
+          basis: "weight",
+          tiers: [
+            { upTo: 2, price: toMoney("5.00") },
+            { upTo: 5, price: toMoney("9.00") },
+            { upTo: null, price: toMoney("14.00") },
+          ],
+          freeOver: toMoney("75.00"),
+          transitDays: [4, 10],
+        },
+        {
+          id: "express",
+          title: "Express",
+          basis: "quantity",
+          tiers: [
+            { upTo: 2, price: toMoney("16.00") },
+            { upTo: 5, price: toMoney("22.00") },
+            { upTo: null, price: toMoney("30.00") },
+          ],
+          transitDays: [2, 5],
+        },
+      ],
+    },
+    {
+      id: "north-america",
+      name: "Canada & Mexico",
+      countries: ["Canada", "Mexico"],
+      methods: [
+        {
+          id: "standard",
+          title: "Standard",
+          basis: "weight",
+          tiers: [
+            { upTo: 2, price: toMoney("12.00") },
+            { upTo: 5, price: toMoney("18.00") },
+            { upTo: null, price: toMoney("25.00") },
+          ],
+          freeOver: toMoney("150.00"),
+          transitDays: [6, 12],
+        },
+        {
+          id: "express",
+          title: "Express",
+          basis: "subtotal",
+          tiers: [
+            { upTo: 50, price: toMoney("30.00") },
+            { upTo: 150, price: toMoney("40.00") },
+            { upTo: null, price: toMoney("50.00") },
+          ],
+          transitDays: [3, 6],
+        },
+      ],
+    },
+  ],
+};
@@ -0,0 +1,63 @@
+import { TaxConfig } from "@/types/tax";
+
+// Sales tax rules; countries and regions without a rule are not taxed
+export const TAX_CONFIG: TaxConfig = {
+  pricesIncludeTax: false,
+  shippingTaxClass: "standard",
+  rules: [
+    // United States: state sales tax, prepared food at the standard rate
+    {
+      country: "United States",
+      regions: ["CA", "California"],
+      label: "Sales tax",
+      rates: { standard: 0.0725 },
+    },
+    {
+      country: "United States",
+      regions: ["NY", "New York"],
+      label: "Sales tax",
+      rates: { standard: 0.04 },
+    },
+    {
+      country: "United States",
+      regions: ["TX", "Texas"],
+      label: "Sales tax",
+      rates: { standard: 0.0625 },
+    },
+    {
+      country: "United States",
+      regions: ["WA", "Washington"],
+      label: "Sales tax",
+      rates: { standard: 0.065 },
+    },
+    // Canada: GST everywhere, HST in the harmonized provinces
+    { country: "Canada", label: "GST", rates: { standard: 0.05 } },
+    {
+      country: "Canada",
+      regions: ["ON", "Ontario"],
+      label: "HST",
+      rates: { standard: 0.13 },
+    },
+    {
+      country: "Canada",
+      regions: [
+        "NS",
+        "Nova Scotia",
+        "NB",
+        "New Brunswick",
+        "NL",
+        "Newfoundland and Labrador",
+        "PE",
+        "Prince Edward Island",
+      ],
+      label: "HST",
+      rates: { standard: 0.15 },
+    },
+    // Mexico: IVA; `reduced-rate` products use the 8% rate
+    {
+      country: "Mexico",
+      label: "IVA",
+      rates: { standard: 0.16, "reduced-rate": 0.08 },
+    },
+  ],
+};
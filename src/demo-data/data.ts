@@ -1,11 +1,17 @@
-export const products = [
+import { Product } from "@/types/product";
+
+export const products: Product[] = [
   {
     id: 1,
     name: "Diner For 2",
+    slug: "diner-for-2",
     color: "Mexican",
-    price: "$75.98",
+    price: { amount: 7598, currency: "USD" },
     inStock: true,
+    stockQuantity: 25,
     leadTime: "7 days",
+    taxClass: "standard",
+    weight: 1.2,
     description:
       "It is a long established fact that a reader will be distracted by the readable content of a page when looking at its layout. The point of using Lorem Ipsum is that it has a more-or-less normal distribution of letters, as opposed to using 'Content here, content here', making it look like readable English. Many desktop publishing packages and web page editors now use Lorem Ipsum as their default model text, and a search for 'lorem ipsum' will uncover many web sites still in their infancy.product/1",
     imageSrc:
@@ -15,14 +21,20 @@ export const products = [
       { id: 1, name: "Mexican" },
       { id: 2, name: "Bar & Grill" },
     ],
+    attributes: [],
+    variations: [],
   },
   {
     id: 2,
     name: "Lobster Dinner",
+    slug: "lobster-dinner",
     color: "Fine Dining",
-    price: "$100",
+    price: { amount: 10000, currency: "USD" },
     inStock: true,
+    stockQuantity: 25,
     leadTime: "7 days",
+    taxClass: "standard",
+    weight: 1.2,
     description:
       "It is a long established fact that a reader will be distracted by the readable content of a page when looking at its layout. The point of using Lorem Ipsum is that it has a more-or-less normal distribution of letters, as opposed to using 'Content here, content here', making it look like readable English. Many desktop publishing packages and web page editors now use Lorem Ipsum as their default model text, and a search for 'lorem ipsum' will uncover many web sites still in their infancy.",
     imageSrc:
@@ -32,14 +44,20 @@ export const products = [
       { id: 1, name: "Fine Dining" },
       { id: 2, name: "Bar & Grill" },
     ],
+    attributes: [],
+    variations: [],
   },
   {
     id: 3,
     name: "Shechuan Dimsum",
+    slug: "shechuan-dimsum",
     color: "Asian",
-    price: "$25.99",
+    price: { amount: 2599, currency: "USD" },
     inStock: true,
+    stockQuantity: 25,
     leadTime: "7 days",
+    taxClass: "standard",
+    weight: 1.2,
     description:
       "It is a long established fact that a reader will be distracted by the readable content of a page when looking at its layout. The point of using Lorem Ipsum is that it has a more-or-less normal distribution of letters, as opposed to using 'Content here, content here', making it look like readable English. Many desktop publishing packages and web page editors now use Lorem Ipsum as their default model text, and a search for 'lorem ipsum' will uncover many web sites still in their infancy.",
     imageSrc:
@@ -49,14 +67,45 @@ export const products = [
       { id: 1, name: "Asian" },
       { id: 2, name: "Chinese" },
     ],
+    attributes: [
+      { name: "pieces", label: "Pieces", options: ["6 pcs", "12 pcs"] },
+    ],
+    variations: [
+      {
+        id: 301,
+        name: "Shechuan Dimsum - 6 pcs",
+        price: { amount: 2599, currency: "USD" },
+        inStock: true,
+        stockQuantity: 10,
+        imageSrc:
+          "https://res.cloudinary.com/dyb0qa58h/image/upload/v1693554591/52063145_ckcmhy.webp",
+        imageAlt: "Shechuan Dimsum, 6 pieces.",
+        attributes: { pieces: "6 pcs" },
+      },
+      {
+        id: 302,
+        name: "Shechuan Dimsum - 12 pcs",
+        price: { amount: 4599, currency: "USD" },
+        inStock: true,
+        stockQuantity: 10,
+        imageSrc:
+          "https://res.cloudinary.com/dyb0qa58h/image/upload/v1693554591/52063145_ckcmhy.webp",
+        imageAlt: "Shechuan Dimsum, 12 pieces.",
+        attributes: { pieces: "12 pcs" },
+      },
+    ],
   },
   {
     id: 4,
     name: "Grilled Lamb Shank",
+    slug: "grilled-lamb-shank",
     color: "Fine Dining",
-    price: "$35.39",
+    price: { amount: 3539, currency: "USD" },
     inStock: true,
+    stockQuantity: 25,
     leadTime: "7 days",
+    taxClass: "standard",
+    weight: 1.2,
     description:
       "It is a long established fact that a reader will be distracted by the readable content of a page when looking at its layout. The point of using Lorem Ipsum is that it has a more-or-less normal distribution of letters, as opposed to using 'Content here, content here', making it look like readable English. Many desktop publishing packages and web page editors now use Lorem Ipsum as their default model text, and a search for 'lorem ipsum' will uncover many web sites still in their infancy.",
     imageSrc:
@@ -66,14 +115,20 @@ export const products = [
       { id: 1, name: "Fine Dining" },
       { id: 2, name: "Bar & Grill" },
     ],
+    attributes: [],
+    variations: [],
   },
   {
     id: 5,
     name: "Chow Pow",
+    slug: "chow-pow",
     color: "Asian",
-    price: "$30.29",
+    price: { amount: 3029, currency: "USD" },
     inStock: true,
+    stockQuantity: 25,
     leadTime: "7 days",
+    taxClass: "reduced-rate",
+    weight: 1.2,
     description:
       "It is a long established fact that a reader will be distracted by the readable content of a page when looking at its layout. The point of using Lorem Ipsum is that it has a more-or-less normal distribution of letters, as opposed to using 'Content here, content here', making it look like readable English. Many desktop publishing packages and web page editors now use Lorem Ipsum as their default model text, and a search for 'lorem ipsum' will uncover many web sites still in their infancy.",
     imageSrc:
@@ -83,14 +138,20 @@ export const products = [
       { id: 1, name: "Asian" },
       { id: 2, name: "Japanes" },
     ],
+    attributes: [],
+    variations: [],
   },
   {
     id: 6,
     name: "Vegi Lovers Beef",
+    slug: "vegi-lovers-beef",
     color: "Italian",
-    price: "$25.98",
+    price: { amount: 2598, currency: "USD" },
     inStock: true,
+    stockQuantity: 25,
     leadTime: "7 days",
+    taxClass: "standard",
+    weight: 1.2,
     description:
       "It is a long established fact that a reader will be distracted by the readable content of a page when looking at its layout. The point of using Lorem Ipsum is that it has a more-or-less normal distribution of letters, as opposed to using 'Content here, content here', making it look like readable English. Many desktop publishing packages and web page editors now use Lorem Ipsum as their default model text, and a search for 'lorem ipsum' will uncover many web sites still in their infancy.",
     imageSrc:
@@ -100,14 +161,57 @@ export const products = [
       { id: 1, name: "Italian" },
       { id: 2, name: "Pizza Bar" },
     ],
+    attributes: [
+      { name: "size", label: "Size", options: ["Medium", "Large"] },
+      { name: "crust", label: "Crust", options: ["Thin", "Deep Dish"] },
+    ],
+    variations: [
+      {
+        id: 601,
+        name: "Vegi Lovers Beef - Medium",
+        price: { amount: 2598, currency: "USD" },
+        inStock: true,
+        stockQuantity: 10,
+        imageSrc:
+          "https://res.cloudinary.com/dyb0qa58h/image/upload/v1693550892/51727875_x3nqtd.webp",
+        imageAlt: "Vegi Lovers Beef, medium.",
+        attributes: { size: "Medium", crust: "" },
+      },
+      {
+        id: 602,
+        name: "Vegi Lovers Beef - Large, Thin",
+        price: { amount: 3298, currency: "USD" },
+        inStock: true,
+        stockQuantity: 10,
+        imageSrc:
+          "https://res.cloudinary.com/dyb0qa58h/image/upload/v1693550892/51727875_x3nqtd.webp",
+        imageAlt: "Vegi Lovers Beef, large with a thin crust.",
+        attributes: { size: "Large", crust: "Thin" },
+      },
+      {
+        id: 603,
+        name: "Vegi Lovers Beef - Large, Deep Dish",
+        price: { amount: 3498, currency: "USD" },
+        inStock: false,
+        stockQuantity: 0,
+        imageSrc:
+          "https://res.cloudinary.com/dyb0qa58h/image/upload/v1693550892/51727875_x3nqtd.webp",
+        imageAlt: "Vegi Lovers Beef, large with a deep dish crust.",
+        attributes: { size: "Large", crust: "Deep Dish" },
+      },
+    ],
   },
   {
     id: 7,
     name: "Mumbo Jumbo",
+    slug: "mumbo-jumbo",
     color: "African",
-    price: "$25.24",
+    price: { amount: 2524, currency: "USD" },
     inStock: true,
+    stockQuantity: 25,
     leadTime: "7 days",
+    taxClass: "standard",
+    weight: 1.2,
     description:
       "It is a long established fact that a reader will be distracted by the readable content of a page when looking at its layout. The point of using Lorem Ipsum is that it has a more-or-less normal distribution of letters, as opposed to using 'Content here, content here', making it look like readable English. Many desktop publishing packages and web page editors now use Lorem Ipsum as their default model text, and a search for 'lorem ipsum' will uncover many web sites still in their infancy.",
     imageSrc:
@@ -117,14 +221,20 @@ export const products = [
       { id: 1, name: "African" },
       { id: 2, name: "Bar & Grill" },
     ],
+    attributes: [],
+    variations: [],
   },
   {
     id: 8,
     name: "Beef Wellington",
+    slug: "beef-wellington",
     color: "Fine Dining",
-    price: "$45.31",
+    price: { amount: 4531, currency: "USD" },
     inStock: true,
+    stockQuantity: 25,
     leadTime: "7 days",
+    taxClass: "standard",
+    weight: 1.2,
     description:
       "It is a long established fact that a reader will be distracted by the readable content of a page when looking at its layout. The point of using Lorem Ipsum is that it has a more-or-less normal distribution of letters, as opposed to using 'Content here, content here', making it look like readable English. Many desktop publishing packages and web page editors now use Lorem Ipsum as their default model text, and a search for 'lorem ipsum' will uncover many web sites still in their infancy.",
     imageSrc:
@@ -134,5 +244,7 @@ export const products = [
       { id: 1, name: "Fine Dining" },
       { id: 2, name: "Bar & Grill" },
     ],
+    attributes: [],
+    variations: [],
   },
 ];
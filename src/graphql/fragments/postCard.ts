@@ -0,0 +1,39 @@
+/**
+ * GraphQL Fragment: Post Card
+ *
+ * ## Purpose
+ * - The fields needed to render a post in a listing (e.g. the `/blog` grid).
+ * - Shared by every query that returns lists of posts so the card data never drifts.
+ *
+ * ## Fields
+ * - `id`, `databaseId`, `slug`, `title`, `date`, `excerpt`.
+ * - `featuredImage`, `categories` and the author's `name`.
+ *
+ * ## Usage
+ * - Spread with `...PostCard` and append `GRAPHQL_FRAGMENT_POST_CARD` to the query string.
+ */
+export const GRAPHQL_FRAGMENT_POST_CARD = /* GraphQL */ `
+  fragment PostCard on Post {
+    id
+    databaseId
+    slug
+    title
+    date
+    excerpt
+    featuredImage {
+      node {
+        sourceUrl
+      }
+    }
+    categories {
+      nodes {
+        name
+      }
+    }
+    author {
+      node {
+        name
+      }
+    }
+  }
+`;
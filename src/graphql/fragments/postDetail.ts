@@ -0,0 +1,39 @@
+/**
+ * GraphQL Fragment: Post Detail
+ *
+ * ## Purpose
+ * - The fields needed to render a single post page (`/blog/[slug]`).
+ * - Adds the full `content` on top of the card-level metadata.
+ *
+ * ## Fields
+ * - `id`, `databaseId`, `slug`, `title`, `date`, `content`.
+ * - `featuredImage`, `categories` and the author's `name`.
+ *
+ * ## Usage
+ * - Spread with `...PostDetail` and append `GRAPHQL_FRAGMENT_POST_DETAIL` to the query string.
+ */
+export const GRAPHQL_FRAGMENT_POST_DETAIL = /* GraphQL */ `
+  fragment PostDetail on Post {
+    id
+    databaseId
+    title
+    slug
+    date
+    content
+    categories {
+      nodes {
+        name
+      }
+    }
+    featuredImage {
+      node {
+        sourceUrl
+      }
+    }
+    author {
+      node {
+        name
+      }
+    }
+  }
+`;
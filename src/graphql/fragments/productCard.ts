@@ -0,0 +1,71 @@
+/**
+ * GraphQL Fragment: Product Card
+ *
+ * ## Purpose
+ * - The fields needed to map a WooCommerce product into our `Product` type (shop grid and product page).
+ * - Covers both `SimpleProduct` and `VariableProduct`, since `price` only exists on the concrete types.
+ *
+ * ## Fields
+ * - `id`, `databaseId`, `name`, `slug`, `sku`, `description`.
+ * - `image` and `productCategories` (used as breadcrumbs).
+ * - `price` (RAW, e.g. `"75.98"`, or `"10,20"` for a variable product's range), `stockStatus`,
+ *   `stockQuantity`, `manageStock`, `taxClass` and `weight`.
+ * - Variable products only: the selectable `attributes` (e.g. Size) and every `variation`
+ *   (`ProductVariation` fragment).
+ *
+ * ## Usage
+ * - Spread with `...ProductCard` and append `GRAPHQL_FRAGMENT_PRODUCT_CARD` to the query string
+ *   (it carries `GRAPHQL_FRAGMENT_PRODUCT_VARIATION` with it).
+ */
+import { GRAPHQL_FRAGMENT_PRODUCT_VARIATION } from "@/graphql/fragments/productVariation";
+
+export const GRAPHQL_FRAGMENT_PRODUCT_CARD = /* GraphQL */ `
+  fragment ProductCard on Product {
+    id
+    databaseId
+    name
+    slug
+    sku
+    description
+    image {
+      sourceUrl
+      altText
+    }
+    productCategories {
+      nodes {
+        databaseId
+        name
+      }
+    }
+    ... on SimpleProduct {
+      price(format: RAW)
+      stockStatus
+      stockQuantity
+      manageStock
+      taxClass
+      weight
+    }
+    ... on VariableProduct {
+      price(format: RAW)
+      stockStatus
+      stockQuantity
+      manageStock
+      taxClass
+      weight
+      attributes {
+        nodes {
+          name
+          label
+          options
+          variation
+        }
+      }
+      variations(first: 100) {
+        nodes {
+          ...ProductVariation
+        }
+      }
+    }
+  }
+  ${GRAPHQL_FRAGMENT_PRODUCT_VARIATION}
+`;
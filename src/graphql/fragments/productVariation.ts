@@ -0,0 +1,36 @@
+/**
+ * GraphQL Fragment: Product Variation
+ *
+ * ## Purpose
+ * - The fields needed to map a WooCommerce `ProductVariation` (one purchasable size / color / etc.
+ *   of a `VariableProduct`) into our `ProductVariation` type.
+ *
+ * ## Fields
+ * - `databaseId` (the variation id stored on cart lines) and `name`.
+ * - `price` (RAW, e.g. `"32.98"`), `stockStatus`, `stockQuantity`, `manageStock` and `image`.
+ * - `attributes`: The attribute values that select this variation. An empty `value` means
+ *   "any value" for that attribute.
+ *
+ * ## Usage
+ * - Spread with `...ProductVariation`. Already included by `GRAPHQL_FRAGMENT_PRODUCT_CARD`.
+ */
+export const GRAPHQL_FRAGMENT_PRODUCT_VARIATION = /* GraphQL */ `
+  fragment ProductVariation on ProductVariation {
+    databaseId
+    name
+    price(format: RAW)
+    stockStatus
+    stockQuantity
+    manageStock
+    image {
+      sourceUrl
+      altText
+    }
+    attributes {
+      nodes {
+        name
+        value
+      }
+    }
+  }
+`;
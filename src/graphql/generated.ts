@@ -0,0 +1,127 @@
+/* eslint-disable */
+// Generated by `npm run graphql:codegen`. Do not edit by hand.
+export type Maybe<T> = T | null;
+export type InputMaybe<T> = Maybe<T>;
+export type Exact<T extends { [key: string]: unknown }> = { [K in keyof T]: T[K] };
+export type MakeOptional<T, K extends keyof T> = Omit<T, K> & { [SubKey in K]?: Maybe<T[SubKey]> };
+export type MakeMaybe<T, K extends keyof T> = Omit<T, K> & { [SubKey in K]: Maybe<T[SubKey]> };
+export type MakeEmpty<T extends { [key: string]: unknown }, K extends keyof T> = { [_ in K]?: never };
+export type Incremental<T> = T | { [P in keyof T]?: P extends ' $fragmentName' | '__typename' ? T[P] : never };
+/** All built-in and custom scalars, mapped to their actual values */
+export type Scalars = {
+  ID: { input: string; output: string; }
+  String: { input: string; output: string; }
+  Boolean: { input: boolean; output: boolean; }
+  Int: { input: number; output: number; }
+  Float: { input: number; output: number; }
+};
+
+export type MediaItemSizeEnum =
+  | 'LARGE'
+  | 'MEDIUM'
+  | 'MEDIUM_LARGE'
+  | 'THUMBNAIL';
+
+export type PostIdType =
+  | 'DATABASE_ID'
+  | 'ID'
+  | 'SLUG'
+  | 'URI';
+
+export type PostObjectFieldFormatEnum =
+  | 'RAW'
+  | 'RENDERED';
+
+export type PricingFieldFormatEnum =
+  | 'FORMATTED'
+  | 'RAW';
+
+export type ProductIdTypeEnum =
+  | 'DATABASE_ID'
+  | 'ID'
+  | 'SKU'
+  | 'SLUG'
+  | 'URI';
+
+export type ProductTypesEnum =
+  | 'EXTERNAL'
+  | 'GROUPED'
+  | 'SIMPLE'
+  | 'VARIABLE'
+  | 'VARIATION';
+
+export type StockStatusEnum =
+  | 'IN_STOCK'
+  | 'ON_BACKORDER'
+  | 'OUT_OF_STOCK';
+
+export type TaxClassEnum =
+  | 'INHERIT_PARENT'
+  | 'REDUCED_RATE'
+  | 'STANDARD'
+  | 'ZERO_RATE';
+
+export type PostCardFragment = { id: string, databaseId: number, slug: string | null, title: string | null, date: string | null, excerpt: string | null, featuredImage: { node: { sourceUrl: string | null } } | null, categories: { nodes: Array<{ name: string | null }> } | null, author: { node: { name: string | null } } | null };
+
+export type PostDetailFragment = { id: string, databaseId: number, title: string | null, slug: string | null, date: string | null, content: string | null, categories: { nodes: Array<{ name: string | null }> } | null, featuredImage: { node: { sourceUrl: string | null } } | null, author: { node: { name: string | null } } | null };
+
+type ProductCard_SimpleProduct_Fragment = { price: string | null, stockStatus: StockStatusEnum | null, stockQuantity: number | null, manageStock: boolean | null, taxClass: TaxClassEnum | null, weight: string | null, id: string, databaseId: number, name: string | null, slug: string | null, sku: string | null, description: string | null, image: { sourceUrl: string | null, altText: string | null } | null, productCategories: { nodes: Array<{ databaseId: number, name: string | null }> } | null };
+
+type ProductCard_VariableProduct_Fragment = { price: string | null, stockStatus: StockStatusEnum | null, stockQuantity: number | null, manageStock: boolean | null, taxClass: TaxClassEnum | null, weight: string | null, id: string, databaseId: number, name: string | null, slug: string | null, sku: string | null, description: string | null, attributes: { nodes: Array<{ name: string | null, label: string | null, options: Array<string | null> | null, variation: boolean | null } | { name: string | null, label: string | null, options: Array<string | null> | null, variation: boolean | null }> } | null, variations: { nodes: Array<{ databaseId: number, name: string | null, price: string | null, stockStatus: StockStatusEnum | null, stockQuantity: number | null, manageStock: boolean | null, image: { sourceUrl: string | null, altText: string | null } | null, attributes: { nodes: Array<{ name: string | null, value: string | null }> } | null }> } | null, image: { sourceUrl: string | null, altText: string | null } | null, productCategories: { nodes: Array<{ databaseId: number, name: string | null }> } | null };
+
+export type ProductCardFragment = ProductCard_SimpleProduct_Fragment | ProductCard_VariableProduct_Fragment;
+
+export type ProductVariationFragment = { databaseId: number, name: string | null, price: string | null, stockStatus: StockStatusEnum | null, stockQuantity: number | null, manageStock: boolean | null, image: { sourceUrl: string | null, altText: string | null } | null, attributes: { nodes: Array<{ name: string | null, value: string | null }> } | null };
+
+export type GetAllPostSlugsQueryVariables = Exact<{
+  first: Scalars['Int']['input'];
+  after: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type GetAllPostSlugsQuery = { posts: { nodes: Array<{ slug: string | null }>, pageInfo: { hasNextPage: boolean, endCursor: string | null } } | null };
+
+export type GetBlogPostsQueryVariables = Exact<{
+  first: Scalars['Int']['input'];
+  after: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type GetBlogPostsQuery = { posts: { nodes: Array<{ id: string, databaseId: number, slug: string | null, title: string | null, date: string | null, excerpt: string | null, featuredImage: { node: { sourceUrl: string | null } } | null, categories: { nodes: Array<{ name: string | null }> } | null, author: { node: { name: string | null } } | null }>, pageInfo: { hasNextPage: boolean, endCursor: string | null } } | null };
+
+export type GetSinglePostBySlugQueryVariables = Exact<{
+  slug: Scalars['ID']['input'];
+}>;
+
+
+export type GetSinglePostBySlugQuery = { post: { id: string, databaseId: number, title: string | null, slug: string | null, date: string | null, content: string | null, categories: { nodes: Array<{ name: string | null }> } | null, featuredImage: { node: { sourceUrl: string | null } } | null, author: { node: { name: string | null } } | null } | null };
+
+export type GetAllProductSlugsQueryVariables = Exact<{
+  first: Scalars['Int']['input'];
+  after: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type GetAllProductSlugsQuery = { products: { nodes: Array<{ slug: string | null } | { slug: string | null }>, pageInfo: { hasNextPage: boolean, endCursor: string | null } } | null };
+
+export type GetProductsWithPaginationQueryVariables = Exact<{
+  first: Scalars['Int']['input'];
+  after: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type GetProductsWithPaginationQuery = { products: { pageInfo: { hasNextPage: boolean, endCursor: string | null }, nodes: Array<{ price: string | null, stockStatus: StockStatusEnum | null, stockQuantity: number | null, manageStock: boolean | null, taxClass: TaxClassEnum | null, weight: string | null, id: string, databaseId: number, name: string | null, slug: string | null, sku: string | null, description: string | null, image: { sourceUrl: string | null, altText: string | null } | null, productCategories: { nodes: Array<{ databaseId: number, name: string | null }> } | null } | { price: string | null, stockStatus: StockStatusEnum | null, stockQuantity: number | null, manageStock: boolean | null, taxClass: TaxClassEnum | null, weight: string | null, id: string, databaseId: number, name: string | null, slug: string | null, sku: string | null, description: string | null, attributes: { nodes: Array<{ name: string | null, label: string | null, options: Array<string | null> | null, variation: boolean | null } | { name: string | null, label: string | null, options: Array<string | null> | null, variation: boolean | null }> } | null, variations: { nodes: Array<{ databaseId: number, name: string | null, price: string | null, stockStatus: StockStatusEnum | null, stockQuantity: number | null, manageStock: boolean | null, image: { sourceUrl: string | null, altText: string | null } | null, attributes: { nodes: Array<{ name: string | null, value: string | null }> } | null }> } | null, image: { sourceUrl: string | null, altText: string | null } | null, productCategories: { nodes: Array<{ databaseId: number, name: string | null }> } | null }> } | null };
+
+export type GetSingleProductByIdQueryVariables = Exact<{
+  id: Scalars['ID']['input'];
+}>;
+
+
+export type GetSingleProductByIdQuery = { product: { price: string | null, stockStatus: StockStatusEnum | null, stockQuantity: number | null, manageStock: boolean | null, taxClass: TaxClassEnum | null, weight: string | null, id: string, databaseId: number, name: string | null, slug: string | null, sku: string | null, description: string | null, image: { sourceUrl: string | null, altText: string | null } | null, productCategories: { nodes: Array<{ databaseId: number, name: string | null }> } | null } | { price: string | null, stockStatus: StockStatusEnum | null, stockQuantity: number | null, manageStock: boolean | null, taxClass: TaxClassEnum | null, weight: string | null, id: string, databaseId: number, name: string | null, slug: string | null, sku: string | null, description: string | null, attributes: { nodes: Array<{ name: string | null, label: string | null, options: Array<string | null> | null, variation: boolean | null } | { name: string | null, label: string | null, options: Array<string | null> | null, variation: boolean | null }> } | null, variations: { nodes: Array<{ databaseId: number, name: string | null, price: string | null, stockStatus: StockStatusEnum | null, stockQuantity: number | null, manageStock: boolean | null, image: { sourceUrl: string | null, altText: string | null } | null, attributes: { nodes: Array<{ name: string | null, value: string | null }> } | null }> } | null, image: { sourceUrl: string | null, altText: string | null } | null, productCategories: { nodes: Array<{ databaseId: number, name: string | null }> } | null } | null };
+
+export type GetSingleProductBySlugQueryVariables = Exact<{
+  slug: Scalars['ID']['input'];
+}>;
+
+
+export type GetSingleProductBySlugQuery = { product: { price: string | null, stockStatus: StockStatusEnum | null, stockQuantity: number | null, manageStock: boolean | null, taxClass: TaxClassEnum | null, weight: string | null, id: string, databaseId: number, name: string | null, slug: string | null, sku: string | null, description: string | null, image: { sourceUrl: string | null, altText: string | null } | null, productCategories: { nodes: Array<{ databaseId: number, name: string | null }> } | null } | { price: string | null, stockStatus: StockStatusEnum | null, stockQuantity: number | null, manageStock: boolean | null, taxClass: TaxClassEnum | null, weight: string | null, id: string, databaseId: number, name: string | null, slug: string | null, sku: string | null, description: string | null, attributes: { nodes: Array<{ name: string | null, label: string | null, options: Array<string | null> | null, variation: boolean | null } | { name: string | null, label: string | null, options: Array<string | null> | null, variation: boolean | null }> } | null, variations: { nodes: Array<{ databaseId: number, name: string | null, price: string | null, stockStatus: StockStatusEnum | null, stockQuantity: number | null, manageStock: boolean | null, image: { sourceUrl: string | null, altText: string | null } | null, attributes: { nodes: Array<{ name: string | null, value: string | null }> } | null }> } | null, image: { sourceUrl: string | null, altText: string | null } | null, productCategories: { nodes: Array<{ databaseId: number, name: string | null }> } | null } | null };
@@ -48,16 +48,16 @@
  * - The query iterates through pages of results using `pageInfo.hasNextPage` and `pageInfo.endCursor`.
  * - Adjust `first` to optimize API usage and performance based on the dataset size.
  */
-export const GRAPHQL_QUERY_GET_ALL_POST_SLUGS = `
-          query GetAllPostSlugs($first: Int!, $after: String) {
-            posts(first: $first, after: $after) {
-              nodes {
-                slug
-              }
-              pageInfo {
-                hasNextPage
-                endCursor
-              }
-            }
-          }
-        `;
+export const GRAPHQL_QUERY_GET_ALL_POST_SLUGS = /* GraphQL */ `
+  query GetAllPostSlugs($first: Int!, $after: String) {
+    posts(first: $first, after: $after) {
+      nodes {
+        slug
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
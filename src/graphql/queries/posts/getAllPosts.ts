@@ -5,38 +5,22 @@ Arguments:
  - $first (Int!): Number of posts to fetch.
  - $after (String): Cursor for pagination.
 Returns:
- - nodes: Array of posts with details like id, title, slug, etc.
+ - nodes: Array of posts with the `PostCard` fragment fields (id, title, slug, etc.).
  - pageInfo: Contains hasNextPage and endCursor for pagination.
  */
+import { GRAPHQL_FRAGMENT_POST_CARD } from "@/graphql/fragments/postCard";
 
-export const GRAPHQL_QUERY_GET_ALL_POSTS = `
-query GetBlogPosts($first: Int!, $after: String) {
-  posts(first: $first, after: $after) {
-    nodes {
-      id
-      title
-      slug
-      date
-      excerpt
-      featuredImage {
-        node {
-          sourceUrl
-        }
+export const GRAPHQL_QUERY_GET_ALL_POSTS = /* GraphQL */ `
+  query GetBlogPosts($first: Int!, $after: String) {
+    posts(first: $first, after: $after) {
+      nodes {
+        ...PostCard
       }
-      categories {
-        nodes {
-          name
-        }
+      pageInfo {
+        hasNextPage
+        endCursor
       }
-      author {
-        node {
-          name
-        }
-      }
-    }
-    pageInfo {
-      hasNextPage
-      endCursor
     }
   }
-}`;
+  ${GRAPHQL_FRAGMENT_POST_CARD}
+`;
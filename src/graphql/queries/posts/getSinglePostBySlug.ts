@@ -24,7 +24,7 @@
  *
  * ## Implementation Details
  * - **GraphQL Query**: Uses `post(id: $slug, idType: SLUG)` to fetch the post.
- * - **Data Structure**:
+ * - **Data Structure**: Selects the shared `PostDetail` fragment (`/graphql/fragments/postDetail.ts`):
  *   - `id` and `slug` for unique identification.
  *   - `content` for the full post body.
  *   - `categories` and `featuredImage` for metadata.
@@ -36,30 +36,13 @@
  * ## Use Case
  * - Ideal for rendering single blog post pages in SSR or SSG workflows.
  */
-export const GRAPHQL_QUERY_GET_SINGLE_POST_BY_SLUG = `
-          query GetSinglePostBySlug($slug: ID!) {
-            post(id: $slug, idType: SLUG) {
-              id
-              databaseId
-              title
-              slug
-              date
-              content
-              categories {
-                nodes {
-                  name
-                }
-              }
-              featuredImage {
-                node {
-                  sourceUrl
-                }
-              }
-              author {
-                node {
-                  name
-                }
-              }
-            }
-          }
-        `;
+import { GRAPHQL_FRAGMENT_POST_DETAIL } from "@/graphql/fragments/postDetail";
+
+export const GRAPHQL_QUERY_GET_SINGLE_POST_BY_SLUG = /* GraphQL */ `
+  query GetSinglePostBySlug($slug: ID!) {
+    post(id: $slug, idType: SLUG) {
+      ...PostDetail
+    }
+  }
+  ${GRAPHQL_FRAGMENT_POST_DETAIL}
+`;
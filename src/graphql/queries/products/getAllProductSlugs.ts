@@ -0,0 +1,23 @@
+/**
+ * GraphQL Query: Get All Product Slugs
+ *
+ * ## Purpose
+ * - Retrieve every product slug for `generateStaticParams` on `/shop/[slug]`.
+ *
+ * ## Parameters (Variables)
+ * - `first` (Int!): Number of slugs to retrieve per request.
+ * - `after` (String, optional): Cursor for fetching the next page. Use `null` for the first page.
+ */
+export const GRAPHQL_QUERY_GET_ALL_PRODUCT_SLUGS = /* GraphQL */ `
+  query GetAllProductSlugs($first: Int!, $after: String) {
+    products(first: $first, after: $after) {
+      nodes {
+        slug
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
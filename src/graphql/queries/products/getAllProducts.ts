@@ -0,0 +1,30 @@
+/**
+ * GraphQL Query: Get All Products with Pagination
+ *
+ * ## Purpose
+ * - Retrieve a paginated list of WooCommerce products for the shop grid.
+ *
+ * ## Parameters (Variables)
+ * - `first` (Int!): Number of products to retrieve per request.
+ * - `after` (String, optional): Cursor for fetching the next page. Use `null` for the first page.
+ *
+ * ## Return Value
+ * - `nodes`: Array of products with the `ProductCard` fragment fields.
+ * - `pageInfo`: `hasNextPage` and `endCursor` for cursor pagination.
+ */
+import { GRAPHQL_FRAGMENT_PRODUCT_CARD } from "@/graphql/fragments/productCard";
+
+export const GRAPHQL_QUERY_GET_ALL_PRODUCTS = /* GraphQL */ `
+  query GetProductsWithPagination($first: Int!, $after: String) {
+    products(first: $first, after: $after) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      nodes {
+        ...ProductCard
+      }
+    }
+  }
+  ${GRAPHQL_FRAGMENT_PRODUCT_CARD}
+`;
@@ -0,0 +1,23 @@
+/**
+ * GraphQL Query: Get Single Product by ID
+ *
+ * ## Purpose
+ * - Retrieve a single WooCommerce product by its `databaseId`, the id stored on cart lines.
+ * - Used at checkout to re-price the cart on the server.
+ *
+ * ## Parameters (Variables)
+ * - `id` (ID!): The product `databaseId`. Used as the `id` together with `idType: DATABASE_ID`.
+ *
+ * ## Return Value
+ * - `product`: The product with the `ProductCard` fragment fields, or `null` if no product matches.
+ */
+import { GRAPHQL_FRAGMENT_PRODUCT_CARD } from "@/graphql/fragments/productCard";
+
+export const GRAPHQL_QUERY_GET_PRODUCT_BY_ID = /* GraphQL */ `
+  query GetSingleProductById($id: ID!) {
+    product(id: $id, idType: DATABASE_ID) {
+      ...ProductCard
+    }
+  }
+  ${GRAPHQL_FRAGMENT_PRODUCT_CARD}
+`;
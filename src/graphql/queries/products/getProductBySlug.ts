@@ -0,0 +1,22 @@
+/**
+ * GraphQL Query: Get Single Product by Slug
+ *
+ * ## Purpose
+ * - Retrieve a single WooCommerce product using its SEO-friendly slug.
+ *
+ * ## Parameters (Variables)
+ * - `slug` (ID!): The product slug. Used as the `id` together with `idType: SLUG`.
+ *
+ * ## Return Value
+ * - `product`: The product with the `ProductCard` fragment fields, or `null` if no product matches.
+ */
+import { GRAPHQL_FRAGMENT_PRODUCT_CARD } from "@/graphql/fragments/productCard";
+
+export const GRAPHQL_QUERY_GET_PRODUCT_BY_SLUG = /* GraphQL */ `
+  query GetSingleProductBySlug($slug: ID!) {
+    product(id: $slug, idType: SLUG) {
+      ...ProductCard
+    }
+  }
+  ${GRAPHQL_FRAGMENT_PRODUCT_CARD}
+`;
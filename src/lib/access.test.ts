@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { safeNextPath } from "@/lib/access";
+
+const ORIGIN = "https://shop.example.com";
+
+describe("safeNextPath", () => {
+  it("keeps same-site paths with their query and hash", () => {
+    assert.equal(safeNextPath("/checkout", ORIGIN), "/checkout");
+    assert.equal(
+      safeNextPath("/shop?page=2#reviews", ORIGIN),
+      "/shop?page=2#reviews"
+    );
+  });
+
+  it("rejects other sites", () => {
+    assert.equal(safeNextPath("https://evil.com", ORIGIN), "/");
+    assert.equal(safeNextPath("//evil.com", ORIGIN), "/");
+    assert.equal(safeNextPath("/\\evil.com", ORIGIN), "/");
+    assert.equal(safeNextPath("/\\/evil.com", ORIGIN), "/");
+  });
+
+  it("keeps an encoded backslash on this site", () => {
+    assert.equal(safeNextPath("/%5Cevil.com", ORIGIN), "/%5Cevil.com");
+  });
+
+  it("falls back to the home page for anything else", () => {
+    assert.equal(safeNextPath(undefined, ORIGIN), "/");
+    assert.equal(safeNextPath("checkout", ORIGIN), "/");
+  });
+});
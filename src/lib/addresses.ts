@@ -0,0 +1,18 @@
+import { SavedAddress } from "@/types/address";
+import { OrderAddress } from "@/types/order";
+
+// An address on one line, e.g. "12 Main St, Apt 4, Toronto, ON M5V 2T6, Canada"
+export const formatAddress = (address: OrderAddress) =>
+  [
+    address.address,
+    address.apartment,
+    address.city,
+    `${address.region} ${address.postalCode}`.trim(),
+    address.country,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+// What to call a saved address: its label, or the name it's addressed to
+export const savedAddressTitle = (saved: SavedAddress) =>
+  saved.label || `${saved.address.firstName} ${saved.address.lastName}`;
@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { analyticsToCsv } from "@/lib/analytics";
+import { StoreAnalytics } from "@/types/analytics";
+
+const usd = (amount: number) => ({ amount, currency: "USD" });
+
+const analytics: StoreAnalytics = {
+  range: { from: "2026-10-01", to: "2026-10-19" },
+  granularity: "day",
+  revenue: usd(2500),
+  orderCount: 1,
+  paidOrderCount: 1,
+  averageOrderValue: usd(2500),
+  revenueSeries: [],
+  topProducts: [
+    {
+      productId: 1,
+      name: '=HYPERLINK("https://evil.com","Click")',
+      quantity: 1,
+      revenue: usd(1500),
+    },
+    {
+      productId: 2,
+      name: "+cmd|' /C calc'!A0",
+      quantity: 1,
+      revenue: usd(1000),
+    },
+  ],
+  cartAbandonment: { abandonedCarts: 0, checkouts: 1, rate: 0 },
+  customers: { new: 1, returning: 0 },
+};
+
+describe("analyticsToCsv", () => {
+  it("stops product names from running as spreadsheet formulas", () => {
+    const csv = analyticsToCsv(analytics);
+    assert.ok(
+      csv.includes(`1,"'=HYPERLINK(""https://evil.com"",""Click"")",1,15.00`)
+    );
+    assert.ok(csv.includes(`2,'+cmd|' /C calc'!A0,1,10.00`));
+  });
+});
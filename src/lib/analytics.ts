@@ -0,0 +1,297 @@
+/**
+ * Store Analytics
+ *
+ * ## Purpose
+ * - Works out the admin dashboard figures for a date range from the stored orders and carts:
+ *   revenue over time, order counts, average order value, best sellers, cart abandonment and new
+ *   vs. returning customers. `analyticsToCsv` turns the same figures into the CSV export.
+ * - Pure functions; `analyticsServices` reads the records and exchange rates they need.
+ *
+ * ## Implementation Details
+ * - **Days**: Orders and carts belong to the UTC day they were placed or last changed, like the
+ *   admin order filters.
+ * - **Revenue**: Orders in `REVENUE_STATUSES`, converted into the store currency at the rate of
+ *   the day they were placed. Refunded and cancelled orders drop out, so past figures can go down
+ *   after a refund.
+ * - **Customers**: Signed-in customers are told apart by account, guests by email. A customer is
+ *   new when their first paid order falls in the range, returning when they had paid before it.
+ * - **Cart Abandonment**: Carts are emptied once their order is placed, so a cart last changed in
+ *   the range that still holds items after `ABANDONED_CART_HOURS` was left without buying. The
+ *   rate compares them to the orders placed in the range.
+ */
+import {
+  ABANDONED_CART_HOURS,
+  DEFAULT_RANGE_DAYS,
+  MAX_DAILY_POINTS,
+  REVENUE_STATUSES,
+  TOP_PRODUCTS_LIMIT,
+} from "@/config/analytics";
+import {
+  addMoney,
+  multiplyMoney,
+  STORE_CURRENCY,
+  sumMoney,
+  toDecimalString,
+  zeroMoney,
+} from "@/lib/money";
+import { DateRange, StoreAnalytics, TopProduct } from "@/types/analytics";
+import { ServerCart } from "@/types/cart";
+import { Money } from "@/types/money";
+import { Order } from "@/types/order";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+const dayOf = (isoDateTime: string) => isoDateTime.slice(0, 10);
+const isInRange = (day: string, range: DateRange) =>
+  day >= range.from && day <= range.to;
+const isValidDate = (value: string | undefined): value is string =>
+  Boolean(
+    value &&
+    DATE_PATTERN.test(value) &&
+    !isNaN(Date.parse(value)) &&
+    toIsoDate(new Date(value)) === value // Rejects days like Feb 31
+  );
+
+// Days in a range, both ends included
+export const rangeLength = (range: DateRange) =>
+  Math.round((Date.parse(range.to) - Date.parse(range.from)) / DAY_MS) + 1;
+
+// The last `days` days, today included
+export const lastDaysRange = (days: number, now = new Date()): DateRange => ({
+  from: toIsoDate(new Date(now.getTime() - (days - 1) * DAY_MS)),
+  to: toIsoDate(now),
+});
+
+// A bucket of the revenue chart for display, e.g. "Oct 19" or "Oct 2026"
+export const formatPeriod = (
+  period: string,
+  granularity: StoreAnalytics["granularity"],
+  locale = "en-US"
+) =>
+  new Intl.DateTimeFormat(locale, {
+    month: "short",
+    ...(granularity === "month" ? { year: "numeric" } : { day: "numeric" }),
+    timeZone: "UTC",
+  }).format(new Date(period));
+
+// The range in a query string; missing or invalid dates fall back to the last `DEFAULT_RANGE_DAYS` days
+export const parseDateRange = (
+  params: { from?: string; to?: string },
+  now = new Date()
+): DateRange => {
+  const fallback = lastDaysRange(DEFAULT_RANGE_DAYS, now);
+  const from = isValidDate(params.from) ? params.from : fallback.from;
+  const to = isValidDate(params.to) ? params.to : fallback.to;
+  return from <= to ? { from, to } : { from: to, to: from };
+};
+
+// First day of every bucket of the range
+const periodsOf = (
+  range: DateRange,
+  granularity: StoreAnalytics["granularity"]
+) => {
+  const periods: string[] = [];
+  const cursor = new Date(`${range.from}T00:00:00Z`);
+  if (granularity === "month") cursor.setUTCDate(1);
+  while (toIsoDate(cursor) <= range.to) {
+    periods.push(toIsoDate(cursor));
+    if (granularity === "month") {
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    } else {
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+  }
+  return periods;
+};
+
+/**
+ * Calculate the dashboard figures for a date range.
+ *
+ * ## Parameters
+ * - `orders` (Order[]): Every stored order; earlier orders tell returning customers apart.
+ * - `carts` (ServerCart[]): Every stored cart.
+ * - `range` (DateRange): The days to report on.
+ * - `convert` (function): Converts an amount of an order into the store currency.
+ * - `now` (Date, optional): Decides which carts have gone idle; defaults to the current time.
+ *
+ * ## Return Value
+ * - The `StoreAnalytics` of the range, amounts in the store currency.
+ */
+export function calculateAnalytics({
+  orders,
+  carts,
+  range,
+  convert,
+  now = new Date(),
+}: {
+  orders: Order[];
+  carts: ServerCart[];
+  range: DateRange;
+  convert: (money: Money, order: Order) => Money;
+  now?: Date;
+}): StoreAnalytics {
+  const placed = orders.filter((order) =>
+    isInRange(dayOf(order.createdAt), range)
+  );
+  const paid = placed.filter((order) =>
+    REVENUE_STATUSES.includes(order.status)
+  );
+  const revenue = sumMoney(
+    paid.map((order) => convert(order.total, order)),
+    STORE_CURRENCY
+  );
+
+  // Revenue over time
+  const granularity: StoreAnalytics["granularity"] =
+    rangeLength(range) > MAX_DAILY_POINTS ? "month" : "day";
+  const periodOf = (order: Order) =>
+    granularity === "month"
+      ? `${order.createdAt.slice(0, 7)}-01`
+      : dayOf(order.createdAt);
+  const revenueSeries = periodsOf(range, granularity).map((period) => {
+    const inPeriod = paid.filter((order) => periodOf(order) === period);
+    return {
+      period,
+      revenue: sumMoney(
+        inPeriod.map((order) => convert(order.total, order)),
+        STORE_CURRENCY
+      ),
+      orders: inPeriod.length,
+    };
+  });
+
+  // Best sellers, by revenue
+  const products = new Map<number, TopProduct>();
+  paid.forEach((order) =>
+    order.lines.forEach((line) => {
+      const current = products.get(line.productId) || {
+        productId: line.productId,
+        name: line.name,
+        quantity: 0,
+        revenue: zeroMoney(STORE_CURRENCY),
+      };
+      products.set(line.productId, {
+        ...current,
+        quantity: current.quantity + line.quantity,
+        revenue: addMoney(current.revenue, convert(line.lineTotal, order)),
+      });
+    })
+  );
+  const topProducts = Array.from(products.values())
+    .sort((a, b) => b.revenue.amount - a.revenue.amount)
+    .slice(0, TOP_PRODUCTS_LIMIT);
+
+  // Cart abandonment
+  const idleSince = now.getTime() - ABANDONED_CART_HOURS * 60 * 60 * 1000;
+  const abandonedCarts = carts.filter(
+    (cart) =>
+      cart.items.length > 0 &&
+      cart.updatedAt !== null &&
+      isInRange(dayOf(cart.updatedAt), range) &&
+      Date.parse(cart.updatedAt) <= idleSince
+  ).length;
+  const checkouts = placed.length;
+
+  // New vs. returning customers
+  const customerOf = (order: Order) =>
+    order.userId || order.email.toLowerCase();
+  const firstPaidDay = new Map<string, string>();
+  orders
+    .filter((order) => REVENUE_STATUSES.includes(order.status))
+    .forEach((order) => {
+      const customer = customerOf(order);
+      const day = dayOf(order.createdAt);
+      const first = firstPaidDay.get(customer);
+      if (!first || day < first) firstPaidDay.set(customer, day);
+    });
+  const customers = new Set(paid.map(customerOf));
+  const returning = Array.from(customers).filter(
+    (customer) => firstPaidDay.get(customer)! < range.from
+  ).length;
+
+  return {
+    range,
+    granularity,
+    revenue,
+    orderCount: placed.length,
+    paidOrderCount: paid.length,
+    averageOrderValue:
+      paid.length > 0
+        ? multiplyMoney(revenue, 1 / paid.length)
+        : zeroMoney(STORE_CURRENCY),
+    revenueSeries,
+    topProducts,
+    cartAbandonment: {
+      abandonedCarts,
+      checkouts,
+      rate:
+        abandonedCarts + checkouts > 0
+          ? abandonedCarts / (abandonedCarts + checkouts)
+          : 0,
+    },
+    customers: { new: customers.size - returning, returning },
+  };
+}
+
+// Quote a CSV field when it contains a separator, quote or line break
+// Text that starts like a formula (e.g. a product named "=HYPERLINK(...)") gets a leading `'`, so
+// spreadsheets show it instead of running it
+const csvField = (value: string | number) => {
+  const text =
+    typeof value === "string" && /^[=+\-@\t\r]/.test(value)
+      ? `'${value}`
+      : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRows = (rows: (string | number)[][]) =>
+  rows.map((row) => row.map(csvField).join(",")).join("\r\n");
+
+/**
+ * Export the dashboard figures as CSV.
+ *
+ * ## Return Value
+ * - Three tables separated by a blank line: the summary (`metric,value`), revenue per day or month
+ *   and the best sellers. Amounts are plain decimals in the store currency, so spreadsheets read
+ *   them as numbers.
+ */
+export const analyticsToCsv = (analytics: StoreAnalytics): string =>
+  [
+    csvRows([
+      ["metric", "value"],
+      ["from", analytics.range.from],
+      ["to", analytics.range.to],
+      ["currency", analytics.revenue.currency],
+      ["revenue", toDecimalString(analytics.revenue)],
+      ["orders placed", analytics.orderCount],
+      ["paid orders", analytics.paidOrderCount],
+      ["average order value", toDecimalString(analytics.averageOrderValue)],
+      ["abandoned carts", analytics.cartAbandonment.abandonedCarts],
+      ["cart abandonment rate", analytics.cartAbandonment.rate.toFixed(4)],
+      ["new customers", analytics.customers.new],
+      ["returning customers", analytics.customers.returning],
+    ]),
+    csvRows([
+      [analytics.granularity, "revenue", "paid orders"],
+      ...analytics.revenueSeries.map((point) => [
+        point.period,
+        toDecimalString(point.revenue),
+        point.orders,
+      ]),
+    ]),
+    csvRows([
+      ["product id", "product", "units sold", "revenue"],
+      ...analytics.topProducts.map((product) => [
+        product.productId,
+        product.name,
+        product.quantity,
+        toDecimalString(product.revenue),
+      ]),
+    ]),
+  ].join("\r\n\r\n") + "\r\n";
+
+// Download name of the CSV export, e.g. "analytics-2026-09-20-to-2026-10-19.csv"
+export const analyticsFileName = (range: DateRange) =>
+  `analytics-${range.from}-to-${range.to}.csv`;
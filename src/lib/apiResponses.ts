@@ -0,0 +1,75 @@
+/**
+ * API Route Error Responses
+ *
+ * ## Purpose
+ * - Turns anything thrown inside an `app/api/*` handler into a consistent JSON error response.
+ * - `GraphQLClientError`s keep their `status` and GraphQL `errors` (as `details`).
+ * - `CheckoutValidationError`s become a 400 with their `fieldErrors`.
+ * - `PaymentError`s keep their `status` and `code`, with the customer-facing message as `error`.
+ * - `StockError`s become a 409 with their `shortages`.
+ * - `AuthError`s keep their `status` and `code`, with the customer-facing message as `error`.
+ * - Everything else becomes a generic 500.
+ *
+ * ## Example Usage
+ * ```typescript
+ * try {
+ *   const data = await fetchGraphQL(...);
+ *   return NextResponse.json(data);
+ * } catch (error) {
+ *   return errorResponse(error, "Failed to fetch products.");
+ * }
+ * ```
+ */
+import { NextResponse } from "next/server";
+import { AuthError } from "@/lib/authError";
+import { CheckoutValidationError } from "@/lib/checkoutValidation";
+import { GraphQLClientError } from "@/lib/graphqlClient";
+import { PaymentError } from "@/lib/paymentError";
+import { StockError } from "@/lib/stockError";
+
+export function errorResponse(error: unknown, message: string) {
+  console.error("API Error:", error);
+
+  if (error instanceof CheckoutValidationError) {
+    return NextResponse.json(
+      { error: error.message, fieldErrors: error.fieldErrors },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof PaymentError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.status }
+    );
+  }
+
+  if (error instanceof AuthError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.status }
+    );
+  }
+
+  if (error instanceof StockError) {
+    return NextResponse.json(
+      { error: error.message, shortages: error.shortages },
+      { status: 409 }
+    );
+  }
+
+  if (error instanceof GraphQLClientError) {
+    return NextResponse.json(
+      {
+        error: message,
+        details: error.errors.length > 0 ? error.errors : error.message,
+      },
+      { status: error.status }
+    );
+  }
+
+  return NextResponse.json(
+    { error: "Internal server error." },
+    { status: 500 }
+  );
+}
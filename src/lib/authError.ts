@@ -0,0 +1,41 @@
+// Why a sign-in or account request could not go through
+export type AuthErrorCode =
+  | "invalid_input"
+  | "invalid_credentials"
+  | "email_taken"
+  | "invalid_token"
+  | "unauthenticated"
+  | "user_not_found";
+
+// HTTP status an API route should answer with for each code
+const STATUS_BY_CODE: Record<AuthErrorCode, number> = {
+  invalid_input: 400,
+  invalid_credentials: 401,
+  email_taken: 409,
+  invalid_token: 400,
+  unauthenticated: 401,
+  user_not_found: 404,
+};
+
+/**
+ * AuthError
+ *
+ * ## Purpose
+ * - Thrown by `authServices` and `authValidation` for any sign-in or account request that can't proceed.
+ * - `message` is written for the customer, so the sign-in forms can show it as is.
+ *
+ * ## Properties
+ * - `code`: An `AuthErrorCode`.
+ * - `status`: The HTTP status matching `code` (401 for wrong credentials, 409 for a taken email, ...).
+ */
+export class AuthError extends Error {
+  readonly code: AuthErrorCode;
+  readonly status: number;
+
+  constructor(code: AuthErrorCode, message: string) {
+    super(message);
+    this.name = "AuthError";
+    this.code = code;
+    this.status = STATUS_BY_CODE[code];
+  }
+}
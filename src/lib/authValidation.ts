@@ -0,0 +1,82 @@
+/**
+ * Auth Validation
+ *
+ * ## Purpose
+ * - Validates what the sign-in, registration and password forms post to `/api/auth/*`.
+ *
+ * ## Error Handling
+ * - Throws an `AuthError` (`invalid_input`) with a message the form can show.
+ */
+import { MIN_PASSWORD_LENGTH } from "@/config/auth";
+import { AuthError } from "@/lib/authError";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_PASSWORD_LENGTH = 200; // scrypt is slow on purpose, so huge inputs are refused
+
+const asString = (value: unknown) =>
+  typeof value === "string" ? value.trim() : "";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const parseEmail = (value: unknown) => {
+  const email = asString(value).toLowerCase();
+  if (!EMAIL_PATTERN.test(email)) {
+    throw new AuthError("invalid_input", "Enter a valid email address.");
+  }
+  return email;
+};
+
+// Passwords are not trimmed: spaces are part of the password
+const parsePassword = (value: unknown, checkStrength: boolean) => {
+  const password = typeof value === "string" ? value : "";
+  if (!password || password.length > MAX_PASSWORD_LENGTH) {
+    throw new AuthError("invalid_input", "Enter your password.");
+  }
+  if (checkStrength && password.length < MIN_PASSWORD_LENGTH) {
+    throw new AuthError(
+      "invalid_input",
+      `Use at least ${MIN_PASSWORD_LENGTH} characters for your password.`
+    );
+  }
+  return password;
+};
+
+// `/api/auth/login`: `{ email, password }`
+export function parseCredentials(body: unknown) {
+  const input = isRecord(body) ? body : {};
+  return {
+    email: parseEmail(input.email),
+    password: parsePassword(input.password, false),
+  };
+}
+
+// `/api/auth/register`: `{ name, email, password }`
+export function parseRegistration(body: unknown) {
+  const input = isRecord(body) ? body : {};
+  const name = asString(input.name);
+  if (!name) {
+    throw new AuthError("invalid_input", "Enter your name.");
+  }
+  return {
+    name,
+    email: parseEmail(input.email),
+    password: parsePassword(input.password, true),
+  };
+}
+
+// `/api/auth/magic-link` and `/api/auth/forgot-password`: `{ email }`
+export function parseEmailRequest(body: unknown) {
+  const input = isRecord(body) ? body : {};
+  return { email: parseEmail(input.email) };
+}
+
+// `/api/auth/reset-password`: `{ token, password }`
+export function parsePasswordReset(body: unknown) {
+  const input = isRecord(body) ? body : {};
+  const token = asString(input.token);
+  if (!token) {
+    throw new AuthError("invalid_token", "This reset link is invalid.");
+  }
+  return { token, password: parsePassword(input.password, true) };
+}
@@ -0,0 +1,91 @@
+/**
+ * Cart Reconciliation
+ *
+ * ## Purpose
+ * - Brings a cart restored from localStorage back in line with the catalog, so products that were
+ *   removed, sold out or repriced since the customer's last visit don't break the cart pages or
+ *   surprise them at checkout.
+ * - Used by `useCartStore.reconcileCart` once the cart has rehydrated and the latest products were
+ *   fetched from `/api/get-products-by-ids`.
+ *
+ * ## Features
+ * - **Missing Products**: Lines whose product (or selected variation) no longer exists are removed.
+ * - **Stock Limits**: Quantities above the catalog stock or the per-order limit are lowered. Lines
+ *   that can't be bought at all stay in the cart, flagged by `cartLineStockIssue`, so the customer
+ *   decides what to do with them.
+ * - **Price Changes**: Lines whose price changed since it was last shown get the new `unitPrice`.
+ * - Every change comes back as a `CartNotice` the cart can show.
+ */
+import { maxOrderQuantity } from "@/lib/inventory";
+import { CartItem, CartNotice } from "@/types/cart";
+import { Money } from "@/types/money";
+import { Product } from "@/types/product";
+
+/**
+ * Reconcile cart lines with the current catalog.
+ *
+ * ## Parameters
+ * - `items` (CartItem[]): The persisted cart lines.
+ * - `products` (Product[]): The current catalog entries of the cart's products; products missing
+ *   here are treated as removed from the catalog.
+ * - `cachedProducts` (Product[]): The products the browser had cached, used to name removed lines.
+ * - `formatPrice` (function): Formats a store-currency price for the notices.
+ *
+ * ## Return Value
+ * - `{ items, notices }`: The lines to keep and one notice per change, in cart order.
+ */
+export function reconcileCart(
+  items: CartItem[],
+  products: Product[],
+  cachedProducts: Product[],
+  formatPrice: (price: Money) => string
+): { items: CartItem[]; notices: CartNotice[] } {
+  const notices: CartNotice[] = [];
+
+  const reconciled = items.flatMap((item): CartItem[] => {
+    const product = products.find((p) => p.id === item.id);
+    const variation =
+      product?.variations.find((v) => v.id === item.variationId) || null;
+    if (!product || (item.variationId !== null && !variation)) {
+      const cached = cachedProducts.find((p) => p.id === item.id);
+      const cachedName =
+        cached?.variations.find((v) => v.id === item.variationId)?.name ||
+        cached?.name;
+      notices.push({
+        kind: "removed",
+        message: cachedName
+          ? `${cachedName} is no longer available and was removed from your cart.`
+          : "An item in your cart is no longer available and was removed.",
+      });
+      return [];
+    }
+
+    const name = variation?.name || product.name;
+    const price = variation?.price || product.price;
+    let quantity = item.quantity;
+
+    const available = maxOrderQuantity(product, variation);
+    if (available > 0 && quantity > available) {
+      quantity = available;
+      notices.push({
+        kind: "quantity",
+        message: `${name}: the quantity was lowered to ${available}.`,
+      });
+    }
+
+    if (
+      item.unitPrice &&
+      (item.unitPrice.amount !== price.amount ||
+        item.unitPrice.currency !== price.currency)
+    ) {
+      notices.push({
+        kind: "price",
+        message: `${name}: the price changed from ${formatPrice(item.unitPrice)} to ${formatPrice(price)}.`,
+      });
+    }
+
+    return [{ ...item, quantity, unitPrice: price }];
+  });
+
+  return { items: reconciled, notices };
+}
@@ -0,0 +1,57 @@
+/**
+ * Cart Session
+ *
+ * ## Purpose
+ * - Identifies whose cart a request to `/api/cart` is about. Signed-in customers use their account's
+ *   cart; guests get an anonymous session id in the `cart_session` cookie the first time they reach
+ *   the cart API.
+ *
+ * ## Implementation Details
+ * - The cookie is `httpOnly`: the browser never reads it, it only sends it back.
+ * - Server only; call it from route handlers, where `cookies()` may set the cookie.
+ */
+import { randomUUID } from "node:crypto";
+import { cookies } from "next/headers";
+import { SessionUser } from "@/types/auth";
+
+export const CART_SESSION_COOKIE = "cart_session";
+const SESSION_MAX_AGE = 60 * 60 * 24 * 30; // 30 days, renewed on every request
+const SESSION_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+// Cart id of a guest session
+export const sessionCartId = (sessionId: string) => `session:${sessionId}`;
+
+// Cart id of a signed-in customer
+export const userCartId = (userId: string) => `user:${userId}`;
+
+// The guest cart id of this browser, starting a session when there's none yet
+export async function getSessionCartId(): Promise<string> {
+  const cookieStore = await cookies();
+  const current = cookieStore.get(CART_SESSION_COOKIE)?.value;
+  const sessionId =
+    current && SESSION_ID_PATTERN.test(current) ? current : randomUUID();
+
+  cookieStore.set(CART_SESSION_COOKIE, sessionId, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_MAX_AGE,
+  });
+
+  return sessionCartId(sessionId);
+}
+
+/**
+ * The cart id of the current request.
+ *
+ * ## Parameters
+ * - `user` (SessionUser | null): The signed-in user (`getCurrentUser`), which checks the session
+ *   against the stored account; the cookie's claims alone outlive a password reset.
+ *
+ * ## Return Value
+ * - A Promise resolving to `user:<id>` for signed-in customers, `session:<id>` for guests.
+ */
+export async function getCartId(user: SessionUser | null): Promise<string> {
+  return user ? userCartId(user.id) : getSessionCartId();
+}
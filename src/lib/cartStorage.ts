@@ -0,0 +1,83 @@
+/**
+ * Cart Storage Migrations
+ *
+ * ## Purpose
+ * - Upgrades the cart persisted in `cart-storage` to the current `PersistedCart` shape, so a
+ *   visitor's cart survives storefront updates instead of crashing the pages that read it.
+ *
+ * ## Versions
+ * - **0**: Unversioned. Items may lack `variationId` (carts from before variable products) and
+ *   nothing was validated, so anything in localStorage is possible.
+ * - **1**: Items are validated and carry the `unitPrice` they were last shown with, so
+ *   `reconcileCart` can tell the customer about price changes.
+ * - **2**: The cart remembers when it last changed (`cartUpdatedAt`), to decide whether the copy on
+ *   the server (`/api/cart`) is newer. Older carts count as never synced, so they're uploaded.
+ *
+ * ## Implementation Details
+ * - Invalid items are dropped rather than failing the whole cart; `reconcileCart` then checks the
+ *   remaining ones against the catalog.
+ */
+import { CartItem, PersistedCart } from "@/types/cart";
+
+export const CART_STORAGE_VERSION = 2;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const isPositiveInteger = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) > 0;
+
+// v0 → v1: keep the items that still make sense, without a price to compare against yet
+const migrateV0 = (
+  state: Record<string, unknown>
+): Omit<PersistedCart, "cartUpdatedAt"> => {
+  const rawItems = Array.isArray(state.cartItems) ? state.cartItems : [];
+  const cartItems: CartItem[] = rawItems
+    .filter(isRecord)
+    .filter(
+      (item) =>
+        isPositiveInteger(item.id) &&
+        isPositiveInteger(item.quantity) &&
+        (item.variationId == null || isPositiveInteger(item.variationId))
+    )
+    .map((item) => ({
+      id: item.id as number,
+      variationId: (item.variationId as number | undefined) ?? null,
+      quantity: item.quantity as number,
+      unitPrice: null,
+    }));
+
+  return {
+    cartItems,
+    couponCodes: Array.isArray(state.couponCodes)
+      ? state.couponCodes.filter(
+          (code): code is string => typeof code === "string"
+        )
+      : [],
+    reservationId:
+      typeof state.reservationId === "string" ? state.reservationId : null,
+  };
+};
+
+/**
+ * Migrate a persisted cart to `CART_STORAGE_VERSION`.
+ *
+ * ## Parameters
+ * - `persisted` (unknown): The state read from localStorage.
+ * - `version` (number): The version it was written with (`0` for unversioned carts).
+ *
+ * ## Return Value
+ * - A `PersistedCart`; an empty cart when `persisted` is unreadable.
+ */
+export function migrateCartStorage(
+  persisted: unknown,
+  version: number
+): PersistedCart {
+  const state = isRecord(persisted) ? persisted : {};
+  let cart = state as unknown as PersistedCart;
+
+  if (version < 1) cart = { ...cart, ...migrateV0(state) };
+  if (version < 2) cart = { ...cart, cartUpdatedAt: null };
+
+  return cart;
+}
@@ -0,0 +1,26 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  CheckoutValidationError,
+  parseStockRequest,
+} from "@/lib/checkoutValidation";
+
+describe("parseStockRequest", () => {
+  it("accepts one line per product or variation", () => {
+    const items = [
+      { id: 7, variationId: 1, quantity: 10 },
+      { id: 7, variationId: 2, quantity: 10 },
+    ];
+    assert.deepEqual(parseStockRequest({ items }).items, items);
+  });
+
+  it("rejects a line listed more than once", () => {
+    const line = { id: 7, variationId: null, quantity: 10 };
+    assert.throws(
+      () => parseStockRequest({ items: [line, line, line, line, line] }),
+      (error) =>
+        error instanceof CheckoutValidationError &&
+        error.fieldErrors.items === "Each product can only be listed once."
+    );
+  });
+});
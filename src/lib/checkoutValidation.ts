@@ -0,0 +1,335 @@
+/**
+ * Checkout Validation
+ *
+ * ## Purpose
+ * - Validates what the checkout form posts to `/api/create-order` before an order is created, and
+ *   what the cart posts to `/api/apply-promotions`, `/api/check-stock`, `/api/reserve-stock` and
+ *   `/api/cart`, and the addresses customers save to their address book (`/api/addresses`).
+ * - Never trusts prices or totals from the browser: only ids, quantities and the address are read.
+ * - Card details are only checked for presence here; the payment provider decides if they're valid.
+ *
+ * ## Error Handling
+ * - Throws a `CheckoutValidationError` whose `fieldErrors` maps each invalid field
+ *   (`email`, `firstName`, `items`, ...) to a message the form can show.
+ */
+import { PAYMENT_METHODS } from "@/config/checkout";
+import { AddressInput } from "@/types/address";
+import { CartItem } from "@/types/cart";
+import { CheckoutInput, OrderAddress } from "@/types/order";
+import { CardDetails } from "@/types/payment";
+
+const MAX_QUANTITY = 99;
+const MAX_COUPON_CODES = 5;
+const MAX_LABEL_LENGTH = 40;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class CheckoutValidationError extends Error {
+  readonly fieldErrors: Record<string, string>;
+
+  constructor(fieldErrors: Record<string, string>) {
+    super("Please correct the highlighted checkout fields.");
+    this.name = "CheckoutValidationError";
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// Address fields the customer must fill in (company and apartment are optional)
+const REQUIRED_ADDRESS_FIELDS: Record<keyof OrderAddress, string | null> = {
+  firstName: "First name",
+  lastName: "Last name",
+  company: null,
+  address: "Address",
+  apartment: null,
+  city: "City",
+  country: "Country",
+  region: "State / Province",
+  postalCode: "Postal code",
+  phone: "Phone",
+};
+
+// Card fields required when paying by credit card
+const CARD_FIELDS: Record<keyof CardDetails, string> = {
+  number: "Card number",
+  name: "Name on card",
+  expiry: "Expiration date",
+  cvc: "CVC",
+};
+
+const asString = (value: unknown) =>
+  typeof value === "string" ? value.trim() : "";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const parseAddress = (
+  value: unknown,
+  fieldErrors: Record<string, string>
+): OrderAddress => {
+  const rawAddress = isRecord(value) ? value : {};
+  const address = {} as OrderAddress;
+  (Object.keys(REQUIRED_ADDRESS_FIELDS) as (keyof OrderAddress)[]).forEach(
+    (field) => {
+      address[field] = asString(rawAddress[field]);
+      const label = REQUIRED_ADDRESS_FIELDS[field];
+      if (label && !address[field]) {
+        fieldErrors[field] = `${label} is required.`;
+      }
+    }
+  );
+  return address;
+};
+
+const parseCurrency = (
+  value: unknown,
+  currencies: string[],
+  fieldErrors: Record<string, string>
+) => {
+  const currency = asString(value);
+  if (!currencies.includes(currency)) {
+    fieldErrors.currency = `Orders can't be placed in ${currency || "this currency"}.`;
+  }
+  return currency;
+};
+
+const toCartItem = (item: Record<string, unknown>): CartItem => ({
+  id: Number(item.id),
+  variationId: item.variationId == null ? null : Number(item.variationId),
+  quantity: Number(item.quantity),
+});
+
+const isValidCartItem = (item: CartItem) =>
+  Number.isInteger(item.id) &&
+  (item.variationId === null || Number.isInteger(item.variationId)) &&
+  Number.isInteger(item.quantity) &&
+  item.quantity >= 1 &&
+  item.quantity <= MAX_QUANTITY;
+
+const parseItems = (
+  value: unknown,
+  fieldErrors: Record<string, string>,
+  allowEmpty = false
+): CartItem[] => {
+  const rawItems = Array.isArray(value) ? value : [];
+  const items: CartItem[] = rawItems.filter(isRecord).map(toCartItem);
+  if (items.length === 0 && !allowEmpty) {
+    fieldErrors.items = "Your cart is empty.";
+  } else if (!items.every(isValidCartItem)) {
+    fieldErrors.items = `Each item needs a quantity between 1 and ${MAX_QUANTITY}.`;
+  } else if (
+    new Set(items.map((item) => `${item.id}-${item.variationId}`)).size !==
+    items.length
+  ) {
+    // Stock and per-order limits are checked per line, so a repeated line would slip past them
+    fieldErrors.items = "Each product can only be listed once.";
+  }
+  return items;
+};
+
+// Whether the codes exist and apply is checked by the promotion engine
+const parseCouponCodes = (
+  value: unknown,
+  fieldErrors: Record<string, string>
+): string[] => {
+  const codes = (Array.isArray(value) ? value : [])
+    .map(asString)
+    .filter(Boolean);
+  if (codes.length > MAX_COUPON_CODES) {
+    fieldErrors.couponCodes = `Use at most ${MAX_COUPON_CODES} coupon codes.`;
+  }
+  return Array.from(new Set(codes));
+};
+
+/**
+ * Parse and validate a checkout request body.
+ *
+ * ## Parameters
+ * - `body` (unknown): The parsed JSON body of the request.
+ * - `currencies` (string[]): Currencies orders can be placed in (the exchange-rate table's keys).
+ *
+ * ## Return Value
+ * - A trimmed, typed `CheckoutInput`.
+ */
+export function parseCheckoutInput(
+  body: unknown,
+  currencies: string[]
+): CheckoutInput {
+  const input = isRecord(body) ? body : {};
+  const fieldErrors: Record<string, string> = {};
+
+  const email = asString(input.email);
+  if (!EMAIL_PATTERN.test(email)) {
+    fieldErrors.email = "Enter a valid email address.";
+  }
+
+  const shippingAddress = parseAddress(input.shippingAddress, fieldErrors);
+
+  // Whether the method is offered for this cart and address is checked by `createOrder`
+  const deliveryMethodId = asString(input.deliveryMethodId);
+  if (!deliveryMethodId) {
+    fieldErrors.deliveryMethodId = "Choose a delivery method.";
+  }
+
+  const paymentMethodId = asString(input.paymentMethodId);
+  if (!PAYMENT_METHODS.some((method) => method.id === paymentMethodId)) {
+    fieldErrors.paymentMethodId = "Choose a payment method.";
+  }
+
+  let card: CardDetails | null = null;
+  if (paymentMethodId === "credit-card") {
+    const rawCard = isRecord(input.card) ? input.card : {};
+    card = {} as CardDetails;
+    (Object.keys(CARD_FIELDS) as (keyof CardDetails)[]).forEach((field) => {
+      card![field] = asString(rawCard[field]);
+      if (!card![field]) {
+        fieldErrors[`card.${field}`] = `${CARD_FIELDS[field]} is required.`;
+      }
+    });
+  }
+
+  const currency = parseCurrency(input.currency, currencies, fieldErrors);
+  const items = parseItems(input.items, fieldErrors);
+  const couponCodes = parseCouponCodes(input.couponCodes, fieldErrors);
+  const reservationId = asString(input.reservationId) || null;
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new CheckoutValidationError(fieldErrors);
+  }
+
+  return {
+    email,
+    shippingAddress,
+    deliveryMethodId,
+    paymentMethodId,
+    card,
+    currency,
+    items,
+    couponCodes,
+    reservationId,
+  };
+}
+
+/**
+ * Parse and validate a promotion quote request body (`/api/apply-promotions`).
+ *
+ * ## Parameters
+ * - `body` (unknown): The parsed JSON body of the request.
+ * - `currencies` (string[]): Currencies orders can be placed in (the exchange-rate table's keys).
+ *
+ * ## Return Value
+ * - The cart `items`, the entered `couponCodes` and the `currency` to price them in.
+ */
+export function parsePromotionQuery(
+  body: unknown,
+  currencies: string[]
+): Pick<CheckoutInput, "items" | "couponCodes" | "currency"> {
+  const input = isRecord(body) ? body : {};
+  const fieldErrors: Record<string, string> = {};
+
+  const currency = parseCurrency(input.currency, currencies, fieldErrors);
+  const items = parseItems(input.items, fieldErrors);
+  const couponCodes = parseCouponCodes(input.couponCodes, fieldErrors);
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new CheckoutValidationError(fieldErrors);
+  }
+
+  return { items, couponCodes, currency };
+}
+
+/**
+ * Parse and validate a stock request body (`/api/check-stock` and `/api/reserve-stock`).
+ *
+ * ## Parameters
+ * - `body` (unknown): The parsed JSON body of the request.
+ *
+ * ## Return Value
+ * - The cart `items` and the customer's `reservationId` (`null` when they have none yet).
+ */
+export function parseStockRequest(
+  body: unknown
+): Pick<CheckoutInput, "items" | "reservationId"> {
+  const input = isRecord(body) ? body : {};
+  const fieldErrors: Record<string, string> = {};
+
+  const items = parseItems(input.items, fieldErrors);
+  const reservationId = asString(input.reservationId) || null;
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new CheckoutValidationError(fieldErrors);
+  }
+
+  return { items, reservationId };
+}
+
+/**
+ * Parse and validate a whole cart saved to `/api/cart` (`PUT`).
+ *
+ * ## Parameters
+ * - `body` (unknown): The parsed JSON body of the request.
+ *
+ * ## Return Value
+ * - The cart `items` (possibly empty) and `couponCodes`.
+ */
+export function parseCartUpdate(
+  body: unknown
+): Pick<CheckoutInput, "items" | "couponCodes"> {
+  const input = isRecord(body) ? body : {};
+  const fieldErrors: Record<string, string> = {};
+
+  const items = parseItems(input.items, fieldErrors, true);
+  const couponCodes = parseCouponCodes(input.couponCodes, fieldErrors);
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new CheckoutValidationError(fieldErrors);
+  }
+
+  return { items, couponCodes };
+}
+
+/**
+ * Parse and validate one cart line posted to `/api/cart` (`POST` and `PATCH`).
+ *
+ * ## Parameters
+ * - `body` (unknown): The parsed JSON body of the request (`{ id, variationId, quantity }`).
+ *
+ * ## Return Value
+ * - The line as a `CartItem`; `quantity` defaults to 1.
+ */
+export function parseCartLine(body: unknown): CartItem {
+  const input = isRecord(body) ? body : {};
+  const item = toCartItem({ ...input, quantity: input.quantity ?? 1 });
+
+  if (!isValidCartItem(item)) {
+    throw new CheckoutValidationError({
+      items: `Each item needs a quantity between 1 and ${MAX_QUANTITY}.`,
+    });
+  }
+
+  return item;
+}
+
+/**
+ * Parse and validate an address saved to the address book (`/api/addresses`).
+ *
+ * ## Parameters
+ * - `body` (unknown): The parsed JSON body of the request (`{ label, address, isDefault }`).
+ *
+ * ## Return Value
+ * - A trimmed, typed `AddressInput`; `label` may be empty and `isDefault` defaults to `false`.
+ */
+export function parseAddressInput(body: unknown): AddressInput {
+  const input = isRecord(body) ? body : {};
+  const fieldErrors: Record<string, string> = {};
+
+  const label = asString(input.label);
+  if (label.length > MAX_LABEL_LENGTH) {
+    fieldErrors.label = `Use at most ${MAX_LABEL_LENGTH} characters for the label.`;
+  }
+  const address = parseAddress(input.address, fieldErrors);
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new CheckoutValidationError(fieldErrors);
+  }
+
+  return { label, address, isDefault: input.isDefault === true };
+}
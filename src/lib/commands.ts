@@ -0,0 +1,69 @@
+/**
+ * Commands
+ *
+ * ## Purpose
+ * - Decides which `NAVIGATION_COMMANDS` a visitor gets, and handles their keyboard shortcuts, for
+ *   the command palette and the sidebar.
+ *
+ * ## Implementation Details
+ * - A command is offered when `checkAccess` lets the role open its page, so the palette never
+ *   shows admin pages to customers, or the sign-in page to signed-in users.
+ * - The palette opens with ⌘K on Apple devices and Ctrl+K elsewhere, even while typing.
+ * - Page shortcuts are two-key sequences, G then a letter (e.g. G P for the profile), like GitHub
+ *   and Gmail. Modifier combinations are nearly all taken by the browser (⌘P prints, ⌘B bolds), so
+ *   plain keys are used instead; they're ignored while typing in a field.
+ */
+import { NAVIGATION_COMMANDS } from "@/config/commands";
+import { checkAccess } from "@/lib/access";
+import { AccessRole } from "@/types/auth";
+import { NavigationCommand } from "@/types/command";
+
+export const PALETTE_SHORTCUT = "k";
+
+// The commands a role may use, in display order
+export const commandsFor = (
+  role: AccessRole,
+  commands: NavigationCommand[] = NAVIGATION_COMMANDS
+) =>
+  commands.filter(
+    (command) => checkAccess(command.href.split("?")[0], role) === "allow"
+  );
+
+// Apple keyboards use ⌘ where others use Ctrl
+export const isApplePlatform = () =>
+  typeof navigator !== "undefined" &&
+  /Mac|iPhone|iPad/.test(navigator.userAgent);
+
+export const SHORTCUT_PREFIX = "g"; // First key of every page shortcut
+export const SHORTCUT_TIMEOUT_MS = 1000; // How long the second key may take
+
+// The palette shortcut for display: "⌘K" or "Ctrl+K"
+export const paletteShortcutLabel = (isApple: boolean) =>
+  `${isApple ? "⌘" : "Ctrl+"}${PALETTE_SHORTCUT.toUpperCase()}`;
+
+// A page shortcut for display, e.g. "G P"
+export const shortcutLabel = (key: string) =>
+  `${SHORTCUT_PREFIX} ${key}`.toUpperCase();
+
+// Whether a key event is ⌘K (Ctrl+K)
+export const isPaletteShortcut = (event: KeyboardEvent, isApple: boolean) =>
+  (isApple ? event.metaKey : event.ctrlKey) &&
+  !event.shiftKey &&
+  !event.altKey &&
+  event.key.toLowerCase() === PALETTE_SHORTCUT;
+
+// Whether a key event comes from somewhere the visitor types (fields, rich text)
+export const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+// The letter of a key pressed on its own, or `null` with a modifier held or for other keys
+export const sequenceKey = (event: KeyboardEvent) =>
+  event.metaKey ||
+  event.ctrlKey ||
+  event.altKey ||
+  event.shiftKey ||
+  !/^[a-z]$/i.test(event.key)
+    ? null
+    : event.key.toLowerCase();
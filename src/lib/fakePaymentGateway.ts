@@ -0,0 +1,295 @@
+/**
+ * Fake Payment Gateway
+ *
+ * ## Purpose
+ * - A local, deterministic `PaymentProvider` for development and demos. No network calls, no real
+ *   money: every outcome is decided by the test card number.
+ *
+ * ## Test Cards
+ * - `4242 4242 4242 4242`: Authorized.
+ * - `4000 0000 0000 0002`: Declined.
+ * - `4000 0000 0000 9995`: Declined for insufficient funds.
+ * - `4000 0000 0000 3220`: Requires confirmation on the fake bank page (`/checkout/authenticate/[id]`)
+ *   before it is authorized or declined.
+ * - Any other number is rejected, so real card numbers never get this far.
+ * - PayPal and eTransfer payments are authorized straight away.
+ *
+ * ## Implementation Details
+ * - Transactions are kept in the `fake-gateway-transactions` collection of the JSON file store.
+ * - Webhooks are signed with an HMAC-SHA256 of the raw body using `FAKE_GATEWAY_WEBHOOK_SECRET`,
+ *   sent in the `x-fake-gateway-signature` header.
+ *
+ * ## Error Handling
+ * - Signing and verifying webhooks throw in production when `FAKE_GATEWAY_WEBHOOK_SECRET` isn't
+ *   set: the development secret is public, and anyone could sign a payment webhook with it.
+ */
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+import { readCollection, updateCollection } from "@/lib/jsonStore";
+import { addMoney, subtractMoney, zeroMoney } from "@/lib/money";
+import { PaymentError } from "@/lib/paymentError";
+import { Money } from "@/types/money";
+import {
+  AuthorizeRequest,
+  CardDetails,
+  PaymentEvent,
+  PaymentProvider,
+  PaymentResult,
+  PaymentStatus,
+} from "@/types/payment";
+
+const TRANSACTIONS_COLLECTION = "fake-gateway-transactions";
+const SIGNATURE_HEADER = "x-fake-gateway-signature";
+const DEV_WEBHOOK_SECRET = "fake-gateway-dev-secret";
+
+export const FAKE_TEST_CARDS = {
+  success: "4242424242424242",
+  declined: "4000000000000002",
+  insufficientFunds: "4000000000009995",
+  requiresAction: "4000000000003220",
+};
+
+export interface FakeTransaction {
+  id: string;
+  orderId: string;
+  amount: Money;
+  refunded: Money; // Total refunded so far
+  status: PaymentStatus;
+  returnUrl: string;
+  createdAt: string; // ISO date
+}
+
+// Read when a webhook is signed or verified, so builds don't need the secret
+const webhookSecret = () => {
+  const secret = process.env.FAKE_GATEWAY_WEBHOOK_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("FAKE_GATEWAY_WEBHOOK_SECRET must be set in production.");
+  }
+  return DEV_WEBHOOK_SECRET;
+};
+
+const sign = (rawBody: string) =>
+  createHmac("sha256", webhookSecret()).update(rawBody).digest("hex");
+
+const toResult = (transaction: FakeTransaction): PaymentResult => ({
+  transactionId: transaction.id,
+  status: transaction.status,
+  actionUrl:
+    transaction.status === "requires_action"
+      ? `/checkout/authenticate/${transaction.id}`
+      : null,
+});
+
+// Luhn checksum, so typos are reported as invalid instead of declined
+const isValidCardNumber = (number: string) => {
+  if (!/^\d{12,19}$/.test(number)) return false;
+  const sum = number
+    .split("")
+    .reverse()
+    .reduce((total, char, index) => {
+      let digit = Number(char);
+      if (index % 2 === 1) {
+        digit *= 2;
+        if (digit > 9) digit -= 9;
+      }
+      return total + digit;
+    }, 0);
+  return sum % 10 === 0;
+};
+
+// Expiry is the end of the `MM/YY` month
+const isExpired = (expiry: string, now = new Date()) => {
+  const [month, year] = expiry.split("/").map((part) => Number(part.trim()));
+  return now >= new Date(2000 + year, month, 1);
+};
+
+// Decide what happens to a card payment; throws for every failure
+const cardOutcome = (card: CardDetails | null): PaymentStatus => {
+  if (!card) {
+    throw new PaymentError("invalid_card", "Enter your card details.");
+  }
+
+  const number = card.number.replace(/[\s-]/g, "");
+  if (!isValidCardNumber(number)) {
+    throw new PaymentError("invalid_card", "Your card number is invalid.");
+  }
+  if (!/^(0[1-9]|1[0-2])\s*\/\s*\d{2}$/.test(card.expiry)) {
+    throw new PaymentError(
+      "invalid_card",
+      "Enter the expiration date as MM/YY."
+    );
+  }
+  if (isExpired(card.expiry)) {
+    throw new PaymentError("invalid_card", "Your card has expired.");
+  }
+  if (!/^\d{3,4}$/.test(card.cvc)) {
+    throw new PaymentError("invalid_card", "Your card's CVC is invalid.");
+  }
+
+  switch (number) {
+    case FAKE_TEST_CARDS.success:
+      return "authorized";
+    case FAKE_TEST_CARDS.requiresAction:
+      return "requires_action";
+    case FAKE_TEST_CARDS.insufficientFunds:
+      throw new PaymentError(
+        "insufficient_funds",
+        "Your card has insufficient funds."
+      );
+    case FAKE_TEST_CARDS.declined:
+      throw new PaymentError("card_declined", "Your card was declined.");
+    default:
+      throw new PaymentError(
+        "card_declined",
+        "Your card was declined. Use one of the test cards listed below."
+      );
+  }
+};
+
+// Apply `change` to one stored transaction
+const updateTransaction = async (
+  id: string,
+  change: (transaction: FakeTransaction) => FakeTransaction
+): Promise<FakeTransaction> => {
+  let updated: FakeTransaction | null = null;
+  await updateCollection<FakeTransaction>(
+    TRANSACTIONS_COLLECTION,
+    (transactions) => {
+      const transaction = transactions.find((item) => item.id === id);
+      if (!transaction) {
+        throw new PaymentError("invalid_state", "Payment not found.");
+      }
+      updated = change(transaction);
+      return transactions.map((item) => (item.id === id ? updated! : item));
+    }
+  );
+  return updated!;
+};
+
+export const fakePaymentGateway: PaymentProvider = {
+  id: "fake",
+
+  async authorize(request: AuthorizeRequest) {
+    const status =
+      request.paymentMethodId === "credit-card"
+        ? cardOutcome(request.card)
+        : "authorized";
+
+    const transaction: FakeTransaction = {
+      id: `fake_${randomUUID()}`,
+      orderId: request.orderId,
+      amount: request.amount,
+      refunded: zeroMoney(request.amount.currency),
+      status,
+      returnUrl: request.returnUrl,
+      createdAt: new Date().toISOString(),
+    };
+    await updateCollection<FakeTransaction>(
+      TRANSACTIONS_COLLECTION,
+      (transactions) => [...transactions, transaction]
+    );
+
+    return toResult(transaction);
+  },
+
+  async capture(transactionId: string) {
+    const transaction = await updateTransaction(transactionId, (item) => {
+      if (item.status !== "authorized") {
+        throw new PaymentError(
+          "invalid_state",
+          `A ${item.status} payment can't be captured.`
+        );
+      }
+      return { ...item, status: "captured" };
+    });
+    return toResult(transaction);
+  },
+
+  async refund(transactionId: string, amount?: Money) {
+    const transaction = await updateTransaction(transactionId, (item) => {
+      if (item.status !== "captured") {
+        throw new PaymentError(
+          "invalid_state",
+          `A ${item.status} payment can't be refunded.`
+        );
+      }
+      const remaining = subtractMoney(item.amount, item.refunded);
+      const refund = amount || remaining;
+      if (refund.amount <= 0 || refund.amount > remaining.amount) {
+        throw new PaymentError(
+          "invalid_state",
+          "The refund is larger than what's left of the payment."
+        );
+      }
+      const refunded = addMoney(item.refunded, refund);
+      return {
+        ...item,
+        refunded,
+        status:
+          refunded.amount === item.amount.amount ? "refunded" : "captured",
+      };
+    });
+    return toResult(transaction);
+  },
+
+  async verifyWebhook(rawBody: string, headers: Headers) {
+    const expected = Buffer.from(sign(rawBody), "hex");
+    const received = Buffer.from(headers.get(SIGNATURE_HEADER) || "", "hex");
+    if (
+      received.length !== expected.length ||
+      !timingSafeEqual(received, expected)
+    ) {
+      throw new PaymentError(
+        "invalid_signature",
+        "Webhook signature verification failed."
+      );
+    }
+    return JSON.parse(rawBody) as PaymentEvent;
+  },
+};
+
+// -------------------- Fake bank (used by `/checkout/authenticate/[id]`) --------------------
+
+// Service function to fetch a stored fake transaction
+export const fetchFakeTransaction = async (
+  id: string
+): Promise<FakeTransaction | null> => {
+  const transactions = await readCollection<FakeTransaction>(
+    TRANSACTIONS_COLLECTION
+  );
+  return transactions.find((transaction) => transaction.id === id) || null;
+};
+
+/**
+ * Complete the fake bank confirmation of a `requires_action` payment.
+ *
+ * ## Parameters
+ * - `transactionId` (string): The transaction waiting for confirmation.
+ * - `approved` (boolean): Whether the customer confirmed (`true`) or cancelled (`false`).
+ *
+ * ## Return Value
+ * - A Promise resolving to the `event` a real gateway would send to its webhook, for
+ *   `handlePaymentEvent`, and the `returnUrl` to send the customer to.
+ */
+export const completeFakeAuthentication = async (
+  transactionId: string,
+  approved: boolean
+) => {
+  const transaction = await updateTransaction(transactionId, (item) => {
+    if (item.status !== "requires_action") {
+      throw new PaymentError(
+        "invalid_state",
+        "This payment has already been confirmed."
+      );
+    }
+    return { ...item, status: approved ? "authorized" : "declined" };
+  });
+
+  const event: PaymentEvent = {
+    type: approved ? "payment.authorized" : "payment.declined",
+    transactionId: transaction.id,
+    orderId: transaction.orderId,
+  };
+
+  return { event, returnUrl: transaction.returnUrl };
+};
@@ -0,0 +1,176 @@
+/**
+ * WPGraphQL Client
+ *
+ * ## Purpose
+ * - Single place where the app talks to the WordPress / WooCommerce GraphQL endpoint.
+ * - Replaces the hand-rolled `fetch(WORDPRESS_API_URL, { method: "POST" ... })` calls that every
+ *   service and API route used to build for itself.
+ *
+ * ## Features
+ * - **Typed Generics**: `fetchGraphQL<TData, TVariables>` types both the variables going in and the
+ *   `data` coming out.
+ * - **Error Normalization**: HTTP failures, GraphQL `errors`, network failures and timeouts are all
+ *   thrown as a `GraphQLClientError` with a `kind` and a suggested HTTP `status`.
+ * - **Caching**: Per-call `revalidate` and `tags` are forwarded to Next.js `fetch` caching (ISR).
+ * - **Timeouts**: Every request is aborted after `timeout` milliseconds (default 10 seconds).
+ *
+ * ## Example Usage
+ * ```typescript
+ * const data = await fetchGraphQL<{ post: BlogPost | null }, { slug: string }>(
+ *   GRAPHQL_QUERY_GET_SINGLE_POST_BY_SLUG,
+ *   { slug },
+ *   { revalidate: 60, tags: ["posts"] }
+ * );
+ * ```
+ *
+ * ## Dependencies
+ * - Requires `NEXT_PUBLIC_WORDPRESS_API_URL` environment variable.
+ */
+const WORDPRESS_API_URL = process.env.NEXT_PUBLIC_WORDPRESS_API_URL!;
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+// A single entry of the GraphQL `errors` array
+export interface GraphQLErrorItem {
+  message: string;
+  path?: (string | number)[];
+  extensions?: Record<string, unknown>;
+}
+
+// What went wrong while talking to the GraphQL endpoint
+export type GraphQLClientErrorKind = "http" | "graphql" | "network" | "timeout";
+
+/**
+ * GraphQLClientError
+ *
+ * ## Purpose
+ * - The only error type thrown by `fetchGraphQL`, so callers can handle every failure the same way.
+ *
+ * ## Properties
+ * - `kind`: `"http"` (non-2xx response), `"graphql"` (response carried `errors`),
+ *   `"network"` (fetch itself failed) or `"timeout"` (request aborted after `timeout` ms).
+ * - `status`: HTTP status an API route should answer with (upstream status for `"http"`,
+ *   500 for `"graphql"`, 503 for `"network"`, 504 for `"timeout"`).
+ * - `errors`: The GraphQL `errors` array when the server sent one, otherwise empty.
+ */
+export class GraphQLClientError extends Error {
+  readonly kind: GraphQLClientErrorKind;
+  readonly status: number;
+  readonly errors: GraphQLErrorItem[];
+
+  constructor(
+    kind: GraphQLClientErrorKind,
+    message: string,
+    status: number,
+    errors: GraphQLErrorItem[] = []
+  ) {
+    super(message);
+    this.name = "GraphQLClientError";
+    this.kind = kind;
+    this.status = status;
+    this.errors = errors;
+  }
+}
+
+export interface GraphQLRequestOptions {
+  revalidate?: number | false; // Seconds to cache the response for (ISR), `false` to cache forever
+  tags?: string[]; // Cache tags for on-demand `revalidateTag`
+  cache?: RequestCache; // e.g. "no-store" for always-fresh data
+  timeout?: number; // Milliseconds before the request is aborted
+}
+
+interface GraphQLResponse<TData> {
+  data?: TData | null;
+  errors?: GraphQLErrorItem[];
+}
+
+/**
+ * Execute a GraphQL operation against WPGraphQL.
+ *
+ * ## Parameters
+ * - `query` (string): The GraphQL document to execute.
+ * - `variables` (TVariables, optional): Variables for the operation.
+ * - `options` (GraphQLRequestOptions, optional): Caching and timeout settings.
+ *
+ * ## Return Value
+ * - A Promise resolving to the `data` field of the GraphQL response.
+ *
+ * ## Error Handling
+ * - Throws `GraphQLClientError` on any failure; the original error is logged to the console.
+ */
+export async function fetchGraphQL<
+  TData,
+  TVariables extends Record<string, unknown> = Record<string, never>,
+>(
+  query: string,
+  variables?: TVariables,
+  options: GraphQLRequestOptions = {}
+): Promise<TData> {
+  const { revalidate, tags, cache, timeout = DEFAULT_TIMEOUT_MS } = options;
+
+  let response: Response;
+  try {
+    response = await fetch(WORDPRESS_API_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ query, variables }),
+      cache,
+      next: {
+        ...(revalidate !== undefined && { revalidate }),
+        ...(tags && { tags }),
+      },
+      signal: AbortSignal.timeout(timeout),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      throw new GraphQLClientError(
+        "timeout",
+        `GraphQL request timed out after ${timeout}ms`,
+        504
+      );
+    }
+    console.error("GraphQL Network Error:", error);
+    throw new GraphQLClientError(
+      "network",
+      `GraphQL request failed: ${(error as Error)?.message ?? error}`,
+      503
+    );
+  }
+
+  // Error responses may or may not carry a JSON body
+  const result: GraphQLResponse<TData> | null = await response
+    .json()
+    .catch(() => null);
+
+  if (!response.ok) {
+    console.error("GraphQL HTTP Error:", response.status, response.statusText);
+    throw new GraphQLClientError(
+      "http",
+      `GraphQL request failed: ${response.status} ${response.statusText}`,
+      response.status,
+      result?.errors ?? []
+    );
+  }
+
+  if (result?.errors?.length) {
+    console.error("GraphQL Errors:", result.errors);
+    throw new GraphQLClientError(
+      "graphql",
+      result.errors.map((error) => error.message).join("; "),
+      500,
+      result.errors
+    );
+  }
+
+  if (!result?.data) {
+    throw new GraphQLClientError(
+      "graphql",
+      "GraphQL response did not contain any data",
+      500
+    );
+  }
+
+  return result.data;
+}
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { holdsStock, mergeCartLines } from "@/lib/inventory";
+import { Order } from "@/types/order";
+
+describe("mergeCartLines", () => {
+  it("adds up repeated lines", () => {
+    const line = { id: 7, variationId: null, quantity: 10 };
+    assert.deepEqual(mergeCartLines([line, line, line, line, line]), [
+      { id: 7, variationId: null, quantity: 50 },
+    ]);
+  });
+
+  it("keeps variations of a product apart", () => {
+    assert.deepEqual(
+      mergeCartLines([
+        { id: 7, variationId: 1, quantity: 2 },
+        { id: 7, variationId: 2, quantity: 3 },
+        { id: 7, variationId: 1, quantity: 1 },
+      ]),
+      [
+        { id: 7, variationId: 1, quantity: 3 },
+        { id: 7, variationId: 2, quantity: 3 },
+      ]
+    );
+  });
+});
+
+describe("holdsStock", () => {
+  const now = new Date("2026-10-19T12:00:00Z");
+  const order = (status: Order["status"], minutesAgo: number) =>
+    ({
+      status,
+      createdAt: new Date(now.getTime() - minutesAgo * 60 * 1000).toISOString(),
+    }) as Order;
+
+  it("holds unpaid orders only within the payment window", () => {
+    assert.equal(holdsStock(order("pending", 5), now), true);
+    assert.equal(holdsStock(order("pending", 30), now), false);
+    assert.equal(holdsStock(order("pending", 60 * 24), now), false);
+  });
+
+  it("keeps holding paid orders and releases cancelled ones", () => {
+    assert.equal(holdsStock(order("processing", 60 * 24), now), true);
+    assert.equal(holdsStock(order("cancelled", 5), now), false);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Inventory Helpers
+ *
+ * ## Purpose
+ * - Quantity limits shared by the cart store, the cart pages and `inventoryServices`.
+ * - The browser only knows the catalog stock (`stockQuantity`); units held by other orders and
+ *   reservations are checked on the server, which reports them as `StockShortage`s.
+ */
+import { MAX_PER_ORDER, STOCK_HOLDING_STATUSES } from "@/config/inventory";
+import { isPaymentExpired } from "@/lib/orderWorkflow";
+import { CartDetail, CartItem } from "@/types/cart";
+import { StockShortage } from "@/types/inventory";
+import { Order } from "@/types/order";
+import { Product, ProductVariation } from "@/types/product";
+
+// Catalog stock of a cart line: variations keep their own count
+export const stockQuantityOf = (
+  product: Product,
+  variation: ProductVariation | null
+) => (variation ? variation.stockQuantity : product.stockQuantity);
+
+// Whether an order's units are out of the available stock; unpaid orders give theirs back once
+// their payment window is over
+export const holdsStock = (order: Order, now = new Date()) =>
+  STOCK_HOLDING_STATUSES.includes(order.status) &&
+  !isPaymentExpired(order, now);
+
+// One line per product (or variation), with the quantities of repeated lines added up
+export const mergeCartLines = (items: CartItem[]): CartItem[] =>
+  Array.from(
+    items
+      .reduce((lines, item) => {
+        const key = `${item.id}-${item.variationId}`;
+        const line = lines.get(key);
+        return lines.set(
+          key,
+          line ? { ...line, quantity: line.quantity + item.quantity } : item
+        );
+      }, new Map<string, CartItem>())
+      .values()
+  );
+
+// Most units of a line one order can contain (`0` when it can't be bought)
+export const maxOrderQuantity = (
+  product: Product,
+  variation: ProductVariation | null
+) => Math.min(MAX_PER_ORDER, stockQuantityOf(product, variation) ?? Infinity);
+
+/**
+ * Why a cart line can't be ordered as it is.
+ *
+ * ## Parameters
+ * - `item` (CartDetail): The cart line.
+ * - `shortages` (StockShortage[]): Shortages the server reported for the cart.
+ *
+ * ## Return Value
+ * - A message for the customer (e.g. "Only 3 left"), or `null` when the line is fine.
+ */
+export const cartLineStockIssue = (
+  item: CartDetail,
+  shortages: StockShortage[]
+): string | null => {
+  const shortage = shortages.find(
+    (line) =>
+      line.productId === item.id && line.variationId === item.variationId
+  );
+  const available = Math.min(
+    shortage?.available ?? Infinity,
+    maxOrderQuantity(item.productDetails, item.variationDetails)
+  );
+
+  if (available <= 0) return "No longer available";
+  if (item.quantity <= available) return null;
+  return available === MAX_PER_ORDER
+    ? `Limit ${MAX_PER_ORDER} per order`
+    : `Only ${available} left`;
+};
@@ -0,0 +1,119 @@
+/**
+ * Invoices
+ *
+ * ## Purpose
+ * - Renders an order as a standalone HTML invoice, downloaded from `/api/orders/[orderId]/invoice`.
+ *   It has no external assets, so it opens offline and prints (or saves as PDF) from any browser.
+ *
+ * ## Implementation Details
+ * - Every value from the order is HTML-escaped: names and addresses come from customers.
+ * - Server only.
+ */
+import { PAYMENT_METHODS } from "@/config/checkout";
+import { formatMoney } from "@/lib/money";
+import { formatTaxLine } from "@/lib/taxes";
+import { Order } from "@/types/order";
+
+const STORE_NAME = "Moose Next Framework";
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const row = (label: string, amount: string) =>
+  `<tr><td colspan="3">${escapeHtml(label)}</td><td class="amount">${escapeHtml(amount)}</td></tr>`;
+
+// File name the invoice downloads as
+export const invoiceFileName = (order: Order) =>
+  `invoice-${order.id.slice(0, 8)}.html`;
+
+/**
+ * Render an order's invoice.
+ *
+ * ## Parameters
+ * - `order` (Order): The stored order.
+ *
+ * ## Return Value
+ * - A complete HTML document.
+ */
+export function renderInvoice(order: Order): string {
+  const address = order.shippingAddress;
+  const paymentMethod = PAYMENT_METHODS.find(
+    (method) => method.id === order.paymentMethodId
+  );
+  const date = new Intl.DateTimeFormat("en-US", { dateStyle: "long" }).format(
+    new Date(order.createdAt)
+  );
+
+  const lines = order.lines
+    .map(
+      (line) =>
+        `<tr><td>${escapeHtml(line.name)}${line.variation ? `<br><small>${escapeHtml(line.variation)}</small>` : ""}</td><td>${line.quantity}</td><td class="amount">${escapeHtml(formatMoney(line.unitPrice))}</td><td class="amount">${escapeHtml(formatMoney(line.lineTotal))}</td></tr>`
+    )
+    .join("\n");
+
+  const totals = [
+    row("Subtotal", formatMoney(order.subtotal)),
+    ...order.discounts.map((discount) =>
+      row(
+        discount.code ? `${discount.label} (${discount.code})` : discount.label,
+        `-${formatMoney(discount.amount)}`
+      )
+    ),
+    row(`Shipping (${order.delivery.title})`, formatMoney(order.shipping)),
+    ...(order.taxLines.length === 0
+      ? [row("Taxes", formatMoney(order.taxes))]
+      : order.taxLines.map((line) =>
+          row(
+            `${order.pricesIncludeTax ? "Includes " : ""}${formatTaxLine(line)}`,
+            formatMoney(line.amount)
+          )
+        )),
+  ].join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Invoice ${escapeHtml(order.id)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111827; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.5rem; margin-bottom: 0; }
+  .muted { color: #6b7280; }
+  table { width: 100%; border-collapse: collapse; margin-top: 2rem; }
+  th, td { text-align: left; padding: 0.5rem 0; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  .amount { text-align: right; }
+  tfoot tr:last-child td { font-weight: 600; border-bottom: none; }
+</style>
+</head>
+<body>
+<h1>${STORE_NAME} — Invoice</h1>
+<p class="muted">Order ${escapeHtml(order.id)}<br>${escapeHtml(date)}</p>
+<p>
+  <strong>Bill to</strong><br>
+  ${escapeHtml(`${address.firstName} ${address.lastName}`)}<br>
+  ${address.company ? `${escapeHtml(address.company)}<br>` : ""}
+  ${escapeHtml(address.address)}${address.apartment ? `, ${escapeHtml(address.apartment)}` : ""}<br>
+  ${escapeHtml(`${address.city}, ${address.region} ${address.postalCode}`)}<br>
+  ${escapeHtml(address.country)}<br>
+  ${escapeHtml(order.email)}
+</p>
+<p><strong>Payment</strong><br>${escapeHtml(paymentMethod?.title || order.paymentMethodId)}</p>
+<table>
+<thead><tr><th>Item</th><th>Qty</th><th class="amount">Unit price</th><th class="amount">Total</th></tr></thead>
+<tbody>
+${lines}
+</tbody>
+<tfoot>
+${totals}
+${row("Total", formatMoney(order.total))}
+</tfoot>
+</table>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,77 @@
+/**
+ * JSON File Store
+ *
+ * ## Purpose
+ * - Minimal persistence for data WordPress doesn't own (orders, ...), one JSON file per collection.
+ * - Files live in `DATA_DIR` (default `.data/` in the project root, git-ignored).
+ *
+ * ## Features
+ * - **Serialized Writes**: `updateCollection` calls for the same collection run one after another
+ *   inside this process, so concurrent requests can't overwrite each other's changes.
+ * - **Atomic Files**: Writes go to a temporary file that is renamed over the collection file, so a
+ *   crash mid-write never leaves half a JSON document behind.
+ *
+ * ## Example Usage
+ * ```typescript
+ * const orders = await readCollection<Order>("orders");
+ * await updateCollection<Order>("orders", (orders) => [...orders, order]);
+ * ```
+ *
+ * ## Limitations
+ * - Server only (uses `node:fs`), single process. Swap in a database before running several
+ *   instances behind a load balancer.
+ */
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), ".data");
+
+// Tail of the pending write chain for each collection
+const writeQueues = new Map<string, Promise<unknown>>();
+
+const collectionPath = (name: string) => path.join(DATA_DIR, `${name}.json`);
+
+// Read every record of a collection (an empty list if the file doesn't exist yet)
+export async function readCollection<T>(name: string): Promise<T[]> {
+  try {
+    return JSON.parse(await fs.readFile(collectionPath(name), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+async function writeCollection<T>(name: string, items: T[]) {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const file = collectionPath(name);
+  const tempFile = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(items, null, 2));
+  await fs.rename(tempFile, file);
+}
+
+/**
+ * Read, change and write a collection as one step.
+ *
+ * ## Parameters
+ * - `name` (string): Collection name, e.g. `"orders"`.
+ * - `update` (function): Receives the current records and returns the records to store. Throwing
+ *   inside `update` leaves the file untouched and rejects with that error.
+ *
+ * ## Return Value
+ * - A Promise resolving to the records that were written.
+ */
+export function updateCollection<T>(
+  name: string,
+  update: (items: T[]) => T[] | Promise<T[]>
+): Promise<T[]> {
+  const previous = writeQueues.get(name) || Promise.resolve();
+  const next = previous
+    .catch(() => undefined) // A failed update must not block the ones queued after it
+    .then(async () => {
+      const items = await update(await readCollection<T>(name));
+      await writeCollection(name, items);
+      return items;
+    });
+  writeQueues.set(name, next);
+  return next;
+}
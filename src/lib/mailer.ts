@@ -0,0 +1,23 @@
+/**
+ * Mailer
+ *
+ * ## Purpose
+ * - Sends the emails of the storefront (sign-in links, password resets).
+ *
+ * ## Implementation Details
+ * - There's no mail provider yet: emails are written to the server log, which is enough to follow
+ *   the links in development. Swap the body of `sendEmail` for a provider's API to send real mail.
+ * - Server only.
+ */
+
+export interface Email {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export async function sendEmail(email: Email): Promise<void> {
+  console.info(
+    `[mailer] To: ${email.to}\nSubject: ${email.subject}\n\n${email.text}\n`
+  );
+}
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  addMoney,
+  convertMoney,
+  formatMoney,
+  minorUnitDigits,
+  multiplyMoney,
+  sumMoney,
+  toDecimalString,
+  toMoney,
+} from "@/lib/money";
+
+describe("toMoney", () => {
+  it("parses display strings without floating point", () => {
+    assert.deepEqual(toMoney("$1,299.00", "USD"), {
+      amount: 129900,
+      currency: "USD",
+    });
+    assert.deepEqual(toMoney("0.29", "USD").amount, 29);
+    assert.deepEqual(toMoney("-2.5", "USD").amount, -250);
+    assert.deepEqual(toMoney(12.5, "USD").amount, 1250);
+  });
+
+  it("rounds extra decimals half away from zero", () => {
+    assert.equal(toMoney("1.005", "USD").amount, 101);
+    assert.equal(toMoney("1.004", "USD").amount, 100);
+    assert.equal(toMoney("-1.005", "USD").amount, -101);
+  });
+
+  it("uses the currency's own minor units", () => {
+    assert.equal(minorUnitDigits("JPY"), 0);
+    assert.equal(minorUnitDigits("KWD"), 3);
+    assert.equal(toMoney("1,300.6", "JPY").amount, 1301);
+    assert.equal(toMoney("1.2345", "KWD").amount, 1235);
+  });
+});
+
+describe("money arithmetic", () => {
+  it("adds and multiplies in whole minor units", () => {
+    const dime = toMoney("0.10", "USD");
+    const fifth = toMoney("0.20", "USD");
+    assert.equal(addMoney(dime, fifth).amount, 30);
+    assert.equal(multiplyMoney(toMoney("0.99", "USD"), 0.5).amount, 50);
+    assert.deepEqual(sumMoney([dime, fifth, dime], "USD"), {
+      amount: 40,
+      currency: "USD",
+    });
+  });
+
+  it("refuses to combine currencies", () => {
+    assert.throws(() => addMoney(toMoney("1", "USD"), toMoney("1", "EUR")));
+  });
+});
+
+describe("formatMoney", () => {
+  it("formats in the currency's style", () => {
+    assert.equal(formatMoney(toMoney("1299", "USD")), "$1,299.00");
+    assert.equal(formatMoney(toMoney("1300", "JPY")), "¥1,300");
+    assert.equal(formatMoney(toMoney("12.5", "EUR")), "€12.50");
+  });
+
+  it("writes plain decimals for forms and files", () => {
+    assert.equal(toDecimalString(toMoney("1299", "USD")), "1299.00");
+    assert.equal(toDecimalString(toMoney("1300", "JPY")), "1300");
+  });
+});
+
+describe("convertMoney", () => {
+  const exchangeRates = {
+    base: "USD",
+    updatedAt: "2026-10-19T00:00:00Z",
+    rates: { USD: 1, EUR: 0.5, JPY: 150 },
+  };
+
+  it("converts between currencies with different minor units", () => {
+    assert.deepEqual(
+      convertMoney(toMoney("10.00", "USD"), "JPY", exchangeRates),
+      { amount: 1500, currency: "JPY" }
+    );
+    assert.deepEqual(
+      convertMoney(toMoney("1500", "JPY"), "EUR", exchangeRates),
+      { amount: 500, currency: "EUR" }
+    );
+  });
+
+  it("throws for currencies missing from the table", () => {
+    assert.throws(() =>
+      convertMoney(toMoney("1", "USD"), "GBP", exchangeRates)
+    );
+  });
+});
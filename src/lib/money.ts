@@ -0,0 +1,172 @@
+/**
+ * Money Helpers
+ *
+ * ## Purpose
+ * - Decimal-safe arithmetic and formatting for `Money` values (integer minor units + currency code).
+ * - Replaces parsing display strings like `"$75.98"` with `parseFloat`, which broke for `"$1,299.00"`,
+ *   for other currencies and with floating point rounding (`0.1 + 0.2`).
+ *
+ * ## Features
+ * - **Parsing**: `toMoney("1,299.00", "USD")` → `{ amount: 129900, currency: "USD" }`.
+ * - **Arithmetic**: `addMoney`, `multiplyMoney` and `sumMoney` only ever touch integers.
+ * - **Formatting**: `formatMoney` renders through `Intl.NumberFormat` in the currency's own style.
+ * - **Conversion**: `convertMoney` moves an amount into another currency with an exchange-rate table.
+ *
+ * ## Example Usage
+ * ```typescript
+ * const lineTotal = multiplyMoney(product.price, quantity);
+ * const total = addMoney(subtotal, shipping);
+ * formatMoney(total); // "$80.98"
+ * ```
+ *
+ * ## Error Handling
+ * - Combining amounts in different currencies throws an `Error`; convert them first.
+ */
+import { ExchangeRates } from "@/types/currency";
+import { Money } from "@/types/money";
+
+// Currency the WooCommerce store prices its products in
+export const STORE_CURRENCY = process.env.NEXT_PUBLIC_STORE_CURRENCY || "USD";
+
+// Number of decimal places the currency uses (2 for USD, 0 for JPY, 3 for KWD)
+export function minorUnitDigits(currency: string): number {
+  return (
+    new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+    }).resolvedOptions().maximumFractionDigits ?? 2
+  );
+}
+
+/**
+ * Parse a decimal price into `Money`.
+ *
+ * ## Parameters
+ * - `value` (string | number): A decimal amount such as `"75.98"`, `"$1,299.00"` or `12.5`.
+ *   Currency symbols and thousands separators are ignored.
+ * - `currency` (string, optional): ISO 4217 code, defaults to `STORE_CURRENCY`.
+ *
+ * ## Return Value
+ * - The amount in integer minor units. Strings are parsed digit by digit, so no floating point
+ *   rounding is involved; extra decimals are rounded half away from zero.
+ */
+export function toMoney(
+  value: string | number,
+  currency: string = STORE_CURRENCY
+): Money {
+  const digits = minorUnitDigits(currency);
+
+  if (typeof value === "number") {
+    return { amount: Math.round(value * 10 ** digits), currency };
+  }
+
+  const cleaned = value.replace(/[^\d.-]/g, "");
+  const negative = cleaned.startsWith("-");
+  const [whole = "", fraction = ""] = cleaned.replace(/-/g, "").split(".");
+  const padded = fraction.padEnd(digits + 1, "0");
+
+  let amount =
+    Number(whole || 0) * 10 ** digits + Number(padded.slice(0, digits) || 0);
+  if (Number(padded[digits]) >= 5) amount += 1;
+
+  return { amount: negative ? -amount : amount, currency };
+}
+
+// The plain decimal amount, without symbol or separators, e.g. "1299.00" (form fields, CSV files)
+export function toDecimalString(money: Money): string {
+  const digits = minorUnitDigits(money.currency);
+  return (money.amount / 10 ** digits).toFixed(digits);
+}
+
+// Zero in the given currency, the starting point for sums
+export function zeroMoney(currency: string = STORE_CURRENCY): Money {
+  return { amount: 0, currency };
+}
+
+const assertSameCurrency = (a: Money, b: Money) => {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot combine ${a.currency} with ${b.currency}`);
+  }
+};
+
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { amount: a.amount + b.amount, currency: a.currency };
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { amount: a.amount - b.amount, currency: a.currency };
+}
+
+// Multiply by a quantity or rate, rounding the result to whole minor units
+export function multiplyMoney(money: Money, factor: number): Money {
+  return {
+    amount: Math.round(money.amount * factor),
+    currency: money.currency,
+  };
+}
+
+export function sumMoney(
+  values: Money[],
+  currency: string = STORE_CURRENCY
+): Money {
+  return values.reduce(addMoney, zeroMoney(currency));
+}
+
+/**
+ * Format `Money` for display.
+ *
+ * ## Parameters
+ * - `money` (Money): The amount to format.
+ * - `locale` (string, optional): BCP 47 locale, defaults to `"en-US"`.
+ *
+ * ## Return Value
+ * - A localized currency string, e.g. `"$1,299.00"`, `"€12.50"` or `"¥1,300"`.
+ */
+export function formatMoney(money: Money, locale: string = "en-US"): string {
+  const digits = minorUnitDigits(money.currency);
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: money.currency,
+  }).format(money.amount / 10 ** digits);
+}
+
+/**
+ * Convert `Money` into another currency.
+ *
+ * ## Parameters
+ * - `money` (Money): The amount to convert.
+ * - `currency` (string): Target ISO 4217 code.
+ * - `exchangeRates` (ExchangeRates): Rate table; both currencies must be listed in it.
+ *
+ * ## Return Value
+ * - The amount in `currency`, rounded to whole minor units of that currency (half up).
+ *
+ * ## Rounding Rules
+ * - Convert unit prices first, then multiply by quantity and sum. Converting a finished total
+ *   instead can differ by a cent from the sum of the converted lines the customer sees.
+ *
+ * ## Error Handling
+ * - Throws an `Error` when either currency is missing from the table.
+ */
+export function convertMoney(
+  money: Money,
+  currency: string,
+  exchangeRates: ExchangeRates
+): Money {
+  if (money.currency === currency) return money;
+
+  const fromRate = exchangeRates.rates[money.currency];
+  const toRate = exchangeRates.rates[currency];
+  if (!fromRate || !toRate) {
+    throw new Error(`No exchange rate from ${money.currency} to ${currency}`);
+  }
+
+  const digitShift =
+    minorUnitDigits(currency) - minorUnitDigits(money.currency);
+  return {
+    amount: Math.round(money.amount * (toRate / fromRate) * 10 ** digitShift),
+    currency,
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Order Confirmation Access
+ *
+ * ## Purpose
+ * - Lets the guest who placed an order open its confirmation page (`/thankyou/[orderId]`), and
+ *   nobody else who learns the order id. Checkout gives the browser a random token in an
+ *   `httpOnly` cookie scoped to that page, and the order keeps the token's SHA-256
+ *   (`confirmationTokenHash`), so the token itself is never stored.
+ * - Orders placed while signed in don't get a token: their page is for their customer and admins.
+ *
+ * ## Implementation Details
+ * - Every order has its own cookie (the cookie `path` is the order's page), so a guest who orders
+ *   twice can still open both confirmations.
+ * - Server only; `setOrderAccessCookie` runs in route handlers.
+ */
+import { createHash, randomBytes } from "node:crypto";
+import { cookies } from "next/headers";
+import { Order } from "@/types/order";
+
+export const ORDER_ACCESS_COOKIE = "order_access";
+const ORDER_ACCESS_MAX_AGE = 60 * 60 * 24 * 30; // 30 days, to come back to the confirmation
+
+const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+// A new token for a guest order, and the hash to store on the order
+export const createOrderAccessToken = () => {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashToken(token) };
+};
+
+// Give this browser access to the confirmation page of `orderId` (route handlers only)
+export async function setOrderAccessCookie(orderId: string, token: string) {
+  const cookieStore = await cookies();
+  cookieStore.set(ORDER_ACCESS_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: `/thankyou/${orderId}`,
+    maxAge: ORDER_ACCESS_MAX_AGE,
+  });
+}
+
+// Whether the current request carries the token of a guest order
+export async function hasOrderAccess(order: Order): Promise<boolean> {
+  const token = (await cookies()).get(ORDER_ACCESS_COOKIE)?.value;
+  return (
+    !!token &&
+    !!order.confirmationTokenHash &&
+    hashToken(token) === order.confirmationTokenHash
+  );
+}
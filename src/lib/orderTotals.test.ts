@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { calculateOrderTotals } from "@/lib/orderTotals";
+import { PromotionResult } from "@/types/promotion";
+
+const usd = (amount: number) => ({ amount, currency: "USD" });
+
+// California: 7.25% on items and shipping (`src/config/taxes.ts`)
+const california = { country: "United States", region: "CA" };
+
+describe("calculateOrderTotals", () => {
+  it("taxes the discounted lines and shipping", () => {
+    const promotions: PromotionResult = {
+      currency: "USD",
+      discounts: [
+        {
+          promotionId: "save-5",
+          code: "SAVE5",
+          label: "$5 off",
+          amount: usd(500),
+          freeShipping: false,
+        },
+      ],
+      lineDiscounts: { "1-null": usd(500) },
+      freeShipping: false,
+      rejectedCodes: {},
+    };
+    const totals = calculateOrderTotals({
+      lines: [{ key: "1-null", lineTotal: usd(3000), taxClass: "standard" }],
+      shipping: usd(1000),
+      promotions,
+      location: california,
+      currency: "USD",
+    });
+    assert.deepEqual(totals.discountTotal, usd(500));
+    assert.deepEqual(totals.taxes.total, usd(254)); // 7.25% of 25.00 + 10.00
+    assert.deepEqual(totals.total, usd(3754));
+  });
+
+  it("doesn't tax shipping that a promotion made free", () => {
+    const totals = calculateOrderTotals({
+      lines: [{ key: "1-null", lineTotal: usd(1000), taxClass: "standard" }],
+      shipping: usd(1000),
+      promotions: {
+        currency: "USD",
+        discounts: [
+          {
+            promotionId: "free-shipping",
+            code: "FREESHIP",
+            label: "Free shipping",
+            amount: usd(0),
+            freeShipping: true,
+          },
+        ],
+        lineDiscounts: {},
+        freeShipping: true,
+        rejectedCodes: {},
+      },
+      location: california,
+      currency: "USD",
+    });
+    assert.deepEqual(totals.discounts[0].amount, usd(1000));
+    assert.deepEqual(totals.taxes.total, usd(73));
+    assert.deepEqual(totals.total, usd(1073));
+  });
+
+  it("ignores a promotion quote in another currency", () => {
+    const totals = calculateOrderTotals({
+      lines: [{ key: "1-null", lineTotal: usd(1000), taxClass: "standard" }],
+      shipping: null,
+      promotions: {
+        currency: "EUR",
+        discounts: [],
+        lineDiscounts: { "1-null": { amount: 500, currency: "EUR" } },
+        freeShipping: true,
+        rejectedCodes: {},
+      },
+      location: { country: "Germany", region: "" },
+      currency: "USD",
+    });
+    assert.deepEqual(totals.total, usd(1000));
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Order Totals
+ *
+ * ## Purpose
+ * - Puts subtotal, discounts, shipping and taxes together into the totals of a cart or order. The
+ *   cart summary, the checkout summary and `createOrder` all call `calculateOrderTotals`, so the
+ *   customer pays exactly what they were shown.
+ *
+ * ## Implementation Details
+ * - Taxes are charged on what the customer actually pays: each line minus its discount, and
+ *   shipping minus a free shipping discount.
+ * - Promotions quoted in another currency (e.g. right after the customer switched currencies) are
+ *   ignored until the quote is refreshed.
+ */
+import { subtractMoney, sumMoney, zeroMoney } from "@/lib/money";
+import { calculateTaxes, totalWithTaxes } from "@/lib/taxes";
+import { Money } from "@/types/money";
+import { AddressLocation, OrderTotals } from "@/types/order";
+import { PromotionResult } from "@/types/promotion";
+import { TaxClass } from "@/types/tax";
+
+/**
+ * Calculate the totals of a cart or order.
+ *
+ * ## Parameters
+ * - `lines` (array): Each line's promotion `key`, `lineTotal` and `taxClass`.
+ * - `shipping` (Money | null): The shipping charge, `null` when no delivery method applies yet.
+ * - `promotions` (PromotionResult | null): The promotion quote for these lines.
+ * - `location` (AddressLocation): Where taxes are calculated for.
+ * - `currency` (string): Currency of every amount.
+ *
+ * ## Return Value
+ * - The `OrderTotals`; `discounts` lists every applied promotion with what it took off.
+ */
+export function calculateOrderTotals({
+  lines,
+  shipping,
+  promotions,
+  location,
+  currency,
+}: {
+  lines: { key: string; lineTotal: Money; taxClass: TaxClass }[];
+  shipping: Money | null;
+  promotions: PromotionResult | null;
+  location: AddressLocation;
+  currency: string;
+}): OrderTotals {
+  const quote = promotions?.currency === currency ? promotions : null;
+  const shippingCharge = shipping || zeroMoney(currency);
+  const shippingDiscount = quote?.freeShipping
+    ? shippingCharge
+    : zeroMoney(currency);
+  const lineDiscount = (key: string) =>
+    quote?.lineDiscounts[key] || zeroMoney(currency);
+
+  const subtotal = sumMoney(
+    lines.map((line) => line.lineTotal),
+    currency
+  );
+  const discounts = (quote?.discounts || []).map((discount) => ({
+    promotionId: discount.promotionId,
+    code: discount.code,
+    label: discount.label,
+    amount: discount.freeShipping ? shippingDiscount : discount.amount,
+  }));
+  const discountTotal = sumMoney(
+    discounts.map((discount) => discount.amount),
+    currency
+  );
+  const taxes = calculateTaxes({
+    items: lines.map((line) => ({
+      amount: subtractMoney(line.lineTotal, lineDiscount(line.key)),
+      taxClass: line.taxClass,
+    })),
+    shipping: shipping && subtractMoney(shipping, shippingDiscount),
+    location,
+    currency,
+  });
+
+  return {
+    subtotal,
+    discounts,
+    discountTotal,
+    shipping: shippingCharge,
+    taxes,
+    total: totalWithTaxes(
+      [subtractMoney(subtotal, discountTotal), shippingCharge],
+      taxes,
+      currency
+    ),
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Order Workflow
+ *
+ * ## Purpose
+ * - The fulfillment state machine admins move orders through:
+ *   `pending` → `processing` (paid) → `packed` → `shipped` → `delivered`, plus `cancelled` for
+ *   unpaid orders and `refunded` for paid ones.
+ * - Every status change appends an `OrderEvent` to `Order.history`, so the admin order page can show
+ *   who did what and when.
+ *
+ * ## Implementation Details
+ * - `refunded` is in the table so `canTransition` answers for it, but only `refundOrder` (which
+ *   returns the money through the payment provider first) and the provider's refund webhook
+ *   (`handlePaymentEvent`) move an order there, both after checking `canTransition`.
+ * - Payment results (`paymentServices`) don't go through `ORDER_TRANSITIONS`: the provider decides
+ *   whether a payment went through, the admin only decides what happens afterwards.
+ *
+ * ## Error Handling
+ * - Throws an `OrderWorkflowError` for a change the state machine doesn't allow; `message` is written
+ *   for the admin.
+ */
+import { PAYMENT_WINDOW_MINUTES } from "@/config/inventory";
+import { Order, OrderStatus, OrderTracking } from "@/types/order";
+
+// The statuses an order may move to from each status
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["processing", "cancelled"],
+  "on-hold": ["processing", "cancelled"],
+  failed: ["cancelled"],
+  processing: ["packed", "refunded"],
+  packed: ["shipped", "refunded"],
+  shipped: ["delivered", "refunded"],
+  delivered: ["refunded"],
+  completed: ["refunded"],
+  cancelled: [],
+  refunded: [],
+};
+
+// How each status is shown to customers and admins
+const STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "Awaiting payment",
+  processing: "Paid",
+  packed: "Packed",
+  shipped: "Shipped",
+  delivered: "Delivered",
+  "on-hold": "On hold",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  refunded: "Refunded",
+  failed: "Payment failed",
+};
+
+const MAX_NOTE_LENGTH = 500;
+const MAX_TRACKING_LENGTH = 60;
+
+export class OrderWorkflowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OrderWorkflowError";
+  }
+}
+
+export const orderStatusLabel = (status: OrderStatus) => STATUS_LABELS[status];
+
+export const canTransition = (from: OrderStatus, to: OrderStatus) =>
+  ORDER_TRANSITIONS[from].includes(to);
+
+// The statuses an admin can pick for an order (refunds have their own action)
+export const nextStatuses = (order: Order): OrderStatus[] =>
+  ORDER_TRANSITIONS[order.status].filter((status) => status !== "refunded");
+
+// Whether an unpaid order ran out of time to be paid (see `PAYMENT_WINDOW_MINUTES`)
+export const isPaymentExpired = (order: Order, now = new Date()) =>
+  order.status === "pending" &&
+  Date.parse(order.createdAt) + PAYMENT_WINDOW_MINUTES * 60 * 1000 <=
+    now.getTime();
+
+// Orders placed before the audit trail existed have no `history`
+export const orderHistory = (order: Order) => order.history || [];
+
+/**
+ * Apply a Status Change
+ *
+ * ## Parameters
+ * - `order` (Order): The current order.
+ * - `status` (OrderStatus): The new status.
+ * - `note` (string): What happened, shown in the audit trail.
+ * - `actor` (string | null): Email of the admin who made the change, `null` for the system.
+ *
+ * ## Return Value
+ * - The updated order, with an `OrderEvent` appended to its history. Nothing is checked here; callers
+ *   check `canTransition` first where an admin made the change.
+ */
+export const applyStatus = (
+  order: Order,
+  status: OrderStatus,
+  note: string,
+  actor: string | null
+): Order => ({
+  ...order,
+  status,
+  history: [
+    ...orderHistory(order),
+    { at: new Date().toISOString(), status, note, actor },
+  ],
+});
+
+// Trim an admin's note, or throw when it's too long
+export const parseOrderNote = (value: unknown): string => {
+  const note = typeof value === "string" ? value.trim() : "";
+  if (note.length > MAX_NOTE_LENGTH) {
+    throw new OrderWorkflowError(
+      `Keep the note under ${MAX_NOTE_LENGTH} characters.`
+    );
+  }
+  return note;
+};
+
+// Validate a carrier and tracking number entered by an admin
+export const parseTracking = (
+  carrier: unknown,
+  number: unknown
+): OrderTracking => {
+  const tracking = {
+    carrier: typeof carrier === "string" ? carrier.trim() : "",
+    number: typeof number === "string" ? number.trim() : "",
+  };
+  if (!tracking.carrier || !tracking.number) {
+    throw new OrderWorkflowError("Enter the carrier and the tracking number.");
+  }
+  if (
+    tracking.carrier.length > MAX_TRACKING_LENGTH ||
+    tracking.number.length > MAX_TRACKING_LENGTH
+  ) {
+    throw new OrderWorkflowError(
+      `Keep the carrier and tracking number under ${MAX_TRACKING_LENGTH} characters.`
+    );
+  }
+  return tracking;
+};
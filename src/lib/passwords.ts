@@ -0,0 +1,44 @@
+/**
+ * Password Hashing
+ *
+ * ## Purpose
+ * - Hashes passwords with scrypt (`node:crypto`) so the `users` collection never holds them in clear.
+ *
+ * ## Implementation Details
+ * - Hashes are stored as `scrypt$<salt>$<hash>` (hex), with a random 16-byte salt per password.
+ * - Comparisons use `timingSafeEqual`, so the time taken doesn't leak how much of a hash matched.
+ * - Server only.
+ */
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+// Hash a password for storage
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+// Check a password against a stored hash
+export async function verifyPassword(
+  password: string,
+  storedHash: string
+): Promise<boolean> {
+  const [scheme, salt, hash] = storedHash.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(salt, "hex"),
+    expected.length
+  );
+  return timingSafeEqual(actual, expected);
+}
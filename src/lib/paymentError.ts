@@ -0,0 +1,41 @@
+// Why a payment could not go through
+export type PaymentErrorCode =
+  | "card_declined"
+  | "insufficient_funds"
+  | "invalid_card"
+  | "authentication_failed"
+  | "invalid_signature"
+  | "invalid_state";
+
+// HTTP status an API route should answer with for each code
+const STATUS_BY_CODE: Record<PaymentErrorCode, number> = {
+  card_declined: 402,
+  insufficient_funds: 402,
+  invalid_card: 400,
+  authentication_failed: 402,
+  invalid_signature: 401,
+  invalid_state: 409,
+};
+
+/**
+ * PaymentError
+ *
+ * ## Purpose
+ * - Thrown by payment providers and `paymentServices` for any payment that can't proceed.
+ * - `message` is written for the customer, so checkout can show it next to the payment fields.
+ *
+ * ## Properties
+ * - `code`: A `PaymentErrorCode`.
+ * - `status`: The HTTP status matching `code` (402 for declines, 400 for bad card details, ...).
+ */
+export class PaymentError extends Error {
+  readonly code: PaymentErrorCode;
+  readonly status: number;
+
+  constructor(code: PaymentErrorCode, message: string) {
+    super(message);
+    this.name = "PaymentError";
+    this.code = code;
+    this.status = STATUS_BY_CODE[code];
+  }
+}
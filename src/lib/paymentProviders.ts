@@ -0,0 +1,18 @@
+/**
+ * Payment Provider Registry
+ *
+ * ## Purpose
+ * - Maps the `provider` of each checkout payment method (`src/config/checkout.ts`) to the
+ *   `PaymentProvider` that processes it.
+ * - To add a real gateway, implement `PaymentProvider` and register it here.
+ */
+import { fakePaymentGateway } from "@/lib/fakePaymentGateway";
+import { PaymentProvider } from "@/types/payment";
+
+const PAYMENT_PROVIDERS: Record<string, PaymentProvider> = {
+  [fakePaymentGateway.id]: fakePaymentGateway,
+};
+
+// The provider registered under `id`, or `null` if there is none
+export const getPaymentProvider = (id: string): PaymentProvider | null =>
+  PAYMENT_PROVIDERS[id] || null;
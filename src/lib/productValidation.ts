@@ -0,0 +1,156 @@
+/**
+ * Product Validation
+ *
+ * ## Purpose
+ * - Validates what the admin product form submits before the catalog is changed, and turns it into
+ *   the fields of a `Product`.
+ *
+ * ## Error Handling
+ * - Throws a `ProductValidationError` whose `fieldErrors` maps each invalid field (`name`, `price`,
+ *   ...) to a message the form can show.
+ */
+import { toDecimalString, toMoney } from "@/lib/money";
+import { parseLeadTime } from "@/lib/shipping";
+import { Product, ProductFormValues, StockStatus } from "@/types/product";
+
+const STOCK_STATUSES: StockStatus[] = ["in-stock", "backorder", "out-of-stock"];
+const PRICE_PATTERN = /^\d+(\.\d{1,2})?$/;
+const MAX_NAME_LENGTH = 120;
+
+export class ProductValidationError extends Error {
+  readonly fieldErrors: Record<string, string>;
+
+  constructor(fieldErrors: Record<string, string>) {
+    super("Please correct the highlighted product fields.");
+    this.name = "ProductValidationError";
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// The product fields the admin form edits
+export type ProductFields = Pick<
+  Product,
+  | "name"
+  | "price"
+  | "description"
+  | "imageSrc"
+  | "imageAlt"
+  | "color"
+  | "breadcrumbs"
+  | "inStock"
+  | "stockQuantity"
+  | "leadTime"
+>;
+
+const asString = (value: unknown) =>
+  typeof value === "string" ? value.trim() : "";
+
+// The form's stock status for a product (the reverse of `parseProductForm`)
+export const stockStatusOf = (
+  product: Pick<Product, "inStock" | "stockQuantity">
+): StockStatus => {
+  if (product.stockQuantity === 0) return "out-of-stock";
+  return product.inStock ? "in-stock" : "backorder";
+};
+
+// A product as the admin form shows it
+export const toProductFormValues = (product: Product): ProductFormValues => ({
+  name: product.name,
+  price: toDecimalString(product.price),
+  description: product.description,
+  imageSrc: product.imageSrc,
+  imageAlt: product.imageAlt,
+  categories: product.breadcrumbs.map((category) => category.name).join(", "),
+  stockStatus: stockStatusOf(product),
+  stockQuantity:
+    product.stockQuantity === null ? "" : String(product.stockQuantity),
+  leadTime: product.leadTime,
+});
+
+/**
+ * Parse and validate the admin product form.
+ *
+ * ## Parameters
+ * - `values` (unknown): What the form submitted (`ProductFormValues`).
+ *
+ * ## Return Value
+ * - The `ProductFields` to save. Prices are in the store currency; the first category is also the
+ *   product's subtitle (`color`), as for WooCommerce products.
+ *
+ * ## Implementation Details
+ * - Stock follows `mapStockQuantity`: out of stock is `0` units, backorder and untracked stock are
+ *   unlimited (`null`), and only products in stock ship right away.
+ */
+export function parseProductForm(values: unknown): ProductFields {
+  const input = (
+    typeof values === "object" && values !== null ? values : {}
+  ) as Record<string, unknown>;
+  const fieldErrors: Record<string, string> = {};
+
+  const name = asString(input.name);
+  if (!name) {
+    fieldErrors.name = "Name is required.";
+  } else if (name.length > MAX_NAME_LENGTH) {
+    fieldErrors.name = `Use at most ${MAX_NAME_LENGTH} characters for the name.`;
+  }
+
+  const price = asString(input.price);
+  if (!PRICE_PATTERN.test(price)) {
+    fieldErrors.price = "Enter a price such as 25 or 25.99.";
+  }
+
+  const imageSrc = asString(input.imageSrc);
+  if (imageSrc && !/^(https?:\/\/|\/)/.test(imageSrc)) {
+    fieldErrors.imageSrc = "Enter an image URL starting with https:// or /.";
+  }
+
+  const categories = Array.from(
+    new Set(asString(input.categories).split(",").map(asString).filter(Boolean))
+  );
+
+  const stockStatus = asString(input.stockStatus) as StockStatus;
+  if (!STOCK_STATUSES.includes(stockStatus)) {
+    fieldErrors.stockStatus = "Choose a stock status.";
+  }
+
+  const rawQuantity = asString(input.stockQuantity);
+  const quantity = rawQuantity === "" ? null : Number(rawQuantity);
+  if (
+    stockStatus === "in-stock" &&
+    quantity !== null &&
+    (!Number.isInteger(quantity) || quantity < 0)
+  ) {
+    fieldErrors.stockQuantity =
+      "Enter a whole number of units, or leave it empty when stock isn't tracked.";
+  }
+
+  const leadTime = asString(input.leadTime);
+  if (!parseLeadTime(leadTime)) {
+    fieldErrors.leadTime = "Enter a lead time such as 7 days or 2 weeks.";
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new ProductValidationError(fieldErrors);
+  }
+
+  return {
+    name,
+    price: toMoney(price),
+    description: asString(input.description),
+    imageSrc,
+    imageAlt: asString(input.imageAlt) || name,
+    color: categories[0] || "",
+    breadcrumbs: categories.map((category, index) => ({
+      id: index + 1,
+      name: category,
+    })),
+    inStock: stockStatus === "in-stock",
+    stockQuantity:
+      stockStatus === "out-of-stock"
+        ? 0
+        : stockStatus === "backorder"
+          ? null
+          : quantity,
+    leadTime,
+  };
+}
@@ -0,0 +1,41 @@
+import { Product, ProductVariation } from "@/types/product";
+
+/**
+ * Find the Variation Matching the Selected Attributes
+ *
+ * ## Purpose
+ * - Resolves the attribute values picked on the product page (e.g. `{ size: "Large" }`) to the
+ *   `ProductVariation` that should be priced and added to the cart.
+ *
+ * ## Parameters
+ * - `product` (Product): A variable product (simple products never match).
+ * - `selected` (Record<string, string>): Attribute name → chosen value.
+ *
+ * ## Return Value
+ * - The first variation whose attribute values all match the selection, or `null` when nothing
+ *   matches or not every attribute has been chosen yet.
+ *
+ * ## Implementation Details
+ * - A variation attribute with an empty value matches any value, like WooCommerce's "Any Size…".
+ */
+export function findVariation(
+  product: Product,
+  selected: Record<string, string>
+): ProductVariation | null {
+  if (product.attributes.some((attribute) => !selected[attribute.name])) {
+    return null;
+  }
+
+  return (
+    product.variations.find((variation) =>
+      Object.entries(variation.attributes).every(
+        ([name, value]) => value === "" || value === selected[name]
+      )
+    ) || null
+  );
+}
+
+// Human-readable summary of a variation's attributes, e.g. "Large / Thin"
+export function describeVariation(variation: ProductVariation): string {
+  return Object.values(variation.attributes).filter(Boolean).join(" / ");
+}
@@ -0,0 +1,187 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applyPromotions } from "@/lib/promotions";
+import { Promotion, PromotionLine } from "@/types/promotion";
+
+const usd = (amount: number) => ({ amount, currency: "USD" });
+
+const line = (
+  productId: number,
+  unitPrice: number,
+  quantity = 1,
+  categories: string[] = []
+): PromotionLine => ({
+  key: `${productId}-null`,
+  productId,
+  categories,
+  unitPrice: usd(unitPrice),
+  quantity,
+});
+
+const apply = (
+  lines: PromotionLine[],
+  promotions: Promotion[],
+  codes: string[] = []
+) =>
+  applyPromotions({
+    lines,
+    codes,
+    promotions,
+    currency: "USD",
+    convert: (money) => money,
+    now: new Date("2026-10-19T12:00:00Z"),
+  });
+
+const amounts = (lineDiscounts: Record<string, { amount: number }>) =>
+  Object.values(lineDiscounts).map((discount) => discount.amount);
+
+describe("applyPromotions: fixed amounts", () => {
+  const fixed = (amount: number): Promotion => ({
+    id: "fixed",
+    code: null,
+    label: "Fixed",
+    effect: { type: "fixed", amount: usd(amount) },
+  });
+
+  it("never gives a line a negative share", () => {
+    const result = apply(
+      [line(1, 1), line(2, 1), line(3, 1), line(4, 1)],
+      [fixed(2)]
+    );
+    assert.deepEqual(amounts(result.lineDiscounts), [1, 1, 0, 0]);
+    assert.equal(result.discounts[0].amount.amount, 2);
+  });
+
+  it("spreads the amount in proportion to the lines and adds up exactly", () => {
+    const result = apply(
+      [line(1, 1000), line(2, 2000), line(3, 333)],
+      [fixed(500)]
+    );
+    const shares = amounts(result.lineDiscounts);
+    assert.deepEqual(shares, [150, 300, 50]);
+    assert.equal(
+      shares.reduce((a, b) => a + b, 0),
+      500
+    );
+  });
+
+  it("takes no more than the lines are worth", () => {
+    const result = apply([line(1, 300), line(2, 200)], [fixed(1000)]);
+    assert.deepEqual(amounts(result.lineDiscounts), [300, 200]);
+  });
+});
+
+describe("applyPromotions: conditions and effects", () => {
+  const asian: Promotion = {
+    id: "asian",
+    code: null,
+    label: "10% off Asian",
+    effect: { type: "percent", percent: 10 },
+    categories: ["Asian"],
+  };
+  const save5: Promotion = {
+    id: "save-5",
+    code: "SAVE5",
+    label: "$5 off",
+    effect: { type: "fixed", amount: usd(500) },
+    minSubtotal: usd(2500),
+  };
+
+  it("applies automatic promotions by category, without a code", () => {
+    const result = apply(
+      [line(1, 1000, 1, ["asian"]), line(2, 1000, 1, ["Italian"])],
+      [asian]
+    );
+    assert.deepEqual(amounts(result.lineDiscounts), [100, 0]);
+    assert.deepEqual(result.rejectedCodes, {});
+  });
+
+  it("stacks promotions on what's left of each line", () => {
+    const result = apply(
+      [line(1, 2000, 1, ["Asian"]), line(2, 1000)],
+      [asian, save5],
+      ["save5"]
+    );
+    // 10% off 20.00 leaves 18.00 + 10.00; $5 is split 18:10
+    assert.deepEqual(
+      result.discounts.map((discount) => discount.amount.amount),
+      [200, 500]
+    );
+    assert.deepEqual(amounts(result.lineDiscounts), [200 + 321, 179]);
+  });
+
+  it("rejects codes below the minimum subtotal, unknown or out of their window", () => {
+    const expired: Promotion = {
+      id: "summer",
+      code: "SUMMER25",
+      label: "Summer",
+      effect: { type: "percent", percent: 25 },
+      startsAt: "2026-06-01T00:00:00Z",
+      expiresAt: "2026-09-01T00:00:00Z",
+    };
+    const upcoming: Promotion = {
+      ...expired,
+      id: "winter",
+      code: "WINTER",
+      startsAt: "2026-12-01T00:00:00Z",
+      expiresAt: undefined,
+    };
+    const result = apply(
+      [line(1, 2000)],
+      [save5, expired, upcoming],
+      ["SAVE5", "SUMMER25", "WINTER", "NOPE"]
+    );
+    assert.equal(result.discounts.length, 0);
+    assert.deepEqual(result.rejectedCodes, {
+      SAVE5: "Spend at least $25.00 to use this code.",
+      SUMMER25: "This code has expired.",
+      WINTER: "This code isn't active yet.",
+      NOPE: "This code doesn't exist.",
+    });
+  });
+
+  it("rejects codes for products that aren't in the cart", () => {
+    const result = apply(
+      [line(1, 1000)],
+      [{ ...asian, code: "ASIAN" }],
+      ["ASIAN"]
+    );
+    assert.deepEqual(result.rejectedCodes, {
+      ASIAN: "This code doesn't apply to the items in your cart.",
+    });
+  });
+
+  it("makes shipping free without taking anything off the lines", () => {
+    const result = apply(
+      [line(1, 1000)],
+      [
+        {
+          id: "free-shipping",
+          code: "FREESHIP",
+          label: "Free shipping",
+          effect: { type: "free-shipping" },
+        },
+      ],
+      ["freeship"]
+    );
+    assert.equal(result.freeShipping, true);
+    assert.deepEqual(amounts(result.lineDiscounts), [0]);
+  });
+
+  it("gives the cheapest unit of every buy-2-get-1 group away", () => {
+    const result = apply(
+      [line(1, 500, 2, ["Chinese"]), line(2, 300, 2, ["Chinese"])],
+      [
+        {
+          id: "dimsum",
+          code: null,
+          label: "Buy 2, get 1 free",
+          effect: { type: "buy-x-get-y", buy: 2, get: 1 },
+          categories: ["Chinese"],
+        },
+      ]
+    );
+    // Units by price: 500, 500, 300 | 300 — the third unit is free, the fourth starts a new group
+    assert.deepEqual(amounts(result.lineDiscounts), [0, 300]);
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Promotion Engine
+ *
+ * ## Purpose
+ * - Works out which promotions from `src/config/promotions.ts` apply to a cart and how much each one
+ *   takes off which line.
+ * - Server only (`/api/apply-promotions` and `createOrder`), so coupon codes never reach the browser.
+ *   The browser only sees the resulting `PromotionResult`.
+ *
+ * ## Features
+ * - **Automatic Promotions**: Promotions without a `code` apply whenever their conditions are met.
+ * - **Coupons**: Coded promotions apply when their code was entered; every code that doesn't apply
+ *   comes back in `rejectedCodes` with a reason the customer can read.
+ * - **Conditions**: Categories (`Product.breadcrumbs`), product ids, minimum subtotal and a
+ *   `startsAt` / `expiresAt` window.
+ * - **Effects**: Percent off, fixed amount off, free shipping and buy-X-get-Y.
+ *
+ * ## Implementation Details
+ * - Promotions apply in config order, each to what's left of a line after the ones before it, so
+ *   stacked discounts never exceed the line total.
+ * - Fixed amounts are spread over the eligible lines in proportion to their totals, by largest
+ *   remainder: every line gets its share rounded down, and the cents left over go to the lines with
+ *   the largest fractions. The shares add up to the amount and none is negative or above its line.
+ * - Buy-X-get-Y sorts the eligible units from most to least expensive and makes the last `get`
+ *   units of every group of `buy + get` free.
+ */
+import { PROMOTIONS } from "@/config/promotions";
+import { formatMoney, multiplyMoney } from "@/lib/money";
+import { Money } from "@/types/money";
+import {
+  AppliedDiscount,
+  Promotion,
+  PromotionLine,
+  PromotionResult,
+} from "@/types/promotion";
+
+const normalizeCode = (code: string) => code.trim().toUpperCase();
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const isEligible = (promotion: Promotion, line: PromotionLine) =>
+  (!promotion.categories ||
+    line.categories.some((category) =>
+      promotion.categories!.some(
+        (eligible) => normalize(eligible) === normalize(category)
+      )
+    )) &&
+  (!promotion.productIds || promotion.productIds.includes(line.productId));
+
+// Discount per line key (minor units) for one promotion, given what's left of each line
+const discountPerLine = (
+  promotion: Promotion,
+  eligible: PromotionLine[],
+  remaining: Map<string, number>,
+  convert: (money: Money) => Money
+): Map<string, number> => {
+  const perLine = new Map<string, number>();
+  const { effect } = promotion;
+
+  switch (effect.type) {
+    case "percent":
+      eligible.forEach((line) => {
+        const left = remaining.get(line.key)!;
+        perLine.set(line.key, Math.round((left * effect.percent) / 100));
+      });
+      break;
+
+    case "fixed": {
+      const eligibleTotal = eligible.reduce(
+        (total, line) => total + remaining.get(line.key)!,
+        0
+      );
+      if (eligibleTotal <= 0) break; // Already fully discounted
+      const amount = Math.min(convert(effect.amount).amount, eligibleTotal);
+      const shares = eligible.map((line) => {
+        const exact = (amount * remaining.get(line.key)!) / eligibleTotal;
+        return { key: line.key, share: Math.floor(exact), fraction: exact % 1 };
+      });
+      let leftover =
+        amount - shares.reduce((total, item) => total + item.share, 0);
+      [...shares]
+        .sort((a, b) => b.fraction - a.fraction)
+        .forEach((item) => {
+          if (leftover <= 0) return;
+          item.share += 1;
+          leftover -= 1;
+        });
+      shares.forEach(({ key, share }) => perLine.set(key, share));
+      break;
+    }
+
+    case "buy-x-get-y": {
+      const units = eligible
+        .flatMap((line) =>
+          Array.from({ length: line.quantity }, () => ({
+            key: line.key,
+            price: line.unitPrice.amount,
+          }))
+        )
+        .sort((a, b) => b.price - a.price);
+      const groupSize = effect.buy + effect.get;
+      units.forEach((unit, index) => {
+        if (index % groupSize >= effect.buy) {
+          perLine.set(unit.key, (perLine.get(unit.key) || 0) + unit.price);
+        }
+      });
+      perLine.forEach((amount, key) =>
+        perLine.set(key, Math.min(amount, remaining.get(key)!))
+      );
+      break;
+    }
+
+    case "free-shipping":
+      break;
+  }
+
+  return perLine;
+};
+
+/**
+ * Apply promotions to a cart.
+ *
+ * ## Parameters
+ * - `lines` (PromotionLine[]): The cart lines, with prices in `currency`.
+ * - `codes` (string[]): Coupon codes the customer entered.
+ * - `promotions` (Promotion[], optional): Defaults to `PROMOTIONS`.
+ * - `currency` (string): Currency of the lines and of every returned amount.
+ * - `convert` (function): Converts store-currency amounts (`minSubtotal`, fixed discounts) into `currency`.
+ * - `now` (Date, optional): Checked against `startsAt` / `expiresAt`; defaults to the current time.
+ *
+ * ## Return Value
+ * - A `PromotionResult`: the discounts that applied, the discount per line, whether shipping is
+ *   free, and the reason for every code that didn't apply.
+ */
+export function applyPromotions({
+  lines,
+  codes,
+  promotions = PROMOTIONS,
+  currency,
+  convert,
+  now = new Date(),
+}: {
+  lines: PromotionLine[];
+  codes: string[];
+  promotions?: Promotion[];
+  currency: string;
+  convert: (money: Money) => Money;
+  now?: Date;
+}): PromotionResult {
+  const requested = new Map(codes.map((code) => [normalizeCode(code), code]));
+  const rejectedCodes: Record<string, string> = {};
+  const discounts: AppliedDiscount[] = [];
+  const remaining = new Map(
+    lines.map((line) => [
+      line.key,
+      multiplyMoney(line.unitPrice, line.quantity).amount,
+    ])
+  );
+  const subtotal = Array.from(remaining.values()).reduce((a, b) => a + b, 0);
+  let freeShipping = false;
+
+  requested.forEach((code, normalized) => {
+    if (
+      !promotions.some(
+        (promotion) =>
+          promotion.code && normalizeCode(promotion.code) === normalized
+      )
+    ) {
+      rejectedCodes[code] = "This code doesn't exist.";
+    }
+  });
+
+  promotions.forEach((promotion) => {
+    const enteredCode = promotion.code
+      ? requested.get(normalizeCode(promotion.code))
+      : null;
+    if (promotion.code && !enteredCode) return;
+
+    // Automatic promotions that don't apply are skipped silently
+    const reject = (reason: string) => {
+      if (enteredCode) rejectedCodes[enteredCode] = reason;
+    };
+
+    if (promotion.startsAt && now < new Date(promotion.startsAt)) {
+      return reject("This code isn't active yet.");
+    }
+    if (promotion.expiresAt && now >= new Date(promotion.expiresAt)) {
+      return reject("This code has expired.");
+    }
+    if (promotion.minSubtotal) {
+      const minimum = convert(promotion.minSubtotal);
+      if (subtotal < minimum.amount) {
+        return reject(
+          `Spend at least ${formatMoney(minimum)} to use this code.`
+        );
+      }
+    }
+
+    const eligible = lines.filter((line) => isEligible(promotion, line));
+    if (eligible.length === 0) {
+      return reject("This code doesn't apply to the items in your cart.");
+    }
+
+    if (promotion.effect.type === "free-shipping") {
+      freeShipping = true;
+      discounts.push({
+        promotionId: promotion.id,
+        code: promotion.code,
+        label: promotion.label,
+        amount: { amount: 0, currency },
+        freeShipping: true,
+      });
+      return;
+    }
+
+    const perLine = discountPerLine(promotion, eligible, remaining, convert);
+    const amount = Array.from(perLine.values()).reduce((a, b) => a + b, 0);
+    if (amount <= 0) {
+      return reject("This code doesn't apply to the items in your cart.");
+    }
+
+    perLine.forEach((discount, key) =>
+      remaining.set(key, remaining.get(key)! - discount)
+    );
+    discounts.push({
+      promotionId: promotion.id,
+      code: promotion.code,
+      label: promotion.label,
+      amount: { amount, currency },
+      freeShipping: false,
+    });
+  });
+
+  return {
+    currency,
+    discounts,
+    lineDiscounts: Object.fromEntries(
+      lines.map((line) => [
+        line.key,
+        {
+          amount:
+            multiplyMoney(line.unitPrice, line.quantity).amount -
+            remaining.get(line.key)!,
+          currency,
+        },
+      ])
+    ),
+    freeShipping,
+    rejectedCodes,
+  };
+}
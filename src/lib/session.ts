@@ -0,0 +1,134 @@
+/**
+ * Signed Session Cookies
+ *
+ * ## Purpose
+ * - Keeps customers signed in with a `session` cookie holding their `SessionClaims`, signed with
+ *   an HMAC-SHA256 of `AUTH_SECRET` so it can't be forged or edited in the browser.
+ *
+ * ## Implementation Details
+ * - The cookie is `<base64url claims>.<base64url signature>`, `httpOnly` and `sameSite=lax`.
+ * - Signing uses Web Crypto (`crypto.subtle`) rather than `node:crypto`, so `verifySession` also
+ *   runs in middleware (Edge runtime).
+ * - The claims are only trusted for the cookie's lifetime; `getCurrentUser` (`authServices`) still
+ *   looks the user up, so deleted accounts are signed out straight away. Cookies signed with an
+ *   older `sessionVersion` than the account's (from before a password reset) are turned away the
+ *   same way; the middleware can't read the store, so it lets them through to the layouts.
+ *
+ * ## Error Handling
+ * - Signing and verifying throw in production when `AUTH_SECRET` isn't set: the development secret
+ *   is public, and anyone could sign an admin session with it.
+ */
+import { cookies } from "next/headers";
+import { SESSION_COOKIE, SESSION_DAYS } from "@/config/auth";
+import { SessionClaims, User } from "@/types/auth";
+
+const DEV_AUTH_SECRET = "auth-dev-secret";
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, "+").replace(/_/g, "/")), (char) =>
+    char.charCodeAt(0)
+  );
+
+// Read when a cookie is signed or verified, so builds don't need the secret
+const authSecret = () => {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("AUTH_SECRET must be set in production.");
+  }
+  return DEV_AUTH_SECRET;
+};
+
+const signingKey = () =>
+  crypto.subtle.importKey(
+    "raw",
+    encoder.encode(authSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+
+// Encode and sign session claims as a cookie value
+export async function signSession(claims: SessionClaims): Promise<string> {
+  const payload = toBase64Url(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await signingKey(),
+    encoder.encode(payload)
+  );
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify a session cookie value.
+ *
+ * ## Parameters
+ * - `token` (string | undefined): The `session` cookie.
+ *
+ * ## Return Value
+ * - The `SessionClaims`, or `null` when the cookie is missing, tampered with or expired.
+ */
+export async function verifySession(
+  token: string | undefined
+): Promise<SessionClaims | null> {
+  const [payload, signature] = (token || "").split(".");
+  if (!payload || !signature) return null;
+  const key = await signingKey();
+
+  try {
+    const isValid = await crypto.subtle.verify(
+      "HMAC",
+      key,
+      fromBase64Url(signature),
+      encoder.encode(payload)
+    );
+    if (!isValid) return null;
+
+    const claims: SessionClaims = JSON.parse(
+      new TextDecoder().decode(fromBase64Url(payload))
+    );
+    return new Date(claims.expiresAt) > new Date() ? claims : null;
+  } catch {
+    return null; // Not base64 or not JSON
+  }
+}
+
+// The claims of the current request's session (route handlers and server components)
+export async function getSessionClaims(): Promise<SessionClaims | null> {
+  const cookieStore = await cookies();
+  return verifySession(cookieStore.get(SESSION_COOKIE)?.value);
+}
+
+// Sign `user` in for `SESSION_DAYS` (route handlers only)
+export async function setSessionCookie(user: User) {
+  const expiresAt = new Date(Date.now() + SESSION_DAYS * 24 * 60 * 60 * 1000);
+  const token = await signSession({
+    userId: user.id,
+    role: user.role,
+    sessionVersion: user.sessionVersion || 0,
+    expiresAt: expiresAt.toISOString(),
+  });
+
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+  });
+}
+
+// Sign the current user out (route handlers only)
+export async function clearSessionCookie() {
+  const cookieStore = await cookies();
+  cookieStore.delete(SESSION_COOKIE);
+}
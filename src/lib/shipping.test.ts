@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { calculateShippingRates, parseLeadTime } from "@/lib/shipping";
+import { ShippableItem } from "@/types/shipping";
+
+const usd = (amount: number) => ({ amount, currency: "USD" });
+
+// The rates below come from `src/config/shipping.ts`
+const friday = new Date("2026-10-16T15:00:00Z");
+
+const item = (fields: Partial<ShippableItem> = {}): ShippableItem => ({
+  quantity: 1,
+  weight: 1,
+  inStock: true,
+  leadTime: "",
+  lineTotal: usd(2000),
+  ...fields,
+});
+
+const rates = (items: ShippableItem[], country: string, region = "") =>
+  calculateShippingRates({ items, location: { country, region }, now: friday });
+
+describe("calculateShippingRates", () => {
+  it("picks the tier each method's basis falls in", () => {
+    const [standard, express] = rates(
+      [item({ quantity: 3, weight: 1 })],
+      "United States",
+      "CA"
+    );
+    assert.deepEqual(standard.price, usd(900)); // 3 kg: up to 5 kg
+    assert.deepEqual(express.price, usd(2200)); // 3 items: up to 5 items
+  });
+
+  it("uses the last tier past every limit, and region zones over country zones", () => {
+    const [express] = rates([item({ weight: 20 })], "United States", "Hawaii");
+    assert.equal(express.id, "express");
+    assert.deepEqual(express.price, usd(5200));
+  });
+
+  it("makes a method free from its freeOver subtotal on", () => {
+    const below = rates([item({ lineTotal: usd(7499) })], "United States");
+    const at = rates([item({ lineTotal: usd(7500) })], "United States");
+    assert.equal(below[0].isFree, false);
+    assert.equal(at[0].isFree, true);
+    assert.deepEqual(at[0].price, usd(0));
+    assert.equal(at[1].isFree, false); // Express has no threshold
+  });
+
+  it("offers nothing outside every zone", () => {
+    assert.deepEqual(rates([item()], "France"), []);
+  });
+
+  it("counts business days from the order, skipping weekends", () => {
+    const [standard] = rates([item()], "United States");
+    // 1 handling day + 4 to 10 days in transit, from a Friday
+    assert.deepEqual(standard.estimate, {
+      earliest: "2026-10-23",
+      latest: "2026-11-02",
+    });
+  });
+
+  it("dispatches after the longest lead time of out-of-stock items", () => {
+    const [standard] = rates(
+      [item(), item({ inStock: false, leadTime: "2 weeks" })],
+      "United States"
+    );
+    assert.equal(standard.estimate.earliest, "2026-11-05"); // 10 + 4 business days
+  });
+});
+
+describe("parseLeadTime", () => {
+  it("reads days and weeks as business days", () => {
+    assert.equal(parseLeadTime("7 days"), 7);
+    assert.equal(parseLeadTime("2 Weeks"), 10);
+    assert.equal(parseLeadTime("soon"), 0);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Shipping Rate Engine
+ *
+ * ## Purpose
+ * - Prices the delivery methods available for a cart and destination from the zones in
+ *   `src/config/shipping.ts`. The cart estimate, the checkout delivery selector and `createOrder`
+ *   all call `calculateShippingRates`, so the order is charged what the customer picked.
+ *
+ * ## Features
+ * - **Zones**: A region zone (e.g. Alaska & Hawaii) wins over a country zone; destinations outside
+ *   every zone get no rates.
+ * - **Rate Tables**: Each method looks its price up by total weight, item count or subtotal.
+ * - **Free Shipping**: A method with `freeOver` is free once the subtotal reaches that amount.
+ * - **Delivery Estimates**: Dispatch takes `handlingDays`, or the longest `leadTime` of any
+ *   out-of-stock item, followed by the method's transit days (business days, weekends skipped).
+ *
+ * ## Example Usage
+ * ```typescript
+ * const rates = calculateShippingRates({
+ *   items: [{ quantity: 2, weight: 1.2, inStock: true, leadTime: "7 days", lineTotal: toMoney("51.98") }],
+ *   location: { country: "Canada", region: "ON" },
+ * });
+ * // [{ id: "standard", price: { amount: 1200, ... }, estimate: { earliest: "2026-10-28", ... } }, ...]
+ * ```
+ *
+ * ## Implementation Details
+ * - All prices are in the store currency; callers convert them for display and orders.
+ */
+import { SHIPPING_CONFIG } from "@/config/shipping";
+import {
+  minorUnitDigits,
+  multiplyMoney,
+  STORE_CURRENCY,
+  sumMoney,
+  zeroMoney,
+} from "@/lib/money";
+import { CartDetail } from "@/types/cart";
+import { AddressLocation } from "@/types/order";
+import {
+  DeliveryEstimate,
+  RateBasis,
+  ShippableItem,
+  ShippingConfig,
+  ShippingRate,
+  ShippingZone,
+} from "@/types/shipping";
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// The zone serving a destination: a matching region zone, else the country zone
+export const findShippingZone = (
+  location: AddressLocation,
+  zones: ShippingZone[] = SHIPPING_CONFIG.zones
+): ShippingZone | null => {
+  const country = normalize(location.country);
+  const region = normalize(location.region);
+  const countryZones = zones.filter((zone) =>
+    zone.countries.some((name) => normalize(name) === country)
+  );
+
+  return (
+    countryZones.find((zone) =>
+      zone.regions?.some((name) => normalize(name) === region)
+    ) ||
+    countryZones.find((zone) => !zone.regions) ||
+    null
+  );
+};
+
+// Business days until dispatch for a lead time like "7 days" or "2 weeks"
+export const parseLeadTime = (leadTime: string): number => {
+  const match = leadTime.match(/(\d+)\s*(day|week)/i);
+  if (!match) return 0;
+  const count = Number(match[1]);
+  return match[2].toLowerCase() === "week" ? count * 5 : count;
+};
+
+// Add business days to a date (UTC, weekends skipped)
+const addBusinessDays = (date: Date, days: number) => {
+  const result = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+  let remaining = days;
+  while (remaining > 0) {
+    result.setUTCDate(result.getUTCDate() + 1);
+    const weekday = result.getUTCDay();
+    if (weekday !== 0 && weekday !== 6) remaining -= 1;
+  }
+  return result;
+};
+
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Calculate the shipping rates for a cart.
+ *
+ * ## Parameters
+ * - `items` (ShippableItem[]): The cart or order lines.
+ * - `location` (AddressLocation): The shipping address country and region.
+ * - `now` (Date, optional): When the order is placed; defaults to the current time.
+ * - `config` (ShippingConfig, optional): Defaults to `SHIPPING_CONFIG`.
+ *
+ * ## Return Value
+ * - One `ShippingRate` per method of the destination's zone (in config order), or `[]` when the
+ *   destination isn't served.
+ */
+export function calculateShippingRates({
+  items,
+  location,
+  now = new Date(),
+  config = SHIPPING_CONFIG,
+}: {
+  items: ShippableItem[];
+  location: AddressLocation;
+  now?: Date;
+  config?: ShippingConfig;
+}): ShippingRate[] {
+  const zone = findShippingZone(location, config.zones);
+  if (!zone) return [];
+
+  const subtotal = sumMoney(
+    items.map((item) => item.lineTotal),
+    STORE_CURRENCY
+  );
+  const basisValues: Record<RateBasis, number> = {
+    weight: items.reduce(
+      (total, item) => total + item.weight * item.quantity,
+      0
+    ),
+    quantity: items.reduce((total, item) => total + item.quantity, 0),
+    subtotal: subtotal.amount / 10 ** minorUnitDigits(subtotal.currency),
+  };
+  const dispatchDays = Math.max(
+    config.handlingDays,
+    ...items.map((item) => (item.inStock ? 0 : parseLeadTime(item.leadTime)))
+  );
+
+  return zone.methods.map((method) => {
+    const value = basisValues[method.basis];
+    const tier =
+      method.tiers.find((row) => row.upTo === null || value <= row.upTo) ||
+      method.tiers[method.tiers.length - 1];
+    const isFree = Boolean(
+      method.freeOver && subtotal.amount >= method.freeOver.amount
+    );
+    const [fastest, slowest] = method.transitDays;
+
+    return {
+      id: method.id,
+      title: method.title,
+      price: isFree ? zeroMoney(tier.price.currency) : tier.price,
+      isFree,
+      estimate: {
+        earliest: toIsoDate(addBusinessDays(now, dispatchDays + fastest)),
+        latest: toIsoDate(addBusinessDays(now, dispatchDays + slowest)),
+      },
+    };
+  });
+}
+
+// Cart lines as shippable items (prices stay in the store currency)
+export const toShippableItems = (cartDetails: CartDetail[]): ShippableItem[] =>
+  cartDetails.map((item) => ({
+    quantity: item.quantity,
+    weight: item.productDetails.weight,
+    inStock: item.variationDetails?.inStock ?? item.productDetails.inStock,
+    leadTime: item.productDetails.leadTime,
+    lineTotal: multiplyMoney(
+      item.variationDetails?.price || item.productDetails.price,
+      item.quantity
+    ),
+  }));
+
+// A delivery window for display, e.g. "Oct 23 – Oct 28"
+export const formatDeliveryEstimate = (
+  estimate: DeliveryEstimate,
+  locale = "en-US"
+) => {
+  const format = (isoDate: string) =>
+    new Intl.DateTimeFormat(locale, {
+      month: "short",
+      day: "numeric",
+      timeZone: "UTC",
+    }).format(new Date(isoDate));
+
+  return estimate.earliest === estimate.latest
+    ? format(estimate.earliest)
+    : `${format(estimate.earliest)} – ${format(estimate.latest)}`;
+};
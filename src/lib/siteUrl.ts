@@ -0,0 +1,24 @@
+/**
+ * Site URL
+ *
+ * ## Purpose
+ * - The storefront's public origin, for links that leave the site: sign-in and password reset
+ *   emails. It comes from `SITE_URL` rather than the request, whose Host header the sender chooses;
+ *   a forged Host would otherwise mail a valid token to a link on someone else's domain.
+ *
+ * ## Error Handling
+ * - Throws in production when `SITE_URL` isn't set. Development falls back to the `next dev`
+ *   address.
+ */
+
+const DEV_SITE_URL = "http://localhost:3000";
+
+// Read when a link is built, so builds don't need the setting
+export const siteUrl = (): string => {
+  const value = process.env.SITE_URL;
+  if (value) return new URL(value).origin;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SITE_URL must be set in production.");
+  }
+  return DEV_SITE_URL;
+};
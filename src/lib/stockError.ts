@@ -0,0 +1,27 @@
+import { StockShortage } from "@/types/inventory";
+
+/**
+ * StockError
+ *
+ * ## Purpose
+ * - Thrown by `inventoryServices` when a cart asks for more units than can be sold.
+ * - `message` is written for the customer; `shortages` lets the cart flag each affected line.
+ *
+ * ## Properties
+ * - `shortages`: One `StockShortage` per line that can't be bought in the requested quantity.
+ */
+export class StockError extends Error {
+  readonly shortages: StockShortage[];
+
+  constructor(shortages: StockShortage[]) {
+    super(
+      shortages.length === 1
+        ? shortages[0].available === 0
+          ? `"${shortages[0].name}" is no longer available.`
+          : `Only ${shortages[0].available} of "${shortages[0].name}" can be ordered.`
+        : "Some items in your cart are no longer available in the requested quantity."
+    );
+    this.name = "StockError";
+    this.shortages = shortages;
+  }
+}
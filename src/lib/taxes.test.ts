@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { calculateTaxes, findTaxRule, totalWithTaxes } from "@/lib/taxes";
+import { TaxConfig } from "@/types/tax";
+
+const usd = (amount: number) => ({ amount, currency: "USD" });
+
+const config: TaxConfig = {
+  pricesIncludeTax: false,
+  shippingTaxClass: "standard",
+  rules: [
+    { country: "Canada", label: "GST", rates: { standard: 0.05 } },
+    {
+      country: "Canada",
+      regions: ["ON", "Ontario"],
+      label: "HST",
+      rates: { standard: 0.13 },
+    },
+    {
+      country: "Mexico",
+      label: "IVA",
+      rates: { standard: 0.16, "reduced-rate": 0.08 },
+    },
+  ],
+};
+
+describe("findTaxRule", () => {
+  it("prefers the region's rule over the country's", () => {
+    const rule = findTaxRule(
+      { country: "canada", region: " ontario " },
+      config.rules
+    );
+    assert.equal(rule?.label, "HST");
+  });
+
+  it("falls back to the country rule, and to none for other countries", () => {
+    assert.equal(
+      findTaxRule({ country: "Canada", region: "QC" }, config.rules)?.label,
+      "GST"
+    );
+    assert.equal(
+      findTaxRule({ country: "France", region: "" }, config.rules),
+      null
+    );
+  });
+});
+
+describe("calculateTaxes", () => {
+  const ontario = { country: "Canada", region: "ON" };
+
+  it("adds tax on top of exclusive prices, shipping included", () => {
+    const taxes = calculateTaxes({
+      items: [{ amount: usd(1000), taxClass: "standard" }],
+      shipping: usd(500),
+      location: ontario,
+      currency: "USD",
+      config,
+    });
+    assert.deepEqual(taxes.lines, [
+      { label: "HST", rate: 0.13, amount: usd(195) },
+    ]);
+    assert.equal(taxes.inclusive, false);
+    assert.deepEqual(
+      totalWithTaxes([usd(1000), usd(500)], taxes, "USD"),
+      usd(1695)
+    );
+  });
+
+  it("extracts tax from inclusive prices without adding it again", () => {
+    const taxes = calculateTaxes({
+      items: [{ amount: usd(1130), taxClass: "standard" }],
+      shipping: null,
+      location: ontario,
+      currency: "USD",
+      config: { ...config, pricesIncludeTax: true },
+    });
+    assert.deepEqual(taxes.total, usd(130));
+    assert.equal(taxes.inclusive, true);
+    assert.deepEqual(totalWithTaxes([usd(1130)], taxes, "USD"), usd(1130));
+  });
+
+  it("charges each tax class its own rate and skips zero-rated items", () => {
+    const taxes = calculateTaxes({
+      items: [
+        { amount: usd(1000), taxClass: "standard" },
+        { amount: usd(1000), taxClass: "reduced-rate" },
+        { amount: usd(1000), taxClass: "zero-rate" },
+      ],
+      shipping: null,
+      location: { country: "Mexico", region: "CDMX" },
+      currency: "USD",
+      config,
+    });
+    assert.deepEqual(taxes.lines, [
+      { label: "IVA", rate: 0.16, amount: usd(160) },
+      { label: "IVA", rate: 0.08, amount: usd(80) },
+    ]);
+    assert.deepEqual(taxes.total, usd(240));
+  });
+
+  it("uses the standard rate for classes the rule doesn't list", () => {
+    const taxes = calculateTaxes({
+      items: [{ amount: usd(1000), taxClass: "reduced-rate" }],
+      shipping: null,
+      location: ontario,
+      currency: "USD",
+      config,
+    });
+    assert.deepEqual(taxes.total, usd(130));
+  });
+
+  it("leaves shipping untaxed without a shipping tax class", () => {
+    const taxes = calculateTaxes({
+      items: [],
+      shipping: usd(1000),
+      location: ontario,
+      currency: "USD",
+      config: { ...config, shippingTaxClass: null },
+    });
+    assert.deepEqual(taxes, { lines: [], total: usd(0), inclusive: false });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tax Engine
+ *
+ * ## Purpose
+ * - Computes sales tax from the rules in `src/config/taxes.ts`. The cart estimate, the checkout
+ *   summary and `createOrder` all call `calculateTaxes`, so the receipt always shows what the
+ *   customer saw before paying.
+ *
+ * ## Features
+ * - **Rules per Location**: A region rule (e.g. Ontario HST) wins over the country rule (GST);
+ *   locations without a rule aren't taxed.
+ * - **Tax Classes**: Each item is taxed at its `TaxClass` rate (`standard`, `reduced-rate`,
+ *   `zero-rate`); shipping uses `shippingTaxClass`.
+ * - **Inclusive or Exclusive**: With `pricesIncludeTax`, tax is extracted from the amounts instead of
+ *   added on top, and `inclusive` tells callers not to add it to the total again.
+ *
+ * ## Example Usage
+ * ```typescript
+ * const taxes = calculateTaxes({
+ *   items: [{ amount: toMoney("25.99"), taxClass: "standard" }],
+ *   shipping: toMoney("5.00"),
+ *   location: { country: "Canada", region: "ON" },
+ *   currency: "USD",
+ * });
+ * const total = totalWithTaxes([subtotal, shipping], taxes, "USD");
+ * ```
+ *
+ * ## Implementation Details
+ * - Tax is rounded per item to the nearest minor unit, then summed per rate.
+ */
+import { TAX_CONFIG } from "@/config/taxes";
+import { addMoney, sumMoney } from "@/lib/money";
+import { Money } from "@/types/money";
+import { AddressLocation } from "@/types/order";
+import {
+  TaxableItem,
+  TaxBreakdown,
+  TaxClass,
+  TaxConfig,
+  TaxLine,
+  TaxRule,
+} from "@/types/tax";
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// The most specific rule for a location: its region's rule, else the country-wide rule
+export const findTaxRule = (
+  location: AddressLocation,
+  rules: TaxRule[] = TAX_CONFIG.rules
+): TaxRule | null => {
+  const country = normalize(location.country);
+  const region = normalize(location.region);
+  const countryRules = rules.filter(
+    (rule) => normalize(rule.country) === country
+  );
+
+  return (
+    countryRules.find((rule) =>
+      rule.regions?.some((name) => normalize(name) === region)
+    ) ||
+    countryRules.find((rule) => !rule.regions) ||
+    null
+  );
+};
+
+const rateFor = (rule: TaxRule, taxClass: TaxClass) =>
+  rule.rates[taxClass] ??
+  (taxClass === "zero-rate" ? 0 : (rule.rates.standard ?? 0));
+
+/**
+ * Calculate the taxes of an order or cart.
+ *
+ * ## Parameters
+ * - `items` (TaxableItem[]): Line amounts (`unitPrice` × `quantity`) with their tax class.
+ * - `shipping` (Money | null): The shipping charge, taxed with `shippingTaxClass`.
+ * - `location` (AddressLocation): The shipping address country and region.
+ * - `currency` (string): Currency of every amount (returned as the currency of a zero total).
+ * - `config` (TaxConfig, optional): Defaults to `TAX_CONFIG`.
+ *
+ * ## Return Value
+ * - A `TaxBreakdown` with one `TaxLine` per rate charged and their `total`.
+ */
+export function calculateTaxes({
+  items,
+  shipping,
+  location,
+  currency,
+  config = TAX_CONFIG,
+}: {
+  items: TaxableItem[];
+  shipping: Money | null;
+  location: AddressLocation;
+  currency: string;
+  config?: TaxConfig;
+}): TaxBreakdown {
+  const rule = findTaxRule(location, config.rules);
+  const taxable =
+    shipping && config.shippingTaxClass
+      ? [...items, { amount: shipping, taxClass: config.shippingTaxClass }]
+      : items;
+
+  const lines: TaxLine[] = [];
+  if (rule) {
+    taxable.forEach(({ amount, taxClass }) => {
+      const rate = rateFor(rule, taxClass);
+      if (rate <= 0) return;
+
+      const tax: Money = {
+        amount: config.pricesIncludeTax
+          ? amount.amount - Math.round(amount.amount / (1 + rate))
+          : Math.round(amount.amount * rate),
+        currency: amount.currency,
+      };
+      const line = lines.find((item) => item.rate === rate);
+      if (line) {
+        line.amount = addMoney(line.amount, tax);
+      } else {
+        lines.push({ label: rule.label, rate, amount: tax });
+      }
+    });
+  }
+
+  return {
+    lines,
+    total: sumMoney(
+      lines.map((line) => line.amount),
+      currency
+    ),
+    inclusive: config.pricesIncludeTax,
+  };
+}
+
+// Grand total of `amounts` (subtotal, shipping, ...) plus taxes unless they're already included
+export const totalWithTaxes = (
+  amounts: Money[],
+  taxes: TaxBreakdown,
+  currency: string
+): Money =>
+  sumMoney(taxes.inclusive ? amounts : [...amounts, taxes.total], currency);
+
+// Summary label of a tax line, e.g. "HST (13%)"
+export const formatTaxLine = (line: TaxLine, locale = "en-US") =>
+  `${line.label} (${new Intl.NumberFormat(locale, {
+    style: "percent",
+    maximumFractionDigits: 3,
+  }).format(line.rate)})`;
@@ -0,0 +1,49 @@
+/**
+ * Middleware: Route Protection
+ *
+ * ## Purpose
+ * - Enforces `ACCESS_RULES` before a page renders:
+ *   - Guests opening a members' page are redirected to `/login?next=<page>`.
+ *   - Signed-in users without the required role get the `/forbidden` page with a 403 status.
+ *   - Signed-in users opening `/login` or `/register` are sent home.
+ * - Passes the requested path to server components as the `x-pathname` header, so `requireRole`
+ *   can build the same return URL.
+ *
+ * ## Implementation Details
+ * - Only reads the signed `session` cookie (`verifySession`), so it never touches the user store.
+ *   The layouts check the user again on the server and send cookies that went out of date (deleted
+ *   account, changed role) through `/api/auth/session/refresh`, so the answer here stays right.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE } from "@/config/auth";
+import { checkAccess, FORBIDDEN_PATH, loginUrl } from "@/lib/access";
+import { verifySession } from "@/lib/session";
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const claims = await verifySession(
+    request.cookies.get(SESSION_COOKIE)?.value
+  );
+
+  switch (checkAccess(pathname, claims?.role || "guest")) {
+    case "sign-in":
+      return NextResponse.redirect(
+        new URL(loginUrl(`${pathname}${search}`), request.url)
+      );
+    case "forbidden":
+      return NextResponse.rewrite(new URL(FORBIDDEN_PATH, request.url), {
+        status: 403,
+      });
+    case "signed-in":
+      return NextResponse.redirect(new URL("/", request.url));
+  }
+
+  const headers = new Headers(request.headers);
+  headers.set("x-pathname", `${pathname}${search}`);
+  return NextResponse.next({ request: { headers } });
+}
+
+export const config = {
+  // Pages only: API routes check the session themselves
+  matcher: ["/((?!api|_next/static|_next/image|favicon.ico).*)"],
+};
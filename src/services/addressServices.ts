@@ -0,0 +1,150 @@
+import { randomUUID } from "node:crypto";
+import { readCollection, updateCollection } from "@/lib/jsonStore";
+import { AddressBook, AddressInput, SavedAddress } from "@/types/address";
+import { OrderAddress } from "@/types/order";
+
+const ADDRESS_BOOKS_COLLECTION = "address-books";
+
+const emptyAddressBook = (userId: string): AddressBook => ({
+  userId,
+  addresses: [],
+  defaultAddressId: null,
+});
+
+const isSameAddress = (a: OrderAddress, b: OrderAddress) =>
+  (Object.keys(a) as (keyof OrderAddress)[]).every(
+    (field) => a[field].toLowerCase() === b[field].toLowerCase()
+  );
+
+// Apply `change` to one customer's address book (created on first write)
+const updateAddressBook = async (
+  userId: string,
+  change: (book: AddressBook) => AddressBook
+): Promise<AddressBook> => {
+  let updated = emptyAddressBook(userId);
+  await updateCollection<AddressBook>(ADDRESS_BOOKS_COLLECTION, (books) => {
+    updated = change(
+      books.find((book) => book.userId === userId) || emptyAddressBook(userId)
+    );
+    return [...books.filter((book) => book.userId !== userId), updated];
+  });
+  return updated;
+};
+
+// The default after an address was saved: it becomes the default when asked, or when it's the first
+const nextDefaultId = (
+  book: AddressBook,
+  addressId: string,
+  isDefault: boolean
+) => {
+  if (isDefault || !book.defaultAddressId) return addressId;
+  return book.defaultAddressId === addressId ? null : book.defaultAddressId;
+};
+
+// Service function to fetch a customer's address book (empty when they haven't saved any address)
+export const fetchAddressBook = async (
+  userId: string
+): Promise<AddressBook> => {
+  const books = await readCollection<AddressBook>(ADDRESS_BOOKS_COLLECTION);
+  return (
+    books.find((book) => book.userId === userId) || emptyAddressBook(userId)
+  );
+};
+
+// --------------------------- end of fetchAddressBook ----------------------------
+
+/**
+ * Save an Address
+ *
+ * ## Purpose
+ * - Adds an address to a customer's address book, from the profile page or when they tick
+ *   "Save this address" at checkout.
+ *
+ * ## Parameters
+ * - `userId` (string): The signed-in customer.
+ * - `input` (AddressInput): The address, validated by `parseAddressInput`.
+ *
+ * ## Return Value
+ * - A Promise resolving to the updated `AddressBook`.
+ *
+ * ## Implementation Details
+ * - The first saved address becomes the default.
+ * - Saving an address that's already in the book (same fields, ignoring case) updates that entry
+ *   instead of adding a copy, so checking out twice to one address doesn't list it twice.
+ */
+export const addAddress = async (
+  userId: string,
+  input: AddressInput
+): Promise<AddressBook> =>
+  updateAddressBook(userId, (book) => {
+    const existing = book.addresses.find((saved) =>
+      isSameAddress(saved.address, input.address)
+    );
+    const saved: SavedAddress = {
+      id: existing?.id || randomUUID(),
+      label: input.label || existing?.label || "",
+      address: input.address,
+      createdAt: existing?.createdAt || new Date().toISOString(),
+    };
+
+    return {
+      ...book,
+      addresses: existing
+        ? book.addresses.map((item) => (item === existing ? saved : item))
+        : [...book.addresses, saved],
+      defaultAddressId: nextDefaultId(book, saved.id, input.isDefault),
+    };
+  });
+
+// --------------------------- end of addAddress ----------------------------
+
+// Service function to replace a saved address; resolves with `null` when it isn't in the book
+export const updateAddress = async (
+  userId: string,
+  addressId: string,
+  input: AddressInput
+): Promise<AddressBook | null> => {
+  let found = false;
+  const book = await updateAddressBook(userId, (current) => {
+    found = current.addresses.some((saved) => saved.id === addressId);
+    if (!found) return current;
+    return {
+      ...current,
+      addresses: current.addresses.map((saved) =>
+        saved.id === addressId
+          ? { ...saved, label: input.label, address: input.address }
+          : saved
+      ),
+      defaultAddressId: nextDefaultId(current, addressId, input.isDefault),
+    };
+  });
+  return found ? book : null;
+};
+
+// --------------------------- end of updateAddress ----------------------------
+
+// Service function to remove a saved address; resolves with `null` when it isn't in the book
+// Removing the default makes the oldest remaining address the default
+export const removeAddress = async (
+  userId: string,
+  addressId: string
+): Promise<AddressBook | null> => {
+  let found = false;
+  const book = await updateAddressBook(userId, (current) => {
+    found = current.addresses.some((saved) => saved.id === addressId);
+    const addresses = current.addresses.filter(
+      (saved) => saved.id !== addressId
+    );
+    return {
+      ...current,
+      addresses,
+      defaultAddressId:
+        current.defaultAddressId === addressId
+          ? addresses[0]?.id || null
+          : current.defaultAddressId,
+    };
+  });
+  return found ? book : null;
+};
+
+// --------------------------- end of removeAddress ----------------------------
@@ -0,0 +1,59 @@
+import { calculateAnalytics } from "@/lib/analytics";
+import { convertMoney, STORE_CURRENCY } from "@/lib/money";
+import { fetchCarts } from "@/services/cartServices";
+import { fetchExchangeRates } from "@/services/currencyServices";
+import { fetchOrders } from "@/services/orderServices";
+import { DateRange, StoreAnalytics } from "@/types/analytics";
+
+/**
+ * Fetch the Store Analytics
+ *
+ * ## Purpose
+ * - Feeds the admin dashboard and its CSV export from our own order and cart records (the JSON
+ *   file store), not from WooCommerce.
+ *
+ * ## Parameters
+ * - `range` (DateRange): The days to report on (see `parseDateRange`).
+ *
+ * ## Return Value
+ * - A Promise resolving to the `StoreAnalytics` of the range, amounts in the store currency.
+ *
+ * ## Implementation Details
+ * - Orders are converted at the exchange rate of the day they were placed (`Order.exchangeRate`),
+ *   so past figures don't move with the rates. Orders placed before the rate was recorded use
+ *   today's rates.
+ *
+ * ## Error Handling
+ * - Throws if the exchange rates can't be loaded (see `fetchExchangeRates`).
+ */
+export const fetchStoreAnalytics = async (
+  range: DateRange
+): Promise<StoreAnalytics> => {
+  const [orders, carts, rates] = await Promise.all([
+    fetchOrders(),
+    fetchCarts(),
+    fetchExchangeRates(),
+  ]);
+
+  return calculateAnalytics({
+    orders,
+    carts,
+    range,
+    convert: (money, order) =>
+      convertMoney(
+        money,
+        STORE_CURRENCY,
+        order.exchangeRate
+          ? {
+              ...rates,
+              rates: {
+                [STORE_CURRENCY]: 1,
+                [order.currency]: order.exchangeRate,
+              },
+            }
+          : rates
+      ),
+  });
+};
+
+// --------------------------- end of fetchStoreAnalytics ----------------------------
@@ -0,0 +1,412 @@
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { MAGIC_LINK_MINUTES, PASSWORD_RESET_MINUTES } from "@/config/auth";
+import { FORBIDDEN_PATH, loginUrl, sessionRefreshUrl } from "@/lib/access";
+import { AuthError } from "@/lib/authError";
+import { getSessionCartId, userCartId } from "@/lib/cartSession";
+import { readCollection, updateCollection } from "@/lib/jsonStore";
+import { sendEmail } from "@/lib/mailer";
+import { hashPassword, verifyPassword } from "@/lib/passwords";
+import {
+  clearSessionCookie,
+  getSessionClaims,
+  setSessionCookie,
+} from "@/lib/session";
+import { mergeCarts } from "@/services/cartServices";
+import {
+  AccessRole,
+  AuthToken,
+  SessionUser,
+  User,
+  UserRole,
+} from "@/types/auth";
+
+const USERS_COLLECTION = "users";
+const TOKENS_COLLECTION = "auth-tokens";
+
+const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+export const toSessionUser = (user: User): SessionUser => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  role: user.role,
+});
+
+// Add a user; every account starts as a customer (admins are made with `setUserRole`)
+const createUser = async (
+  fields: Pick<User, "email" | "name" | "passwordHash">
+): Promise<User> => {
+  let created: User | null = null;
+  await updateCollection<User>(USERS_COLLECTION, (users) => {
+    if (users.some((user) => user.email === fields.email)) {
+      throw new AuthError(
+        "email_taken",
+        "An account with this email already exists. Sign in instead."
+      );
+    }
+    created = {
+      id: randomUUID(),
+      ...fields,
+      role: "customer",
+      createdAt: new Date().toISOString(),
+    };
+    return [...users, created];
+  });
+  return created!;
+};
+
+// Store a single-use link token and return the token to put in the link
+const createToken = async (
+  type: AuthToken["type"],
+  email: string,
+  minutes: number
+): Promise<string> => {
+  const token = randomBytes(32).toString("base64url");
+  const now = new Date();
+  await updateCollection<AuthToken>(TOKENS_COLLECTION, (tokens) => [
+    ...tokens.filter((item) => new Date(item.expiresAt) > now), // Drop expired tokens
+    {
+      id: randomUUID(),
+      type,
+      email,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(now.getTime() + minutes * 60 * 1000).toISOString(),
+    },
+  ]);
+  return token;
+};
+
+// Use up a link token; resolves with the email it was sent to
+const consumeToken = async (
+  type: AuthToken["type"],
+  token: string
+): Promise<string> => {
+  const tokenHash = hashToken(token);
+  const now = new Date();
+  let email: string | null = null;
+  await updateCollection<AuthToken>(TOKENS_COLLECTION, (tokens) => {
+    const match = tokens.find(
+      (item) =>
+        item.type === type &&
+        item.tokenHash === tokenHash &&
+        new Date(item.expiresAt) > now
+    );
+    email = match?.email || null;
+    return tokens.filter((item) => item !== match);
+  });
+  if (!email) {
+    throw new AuthError(
+      "invalid_token",
+      "This link has expired or was already used. Request a new one."
+    );
+  }
+  return email;
+};
+
+// Service function to fetch a user by id
+export const fetchUserById = async (id: string): Promise<User | null> => {
+  const users = await readCollection<User>(USERS_COLLECTION);
+  return users.find((user) => user.id === id) || null;
+};
+
+// --------------------------- end of fetchUserById ----------------------------
+
+// Service function to fetch a user by (lowercased) email
+export const fetchUserByEmail = async (email: string): Promise<User | null> => {
+  const users = await readCollection<User>(USERS_COLLECTION);
+  return users.find((user) => user.email === email) || null;
+};
+
+// --------------------------- end of fetchUserByEmail ----------------------------
+
+// The session claims of the current request and their stored account. `user` is `null` when the
+// account was deleted or its sessions were revoked after the cookie was signed (`sessionVersion`)
+const getSessionAccount = async () => {
+  const claims = await getSessionClaims();
+  const user = claims ? await fetchUserById(claims.userId) : null;
+  const isCurrent =
+    !!user && (user.sessionVersion || 0) === (claims?.sessionVersion || 0);
+  return { claims, user: isCurrent ? user : null };
+};
+
+// Service function to fetch the signed-in user of the current request (`null` for guests)
+export const getCurrentUser = async (): Promise<SessionUser | null> => {
+  const { user } = await getSessionAccount();
+  return user ? toSessionUser(user) : null;
+};
+
+// --------------------------- end of getCurrentUser ----------------------------
+
+// Service function to fetch the signed-in user of an API request
+// Throws an `AuthError` (`unauthenticated`, 401) for guests
+export const requireUser = async (message: string): Promise<SessionUser> => {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new AuthError("unauthenticated", message);
+  }
+  return user;
+};
+
+// --------------------------- end of requireUser ----------------------------
+
+/**
+ * Require a Role (server components)
+ *
+ * ## Purpose
+ * - Server-side guard for the `(admin)` and `(customers)` layouts, behind the middleware. It reads
+ *   the user from the store instead of trusting the cookie's role, so a demoted or deleted account
+ *   loses access on its next request.
+ *
+ * ## Parameters
+ * - `roles` (AccessRole[]): The roles allowed in; keep them in step with `ACCESS_RULES`.
+ *
+ * ## Return Value
+ * - A Promise resolving to the signed-in `SessionUser`.
+ *
+ * ## Error Handling
+ * - A cookie that no longer matches its account (deleted, its role changed, or signed before a
+ *   password reset) is sent through `/api/auth/session/refresh`, which renews or clears it, and the
+ *   middleware then answers the page again: with the sign-in page, or a real 403. Server components
+ *   can't change cookies themselves.
+ * - Guests are redirected to sign-in, returning to the requested page (`x-pathname`, set by the
+ *   middleware). Users without the role are redirected to `/forbidden`, which only happens when
+ *   `roles` and `ACCESS_RULES` disagree.
+ */
+export const requireRole = async (
+  roles: AccessRole[]
+): Promise<SessionUser> => {
+  const { claims, user } = await getSessionAccount();
+  const pathname = (await headers()).get("x-pathname") || "/";
+  if (claims && user?.role !== claims.role) {
+    redirect(sessionRefreshUrl(pathname));
+  }
+  if (!user) {
+    redirect(loginUrl(pathname));
+  }
+  if (!roles.includes(user.role)) {
+    redirect(FORBIDDEN_PATH);
+  }
+  return toSessionUser(user);
+};
+
+// --------------------------- end of requireRole ----------------------------
+
+/**
+ * Start a Session
+ *
+ * ## Purpose
+ * - Signs a user in on the current response (the `session` cookie) and moves the guest cart of this
+ *   browser into their account's cart.
+ *
+ * ## Parameters
+ * - `user` (User): The user who just proved who they are.
+ *
+ * ## Return Value
+ * - A Promise resolving to the `SessionUser` to send to the browser.
+ */
+export const startSession = async (user: User): Promise<SessionUser> => {
+  await setSessionCookie(user);
+  await mergeCarts(await getSessionCartId(), userCartId(user.id));
+  return toSessionUser(user);
+};
+
+// --------------------------- end of startSession ----------------------------
+
+/**
+ * Refresh the Session (route handlers)
+ *
+ * ## Purpose
+ * - Brings the `session` cookie in step with the stored account, which the middleware can't read:
+ *   the cookie of a deleted account, or one signed before a password reset, is cleared, and a
+ *   changed role is signed into a new cookie.
+ *
+ * ## Return Value
+ * - A Promise resolving to the signed-in `SessionUser`, or `null` for guests.
+ */
+export const refreshSession = async (): Promise<SessionUser | null> => {
+  const { claims, user } = await getSessionAccount();
+  if (!claims) return null;
+  if (!user) {
+    await clearSessionCookie();
+    return null;
+  }
+  if (user.role !== claims.role) {
+    await setSessionCookie(user);
+  }
+  return toSessionUser(user);
+};
+
+// --------------------------- end of refreshSession ----------------------------
+
+// Service function to sign the current browser out (`resetPassword` signs out every browser)
+export const endSession = async () => clearSessionCookie();
+
+// --------------------------- end of endSession ----------------------------
+
+/**
+ * Change a User's Role
+ *
+ * ## Purpose
+ * - How a store gets its admins: `npm run users:role -- <email> admin` runs this on the server, so
+ *   nobody can make themselves an admin through the storefront.
+ *
+ * ## Parameters
+ * - `email` (string): The account's email (any case).
+ * - `role` (UserRole): The new role.
+ *
+ * ## Return Value
+ * - A Promise resolving to the updated `User`. The middleware reads the role from the session
+ *   cookie, so the user signs in again to pick it up.
+ *
+ * ## Error Handling
+ * - Throws an `AuthError` (`user_not_found`) when no account has the email.
+ */
+export const setUserRole = async (
+  email: string,
+  role: UserRole
+): Promise<User> => {
+  const normalized = email.trim().toLowerCase();
+  let updated: User | null = null;
+  await updateCollection<User>(USERS_COLLECTION, (users) =>
+    users.map((user) => {
+      if (user.email !== normalized) return user;
+      updated = { ...user, role };
+      return updated;
+    })
+  );
+  if (!updated) {
+    throw new AuthError("user_not_found", `No account uses ${normalized}.`);
+  }
+  return updated;
+};
+
+// --------------------------- end of setUserRole ----------------------------
+
+// Service function to create a password account
+export const registerUser = async ({
+  name,
+  email,
+  password,
+}: {
+  name: string;
+  email: string;
+  password: string;
+}): Promise<User> =>
+  createUser({ name, email, passwordHash: await hashPassword(password) });
+
+// --------------------------- end of registerUser ----------------------------
+
+/**
+ * Authenticate with Email and Password
+ *
+ * ## Return Value
+ * - A Promise resolving to the `User`.
+ *
+ * ## Error Handling
+ * - Throws an `AuthError` (`invalid_credentials`) for an unknown email, a wrong password or an
+ *   account without a password (created through a sign-in link), without saying which.
+ */
+export const authenticateUser = async (
+  email: string,
+  password: string
+): Promise<User> => {
+  const user = await fetchUserByEmail(email);
+  if (
+    !user?.passwordHash ||
+    !(await verifyPassword(password, user.passwordHash))
+  ) {
+    throw new AuthError(
+      "invalid_credentials",
+      "The email or password is incorrect."
+    );
+  }
+  return user;
+};
+
+// --------------------------- end of authenticateUser ----------------------------
+
+/**
+ * Send a Magic Sign-In Link
+ *
+ * ## Parameters
+ * - `email` (string): Where to send the link. Accounts are created when the link is first used,
+ *   so this works for new customers too.
+ * - `origin` (string): The storefront origin the link points to: `siteUrl()`, never the request's
+ *   host, which the sender controls.
+ * - `next` (string): Path to open once signed in.
+ */
+export const sendMagicLink = async (
+  email: string,
+  origin: string,
+  next: string
+) => {
+  const token = await createToken("magic-link", email, MAGIC_LINK_MINUTES);
+  const link = `${origin}/api/auth/magic-link?${new URLSearchParams({ token, next })}`;
+  await sendEmail({
+    to: email,
+    subject: "Your sign-in link",
+    text: `Click the link below to sign in. It can be used once, within ${MAGIC_LINK_MINUTES} minutes.\n\n${link}`,
+  });
+};
+
+// --------------------------- end of sendMagicLink ----------------------------
+
+// Service function to use a magic link; resolves with its user (created on first sign-in)
+export const verifyMagicLink = async (token: string): Promise<User> => {
+  const email = await consumeToken("magic-link", token);
+  return (
+    (await fetchUserByEmail(email)) ||
+    createUser({ email, name: email.split("@")[0], passwordHash: null })
+  );
+};
+
+// --------------------------- end of verifyMagicLink ----------------------------
+
+// Service function to email a password reset link (silently skipped for unknown emails)
+// `origin` is `siteUrl()`, never the request's host
+export const sendPasswordReset = async (email: string, origin: string) => {
+  if (!(await fetchUserByEmail(email))) return;
+  const token = await createToken(
+    "password-reset",
+    email,
+    PASSWORD_RESET_MINUTES
+  );
+  await sendEmail({
+    to: email,
+    subject: "Reset your password",
+    text: `Click the link below to choose a new password. It can be used once, within ${PASSWORD_RESET_MINUTES} minutes.\n\n${origin}/reset-password?token=${token}`,
+  });
+};
+
+// --------------------------- end of sendPasswordReset ----------------------------
+
+// Service function to set a new password from a reset link; resolves with the user
+// Raises `sessionVersion`, so cookies signed before the reset (e.g. a stolen one) stop working
+export const resetPassword = async (
+  token: string,
+  password: string
+): Promise<User> => {
+  const email = await consumeToken("password-reset", token);
+  const passwordHash = await hashPassword(password);
+  let updated: User | null = null;
+  await updateCollection<User>(USERS_COLLECTION, (users) =>
+    users.map((user) => {
+      if (user.email !== email) return user;
+      updated = {
+        ...user,
+        passwordHash,
+        sessionVersion: (user.sessionVersion || 0) + 1,
+      };
+      return updated;
+    })
+  );
+  if (!updated) {
+    throw new AuthError("invalid_token", "This account no longer exists.");
+  }
+  return updated;
+};
+
+// --------------------------- end of resetPassword ----------------------------
@@ -1,4 +1,12 @@
-const WORDPRESS_API_URL = process.env.NEXT_PUBLIC_WORDPRESS_API_URL!;
+import { fetchGraphQL } from "@/lib/graphqlClient";
+import {
+  GetAllPostSlugsQuery,
+  GetAllPostSlugsQueryVariables,
+  GetBlogPostsQuery,
+  GetBlogPostsQueryVariables,
+  GetSinglePostBySlugQuery,
+  GetSinglePostBySlugQueryVariables,
+} from "@/graphql/generated";
 /**
  * Import: GraphQL Query for Fetching a Single Post by Slug
  *
@@ -24,18 +32,6 @@ const WORDPRESS_API_URL = process.env.NEXT_PUBLIC_WORDPRESS_API_URL!;
  */
 import { GRAPHQL_QUERY_GET_SINGLE_POST_BY_SLUG } from "@/graphql/queries/posts/getSinglePostBySlug";
 
-interface PostSlugResponse {
-  data: {
-    posts: {
-      nodes: { slug: string }[];
-      pageInfo: {
-        hasNextPage: boolean;
-        endCursor: string | null;
-      };
-    };
-  };
-  errors?: Array<{ message: string }>;
-}
 // Service function to fetch all post slugs directly
 export const fetchAllPostSlugs = async (): Promise<string[]> => {
   const slugs: string[] = [];
@@ -43,30 +39,16 @@ export const fetchAllPostSlugs = async (): Promise<string[]> => {
   let endCursor: string | null = null;
 
   while (hasNextPage) {
-    const response: PostSlugResponse = await fetch(WORDPRESS_API_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        query: GRAPHQL_QUERY_GET_ALL_POST_SLUGS,
-        variables: {
-          first: 100,
-          after: endCursor,
-        },
-      }),
-    }).then((res) => res.json());
-
-    // Check for GraphQL errors
-    if (response.errors) {
-      console.error("GraphQL Errors:", response.errors);
-      throw new Error("Failed to fetch post slugs");
-    }
-
-    const { nodes, pageInfo } = response.data.posts;
-
-    // Add the current batch of slugs to the main array
-    slugs.push(...nodes.map((node) => node.slug));
+    const data: GetAllPostSlugsQuery = await fetchGraphQL<
+      GetAllPostSlugsQuery,
+      GetAllPostSlugsQueryVariables
+    >(GRAPHQL_QUERY_GET_ALL_POST_SLUGS, { first: 100, after: endCursor });
+
+    if (!data.posts) break;
+    const { nodes, pageInfo } = data.posts;
+
+    // Add the current batch of slugs to the main array (skipping posts without one)
+    slugs.push(...nodes.flatMap((node) => (node.slug ? [node.slug] : [])));
 
     // Update pagination info
     hasNextPage = pageInfo.hasNextPage;
@@ -98,7 +80,7 @@ export const fetchAllPostSlugs = async (): Promise<string[]> => {
  *
  * ## Return Value
  * - A Promise that resolves to an object containing:
- *   - `items` (BlogPost[]): Array of blog posts with details such as `title`, `slug`, `author`, etc.
+ *   - `items` (BlogPost[]): Array of blog posts with the `PostCard` fields (`title`, `slug`, `author`, etc.).
  *   - `hasNextPage` (boolean): Indicates if more posts are available.
  *   - `endCursor` (string | null): Cursor for fetching the next page.
  *
@@ -111,7 +93,7 @@ export const fetchAllPostSlugs = async (): Promise<string[]> => {
  * ## Implementation Details
  * - **GraphQL Query**: Uses `posts(first: Int!, after: String)` to fetch paginated data.
  * - **Caching**: Adds a `revalidate` option to cache results for 60 seconds, improving performance.
- * - **Error Handling**: Throws an error if the API request fails or the response is invalid.
+ * - **Error Handling**: Throws a `GraphQLClientError` if the API request fails or returns GraphQL errors.
  *
  * ## Dependencies
  * - Requires `NEXT_PUBLIC_WORDPRESS_API_URL` environment variable.
@@ -121,7 +103,7 @@ export const fetchAllPostSlugs = async (): Promise<string[]> => {
  * - Ideal for server-side rendering (SSR) or client-side data fetching in Next.js blog pages.
  */
 import { GRAPHQL_QUERY_GET_ALL_POSTS } from "@/graphql/queries/posts/getAllPosts";
-import { BlogPost } from "@/types/blog";
+import { BlogPost, BlogPostDetail } from "@/types/blog";
 
 interface BlogPostsResponse {
   items: BlogPost[];
@@ -132,35 +114,42 @@ export const fetchBlogPosts = async (
   first: number,
   after: string | null
 ): Promise<BlogPostsResponse> => {
-  const response = await fetch(WORDPRESS_API_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      query: GRAPHQL_QUERY_GET_ALL_POSTS,
-      variables: { first, after },
-    }),
-    next: {
-      revalidate: 60, // Revalidate the cached data every 60 seconds
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch blog posts: ${response.statusText}`);
-  }
-
-  const result = await response.json();
+  const data = await fetchGraphQL<
+    GetBlogPostsQuery,
+    GetBlogPostsQueryVariables
+  >(
+    GRAPHQL_QUERY_GET_ALL_POSTS,
+    { first, after },
+    { revalidate: 60 } // Revalidate the cached data every 60 seconds
+  );
 
   return {
-    items: result?.data?.posts?.nodes || [],
-    hasNextPage: result?.data?.posts?.pageInfo?.hasNextPage || false,
-    endCursor: result?.data?.posts?.pageInfo?.endCursor || null,
+    items: data.posts?.nodes || [],
+    hasNextPage: data.posts?.pageInfo?.hasNextPage || false,
+    endCursor: data.posts?.pageInfo?.endCursor || null,
   };
 };
 
 // --------------------------- end of fetchBlogPosts ----------------------------
 
+// Service function to fetch every blog post (newest first), for the command palette search
+export const fetchAllBlogPosts = async (): Promise<BlogPost[]> => {
+  const posts: BlogPost[] = [];
+  let hasNextPage = true;
+  let endCursor: string | null = null;
+
+  while (hasNextPage) {
+    const page: BlogPostsResponse = await fetchBlogPosts(100, endCursor);
+    posts.push(...page.items);
+    hasNextPage = page.hasNextPage;
+    endCursor = page.endCursor;
+  }
+
+  return posts;
+};
+
+// --------------------------- end of fetchAllBlogPosts ----------------------------
+
 /**
  * Fetch Single Post by Slug from WordPress GraphQL API
  *
@@ -180,7 +169,7 @@ export const fetchBlogPosts = async (
  *
  * ## Return Value
  * - A Promise resolving to an object containing:
- *   - `post`: The blog post data conforming to the `BlogPost` interface.
+ *   - `post`: The blog post data with exactly the `PostDetail` fields (`BlogPostDetail`).
  *   - If no post is found, `post` will be `null`.
  *
  * ## Example Usage
@@ -201,7 +190,7 @@ export const fetchBlogPosts = async (
  * - Requires `WORDPRESS_API_URL` environment variable for the WordPress GraphQL endpoint.
  *
  * ## Error Handling
- * - Throws an error if the API request fails or the response is not `ok`.
+ * - Throws a `GraphQLClientError` if the API request fails or returns GraphQL errors.
  *
  * ## Use Case
  * - Ideal for rendering single blog post pages in Next.js SSR or ISR workflows.
@@ -209,36 +198,26 @@ export const fetchBlogPosts = async (
 import { GRAPHQL_QUERY_GET_ALL_POST_SLUGS } from "@/graphql/queries/posts/getAllPostSlugs";
 
 interface SinglePostRespone {
-  post: BlogPost;
+  post: BlogPostDetail | null;
 }
 
 export const fetchSinglePostBySlug = async (
   slug: string | null
 ): Promise<SinglePostRespone> => {
-  const response = await fetch(WORDPRESS_API_URL || "", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      query: GRAPHQL_QUERY_GET_SINGLE_POST_BY_SLUG,
-      variables: { slug },
-    }),
-    next: {
-      revalidate: 60, // Revalidate the cached data every 60 seconds
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(
-      `Failed to fetch single post by slug: ${response.statusText}`
-    );
-  }
-
-  const result = await response.json();
+  // Without a slug there is nothing to look up
+  if (!slug) return { post: null };
+
+  const data = await fetchGraphQL<
+    GetSinglePostBySlugQuery,
+    GetSinglePostBySlugQueryVariables
+  >(
+    GRAPHQL_QUERY_GET_SINGLE_POST_BY_SLUG,
+    { slug },
+    { revalidate: 60 } // Revalidate the cached data every 60 seconds
+  );
 
   return {
-    post: result?.data?.post || null,
+    post: data.post || null,
   };
 };
 
@@ -0,0 +1,182 @@
+import { MAX_PER_ORDER } from "@/config/inventory";
+import { readCollection, updateCollection } from "@/lib/jsonStore";
+import { CartItem, ServerCart } from "@/types/cart";
+
+const CARTS_COLLECTION = "carts";
+
+const isCartLine = (
+  item: CartItem,
+  productId: number,
+  variationId: number | null
+) => item.id === productId && item.variationId === variationId;
+
+// Add units to a matching line, or append the line
+const addLine = (items: CartItem[], item: CartItem): CartItem[] =>
+  items.some((line) => isCartLine(line, item.id, item.variationId))
+    ? items.map((line) =>
+        isCartLine(line, item.id, item.variationId)
+          ? { ...line, quantity: line.quantity + item.quantity }
+          : line
+      )
+    : [...items, item];
+
+// Only ids and quantities are stored; prices are always looked up again
+const toStoredItem = (item: CartItem): CartItem => ({
+  id: item.id,
+  variationId: item.variationId,
+  quantity: Math.min(item.quantity, MAX_PER_ORDER),
+});
+
+const emptyCart = (cartId: string): ServerCart => ({
+  id: cartId,
+  items: [],
+  couponCodes: [],
+  updatedAt: null,
+});
+
+// Apply `change` to one stored cart (created on first write)
+// Emptied carts are kept, so their `updatedAt` still wins over stale copies on other devices
+const updateCart = async (
+  cartId: string,
+  change: (cart: ServerCart) => Pick<ServerCart, "items" | "couponCodes">
+): Promise<ServerCart> => {
+  let updated = emptyCart(cartId);
+  await updateCollection<ServerCart>(CARTS_COLLECTION, (carts) => {
+    const current = carts.find((cart) => cart.id === cartId);
+    const { items, couponCodes } = change(current || emptyCart(cartId));
+    updated = {
+      id: cartId,
+      items: items.map(toStoredItem),
+      couponCodes,
+      updatedAt: new Date().toISOString(),
+    };
+    return [...carts.filter((cart) => cart.id !== cartId), updated];
+  });
+  return updated;
+};
+
+// Service function to fetch every stored cart (guest and customer carts)
+export const fetchCarts = async (): Promise<ServerCart[]> =>
+  readCollection<ServerCart>(CARTS_COLLECTION);
+
+// --------------------------- end of fetchCarts ----------------------------
+
+// Service function to fetch a cart (an empty, never-saved cart when there's none yet)
+export const fetchCart = async (cartId: string): Promise<ServerCart> => {
+  const carts = await readCollection<ServerCart>(CARTS_COLLECTION);
+  return carts.find((cart) => cart.id === cartId) || emptyCart(cartId);
+};
+
+// --------------------------- end of fetchCart ----------------------------
+
+/**
+ * Save a Whole Cart
+ *
+ * ## Purpose
+ * - Replaces the items and coupon codes of a cart. `useCartStore` changes its cart optimistically
+ *   and then saves the result here, so the server always holds the cart as the customer last saw it.
+ *
+ * ## Parameters
+ * - `cartId` (string): The cart to replace (see `getCartId`).
+ * - `cart` (object): The new `items` and `couponCodes`, validated by `parseCartUpdate`.
+ *
+ * ## Return Value
+ * - A Promise resolving to the saved `ServerCart`, with its new `updatedAt`.
+ */
+export const saveCart = async (
+  cartId: string,
+  cart: Pick<ServerCart, "items" | "couponCodes">
+): Promise<ServerCart> => updateCart(cartId, () => cart);
+
+// --------------------------- end of saveCart ----------------------------
+
+// Service function to add units of a line (a new line, or more of an existing one)
+export const addCartItem = async (
+  cartId: string,
+  item: CartItem
+): Promise<ServerCart> =>
+  updateCart(cartId, (cart) => ({
+    couponCodes: cart.couponCodes,
+    items: addLine(cart.items, item),
+  }));
+
+// --------------------------- end of addCartItem ----------------------------
+
+// Service function to set the quantity of an existing line (unknown lines are ignored)
+export const updateCartItem = async (
+  cartId: string,
+  item: CartItem
+): Promise<ServerCart> =>
+  updateCart(cartId, (cart) => ({
+    couponCodes: cart.couponCodes,
+    items: cart.items.map((line) =>
+      isCartLine(line, item.id, item.variationId)
+        ? { ...line, quantity: item.quantity }
+        : line
+    ),
+  }));
+
+// --------------------------- end of updateCartItem ----------------------------
+
+// Service function to remove a line
+export const removeCartItem = async (
+  cartId: string,
+  productId: number,
+  variationId: number | null
+): Promise<ServerCart> =>
+  updateCart(cartId, (cart) => ({
+    couponCodes: cart.couponCodes,
+    items: cart.items.filter(
+      (line) => !isCartLine(line, productId, variationId)
+    ),
+  }));
+
+// --------------------------- end of removeCartItem ----------------------------
+
+// Service function to empty a cart (its lines and coupon codes)
+export const clearCart = async (cartId: string): Promise<ServerCart> =>
+  updateCart(cartId, () => ({ items: [], couponCodes: [] }));
+
+// --------------------------- end of clearCart ----------------------------
+
+/**
+ * Merge a Guest Cart into a User's Cart
+ *
+ * ## Purpose
+ * - Called when a customer signs in, so what they added as a guest isn't lost and what they saved
+ *   on another device shows up too.
+ *
+ * ## Parameters
+ * - `guestCartId` (string): The session cart (`session:<id>`).
+ * - `userCartId` (string): The signed-in customer's cart (`user:<id>`).
+ *
+ * ## Return Value
+ * - A Promise resolving to the merged user cart.
+ *
+ * ## Implementation Details
+ * - Lines in both carts add up (capped at `MAX_PER_ORDER`); coupon codes are combined.
+ * - The guest cart is deleted afterwards.
+ */
+export const mergeCarts = async (
+  guestCartId: string,
+  userCartId: string
+): Promise<ServerCart> => {
+  const guestCart = await fetchCart(guestCartId);
+  if (guestCartId === userCartId || guestCart.updatedAt === null) {
+    return fetchCart(userCartId);
+  }
+
+  const merged = await updateCart(userCartId, (cart) => ({
+    items: guestCart.items.reduce(addLine, cart.items),
+    couponCodes: Array.from(
+      new Set([...cart.couponCodes, ...guestCart.couponCodes])
+    ),
+  }));
+  await updateCollection<ServerCart>(CARTS_COLLECTION, (carts) =>
+    carts.filter((cart) => cart.id !== guestCartId)
+  );
+
+  return merged;
+};
+
+// --------------------------- end of mergeCarts ----------------------------
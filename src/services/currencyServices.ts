@@ -0,0 +1,34 @@
+import defaultExchangeRates from "@/config/exchangeRates.json";
+import { ExchangeRates } from "@/types/currency";
+
+const EXCHANGE_RATES_URL = process.env.NEXT_PUBLIC_EXCHANGE_RATES_URL;
+
+/**
+ * Fetch Exchange Rates
+ *
+ * ## Purpose
+ * - Server-side counterpart of `useCurrencyStore().loadRates`, so orders are converted with the
+ *   same table the customer saw prices in.
+ *
+ * ## Return Value
+ * - The table served by `NEXT_PUBLIC_EXCHANGE_RATES_URL` when set, otherwise the bundled
+ *   `src/config/exchangeRates.json`.
+ *
+ * ## Implementation Details
+ * - **Caching**: The remote table is revalidated every hour.
+ * - **Error Handling**: Throws if the remote table can't be loaded, rather than silently pricing
+ *   an order with different rates than the customer saw.
+ */
+export const fetchExchangeRates = async (): Promise<ExchangeRates> => {
+  if (!EXCHANGE_RATES_URL) return defaultExchangeRates as ExchangeRates;
+
+  const response = await fetch(EXCHANGE_RATES_URL, {
+    next: { revalidate: 3600 },
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to load exchange rates: ${response.status}`);
+  }
+  return response.json();
+};
+
+// --------------------------- end of fetchExchangeRates ----------------------------
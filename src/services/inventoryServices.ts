@@ -0,0 +1,209 @@
+import { randomUUID } from "node:crypto";
+import { MAX_PER_ORDER, RESERVATION_MINUTES } from "@/config/inventory";
+import { holdsStock, mergeCartLines, stockQuantityOf } from "@/lib/inventory";
+import { readCollection, updateCollection } from "@/lib/jsonStore";
+import { StockError } from "@/lib/stockError";
+import { fetchOrders } from "@/services/orderServices";
+import { fetchProductById } from "@/services/productServices";
+import { CartItem } from "@/types/cart";
+import { StockReservation, StockShortage } from "@/types/inventory";
+
+const RESERVATIONS_COLLECTION = "stock-reservations";
+
+const lineKey = (productId: number, variationId: number | null) =>
+  `${productId}-${variationId}`;
+
+const isActive = (reservation: StockReservation, now: Date) =>
+  new Date(reservation.expiresAt) > now;
+
+/**
+ * Find the cart lines that can't be bought in the requested quantity.
+ *
+ * ## Implementation Details
+ * - Orders are stored here, not in WooCommerce, so its `stockQuantity` never goes down. The units
+ *   of every order in a `STOCK_HOLDING_STATUSES` status are subtracted instead; failed and
+ *   cancelled orders give theirs back, and so do unpaid orders after `PAYMENT_WINDOW_MINUTES`.
+ * - Active reservations hold their units too, except `reservationId` (the customer's own).
+ * - Every line is also capped at `MAX_PER_ORDER`. Repeated lines are added up first, so listing a
+ *   product twice can't get around either limit.
+ */
+const findShortages = async (
+  items: CartItem[],
+  reservations: StockReservation[],
+  reservationId: string | null,
+  now: Date
+): Promise<StockShortage[]> => {
+  const held = new Map<string, number>();
+  const hold = (key: string, quantity: number) =>
+    held.set(key, (held.get(key) || 0) + quantity);
+
+  (await fetchOrders())
+    .filter((order) => holdsStock(order, now))
+    .forEach((order) =>
+      order.lines.forEach((line) =>
+        hold(lineKey(line.productId, line.variationId), line.quantity)
+      )
+    );
+  reservations
+    .filter(
+      (reservation) =>
+        reservation.id !== reservationId && isActive(reservation, now)
+    )
+    .forEach((reservation) =>
+      reservation.items.forEach((item) =>
+        hold(lineKey(item.id, item.variationId), item.quantity)
+      )
+    );
+
+  const lines = await Promise.all(
+    mergeCartLines(items).map(async (item) => {
+      const { product } = await fetchProductById(item.id);
+      const variation =
+        product?.variations.find((v) => v.id === item.variationId) || null;
+      const stock =
+        product && (variation || product.variations.length === 0)
+          ? (stockQuantityOf(product, variation) ?? Infinity)
+          : 0; // Deleted products and options can't be bought
+      const available = Math.min(
+        MAX_PER_ORDER,
+        stock - (held.get(lineKey(item.id, item.variationId)) || 0)
+      );
+
+      return {
+        productId: item.id,
+        variationId: item.variationId,
+        name: product?.name || `Product #${item.id}`,
+        requested: item.quantity,
+        available: Math.max(available, 0),
+      };
+    })
+  );
+  return lines.filter((line) => line.requested > line.available);
+};
+
+/**
+ * Check Stock
+ *
+ * ## Purpose
+ * - Reports which cart lines can't be bought as they are, for the cart page (`/api/check-stock`).
+ *   Nothing is reserved.
+ *
+ * ## Parameters
+ * - `items` (CartItem[]): The cart lines.
+ * - `reservationId` (string | null, optional): The customer's own reservation, whose units count
+ *   as available to them.
+ *
+ * ## Return Value
+ * - A Promise resolving to the `StockShortage`s, `[]` when the whole cart can be bought.
+ */
+export const checkStock = async (
+  items: CartItem[],
+  reservationId: string | null = null
+): Promise<StockShortage[]> =>
+  findShortages(
+    items,
+    await readCollection<StockReservation>(RESERVATIONS_COLLECTION),
+    reservationId,
+    new Date()
+  );
+
+// --------------------------- end of checkStock ----------------------------
+
+/**
+ * Reserve Stock
+ *
+ * ## Purpose
+ * - Holds the cart's units for `RESERVATION_MINUTES` while the customer fills in the checkout
+ *   form (`/api/reserve-stock`), so the last units can't be sold to someone else meanwhile.
+ *
+ * ## Parameters
+ * - `reservationId` (string | null): The reservation to renew, or `null` for a new one.
+ * - `items` (CartItem[]): The cart lines; they replace what the reservation held before.
+ *
+ * ## Return Value
+ * - A Promise resolving to the `StockReservation` with its new `expiresAt`. An unknown or
+ *   expired `reservationId` gets a new reservation.
+ *
+ * ## Error Handling
+ * - Throws a `StockError` with the shortages when the cart can't be reserved; any previous
+ *   reservation with this id is released.
+ */
+export const reserveStock = async (
+  reservationId: string | null,
+  items: CartItem[]
+): Promise<StockReservation> => {
+  const now = new Date();
+  let reservation: StockReservation | null = null;
+  let shortages: StockShortage[] = [];
+
+  await updateCollection<StockReservation>(
+    RESERVATIONS_COLLECTION,
+    async (reservations) => {
+      const active = reservations.filter((item) => isActive(item, now));
+      const others = active.filter((item) => item.id !== reservationId);
+      shortages = await findShortages(items, active, reservationId, now);
+      if (shortages.length > 0) return others; // Releases the old reservation
+
+      reservation = {
+        id: active.some((item) => item.id === reservationId)
+          ? reservationId!
+          : randomUUID(),
+        items,
+        expiresAt: new Date(
+          now.getTime() + RESERVATION_MINUTES * 60 * 1000
+        ).toISOString(),
+      };
+      return [...others, reservation];
+    }
+  );
+  if (shortages.length > 0) throw new StockError(shortages);
+  return reservation!;
+};
+
+// --------------------------- end of reserveStock ----------------------------
+
+/**
+ * Place an Order Against Reserved Stock
+ *
+ * ## Purpose
+ * - Runs `place` (e.g. `createOrder`) only if the cart can still be bought, and releases the
+ *   customer's reservation once the order holds the units instead.
+ *
+ * ## Parameters
+ * - `items` (CartItem[]): The cart lines being ordered.
+ * - `reservationId` (string | null): The customer's reservation, if checkout made one.
+ * - `place` (function): Stores the order.
+ *
+ * ## Return Value
+ * - A Promise resolving to what `place` resolves to.
+ *
+ * ## Implementation Details
+ * - Runs inside the reservations' `updateCollection`, so stock checks, reservations and order
+ *   placement happen one after another and two customers can't both buy the last unit.
+ *
+ * ## Error Handling
+ * - Throws a `StockError` when the cart can't be bought; `place` is not called.
+ */
+export const withReservedStock = async <T>(
+  items: CartItem[],
+  reservationId: string | null,
+  place: () => Promise<T>
+): Promise<T> => {
+  const now = new Date();
+  let placed: { result: T } | null = null;
+
+  await updateCollection<StockReservation>(
+    RESERVATIONS_COLLECTION,
+    async (reservations) => {
+      const active = reservations.filter((item) => isActive(item, now));
+      const shortages = await findShortages(items, active, reservationId, now);
+      if (shortages.length > 0) throw new StockError(shortages);
+
+      placed = { result: await place() };
+      return active.filter((item) => item.id !== reservationId);
+    }
+  );
+  return placed!.result;
+};
+
+// --------------------------- end of withReservedStock ----------------------------
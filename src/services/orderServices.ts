@@ -0,0 +1,431 @@
+import { randomUUID } from "node:crypto";
+import { CheckoutValidationError } from "@/lib/checkoutValidation";
+import { readCollection, updateCollection } from "@/lib/jsonStore";
+import { convertMoney, multiplyMoney, STORE_CURRENCY } from "@/lib/money";
+import { calculateOrderTotals } from "@/lib/orderTotals";
+import {
+  applyStatus,
+  canTransition,
+  orderHistory,
+  orderStatusLabel,
+  OrderWorkflowError,
+} from "@/lib/orderWorkflow";
+import { describeVariation } from "@/lib/productVariations";
+import { applyPromotions } from "@/lib/promotions";
+import { calculateShippingRates } from "@/lib/shipping";
+import { fetchExchangeRates } from "@/services/currencyServices";
+import { fetchProductById } from "@/services/productServices";
+import { CartItem } from "@/types/cart";
+import { ExchangeRates } from "@/types/currency";
+import { Money } from "@/types/money";
+import {
+  CheckoutInput,
+  Order,
+  OrderFilters,
+  OrderLine,
+  OrderStatus,
+  OrderTracking,
+  PricedCartItem,
+} from "@/types/order";
+import { PromotionLine, PromotionResult } from "@/types/promotion";
+import { ShippableItem } from "@/types/shipping";
+
+const ORDERS_COLLECTION = "orders";
+
+/**
+ * Price Cart Items
+ *
+ * ## Purpose
+ * - Re-prices cart lines from WooCommerce for `createOrder` and `quotePromotions`.
+ *
+ * ## Parameters
+ * - `items` (CartItem[]): The cart lines (ids and quantities only).
+ * - `currency` (string): The currency to price them in.
+ * - `rates` (ExchangeRates): The exchange-rate table.
+ *
+ * ## Return Value
+ * - A Promise resolving to one `PricedCartItem` per line: the frozen `OrderLine`, plus the line as
+ *   the shipping and promotion engines see it.
+ *
+ * ## Error Handling
+ * - Throws a `CheckoutValidationError` (`items`) when a product or variation no longer exists.
+ */
+export const priceCartItems = async (
+  items: CartItem[],
+  currency: string,
+  rates: ExchangeRates
+): Promise<PricedCartItem[]> =>
+  Promise.all(
+    items.map(async (item) => {
+      const { product } = await fetchProductById(item.id);
+      if (!product) {
+        throw new CheckoutValidationError({
+          items: "A product in your cart is no longer available.",
+        });
+      }
+
+      // Variable products need one of their variations, simple products none
+      const variation =
+        product.variations.find((v) => v.id === item.variationId) || null;
+      const isVariable = product.variations.length > 0;
+      if (isVariable ? !variation : item.variationId !== null) {
+        throw new CheckoutValidationError({
+          items: `The selected option of "${product.name}" is no longer available.`,
+        });
+      }
+
+      const storePrice = variation?.price || product.price;
+      const unitPrice = convertMoney(storePrice, currency, rates);
+      const line: OrderLine = {
+        productId: product.id,
+        variationId: variation?.id ?? null,
+        name: product.name,
+        slug: product.slug,
+        variation: variation ? describeVariation(variation) : null,
+        imageSrc: variation?.imageSrc || product.imageSrc,
+        imageAlt: variation?.imageAlt || product.imageAlt,
+        taxClass: product.taxClass,
+        quantity: item.quantity,
+        unitPrice,
+        lineTotal: multiplyMoney(unitPrice, item.quantity),
+      };
+      const shippable: ShippableItem = {
+        quantity: item.quantity,
+        weight: product.weight,
+        inStock: variation?.inStock ?? product.inStock,
+        leadTime: product.leadTime,
+        lineTotal: multiplyMoney(storePrice, item.quantity),
+      };
+      const promotionLine: PromotionLine = {
+        key: `${line.productId}-${line.variationId}`,
+        productId: product.id,
+        categories: product.breadcrumbs.map((category) => category.name),
+        unitPrice,
+        quantity: item.quantity,
+      };
+      return { line, shippable, promotionLine };
+    })
+  );
+
+// --------------------------- end of priceCartItems ----------------------------
+
+/**
+ * Quote Promotions
+ *
+ * ## Purpose
+ * - Validates coupon codes and prices the discounts of a cart for `/api/apply-promotions`, with the
+ *   same engine and prices `createOrder` uses.
+ *
+ * ## Parameters
+ * - `query` (object): The cart `items`, the entered `couponCodes` and the `currency`.
+ *
+ * ## Return Value
+ * - A Promise resolving to the `PromotionResult`, with every rejected code and its reason.
+ */
+export const quotePromotions = async ({
+  items,
+  couponCodes,
+  currency,
+}: Pick<
+  CheckoutInput,
+  "items" | "couponCodes" | "currency"
+>): Promise<PromotionResult> => {
+  const rates = await fetchExchangeRates();
+  const priced = await priceCartItems(items, currency, rates);
+
+  return applyPromotions({
+    lines: priced.map(({ promotionLine }) => promotionLine),
+    codes: couponCodes,
+    currency,
+    convert: (money) => convertMoney(money, currency, rates),
+  });
+};
+
+// --------------------------- end of quotePromotions ----------------------------
+
+/**
+ * Create an Order
+ *
+ * ## Purpose
+ * - Turns a validated checkout into a stored `Order`.
+ * - Re-prices every line from WooCommerce and recomputes all totals on the server; nothing the
+ *   browser calculated is trusted.
+ *
+ * ## Parameters
+ * - `input` (CheckoutInput): The output of `parseCheckoutInput`.
+ * - `userId` (string | null): The signed-in customer placing the order, `null` for guests.
+ * - `confirmationTokenHash` (string | null): Guests only, from `createOrderAccessToken`: lets their
+ *   browser open the confirmation page.
+ *
+ * ## Return Value
+ * - A Promise resolving to the new `Order` (status `pending`, with an "Order placed" history entry)
+ *   and a generated `id`.
+ *
+ * ## Implementation Details
+ * - **Currency**: Unit prices and shipping are converted into `input.currency` first, then
+ *   multiplied and summed (same rounding rules as the storefront).
+ * - **Shipping**: The chosen rate from `calculateShippingRates` for the fetched products and address.
+ * - **Promotions**: Automatic promotions and the entered coupons, from `applyPromotions`.
+ * - **Totals**: `calculateOrderTotals` with the shipping address, exactly like the checkout summary.
+ * - **Persistence**: Appended to the `orders` collection of the JSON file store.
+ *
+ * ## Error Handling
+ * - Throws a `CheckoutValidationError` (`items`) when a product or variation no longer exists,
+ *   (`deliveryMethodId`) when the chosen delivery method isn't offered for the address, or
+ *   (`couponCodes`) when an entered coupon doesn't apply (e.g. it expired since it was added).
+ * - Throws a `GraphQLClientError` if WooCommerce can't be reached.
+ */
+export const createOrder = async (
+  input: CheckoutInput,
+  userId: string | null = null,
+  confirmationTokenHash: string | null = null
+): Promise<Order> => {
+  const rates = await fetchExchangeRates();
+  const convert = (money: Money) => convertMoney(money, input.currency, rates);
+
+  const priced = await priceCartItems(input.items, input.currency, rates);
+  const lines = priced.map(({ line }) => line);
+
+  const deliveryRate = calculateShippingRates({
+    items: priced.map(({ shippable }) => shippable),
+    location: input.shippingAddress,
+  }).find((rate) => rate.id === input.deliveryMethodId);
+  if (!deliveryRate) {
+    throw new CheckoutValidationError({
+      deliveryMethodId:
+        "The chosen delivery method isn't available for this address.",
+    });
+  }
+  const promotions = applyPromotions({
+    lines: priced.map(({ promotionLine }) => promotionLine),
+    codes: input.couponCodes,
+    currency: input.currency,
+    convert,
+  });
+  const [rejectedCode] = Object.keys(promotions.rejectedCodes);
+  if (rejectedCode) {
+    throw new CheckoutValidationError({
+      couponCodes: `${rejectedCode}: ${promotions.rejectedCodes[rejectedCode]}`,
+    });
+  }
+  const totals = calculateOrderTotals({
+    lines: priced.map(({ line, promotionLine }) => ({
+      key: promotionLine.key,
+      lineTotal: line.lineTotal,
+      taxClass: line.taxClass,
+    })),
+    shipping: convert(deliveryRate.price),
+    promotions,
+    location: input.shippingAddress,
+    currency: input.currency,
+  });
+
+  const order: Order = {
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    status: "pending",
+    userId,
+    confirmationTokenHash,
+    email: input.email,
+    shippingAddress: input.shippingAddress,
+    delivery: {
+      methodId: deliveryRate.id,
+      title: deliveryRate.title,
+      estimate: deliveryRate.estimate,
+    },
+    paymentMethodId: input.paymentMethodId,
+    payment: null,
+    currency: input.currency,
+    exchangeRate:
+      rates.rates[input.currency] / rates.rates[STORE_CURRENCY] || 1,
+    lines,
+    subtotal: totals.subtotal,
+    discounts: totals.discounts,
+    discountTotal: totals.discountTotal,
+    shipping: totals.shipping,
+    taxes: totals.taxes.total,
+    taxLines: totals.taxes.lines,
+    pricesIncludeTax: totals.taxes.inclusive,
+    total: totals.total,
+    history: [
+      {
+        at: new Date().toISOString(),
+        status: "pending",
+        note: "Order placed",
+        actor: null,
+      },
+    ],
+    tracking: null,
+  };
+
+  await updateCollection<Order>(ORDERS_COLLECTION, (orders) => [
+    ...orders,
+    order,
+  ]);
+
+  return order;
+};
+
+// --------------------------- end of createOrder ----------------------------
+
+// Service function to fetch every stored order (oldest first)
+export const fetchOrders = async (): Promise<Order[]> =>
+  readCollection<Order>(ORDERS_COLLECTION);
+
+// --------------------------- end of fetchOrders ----------------------------
+
+// Service function to fetch the orders a customer placed while signed in (newest first)
+export const fetchOrdersByUser = async (userId: string): Promise<Order[]> =>
+  (await fetchOrders())
+    .filter((order) => order.userId === userId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+// --------------------------- end of fetchOrdersByUser ----------------------------
+
+// Service function to fetch a stored order (callers check who may see it)
+export const fetchOrderById = async (id: string): Promise<Order | null> => {
+  const orders = await readCollection<Order>(ORDERS_COLLECTION);
+  return orders.find((order) => order.id === id) || null;
+};
+
+// --------------------------- end of fetchOrderById ----------------------------
+
+/**
+ * Update a Stored Order
+ *
+ * ## Parameters
+ * - `id` (string): The order id.
+ * - `change` (function): Receives the current order and returns (or resolves to) the updated one.
+ *   Throwing leaves the order unchanged.
+ *
+ * ## Return Value
+ * - A Promise resolving to the updated `Order`, or `null` if no order has that id.
+ *
+ * ## Implementation Details
+ * - Runs inside `updateCollection`, so concurrent updates (e.g. a webhook arriving while checkout
+ *   is still recording the payment) are applied one after another. An async `change` (e.g. a refund
+ *   with the payment provider) holds the other order updates back until it's done.
+ */
+export const updateOrder = async (
+  id: string,
+  change: (order: Order) => Order | Promise<Order>
+): Promise<Order | null> => {
+  let updated: Order | null = null;
+  await updateCollection<Order>(ORDERS_COLLECTION, async (orders) => {
+    const current = orders.find((order) => order.id === id);
+    if (!current) return orders;
+    const changed = await change(current);
+    updated = changed;
+    return orders.map((order) => (order === current ? changed : order));
+  });
+  return updated;
+};
+
+// --------------------------- end of updateOrder ----------------------------
+
+/**
+ * Search Orders (admin)
+ *
+ * ## Parameters
+ * - `filters` (OrderFilters): The status, placement date range and customer to match; empty
+ *   filters match every order.
+ *
+ * ## Return Value
+ * - A Promise resolving to the matching orders, newest first.
+ *
+ * ## Implementation Details
+ * - Dates are compared on the UTC day the order was placed, so `to` includes the whole day.
+ * - `customer` matches part of the order email or of the shipping name, ignoring case.
+ */
+export const searchOrders = async (filters: OrderFilters): Promise<Order[]> => {
+  const customer = filters.customer.trim().toLowerCase();
+
+  return (await fetchOrders())
+    .filter((order) => {
+      const placedOn = order.createdAt.slice(0, 10);
+      const name =
+        `${order.shippingAddress.firstName} ${order.shippingAddress.lastName}`.toLowerCase();
+      return (
+        (!filters.status || order.status === filters.status) &&
+        (!filters.from || placedOn >= filters.from) &&
+        (!filters.to || placedOn <= filters.to) &&
+        (!customer ||
+          order.email.toLowerCase().includes(customer) ||
+          name.includes(customer))
+      );
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// --------------------------- end of searchOrders ----------------------------
+
+/**
+ * Change the Status of an Order (admin)
+ *
+ * ## Parameters
+ * - `id` (string): The order id.
+ * - `status` (OrderStatus): The new status; must be one of `nextStatuses(order)`.
+ * - `note` (string): The admin's comment for the audit trail (a default is used when empty).
+ * - `actor` (string): Email of the admin making the change.
+ * - `tracking` (OrderTracking | null): The parcel, when shipping an order without one yet.
+ *
+ * ## Return Value
+ * - A Promise resolving to the updated `Order`, or `null` if no order has that id.
+ *
+ * ## Error Handling
+ * - Throws an `OrderWorkflowError` when the state machine doesn't allow the change, for refunds
+ *   (which go through `refundOrder`) and when shipping an order without a tracking number.
+ */
+export const changeOrderStatus = async (
+  id: string,
+  status: OrderStatus,
+  note: string,
+  actor: string,
+  tracking: OrderTracking | null = null
+): Promise<Order | null> =>
+  updateOrder(id, (order) => {
+    if (status === "refunded" || !canTransition(order.status, status)) {
+      throw new OrderWorkflowError(
+        `An order that is "${orderStatusLabel(order.status)}" can't be marked "${orderStatusLabel(status)}".`
+      );
+    }
+    const parcel = tracking || order.tracking || null;
+    if (status === "shipped" && !parcel) {
+      throw new OrderWorkflowError(
+        "Enter a tracking number before shipping the order."
+      );
+    }
+    return {
+      ...applyStatus(
+        order,
+        status,
+        note || `Marked ${orderStatusLabel(status)}`,
+        actor
+      ),
+      tracking: parcel,
+    };
+  });
+
+// --------------------------- end of changeOrderStatus ----------------------------
+
+// Service function to set or correct the tracking number of an order (admin)
+export const saveOrderTracking = async (
+  id: string,
+  tracking: OrderTracking,
+  actor: string
+): Promise<Order | null> =>
+  updateOrder(id, (order) => ({
+    ...order,
+    tracking,
+    history: [
+      ...orderHistory(order),
+      {
+        at: new Date().toISOString(),
+        status: order.status,
+        note: `Tracking number ${tracking.carrier} ${tracking.number}`,
+        actor,
+      },
+    ],
+  }));
+
+// --------------------------- end of saveOrderTracking ----------------------------
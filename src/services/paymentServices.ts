@@ -0,0 +1,291 @@
+import { PAYMENT_METHODS } from "@/config/checkout";
+import { formatMoney } from "@/lib/money";
+import {
+  applyStatus,
+  canTransition,
+  isPaymentExpired,
+  orderStatusLabel,
+  OrderWorkflowError,
+} from "@/lib/orderWorkflow";
+import { PaymentError } from "@/lib/paymentError";
+import { getPaymentProvider } from "@/lib/paymentProviders";
+import { fetchOrderById, updateOrder } from "@/services/orderServices";
+import { Order } from "@/types/order";
+import {
+  CardDetails,
+  PaymentEvent,
+  PaymentProvider,
+  PaymentStatus,
+} from "@/types/payment";
+
+// Resolve the provider that processes an order's payment method
+const providerFor = (order: Order): PaymentProvider => {
+  const method = PAYMENT_METHODS.find(
+    (paymentMethod) => paymentMethod.id === order.paymentMethodId
+  );
+  const provider = method ? getPaymentProvider(method.provider) : null;
+  if (!provider) {
+    throw new Error(
+      `No payment provider for payment method "${order.paymentMethodId}"`
+    );
+  }
+  return provider;
+};
+
+// Audit trail note for each payment state
+const PAYMENT_NOTES: Record<PaymentStatus, string> = {
+  requires_action: "Waiting for the bank to confirm the payment",
+  authorized: "Payment authorized",
+  captured: "Payment captured",
+  refunded: "Payment refunded",
+  declined: "Payment declined",
+};
+
+// Apply a payment state to an order (and the order status that goes with it)
+// Repeated results (e.g. a refund webhook after `refundOrder`) leave the order and its history alone
+const withPayment = (
+  order: Order,
+  provider: PaymentProvider,
+  transactionId: string,
+  status: PaymentStatus
+): Order => {
+  const orderStatus: Order["status"] =
+    status === "captured"
+      ? "processing"
+      : status === "declined"
+        ? "failed"
+        : status === "refunded"
+          ? "refunded"
+          : "pending";
+
+  return order.status === orderStatus && order.payment?.status === status
+    ? order
+    : {
+        ...applyStatus(order, orderStatus, PAYMENT_NOTES[status], null),
+        payment: { provider: provider.id, transactionId, status },
+      };
+};
+
+// Record the payment state on the order
+const recordPayment = async (
+  order: Order,
+  provider: PaymentProvider,
+  transactionId: string,
+  status: PaymentStatus
+) => {
+  const updated = await updateOrder(order.id, (current) =>
+    withPayment(current, provider, transactionId, status)
+  );
+  return updated!;
+};
+
+/**
+ * Pay for an Order
+ *
+ * ## Purpose
+ * - Runs the payment for a freshly created (`pending`) order with the provider of its payment method.
+ *
+ * ## Parameters
+ * - `order` (Order): The order to charge `order.total` for.
+ * - `card` (CardDetails | null): Card details from the checkout form (credit card payments only).
+ * - `returnUrl` (string): Where the provider sends the customer after a bank confirmation.
+ *
+ * ## Return Value
+ * - A Promise resolving to `{ order, actionUrl }`:
+ *   - Authorized payments are captured straight away and the order moves to `processing`.
+ *   - When the bank wants a confirmation, the order stays `pending` and `actionUrl` is the page the
+ *     customer must visit. The result arrives later through `handlePaymentEvent`.
+ *
+ * ## Error Handling
+ * - A declined payment marks the order `failed` and rethrows the provider's `PaymentError`, whose
+ *   message can be shown to the customer as is.
+ */
+export const payForOrder = async (
+  order: Order,
+  card: CardDetails | null,
+  returnUrl: string
+): Promise<{ order: Order; actionUrl: string | null }> => {
+  const provider = providerFor(order);
+
+  let result;
+  try {
+    result = await provider.authorize({
+      orderId: order.id,
+      amount: order.total,
+      paymentMethodId: order.paymentMethodId,
+      card,
+      returnUrl,
+    });
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      await updateOrder(order.id, (current) =>
+        applyStatus(
+          current,
+          "failed",
+          `${PAYMENT_NOTES.declined}: ${error.message}`,
+          null
+        )
+      );
+    }
+    throw error;
+  }
+
+  if (result.status === "authorized") {
+    result = await provider.capture(result.transactionId);
+  }
+
+  return {
+    order: await recordPayment(
+      order,
+      provider,
+      result.transactionId,
+      result.status
+    ),
+    actionUrl: result.actionUrl,
+  };
+};
+
+// --------------------------- end of payForOrder ----------------------------
+
+/**
+ * Handle a Payment Webhook Event
+ *
+ * ## Purpose
+ * - Applies a verified `PaymentEvent` from `/api/payment-webhook/[provider]` to its order.
+ *
+ * ## Parameters
+ * - `providerId` (string): The provider that sent the event.
+ * - `event` (PaymentEvent): The event returned by `provider.verifyWebhook`.
+ *
+ * ## Implementation Details
+ * - `payment.authorized` captures the payment and moves the order to `processing`. Once the
+ *   order's payment window is over its stock is no longer held, so the payment isn't captured and
+ *   the order is cancelled instead (the uncaptured authorization lapses).
+ * - `payment.declined` marks the order `failed`.
+ * - `payment.refunded` marks the order `refunded`, with the same checks as `refundOrder`: the
+ *   order's status must allow a refund and its payment must have been captured.
+ * - Events that don't fit the order any more are ignored rather than rejected, so providers don't
+ *   retry them: `payment.authorized` / `payment.declined` for a payment that already left
+ *   `requires_action` (or an order that left `pending`), and `payment.refunded` for an order that
+ *   can't be refunded. Providers can safely deliver the same event twice.
+ * - Each event is checked and applied inside one `updateOrder`, with the capture in between, so two
+ *   deliveries of the same event can't both capture the payment.
+ *
+ * ## Error Handling
+ * - Throws a `PaymentError` (`invalid_state`) when the event doesn't match the order's payment.
+ */
+export const handlePaymentEvent = async (
+  providerId: string,
+  event: PaymentEvent
+): Promise<Order> => {
+  const order = await fetchOrderById(event.orderId);
+  if (
+    !order?.payment ||
+    order.payment.provider !== providerId ||
+    order.payment.transactionId !== event.transactionId
+  ) {
+    throw new PaymentError("invalid_state", "Unknown payment.");
+  }
+  const provider = providerFor(order);
+
+  const updated = await updateOrder(order.id, async (current) => {
+    const awaitsPayment =
+      current.status === "pending" &&
+      current.payment?.status === "requires_action";
+
+    switch (event.type) {
+      case "payment.authorized": {
+        if (!awaitsPayment) return current;
+        if (isPaymentExpired(current)) {
+          return applyStatus(
+            current,
+            "cancelled",
+            "Payment confirmed after the payment window closed; not captured",
+            null
+          );
+        }
+        const result = await provider.capture(event.transactionId);
+        return withPayment(
+          current,
+          provider,
+          result.transactionId,
+          result.status
+        );
+      }
+      case "payment.declined":
+        if (!awaitsPayment) return current;
+        return withPayment(current, provider, event.transactionId, "declined");
+      case "payment.refunded":
+        if (
+          !canTransition(current.status, "refunded") ||
+          current.payment?.status !== "captured"
+        ) {
+          return current; // Not refundable, or already refunded
+        }
+        return withPayment(current, provider, event.transactionId, "refunded");
+    }
+  });
+  return updated!;
+};
+
+// --------------------------- end of handlePaymentEvent ----------------------------
+
+/**
+ * Refund an Order (admin)
+ *
+ * ## Purpose
+ * - Returns the whole payment of an order through the provider that took it, then marks the order
+ *   `refunded`. This is the only way into `refunded` besides the provider's own refund webhook.
+ *
+ * ## Parameters
+ * - `orderId` (string): The order to refund.
+ * - `note` (string): The admin's reason for the audit trail (a default is used when empty).
+ * - `actor` (string): Email of the admin issuing the refund.
+ *
+ * ## Return Value
+ * - A Promise resolving to the refunded `Order`, or `null` if no order has that id.
+ *
+ * ## Error Handling
+ * - Throws an `OrderWorkflowError` when the order's status can't be refunded (e.g. it was never
+ *   paid) or its payment isn't captured.
+ * - Rethrows the provider's `PaymentError` when the refund is refused; the order is left unchanged.
+ *
+ * ## Implementation Details
+ * - The status check and the provider's refund run inside `updateOrder`, one order update at a time,
+ *   so concurrent changes to the order are seen before the money is returned.
+ */
+export const refundOrder = async (
+  orderId: string,
+  note: string,
+  actor: string
+): Promise<Order | null> => {
+  const order = await fetchOrderById(orderId);
+  if (!order) return null;
+  const provider = providerFor(order);
+
+  return updateOrder(order.id, async (current) => {
+    if (!canTransition(current.status, "refunded")) {
+      throw new OrderWorkflowError(
+        `An order that is "${orderStatusLabel(current.status)}" can't be refunded.`
+      );
+    }
+    if (current.payment?.status !== "captured") {
+      throw new OrderWorkflowError(
+        "This order has no captured payment to refund."
+      );
+    }
+
+    const result = await provider.refund(current.payment.transactionId);
+    return {
+      ...applyStatus(
+        current,
+        "refunded",
+        note || `Refunded ${formatMoney(current.total)}`,
+        actor
+      ),
+      payment: { ...current.payment, status: result.status },
+    };
+  });
+};
+
+// --------------------------- end of refundOrder ----------------------------
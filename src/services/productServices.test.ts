@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { startMockWordPressServer } from "../../mock-server";
+
+// Runs the product services against the mock WordPress server (`mock-server`), with an empty
+// JSON store. Both read their settings when first imported, so the services are imported here.
+describe("productServices against the mock WordPress server", () => {
+  let services: typeof import("@/services/productServices");
+  let server: Awaited<ReturnType<typeof startMockWordPressServer>>;
+  let dataDir: string;
+
+  before(async () => {
+    server = await startMockWordPressServer(0);
+    dataDir = await mkdtemp(path.join(tmpdir(), "product-services-"));
+    process.env.NEXT_PUBLIC_WORDPRESS_API_URL = server.url;
+    process.env.NEXT_PUBLIC_USE_DEMO_PRODUCTS = "false";
+    process.env.DATA_DIR = dataDir;
+    services = await import("@/services/productServices");
+  });
+
+  after(async () => {
+    await server.close();
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("pages through the catalog with cursors", async () => {
+    const first = await services.fetchProducts(3, null);
+    assert.deepEqual(
+      first.items.map((product) => product.slug),
+      ["diner-for-2", "lobster-dinner", "shechuan-dimsum"]
+    );
+    assert.equal(first.hasNextPage, true);
+
+    const rest = await services.fetchProducts(10, first.endCursor);
+    assert.equal(rest.items.length, 5);
+    assert.equal(rest.items[0].slug, "grilled-lamb-shank");
+    assert.equal(rest.hasNextPage, false);
+  });
+
+  it("looks products up by slug", async () => {
+    const { product } = await services.fetchProductBySlug("lobster-dinner");
+    assert.equal(product?.slug, "lobster-dinner");
+    assert.equal(product?.price.currency, "USD");
+
+    const missing = await services.fetchProductBySlug("no-such-product");
+    assert.equal(missing.product, null);
+  });
+});
@@ -0,0 +1,630 @@
+import { fetchGraphQL } from "@/lib/graphqlClient";
+import { readCollection, updateCollection } from "@/lib/jsonStore";
+import { toMoney } from "@/lib/money";
+import { ProductFields } from "@/lib/productValidation";
+import {
+  GetAllProductSlugsQuery,
+  GetAllProductSlugsQueryVariables,
+  GetProductsWithPaginationQuery,
+  GetProductsWithPaginationQueryVariables,
+  GetSingleProductByIdQuery,
+  GetSingleProductByIdQueryVariables,
+  GetSingleProductBySlugQuery,
+  GetSingleProductBySlugQueryVariables,
+  ProductCardFragment,
+  ProductVariationFragment,
+  StockStatusEnum,
+} from "@/graphql/generated";
+import { GRAPHQL_QUERY_GET_ALL_PRODUCTS } from "@/graphql/queries/products/getAllProducts";
+import { GRAPHQL_QUERY_GET_PRODUCT_BY_SLUG } from "@/graphql/queries/products/getProductBySlug";
+import { GRAPHQL_QUERY_GET_PRODUCT_BY_ID } from "@/graphql/queries/products/getProductById";
+import { GRAPHQL_QUERY_GET_ALL_PRODUCT_SLUGS } from "@/graphql/queries/products/getAllProductSlugs";
+import { products as demoProducts } from "@/demo-data/data";
+import { CatalogEntry, Product, ProductVariation } from "@/types/product";
+import { TaxClass } from "@/types/tax";
+
+/**
+ * Demo Catalog Fallback
+ *
+ * ## Purpose
+ * - When `NEXT_PUBLIC_USE_DEMO_PRODUCTS=true`, every service below serves `demo-data/data.ts`
+ *   instead of querying WooCommerce. Useful offline when even the mock server isn't running.
+ */
+const USE_DEMO_PRODUCTS = process.env.NEXT_PUBLIC_USE_DEMO_PRODUCTS === "true";
+
+/**
+ * Admin Catalog Changes
+ *
+ * ## Purpose
+ * - Products created, edited or deleted in the admin (`/admin-dashboard/products`) are stored in the
+ *   JSON file store, not written back to WooCommerce. Every service below applies them on top of
+ *   the WooCommerce (or demo) catalog, so the shop, cart and checkout all see the same products.
+ * - Edits to WooCommerce products only keep the fields the admin changed, merged over the live
+ *   product: later WooCommerce changes to anything else (prices of variations, stock the admin
+ *   didn't touch, images, ...) still show.
+ */
+const CATALOG_COLLECTION = "catalog-products";
+
+// Products created in the admin get ids from here up, clear of WooCommerce's `databaseId`s
+const FIRST_LOCAL_PRODUCT_ID = 1_000_000;
+
+const fetchCatalogEntries = () =>
+  readCollection<CatalogEntry>(CATALOG_COLLECTION);
+
+// A catalog product with the admin's change to it (`null` when deleted)
+const applyCatalogEntry = (
+  product: Product,
+  entry: CatalogEntry | undefined
+): Product | null => {
+  if (!entry) return product;
+  if (entry.deleted) return null;
+  return { ...product, ...entry.changes };
+};
+
+// Apply the admin's edits and drop deleted products
+const applyCatalogEntries = (
+  products: Product[],
+  entries: CatalogEntry[]
+): Product[] =>
+  products.flatMap((product) => {
+    const applied = applyCatalogEntry(
+      product,
+      entries.find((item) => item.id === product.id)
+    );
+    return applied ? [applied] : [];
+  });
+
+// The admin form fields that differ from the catalog product
+const changedFields = (
+  product: Product,
+  fields: ProductFields
+): Partial<Product> =>
+  Object.fromEntries(
+    Object.entries(fields).filter(
+      ([key, value]) =>
+        JSON.stringify(value) !== JSON.stringify(product[key as keyof Product])
+    )
+  );
+
+// Products created in the admin and not deleted since
+const localProducts = (entries: CatalogEntry[]) =>
+  entries
+    .filter((entry) => entry.isLocal && !entry.deleted)
+    .map((entry) => entry.product);
+
+const slugify = (name: string) =>
+  name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "") // Drop accents
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "") || "product";
+
+// WooCommerce has no lead time field, so every product ships on the same schedule
+const DEFAULT_LEAD_TIME = "7 days";
+
+// WooCommerce `TaxClassEnum` → our `TaxClass` (`INHERIT_PARENT` only applies to variations)
+const TAX_CLASSES: Record<string, TaxClass> = {
+  REDUCED_RATE: "reduced-rate",
+  ZERO_RATE: "zero-rate",
+};
+
+// Units that can be sold: none when out of stock, unlimited on backorder or when stock isn't managed
+const mapStockQuantity = (node: {
+  stockStatus: StockStatusEnum | null;
+  stockQuantity: number | null;
+  manageStock: boolean | null;
+}): number | null => {
+  if (node.stockStatus === "OUT_OF_STOCK") return 0;
+  if (node.stockStatus === "ON_BACKORDER" || !node.manageStock) return null;
+  return Math.max(node.stockQuantity ?? 0, 0);
+};
+
+const stripHtml = (html: string) =>
+  html
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .trim();
+
+// Map a WooCommerce ProductVariation into our `ProductVariation` type
+const mapWooVariation = (
+  node: ProductVariationFragment,
+  parentName: string
+): ProductVariation => ({
+  id: node.databaseId,
+  name: node.name || parentName,
+  price: toMoney(node.price || "0"),
+  inStock: node.stockStatus === "IN_STOCK",
+  stockQuantity: mapStockQuantity(node),
+  imageSrc: node.image?.sourceUrl || "",
+  imageAlt: node.image?.altText || node.name || parentName,
+  attributes: Object.fromEntries(
+    (node.attributes?.nodes || []).map((attribute) => [
+      attribute.name || "",
+      attribute.value || "",
+    ])
+  ),
+});
+
+/**
+ * Map a WooCommerce Product into our `Product` type
+ *
+ * ## Purpose
+ * - Converts a `ProductCard` fragment (`SimpleProduct` or `VariableProduct`) into the flat
+ *   `Product` shape the shop, cart and checkout components render.
+ *
+ * ## Mapping
+ * - `id` ← `databaseId` (numeric, used as the cart item key).
+ * - `price` ← RAW `price` as `Money` in `STORE_CURRENCY`. Variable products return a `"min,max"` range,
+ *   so the lowest price is used.
+ * - `color` ← first product category (rendered as the product's subtitle).
+ * - `breadcrumbs` ← `productCategories`.
+ * - `inStock` ← `stockStatus` is `IN_STOCK` (`ON_BACKORDER` products ship after their lead time).
+ * - `stockQuantity` ← `stockQuantity` when `manageStock` is on, `0` when `OUT_OF_STOCK`, `null`
+ *   (unlimited) on backorder or when stock isn't managed.
+ * - `taxClass` ← `taxClass`, `standard` when unset.
+ * - `weight` ← `weight` (kg), `0` when unset.
+ * - `description` ← `description` with the HTML stripped.
+ * - `attributes` ← the `VariableProduct` attributes used for variations, `[]` for simple products.
+ * - `variations` ← `VariableProduct.variations`; a variation without its own image uses the product's.
+ */
+export const mapWooProduct = (node: ProductCardFragment): Product => {
+  const rawPrice = node.price?.split(",")[0]?.trim();
+  const categories = node.productCategories?.nodes || [];
+  const name = node.name || "";
+  const imageSrc = node.image?.sourceUrl || "";
+
+  return {
+    id: node.databaseId,
+    slug: node.slug || String(node.databaseId),
+    name,
+    color: categories[0]?.name || "",
+    price: toMoney(rawPrice || "0"),
+    inStock: node.stockStatus === "IN_STOCK",
+    stockQuantity: mapStockQuantity(node),
+    leadTime: DEFAULT_LEAD_TIME,
+    taxClass: TAX_CLASSES[node.taxClass || ""] || "standard",
+    weight: Number(node.weight) || 0,
+    description: stripHtml(node.description || ""),
+    imageSrc,
+    imageAlt: node.image?.altText || node.name || "",
+    breadcrumbs: categories.map((category) => ({
+      id: category.databaseId,
+      name: category.name || "",
+    })),
+    attributes:
+      "attributes" in node
+        ? (node.attributes?.nodes || [])
+            .filter((attribute) => attribute.variation)
+            .map((attribute) => ({
+              name: attribute.name || "",
+              label: attribute.label || attribute.name || "",
+              options: (attribute.options || []).filter(
+                (option): option is string => Boolean(option)
+              ),
+            }))
+        : [],
+    variations:
+      "variations" in node
+        ? (node.variations?.nodes || []).map((variation) => {
+            const mapped = mapWooVariation(variation, name);
+            return { ...mapped, imageSrc: mapped.imageSrc || imageSrc };
+          })
+        : [],
+  };
+};
+
+// ---------------- end of mapWooProduct ----------------------------------
+
+/**
+ * Fetch Products with Pagination
+ *
+ * ## Purpose
+ * - Retrieve a page of WooCommerce products for the server-rendered shop listing.
+ * - Supports "Load More" by fetching products page by page with cursors.
+ *
+ * ## Parameters
+ * - `first` (number): Number of products to fetch in the current request.
+ * - `after` (string | null): Cursor for the next page of products. Use `null` for the first page.
+ *
+ * ## Return Value
+ * - A Promise that resolves to an object containing:
+ *   - `items` (Product[]): Array of products mapped with `mapWooProduct`.
+ *   - `hasNextPage` (boolean): Indicates if more products are available.
+ *   - `endCursor` (string | null): Cursor for fetching the next page.
+ *
+ * ## Example Usage
+ * ```typescript
+ * const { items, hasNextPage, endCursor } = await fetchProducts(8, null);
+ * ```
+ *
+ * ## Implementation Details
+ * - **Caching**: Revalidates every 60 seconds and is tagged `products` for on-demand revalidation.
+ * - **Admin Changes**: Edited products replace their WooCommerce version and deleted ones are left
+ *   out (so a page can come back short). Products created in the admin lead the first page.
+ * - **Error Handling**: Throws a `GraphQLClientError` if the API request fails or returns GraphQL errors.
+ */
+export interface ProductsResponse {
+  items: Product[];
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+const fetchSourceProducts = async (
+  first: number,
+  after: string | null
+): Promise<ProductsResponse> => {
+  if (USE_DEMO_PRODUCTS) {
+    const start = after ? Number(after) : 0;
+    const end = start + first;
+    return {
+      items: demoProducts.slice(start, end),
+      hasNextPage: end < demoProducts.length,
+      endCursor: String(end),
+    };
+  }
+
+  const data = await fetchGraphQL<
+    GetProductsWithPaginationQuery,
+    GetProductsWithPaginationQueryVariables
+  >(
+    GRAPHQL_QUERY_GET_ALL_PRODUCTS,
+    { first, after },
+    { revalidate: 60, tags: ["products"] } // Revalidate the cached data every 60 seconds
+  );
+
+  return {
+    items: (data.products?.nodes || []).map(mapWooProduct),
+    hasNextPage: data.products?.pageInfo?.hasNextPage || false,
+    endCursor: data.products?.pageInfo?.endCursor || null,
+  };
+};
+
+export const fetchProducts = async (
+  first: number,
+  after: string | null
+): Promise<ProductsResponse> => {
+  const [page, entries] = await Promise.all([
+    fetchSourceProducts(first, after),
+    fetchCatalogEntries(),
+  ]);
+
+  return {
+    ...page,
+    items: [
+      ...(after ? [] : localProducts(entries)),
+      ...applyCatalogEntries(page.items, entries),
+    ],
+  };
+};
+
+// --------------------------- end of fetchProducts ----------------------------
+
+// Service function to fetch every product, for the admin catalog
+export const fetchAllProducts = async (): Promise<Product[]> => {
+  const products: Product[] = [];
+  let hasNextPage = true;
+  let endCursor: string | null = null;
+
+  while (hasNextPage) {
+    const page: ProductsResponse = await fetchProducts(100, endCursor);
+    products.push(...page.items);
+    hasNextPage = page.hasNextPage;
+    endCursor = page.endCursor;
+  }
+
+  return products;
+};
+
+// --------------------------- end of fetchAllProducts ----------------------------
+
+/**
+ * Fetch Single Product by Slug
+ *
+ * ## Purpose
+ * - Retrieve a single WooCommerce product for the `/shop/[slug]` page.
+ *
+ * ## Parameters
+ * - `slug` (string): The product slug.
+ *
+ * ## Return Value
+ * - A Promise resolving to `{ product }`, where `product` is `null` if no product matches.
+ *
+ * ## Implementation Details
+ * - **Caching**: Revalidates every 60 seconds and is tagged `products`.
+ * - **Admin Changes**: Products created in the admin are served from the JSON store, edits are
+ *   merged over the WooCommerce product and deleted products resolve to `null`.
+ * - **Error Handling**: Throws a `GraphQLClientError` if the API request fails or returns GraphQL errors.
+ */
+interface SingleProductResponse {
+  product: Product | null;
+}
+
+const fetchSourceProductBySlug = async (
+  slug: string
+): Promise<Product | null> => {
+  if (USE_DEMO_PRODUCTS) {
+    return demoProducts.find((product) => product.slug === slug) || null;
+  }
+
+  const data = await fetchGraphQL<
+    GetSingleProductBySlugQuery,
+    GetSingleProductBySlugQueryVariables
+  >(
+    GRAPHQL_QUERY_GET_PRODUCT_BY_SLUG,
+    { slug },
+    { revalidate: 60, tags: ["products"] } // Revalidate the cached data every 60 seconds
+  );
+
+  return data.product ? mapWooProduct(data.product) : null;
+};
+
+export const fetchProductBySlug = async (
+  slug: string
+): Promise<SingleProductResponse> => {
+  const entries = await fetchCatalogEntries();
+  const local = entries.find(
+    (item) => item.isLocal && item.product.slug === slug
+  );
+  if (local) {
+    return { product: local.deleted ? null : local.product };
+  }
+
+  const product = await fetchSourceProductBySlug(slug);
+  return {
+    product: product
+      ? applyCatalogEntry(
+          product,
+          entries.find((item) => item.id === product.id)
+        )
+      : null,
+  };
+};
+
+// --------------------------- end of fetchProductBySlug ----------------------------
+
+/**
+ * Fetch Single Product by ID
+ *
+ * ## Purpose
+ * - Retrieve a single WooCommerce product by its `databaseId` (the id stored on cart lines).
+ * - Used by checkout to re-price cart lines on the server instead of trusting the browser.
+ *
+ * ## Parameters
+ * - `id` (number): The product `databaseId`.
+ *
+ * ## Return Value
+ * - A Promise resolving to `{ product }`, where `product` is `null` if no product matches.
+ *
+ * ## Implementation Details
+ * - **Caching**: Not cached (`no-store`), so orders are always priced with the current price.
+ * - **Admin Changes**: Applied as in `fetchProductBySlug`.
+ * - **Error Handling**: Throws a `GraphQLClientError` if the API request fails or returns GraphQL errors.
+ */
+const fetchSourceProductById = async (id: number): Promise<Product | null> => {
+  if (USE_DEMO_PRODUCTS) {
+    return demoProducts.find((product) => product.id === id) || null;
+  }
+
+  const data = await fetchGraphQL<
+    GetSingleProductByIdQuery,
+    GetSingleProductByIdQueryVariables
+  >(GRAPHQL_QUERY_GET_PRODUCT_BY_ID, { id: String(id) }, { cache: "no-store" });
+
+  return data.product ? mapWooProduct(data.product) : null;
+};
+
+export const fetchProductById = async (
+  id: number
+): Promise<SingleProductResponse> => {
+  const entry = (await fetchCatalogEntries()).find((item) => item.id === id);
+  if (entry?.isLocal) {
+    return { product: entry.deleted ? null : entry.product };
+  }
+
+  const product = await fetchSourceProductById(id);
+  return { product: product ? applyCatalogEntry(product, entry) : null };
+};
+
+// --------------------------- end of fetchProductById ----------------------------
+
+/**
+ * Fetch Products by ID
+ *
+ * ## Purpose
+ * - Retrieve the current version of several products at once, so the browser can reconcile a
+ *   persisted cart with the catalog (`/api/get-products-by-ids`).
+ *
+ * ## Parameters
+ * - `ids` (number[]): Product `databaseId`s.
+ *
+ * ## Return Value
+ * - A Promise resolving to the products that still exist; deleted ones are left out.
+ *
+ * ## Implementation Details
+ * - One `fetchProductById` request per id, in parallel (carts hold a handful of products).
+ */
+export const fetchProductsByIds = async (ids: number[]): Promise<Product[]> => {
+  const results = await Promise.all(ids.map((id) => fetchProductById(id)));
+  return results.flatMap(({ product }) => (product ? [product] : []));
+};
+
+// --------------------------- end of fetchProductsByIds ----------------------------
+
+const fetchSourceProductSlugs = async (): Promise<string[]> => {
+  if (USE_DEMO_PRODUCTS) {
+    return demoProducts.map((product) => product.slug);
+  }
+
+  const slugs: string[] = [];
+  let hasNextPage = true;
+  let endCursor: string | null = null;
+
+  while (hasNextPage) {
+    const data: GetAllProductSlugsQuery = await fetchGraphQL<
+      GetAllProductSlugsQuery,
+      GetAllProductSlugsQueryVariables
+    >(GRAPHQL_QUERY_GET_ALL_PRODUCT_SLUGS, { first: 100, after: endCursor });
+
+    if (!data.products) break;
+    const { nodes, pageInfo } = data.products;
+
+    slugs.push(...nodes.flatMap((node) => (node.slug ? [node.slug] : [])));
+
+    hasNextPage = pageInfo.hasNextPage;
+    endCursor = pageInfo.endCursor;
+  }
+
+  return slugs;
+};
+
+// Service function to fetch all product slugs (for generateStaticParams)
+export const fetchAllProductSlugs = async (): Promise<string[]> => {
+  const [slugs, entries] = await Promise.all([
+    fetchSourceProductSlugs(),
+    fetchCatalogEntries(),
+  ]);
+  const deleted = new Set(
+    entries.filter((entry) => entry.deleted).map((entry) => entry.product.slug)
+  );
+
+  return [
+    ...localProducts(entries).map((product) => product.slug),
+    ...slugs.filter((slug) => !deleted.has(slug)),
+  ];
+};
+
+// --------------------------- end of fetchAllProductSlugs ----------------------------
+
+// Store an admin change to one product
+// The catalog entries with the entry of `entry.id` replaced (inside `updateCollection`)
+const withCatalogEntry = (
+  entries: CatalogEntry[],
+  entry: Omit<CatalogEntry, "updatedAt">
+): CatalogEntry[] => [
+  ...entries.filter((item) => item.id !== entry.id),
+  { ...entry, updatedAt: new Date().toISOString() },
+];
+
+/**
+ * Create a Product (admin)
+ *
+ * ## Parameters
+ * - `fields` (ProductFields): The admin form, validated by `parseProductForm`.
+ *
+ * ## Return Value
+ * - A Promise resolving to the new `Product`: a simple product with a local id, a slug made from
+ *   its name (numbered when taken, deleted products included) and the standard tax class.
+ */
+export const createProduct = async (
+  fields: ProductFields
+): Promise<Product> => {
+  const takenSlugs = new Set([
+    ...(await fetchSourceProductSlugs()),
+    ...(await fetchCatalogEntries()).map((entry) => entry.product.slug),
+  ]);
+  const baseSlug = slugify(fields.name);
+  let slug = baseSlug;
+  for (let suffix = 2; takenSlugs.has(slug); suffix++) {
+    slug = `${baseSlug}-${suffix}`;
+  }
+
+  let created: Product | null = null;
+  await updateCollection<CatalogEntry>(CATALOG_COLLECTION, (entries) => {
+    const id = Math.max(
+      FIRST_LOCAL_PRODUCT_ID - 1,
+      ...entries.filter((entry) => entry.isLocal).map((entry) => entry.id)
+    );
+    created = {
+      id: id + 1,
+      slug,
+      ...fields,
+      taxClass: "standard",
+      weight: 0,
+      attributes: [],
+      variations: [],
+    };
+    return [
+      ...entries,
+      {
+        id: created.id,
+        product: created,
+        changes: {},
+        isLocal: true,
+        deleted: false,
+        updatedAt: new Date().toISOString(),
+      },
+    ];
+  });
+  return created!;
+};
+
+// --------------------------- end of createProduct ----------------------------
+
+// Service function to save the admin form over a product; resolves with `null` when it doesn't exist
+// Slug, tax class, weight and variations stay as they are; WooCommerce products keep only the
+// fields that differ from the live product. The live product is fetched first, then the stored
+// entry is read and written in one `updateCollection`, so concurrent edits and deletes aren't lost
+export const updateProduct = async (
+  id: number,
+  fields: ProductFields
+): Promise<Product | null> => {
+  const entry = (await fetchCatalogEntries()).find((item) => item.id === id);
+  const source = entry?.isLocal ? null : await fetchSourceProductById(id);
+
+  let updated: Product | null = null;
+  await updateCollection<CatalogEntry>(CATALOG_COLLECTION, (entries) => {
+    const current = entries.find((item) => item.id === id);
+    if (current?.deleted) return entries;
+
+    if (current?.isLocal) {
+      updated = { ...current.product, ...fields };
+      return withCatalogEntry(entries, { ...current, product: updated });
+    }
+
+    if (!source) return entries;
+    const changes = changedFields(source, fields);
+    updated = { ...source, ...changes };
+    return withCatalogEntry(entries, {
+      id,
+      product: source,
+      changes,
+      isLocal: false,
+      deleted: false,
+    });
+  });
+  return updated;
+};
+
+// --------------------------- end of updateProduct ----------------------------
+
+// Service function to remove a product from the shop; resolves with `false` when it doesn't exist
+// The stored entry keeps its product and changes, so only the `deleted` flag changes
+export const deleteProduct = async (id: number): Promise<boolean> => {
+  const entry = (await fetchCatalogEntries()).find((item) => item.id === id);
+  const source = entry?.isLocal ? null : await fetchSourceProductById(id);
+
+  let deleted = false;
+  await updateCollection<CatalogEntry>(CATALOG_COLLECTION, (entries) => {
+    const current = entries.find((item) => item.id === id);
+    if (current?.deleted) return entries;
+
+    if (current?.isLocal) {
+      deleted = true;
+      return withCatalogEntry(entries, { ...current, deleted: true });
+    }
+
+    if (!source) return entries;
+    deleted = true;
+    return withCatalogEntry(entries, {
+      id,
+      product: source,
+      changes: current?.changes || {},
+      isLocal: false,
+      deleted: true,
+    });
+  });
+  return deleted;
+};
+
+// --------------------------- end of deleteProduct ----------------------------
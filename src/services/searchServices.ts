@@ -0,0 +1,104 @@
+import { unstable_cache } from "next/cache";
+import {
+  MAX_SEARCH_LENGTH,
+  SEARCH_INDEX_SECONDS,
+  SEARCH_RESULT_LIMIT,
+} from "@/config/commands";
+import { fetchAllBlogPosts } from "@/services/blogServices";
+import { fetchAllProducts } from "@/services/productServices";
+import { SearchResult, SearchResults } from "@/types/command";
+
+// A search result with the lowercased text it's found by
+interface SearchEntry {
+  result: SearchResult;
+  text: string;
+}
+
+const formatPostDate = (isoDate: string) =>
+  new Intl.DateTimeFormat("en-US", { dateStyle: "medium" }).format(
+    new Date(isoDate)
+  );
+
+// Products by name or category, posts by title
+const buildSearchIndex = async (): Promise<{
+  products: SearchEntry[];
+  posts: SearchEntry[];
+}> => {
+  const [products, posts] = await Promise.all([
+    fetchAllProducts(),
+    fetchAllBlogPosts(),
+  ]);
+
+  return {
+    products: products.map((product) => {
+      const categories = product.breadcrumbs.map((category) => category.name);
+      return {
+        result: {
+          id: `product-${product.id}`,
+          title: product.name,
+          href: `/shop/${product.slug}`,
+          description: categories.join(", "),
+          imageSrc: product.imageSrc || null,
+        },
+        text: [product.name, ...categories].join("\n").toLowerCase(),
+      };
+    }),
+    posts: posts
+      .filter((post) => post.slug)
+      .map((post) => ({
+        result: {
+          id: `post-${post.databaseId}`,
+          title: post.title || post.slug!,
+          href: `/blog/${post.slug}`,
+          description: post.date ? formatPostDate(post.date) : "",
+          imageSrc: post.featuredImage?.node.sourceUrl || null,
+        },
+        text: (post.title || "").toLowerCase(),
+      })),
+  };
+};
+
+// Shared by every search until it's `SEARCH_INDEX_SECONDS` old or the catalog changes
+const fetchSearchIndex = unstable_cache(buildSearchIndex, ["search-index"], {
+  revalidate: SEARCH_INDEX_SECONDS,
+  tags: ["products"],
+});
+
+/**
+ * Search Products and Blog Posts
+ *
+ * ## Purpose
+ * - Finds what the command palette offers besides its pages: products by name or category, and
+ *   blog posts by title.
+ *
+ * ## Parameters
+ * - `query` (string): What the visitor typed; matched case-insensitively anywhere in the text.
+ *   Only the first `MAX_SEARCH_LENGTH` characters are used.
+ *
+ * ## Return Value
+ * - A Promise resolving to up to `SEARCH_RESULT_LIMIT` products and posts, each with the page to
+ *   open.
+ *
+ * ## Implementation Details
+ * - The WordPress schema snapshot has no search arguments, so the whole catalog and blog are read
+ *   into an index that searches share (`unstable_cache`). It's rebuilt every
+ *   `SEARCH_INDEX_SECONDS`, and straight away when an admin changes the catalog (the `products`
+ *   tag), so searching never crawls WordPress once per keystroke. Deleted products never match.
+ *
+ * ## Error Handling
+ * - Throws a `GraphQLClientError` if WooCommerce or WordPress can't be reached.
+ */
+export const searchSite = async (query: string): Promise<SearchResults> => {
+  const needle = query.trim().slice(0, MAX_SEARCH_LENGTH).toLowerCase();
+  const find = (entries: SearchEntry[]) =>
+    entries
+      .filter((entry) => entry.text.includes(needle))
+      .slice(0, SEARCH_RESULT_LIMIT)
+      .map((entry) => entry.result);
+
+  const index = await fetchSearchIndex();
+
+  return { products: find(index.products), posts: find(index.posts) };
+};
+
+// --------------------------- end of searchSite ----------------------------
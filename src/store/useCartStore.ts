@@ -1,7 +1,24 @@
+import { useEffect } from "react";
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
-import { products } from "@/demo-data/data";
-import { CartDetail, CartItem } from "@/types/cart";
+import { useProductStore } from "@/store/useProductStore";
+import {
+  convertMoney,
+  formatMoney,
+  multiplyMoney,
+  STORE_CURRENCY,
+  sumMoney,
+} from "@/lib/money";
+import { maxOrderQuantity } from "@/lib/inventory";
+import { reconcileCart } from "@/lib/cartReconciliation";
+import { CART_STORAGE_VERSION, migrateCartStorage } from "@/lib/cartStorage";
+import { MAX_PER_ORDER } from "@/config/inventory";
+import { useCurrencyStore } from "@/store/useCurrencyStore";
+import { CartDetail, CartItem, CartNotice, ServerCart } from "@/types/cart";
+import { Money } from "@/types/money";
+import { PromotionResult } from "@/types/promotion";
+import { StockShortage } from "@/types/inventory";
+import { Product } from "@/types/product";
 
 // Type for the Zustand store
 interface CartStore {
@@ -11,15 +28,129 @@ interface CartStore {
   setIsLoading: (loading: boolean) => void; // To Set loading state
   setIsCartOpen: (isOpen: boolean) => void; // Toggle the cart drawer
   setCartItems: (newCartItems: CartItem[]) => void; // Directly update cart items
-  getItemQuantity: (itemId: number) => number; // Get the quantity of a specific item
-  increaseCartQuantity: (itemId: number) => void; // Increment the quantity of a specific item
-  decreaseCartQuantity: (itemId: number) => void; // Decrement the quantity of a specific item
-  removeFromCart: (itemId: number) => void; // Remove an item from the cart
+  updateCartQuantity: (
+    productId: number,
+    variationId: number | null,
+    quantity: number
+  ) => void; // Set the quantity of a specific line (capped like `setCartItems`)
+  getItemQuantity: (productId: number, variationId?: number | null) => number; // Get the quantity of a specific line
+  increaseCartQuantity: (
+    productId: number,
+    variationId?: number | null
+  ) => void; // Increment the quantity of a specific line
+  decreaseCartQuantity: (
+    productId: number,
+    variationId?: number | null
+  ) => void; // Decrement the quantity of a specific line
+  removeFromCart: (productId: number, variationId?: number | null) => void; // Remove a line from the cart
   clearCart: () => void; // Clear the entire cart
   cartDetails: () => CartDetail[]; // Get detailed cart items with product info
-  subtotal: () => number; // Calculate the subtotal of all items in the cart
+  subtotal: (currency?: string) => Money; // Calculate the subtotal of all items, in `currency` (defaults to the store currency)
+  couponCodes: string[]; // Coupon codes the customer applied (persisted)
+  promotions: PromotionResult | null; // The server's latest promotion quote for the cart
+  applyCoupon: (code: string) => Promise<string | null>; // Add a code if it applies; resolves with the reason it doesn't
+  removeCoupon: (code: string) => void; // Remove an applied code
+  refreshPromotions: () => Promise<void>; // Re-quote the promotions for the current cart, codes and currency
+  maxQuantity: (productId: number, variationId?: number | null) => number; // Most units of a line the cart accepts (catalog stock and per-order limit)
+  stockShortages: StockShortage[]; // Lines the server reported as unavailable in the requested quantity
+  setStockShortages: (shortages: StockShortage[]) => void; // Replace the reported shortages
+  checkStock: () => Promise<void>; // Ask the server which lines can't be bought as they are
+  reservationId: string | null; // The checkout's stock reservation (persisted, so a reload renews it)
+  reserveStock: () => Promise<boolean>; // Reserve the cart's stock for checkout; `false` when part of it is unavailable
+  cartNotices: CartNotice[]; // Changes made by the last reconciliation, until the customer dismisses them
+  dismissCartNotices: () => void; // Clear the notices
+  reconcileCart: () => Promise<void>; // Check the cart against the current catalog (removed products, stock, prices)
+  addCartItems: (items: CartItem[]) => Promise<void>; // Add several lines at once (e.g. a reorder), then reconcile and open the drawer
+  cartUpdatedAt: string | null; // When the cart last changed in this browser (persisted), compared with the server copy
+  loadServerCart: () => Promise<void>; // Take the server's cart when it's newer, otherwise upload this one
 }
 
+// Store-currency price of a line, from the product cache
+const unitPriceOf = (productId: number, variationId: number | null) => {
+  const product = useProductStore
+    .getState()
+    .products.find((p) => p.id === productId);
+  const variation = product?.variations.find((v) => v.id === variationId);
+  return variation?.price || product?.price || null;
+};
+
+// Cart lines are keyed by product + variation, so two sizes of one product are separate lines
+const isCartLine = (
+  item: CartItem,
+  productId: number,
+  variationId: number | null
+) => item.id === productId && item.variationId === variationId;
+
+// Ask the server which promotions apply; coupon rules never leave the server
+const fetchPromotions = async (
+  cartItems: CartItem[],
+  couponCodes: string[]
+): Promise<PromotionResult> => {
+  const response = await fetch("/api/apply-promotions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      items: cartItems,
+      couponCodes,
+      currency: useCurrencyStore.getState().currency,
+    }),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || `Status ${response.status}`);
+  }
+  return result;
+};
+
+// Post the cart to a stock endpoint; 409 responses carry the shortages
+const postStockRequest = async (
+  url: string,
+  cartItems: CartItem[],
+  reservationId: string | null
+) => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ items: cartItems, reservationId }),
+  });
+  const result = await response.json();
+  if (!response.ok && !result.shortages) {
+    throw new Error(result.error || `Status ${response.status}`);
+  }
+  return result;
+};
+
+// Fetch the current catalog entries of the cart's products (deleted products are left out)
+const fetchCartProducts = async (cartItems: CartItem[]): Promise<Product[]> => {
+  const ids = Array.from(new Set(cartItems.map((item) => item.id)));
+  const response = await fetch(`/api/get-products-by-ids?ids=${ids.join(",")}`);
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || `Status ${response.status}`);
+  }
+  return result.products;
+};
+
+// The cart saved on the server for this session (see `/api/cart`)
+const requestServerCart = async (
+  method: "GET" | "PUT",
+  cart?: Pick<ServerCart, "items" | "couponCodes">
+): Promise<ServerCart> => {
+  const response = await fetch("/api/cart", {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: cart ? JSON.stringify(cart) : undefined,
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || `Status ${response.status}`);
+  }
+  return result.cart;
+};
+
+// Only the latest quote is kept when the cart changes faster than the server answers
+let latestQuote = 0;
+
 // Define the Zustand store with persist middleware
 export const useCartStore = create<CartStore>()(
   persist(
@@ -34,47 +165,86 @@ export const useCartStore = create<CartStore>()(
       // Toggle the cart open/close state
       setIsCartOpen: (isOpen) => set({ isCartOpen: isOpen }),
       // Replace the current cart items with a new list
+      // Quantities are capped at what can be ordered (lines that can't be bought at all stay, flagged)
+      // Only the `CartItem` fields are kept, so lines built from `cartDetails()` don't drag product
+      // details into storage and the server copy
       setCartItems: (newCartItems: CartItem[]) =>
-        set({ cartItems: newCartItems }),
-      // Get the quantity of an item by ID
-      getItemQuantity: (itemId) =>
-        get().cartItems.find((item) => item.id === itemId)?.quantity || 0,
+        set({
+          cartItems: newCartItems.map((item) => ({
+            id: item.id,
+            variationId: item.variationId,
+            quantity: Math.min(
+              item.quantity,
+              Math.max(get().maxQuantity(item.id, item.variationId), 1)
+            ),
+            unitPrice: item.unitPrice,
+          })),
+        }),
+      // Set the quantity of one line; the other lines stay as they are, cached or not
+      updateCartQuantity: (productId, variationId, quantity) =>
+        get().setCartItems(
+          get().cartItems.map((item) =>
+            isCartLine(item, productId, variationId)
+              ? { ...item, quantity }
+              : item
+          )
+        ),
+      // Get the quantity of a line by product and variation ID
+      getItemQuantity: (productId, variationId = null) =>
+        get().cartItems.find((item) => isCartLine(item, productId, variationId))
+          ?.quantity || 0,
       // Increase the quantity of an item in the cart
-      increaseCartQuantity: (itemId) =>
+      increaseCartQuantity: (productId, variationId = null) =>
         set((state) => {
-          const existingItem = state.cartItems.find(
-            (item) => item.id === itemId
+          const existingItem = state.cartItems.find((item) =>
+            isCartLine(item, productId, variationId)
           );
+          if (
+            (existingItem?.quantity || 0) >=
+            get().maxQuantity(productId, variationId)
+          ) {
+            return {}; // Out of stock or at the per-order limit
+          }
           if (existingItem) {
             return {
               cartItems: state.cartItems.map((item) =>
-                item.id === itemId
+                isCartLine(item, productId, variationId)
                   ? { ...item, quantity: item.quantity + 1 }
                   : item
               ),
             };
           } else {
             return {
-              cartItems: [...state.cartItems, { id: itemId, quantity: 1 }],
+              cartItems: [
+                ...state.cartItems,
+                {
+                  id: productId,
+                  variationId,
+                  quantity: 1,
+                  unitPrice: unitPriceOf(productId, variationId),
+                },
+              ],
             };
           }
         }),
       // Decrease the quantity of an item in the cart
-      decreaseCartQuantity: (itemId) =>
+      decreaseCartQuantity: (productId, variationId = null) =>
         set((state) => {
-          const existingItem = state.cartItems.find(
-            (item) => item.id === itemId
+          const existingItem = state.cartItems.find((item) =>
+            isCartLine(item, productId, variationId)
           );
           // If the quantity is 1, remove the item from the cart
           if (existingItem?.quantity === 1) {
             return {
-              cartItems: state.cartItems.filter((item) => item.id !== itemId),
+              cartItems: state.cartItems.filter(
+                (item) => !isCartLine(item, productId, variationId)
+              ),
             };
           } else {
             // Otherwise, decrement its quantity
             return {
               cartItems: state.cartItems.map((item) =>
-                item.id === itemId
+                isCartLine(item, productId, variationId)
                   ? { ...item, quantity: item.quantity - 1 }
                   : item
               ),
@@ -82,46 +252,398 @@ export const useCartStore = create<CartStore>()(
           }
         }),
       // Remove an item from the cart entirely
-      removeFromCart: (itemId) =>
+      removeFromCart: (productId, variationId = null) =>
         set((state) => ({
-          cartItems: state.cartItems.filter((item) => item.id !== itemId),
+          cartItems: state.cartItems.filter(
+            (item) => !isCartLine(item, productId, variationId)
+          ),
         })),
-      // Clear all items from the cart
-      clearCart: () => set({ cartItems: [] }),
-      // Get detailed information about each cart item (product details)
+      // Clear all items (and the coupons applied to them) from the cart
+      clearCart: () =>
+        set({
+          cartItems: [],
+          couponCodes: [],
+          promotions: null,
+          cartNotices: [],
+        }),
+      // Get detailed information about each cart item (product and variation details)
+      // Lines whose product isn't cached yet are skipped until `reconcileCart` fetches it
       cartDetails: () => {
         const cartItems = get().cartItems || [];
-        return cartItems.map((cartItem) => {
+        const products = useProductStore.getState().products;
+        return cartItems.flatMap((cartItem) => {
           const product = products.find((p) => p.id === cartItem.id);
-          if (!product)
-            throw new Error(`Product with id ${cartItem.id} not found`);
-          return { ...cartItem, productDetails: product };
+          if (!product) return [];
+          const variation =
+            product.variations.find((v) => v.id === cartItem.variationId) ||
+            null;
+          return [
+            {
+              ...cartItem,
+              productDetails: product,
+              variationDetails: variation,
+            },
+          ];
         });
       },
       // Calculate the subtotal of all items in the cart
-      subtotal: () => {
+      // Unit prices are converted before multiplying, so the lines shown add up to the subtotal
+      subtotal: (currency = STORE_CURRENCY) => {
         const cartItems = get().cartItems || [];
-        return parseFloat(
-          cartItems
-            .reduce((acc, cartItem) => {
-              const product = products.find((p) => p.id === cartItem.id);
-              if (!product) return acc;
-              return (
-                acc +
-                parseFloat(product.price.replace("$", "")) * cartItem.quantity
-              );
-            }, 0)
-            .toFixed(2)
+        const products = useProductStore.getState().products;
+        const { rates } = useCurrencyStore.getState();
+        return sumMoney(
+          cartItems.flatMap((cartItem) => {
+            const product = products.find((p) => p.id === cartItem.id);
+            if (!product) return [];
+            const variation = product.variations.find(
+              (v) => v.id === cartItem.variationId
+            );
+            return [
+              multiplyMoney(
+                convertMoney(
+                  variation?.price || product.price,
+                  currency,
+                  rates
+                ),
+                cartItem.quantity
+              ),
+            ];
+          }),
+          currency
+        );
+      },
+      couponCodes: [],
+      promotions: null,
+      // Check a code with the server and keep it only if it applies to the cart
+      applyCoupon: async (code) => {
+        const normalized = code.trim().toUpperCase();
+        if (!normalized) return "Enter a coupon code.";
+        if (get().couponCodes.includes(normalized)) {
+          return "This code is already applied.";
+        }
+        const couponCodes = [...get().couponCodes, normalized];
+        try {
+          const quote = ++latestQuote;
+          const promotions = await fetchPromotions(
+            get().cartItems,
+            couponCodes
+          );
+          if (promotions.rejectedCodes[normalized]) {
+            return promotions.rejectedCodes[normalized];
+          }
+          set(
+            quote === latestQuote
+              ? { couponCodes, promotions }
+              : { couponCodes }
+          );
+          return null;
+        } catch (error) {
+          console.error("Error applying coupon:", error);
+          return "The code could not be checked. Please try again.";
+        }
+      },
+      removeCoupon: (code) =>
+        set((state) => ({
+          couponCodes: state.couponCodes.filter((item) => item !== code),
+        })),
+      refreshPromotions: async () => {
+        const { cartItems, couponCodes } = get();
+        const quote = ++latestQuote;
+        if (cartItems.length === 0) {
+          set({ promotions: null });
+          return;
+        }
+        try {
+          const promotions = await fetchPromotions(cartItems, couponCodes);
+          if (quote === latestQuote) set({ promotions });
+        } catch (error) {
+          console.error("Error refreshing promotions:", error);
+        }
+      },
+      maxQuantity: (productId, variationId = null) => {
+        const product = useProductStore
+          .getState()
+          .products.find((p) => p.id === productId);
+        if (!product) return MAX_PER_ORDER;
+        const variation =
+          product.variations.find((v) => v.id === variationId) || null;
+        return maxOrderQuantity(product, variation);
+      },
+      stockShortages: [],
+      setStockShortages: (shortages) => set({ stockShortages: shortages }),
+      checkStock: async () => {
+        const { cartItems, reservationId } = get();
+        if (cartItems.length === 0) {
+          set({ stockShortages: [] });
+          return;
+        }
+        try {
+          const { shortages } = await postStockRequest(
+            "/api/check-stock",
+            cartItems,
+            reservationId
+          );
+          set({ stockShortages: shortages });
+        } catch (error) {
+          console.error("Error checking stock:", error);
+        }
+      },
+      reservationId: null,
+      reserveStock: async () => {
+        const { cartItems, reservationId } = get();
+        if (cartItems.length === 0) return false;
+        try {
+          const result = await postStockRequest(
+            "/api/reserve-stock",
+            cartItems,
+            reservationId
+          );
+          if (result.shortages) {
+            set({ stockShortages: result.shortages, reservationId: null });
+            return false;
+          }
+          set({ stockShortages: [], reservationId: result.reservationId });
+          return true;
+        } catch (error) {
+          // Checkout can still go ahead: the order is checked against stock when it's placed
+          console.error("Error reserving stock:", error);
+          return true;
+        }
+      },
+      cartUpdatedAt: null,
+      loadServerCart: async () => {
+        try {
+          const cart = await requestServerCart("GET");
+          const { cartItems, couponCodes, cartUpdatedAt } = get();
+          if (
+            cart.updatedAt &&
+            (!cartUpdatedAt || cart.updatedAt > cartUpdatedAt)
+          ) {
+            // Changed on another device since this browser last saved it
+            syncedCart = {
+              cartItems: cart.items,
+              couponCodes: cart.couponCodes,
+            };
+            set({ ...syncedCart, cartUpdatedAt: cart.updatedAt });
+          } else if (
+            cart.updatedAt === null
+              ? cartItems.length > 0 // Saved before carts were kept on the server
+              : cartUpdatedAt !== cart.updatedAt // Changed while the server couldn't be reached
+          ) {
+            syncedCart = { cartItems: [], couponCodes: [] }; // So the save isn't skipped
+            scheduleServerSave();
+          } else {
+            syncedCart = { cartItems, couponCodes };
+          }
+        } catch (error) {
+          // The cart keeps working locally and is saved with its next change
+          console.error("Error loading server cart:", error);
+        }
+        isServerCartLoaded = true;
+      },
+      cartNotices: [],
+      dismissCartNotices: () => set({ cartNotices: [] }),
+      reconcileCart: async () => {
+        const { cartItems } = get();
+        if (cartItems.length === 0) return;
+        let products: Product[];
+        try {
+          products = await fetchCartProducts(cartItems);
+        } catch (error) {
+          // Keep the cart as it is; the order is checked against the catalog when it's placed
+          console.error("Error reconciling cart:", error);
+          return;
+        }
+
+        const cachedProducts = useProductStore.getState().products;
+        useProductStore.getState().upsertProducts(products);
+
+        const { currency, rates } = useCurrencyStore.getState();
+        const result = reconcileCart(
+          get().cartItems, // The customer may have changed the cart while the products loaded
+          products,
+          cachedProducts,
+          (price) => formatMoney(convertMoney(price, currency, rates))
         );
+        set((state) => ({
+          cartItems: result.items,
+          cartNotices: [...state.cartNotices, ...result.notices],
+        }));
+      },
+      // Lines already in the cart add up; prices, stock and removed products are settled by `reconcileCart`
+      addCartItems: async (items) => {
+        set((state) => ({
+          cartItems: items.reduce(
+            (cartItems, item) =>
+              cartItems.some((line) =>
+                isCartLine(line, item.id, item.variationId)
+              )
+                ? cartItems.map((line) =>
+                    isCartLine(line, item.id, item.variationId)
+                      ? { ...line, quantity: line.quantity + item.quantity }
+                      : line
+                  )
+                : [...cartItems, { ...item, unitPrice: null }],
+            state.cartItems
+          ),
+        }));
+        await get().reconcileCart();
+        set({ isCartOpen: get().cartItems.length > 0 });
       },
     }),
     {
       name: "cart-storage", // Name of the localStorage key
-      onRehydrateStorage: () => (state) => {
+      version: CART_STORAGE_VERSION, // v1: items are validated and carry a `unitPrice`
+      migrate: migrateCartStorage, // Older carts are upgraded, not dropped (see `src/lib/cartStorage.ts`)
+      onRehydrateStorage: () => async (state) => {
         state?.setIsLoading(false); // Hydration is complete
+        await state?.loadServerCart(); // Pick up changes made on other devices
+        state?.reconcileCart(); // Catch up with catalog changes since the last visit
       },
       storage: createJSONStorage(() => localStorage), // Explicitly define the storage mechanism
-      partialize: (state) => ({ cartItems: state.cartItems }), // Persist only the cartItems
+      partialize: (state) => ({
+        cartItems: state.cartItems,
+        couponCodes: state.couponCodes,
+        reservationId: state.reservationId,
+        cartUpdatedAt: state.cartUpdatedAt,
+      }), // Persist only the cart items, coupon codes, stock reservation and when they changed
     }
   )
 );
+
+// -------------------- Cross-tab sync --------------------
+// Every change to the persisted cart is broadcast to the other tabs of this browser, which apply it
+// as is. Opening the drawer isn't mirrored, but a tab whose cart was emptied elsewhere (e.g. by an
+// order placed in another tab) closes its drawer.
+
+const CART_CHANNEL = "cart-sync";
+
+type CartBroadcast = Pick<
+  CartStore,
+  "cartItems" | "couponCodes" | "reservationId" | "cartUpdatedAt"
+>;
+
+let isApplyingBroadcast = false; // Set while a change from another tab is applied
+const cartChannel =
+  typeof window !== "undefined" && "BroadcastChannel" in window
+    ? new BroadcastChannel(CART_CHANNEL)
+    : null;
+
+cartChannel?.addEventListener(
+  "message",
+  (event: MessageEvent<CartBroadcast>) => {
+    isApplyingBroadcast = true;
+    useCartStore.setState((state) => ({
+      ...event.data,
+      isCartOpen: state.isCartOpen && event.data.cartItems.length > 0,
+    }));
+    isApplyingBroadcast = false;
+  }
+);
+
+useCartStore.subscribe((state, previous) => {
+  if (
+    isApplyingBroadcast ||
+    (state.cartItems === previous.cartItems &&
+      state.couponCodes === previous.couponCodes &&
+      state.reservationId === previous.reservationId &&
+      state.cartUpdatedAt === previous.cartUpdatedAt)
+  ) {
+    return;
+  }
+  // Read the latest state: listeners may have changed it again since `state`
+  const { cartItems, couponCodes, reservationId, cartUpdatedAt } =
+    useCartStore.getState();
+  cartChannel?.postMessage({
+    cartItems,
+    couponCodes,
+    reservationId,
+    cartUpdatedAt,
+  } satisfies CartBroadcast);
+});
+
+// -------------------- Server cart sync --------------------
+// Changes are applied to the store right away and saved to `/api/cart` shortly after, as a whole
+// cart, so the server copy always matches what the customer last saw.
+
+const SAVE_DELAY_MS = 300; // Quantity clicks in a row are saved once
+
+let isServerCartLoaded = false; // Nothing is saved before the server copy was compared
+let syncedCart: Pick<CartStore, "cartItems" | "couponCodes"> = {
+  cartItems: [],
+  couponCodes: [],
+}; // What the server holds, as far as this browser knows
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+const saveServerCart = async () => {
+  const { cartItems, couponCodes } = useCartStore.getState();
+  if (
+    cartItems === syncedCart.cartItems &&
+    couponCodes === syncedCart.couponCodes
+  ) {
+    return;
+  }
+  try {
+    const cart = await requestServerCart("PUT", {
+      items: cartItems,
+      couponCodes,
+    });
+    syncedCart = { cartItems, couponCodes };
+    const state = useCartStore.getState();
+    if (state.cartItems === cartItems && state.couponCodes === couponCodes) {
+      useCartStore.setState({ cartUpdatedAt: cart.updatedAt });
+    }
+  } catch (error) {
+    // `cartUpdatedAt` stays newer than the server copy, so the next load uploads the cart
+    console.error("Error saving cart:", error);
+  }
+};
+
+const scheduleServerSave = () => {
+  if (saveTimer) clearTimeout(saveTimer);
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    saveServerCart();
+  }, SAVE_DELAY_MS);
+};
+
+useCartStore.subscribe((state, previous) => {
+  if (
+    !isServerCartLoaded ||
+    isApplyingBroadcast || // The tab that made the change saves it
+    (state.cartItems === previous.cartItems &&
+      state.couponCodes === previous.couponCodes)
+  ) {
+    return;
+  }
+  useCartStore.setState({ cartUpdatedAt: new Date().toISOString() });
+  scheduleServerSave();
+});
+
+// The promotion quote for the cart, refreshed whenever the items, coupons or currency change
+export const usePromotions = () => {
+  const cartItems = useCartStore((state) => state.cartItems);
+  const couponCodes = useCartStore((state) => state.couponCodes);
+  const isLoading = useCartStore((state) => state.isLoading);
+  const promotions = useCartStore((state) => state.promotions);
+  const refreshPromotions = useCartStore((state) => state.refreshPromotions);
+  const currency = useCurrencyStore((state) => state.currency);
+
+  useEffect(() => {
+    if (!isLoading) refreshPromotions();
+  }, [cartItems, couponCodes, currency, isLoading, refreshPromotions]);
+
+  return promotions;
+};
+
+// Re-check the cart's stock with the server whenever its items change (mounted once, by the cart drawer)
+export const useStockCheck = () => {
+  const cartItems = useCartStore((state) => state.cartItems);
+  const isLoading = useCartStore((state) => state.isLoading);
+  const checkStock = useCartStore((state) => state.checkStock);
+
+  useEffect(() => {
+    if (!isLoading) checkStock();
+  }, [cartItems, isLoading, checkStock]);
+};
@@ -0,0 +1,9 @@
+import { create } from "zustand";
+import { CommandPaletteStore } from "@/types/command";
+
+// Whether the command palette is open; shared so the sidebar can open it too
+export const useCommandPaletteStore = create<CommandPaletteStore>()((set) => ({
+  isOpen: false,
+  setIsOpen: (isOpen) => set({ isOpen }),
+  toggle: () => set((state) => ({ isOpen: !state.isOpen })),
+}));
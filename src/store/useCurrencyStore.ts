@@ -0,0 +1,43 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import defaultExchangeRates from "@/config/exchangeRates.json";
+import { convertMoney, STORE_CURRENCY } from "@/lib/money";
+import { CurrencyStore, ExchangeRates } from "@/types/currency";
+import { Money } from "@/types/money";
+
+// Optional endpoint serving an `ExchangeRates` JSON document that replaces the bundled table
+const EXCHANGE_RATES_URL = process.env.NEXT_PUBLIC_EXCHANGE_RATES_URL;
+
+export const useCurrencyStore = create<CurrencyStore>()(
+  persist(
+    (set) => ({
+      currency: STORE_CURRENCY,
+      rates: defaultExchangeRates as ExchangeRates,
+      setCurrency: (currency) => set({ currency }),
+      // Swap in the remote rate table, keeping the bundled one if it can't be loaded
+      loadRates: async () => {
+        if (!EXCHANGE_RATES_URL) return;
+        try {
+          const response = await fetch(EXCHANGE_RATES_URL);
+          if (!response.ok) throw new Error(`Status ${response.status}`);
+          set({ rates: await response.json() });
+        } catch (error) {
+          console.error("Error loading exchange rates:", error);
+        }
+      },
+    }),
+    {
+      name: "currency-storage", // Name of the localStorage key
+      storage: createJSONStorage(() => localStorage), // Explicitly define the storage mechanism
+      partialize: (state) => ({ currency: state.currency }), // Persist only the chosen currency
+      skipHydration: true, // Rehydrated by `CurrencySelector` after mount, so SSR markup matches
+    }
+  )
+);
+
+// Convert store-currency amounts into the customer's currency for display
+export const useConvertMoney = () => {
+  const currency = useCurrencyStore((state) => state.currency);
+  const rates = useCurrencyStore((state) => state.rates);
+  return (money: Money) => convertMoney(money, currency, rates);
+};
@@ -1,7 +1,26 @@
 import { create } from "zustand";
-import { products } from "@/demo-data/data";
+import { persist, createJSONStorage } from "zustand/middleware";
 import { ProductStore } from "@/types/product";
 
-export const useProductStore = create<ProductStore>(() => ({
-  products, // Initialize with demo data
-}));
+// Catalog cache filled by the shop and product pages (server-fetched from WooCommerce)
+export const useProductStore = create<ProductStore>()(
+  persist(
+    (set) => ({
+      products: [],
+      // Merge fetched products into the cache, replacing stale copies by id
+      upsertProducts: (newProducts) =>
+        set((state) => {
+          const byId = new Map(state.products.map((p) => [p.id, p]));
+          newProducts.forEach((product) => byId.set(product.id, product));
+          return { products: Array.from(byId.values()) };
+        }),
+    }),
+    {
+      name: "product-storage", // Name of the localStorage key
+      version: 4, // v1: prices are `Money` instead of "$75.98" strings; v2: products carry a `taxClass`; v3: and a `weight`; v4: and a `stockQuantity`
+      migrate: () => ({ products: [] }), // It's only a cache, so older shapes are dropped and refetched
+      storage: createJSONStorage(() => localStorage), // Explicitly define the storage mechanism
+      partialize: (state) => ({ products: state.products }), // Persist only the products
+    }
+  )
+);
@@ -0,0 +1,92 @@
+import { useEffect } from "react";
+import { create } from "zustand";
+import { useCartStore } from "@/store/useCartStore";
+import { SessionStore, SessionUser } from "@/types/auth";
+
+// Post to an auth endpoint; resolves with the signed-in user or the error to show
+const postAuthRequest = async (
+  url: string,
+  body: Record<string, string>
+): Promise<{ user: SessionUser | null; error: string | null }> => {
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      return { user: null, error: result.error || `Status ${response.status}` };
+    }
+    return { user: result.user, error: null };
+  } catch (error) {
+    console.error(`Error posting to ${url}:`, error);
+    return { user: null, error: "Something went wrong. Please try again." };
+  }
+};
+
+// Components mounting together share one session request
+let sessionRequest: Promise<void> | null = null;
+
+// Who is signed in; not persisted, the `httpOnly` session cookie is the source of truth
+export const useSessionStore = create<SessionStore>()((set) => ({
+  user: null,
+  status: "loading",
+  loadSession: () => {
+    sessionRequest ||= (async () => {
+      try {
+        const response = await fetch("/api/auth/session");
+        if (!response.ok) throw new Error(`Status ${response.status}`);
+        const { user } = await response.json();
+        set({ user, status: user ? "authenticated" : "unauthenticated" });
+      } catch (error) {
+        console.error("Error loading session:", error);
+        set({ user: null, status: "unauthenticated" });
+      } finally {
+        sessionRequest = null;
+      }
+    })();
+    return sessionRequest;
+  },
+  signIn: async (email, password) => {
+    const { user, error } = await postAuthRequest("/api/auth/login", {
+      email,
+      password,
+    });
+    if (user) {
+      set({ user, status: "authenticated" });
+      useCartStore.getState().loadServerCart(); // The guest cart was merged into the account's
+    }
+    return error;
+  },
+  register: async (name, email, password) => {
+    const { user, error } = await postAuthRequest("/api/auth/register", {
+      name,
+      email,
+      password,
+    });
+    if (user) {
+      set({ user, status: "authenticated" });
+      useCartStore.getState().loadServerCart();
+    }
+    return error;
+  },
+  signOut: async () => {
+    await postAuthRequest("/api/auth/logout", {});
+    set({ user: null, status: "unauthenticated" });
+    useCartStore.getState().clearCart(); // The cart stays with the account, not on this device
+  },
+}));
+
+// The signed-in user, loaded from the server the first time a component asks
+export const useSession = () => {
+  const user = useSessionStore((state) => state.user);
+  const status = useSessionStore((state) => state.status);
+  const loadSession = useSessionStore((state) => state.loadSession);
+
+  useEffect(() => {
+    if (status === "loading") loadSession();
+  }, [status, loadSession]);
+
+  return { user, status };
+};
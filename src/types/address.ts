@@ -0,0 +1,23 @@
+import { OrderAddress } from "./order";
+
+// An address a customer saved to their address book
+export interface SavedAddress {
+  id: string;
+  label: string; // e.g. "Home" or "Work", "" when the customer didn't name it
+  address: OrderAddress;
+  createdAt: string; // ISO date
+}
+
+// A customer's saved addresses, stored in the `address-books` collection of the JSON file store
+export interface AddressBook {
+  userId: string;
+  addresses: SavedAddress[]; // In the order they were saved
+  defaultAddressId: string | null; // Preselected at checkout
+}
+
+// What the profile page (and checkout) submit to save an address
+export interface AddressInput {
+  label: string;
+  address: OrderAddress;
+  isDefault: boolean; // Make it the default address
+}
@@ -0,0 +1,47 @@
+import { Money } from "./money";
+
+// The days the admin dashboard reports on
+export interface DateRange {
+  from: string; // ISO date (YYYY-MM-DD), inclusive
+  to: string; // ISO date (YYYY-MM-DD), inclusive
+}
+
+// Revenue of one day (or one month, for long ranges)
+export interface RevenuePoint {
+  period: string; // First day of the bucket (YYYY-MM-DD)
+  revenue: Money; // In the store currency
+  orders: number; // Paid orders placed in the bucket
+}
+
+// A best seller of the range
+export interface TopProduct {
+  productId: number;
+  name: string;
+  quantity: number; // Units sold
+  revenue: Money; // Line totals before order discounts, in the store currency
+}
+
+export interface CartAbandonment {
+  abandonedCarts: number; // Carts last changed in the range that still hold items and went idle
+  checkouts: number; // Orders placed in the range
+  rate: number; // abandonedCarts / (abandonedCarts + checkouts), 0–1
+}
+
+export interface CustomerMix {
+  new: number; // Customers whose first order was placed in the range
+  returning: number; // Customers who had ordered before their first order in the range
+}
+
+// Everything the admin dashboard shows for a date range
+export interface StoreAnalytics {
+  range: DateRange;
+  granularity: "day" | "month"; // Size of the `revenueSeries` buckets
+  revenue: Money; // Total of the paid orders, in the store currency
+  orderCount: number; // Orders placed, whatever happened to them
+  paidOrderCount: number; // Orders that were paid and not refunded or cancelled
+  averageOrderValue: Money; // revenue / paidOrderCount
+  revenueSeries: RevenuePoint[]; // One point per bucket, empty buckets included
+  topProducts: TopProduct[];
+  cartAbandonment: CartAbandonment;
+  customers: CustomerMix;
+}
@@ -0,0 +1,65 @@
+export type UserRole = "customer" | "admin";
+
+// A user role, or "guest" for visitors who aren't signed in
+export type AccessRole = UserRole | "guest";
+
+// The roles that may open a path and everything below it
+export interface AccessRule {
+  path: string; // e.g. "/admin-dashboard" also covers "/admin-dashboard/orders"
+  roles: AccessRole[];
+}
+
+// What to do with a request: let it through, send it to sign-in, refuse it (403), or send
+// signed-in users away from guest-only pages
+export type AccessDecision = "allow" | "sign-in" | "forbidden" | "signed-in";
+
+// An account stored in the `users` collection of the JSON file store
+export interface User {
+  id: string;
+  email: string; // Lowercased, unique
+  name: string;
+  passwordHash: string | null; // `null` for accounts created through a magic link
+  role: UserRole;
+  sessionVersion?: number; // Raised to sign out every browser (password reset); missing means 0
+  createdAt: string; // ISO date
+}
+
+// What the browser gets to know about the signed-in user
+export interface SessionUser {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+}
+
+// A single-use link sent by email (magic-link sign-in, password reset)
+export interface AuthToken {
+  id: string;
+  type: "magic-link" | "password-reset";
+  email: string;
+  tokenHash: string; // SHA-256 of the token in the link; the token itself is never stored
+  expiresAt: string; // ISO date
+}
+
+// What the signed `session` cookie carries
+export interface SessionClaims {
+  userId: string;
+  role: UserRole; // Lets middleware check access without reading the user store
+  sessionVersion?: number; // The account's `sessionVersion` when signed; missing means 0
+  expiresAt: string; // ISO date
+}
+
+export type SessionStatus = "loading" | "authenticated" | "unauthenticated";
+
+export interface SessionStore {
+  user: SessionUser | null; // The signed-in user, `null` for guests
+  status: SessionStatus;
+  loadSession: () => Promise<void>; // Ask the server who is signed in
+  signIn: (email: string, password: string) => Promise<string | null>; // Resolves with an error message, `null` on success
+  register: (
+    name: string,
+    email: string,
+    password: string
+  ) => Promise<string | null>; // Resolves with an error message, `null` on success
+  signOut: () => Promise<void>;
+}
@@ -1,28 +1,10 @@
-export interface BlogPost {
-  id: string;
-  databaseId: number;
-  slug: string;
-  title: string;
-  date: string;
-  excerpt: string;
-  content: string;
-  featuredImage: {
-    node: {
-      sourceUrl: string;
-    };
-  };
-  categories: {
-    nodes: {
-      name: string;
-    }[];
-  };
-  author: {
-    node: {
-      name: string;
-      description: string;
-    };
-  };
-}
+import { PostCardFragment, PostDetailFragment } from "@/graphql/generated";
+
+// A post as returned by list queries (`PostCard` fragment)
+export type BlogPost = PostCardFragment;
+
+// A single post as returned by `GetSinglePostBySlug` (`PostDetail` fragment)
+export type BlogPostDetail = PostDetailFragment;
 
 export interface PostSlug {
   slug: string;
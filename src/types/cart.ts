@@ -1,14 +1,41 @@
-import { Product } from "./product";
+import { Money } from "./money";
+import { Product, ProductVariation } from "./product";
 
-// Type for individual cart items
+// Type for individual cart items (one line per product + variation)
 export interface CartItem {
-  id: number;
+  id: number; // Product id
+  variationId: number | null; // Variation id, `null` for simple products
   quantity: number;
+  unitPrice?: Money | null; // Store-currency price last shown for this line (browser only, never trusted by the server)
 }
 
 // Type for cart details (cart item + product details)
 export interface CartDetail {
   id: number;
+  variationId: number | null;
   quantity: number;
   productDetails: Product;
+  variationDetails: ProductVariation | null; // The selected variation, overrides price and image
+}
+
+// A change made to the cart while reconciling it with the catalog, shown to the customer
+export interface CartNotice {
+  kind: "removed" | "quantity" | "price";
+  message: string;
+}
+
+// What `cart-storage` holds in localStorage (version `CART_STORAGE_VERSION`)
+export interface PersistedCart {
+  cartItems: CartItem[];
+  couponCodes: string[];
+  reservationId: string | null;
+  cartUpdatedAt: string | null; // ISO date of the last change made in this browser
+}
+
+// A cart stored on the server, so it follows the customer across devices
+export interface ServerCart {
+  id: string; // "session:<id>" for guests (the `cart_session` cookie), "user:<id>" once signed in
+  items: CartItem[]; // Lines without `unitPrice`
+  couponCodes: string[];
+  updatedAt: string | null; // ISO date of the last change, `null` for a cart that was never saved
 }
@@ -0,0 +1,35 @@
+import type { LucideIcon } from "lucide-react";
+
+// Sections of the command palette
+export type CommandGroupName = "Pages" | "Account" | "Admin";
+
+// A page the command palette and sidebar can open
+export interface NavigationCommand {
+  id: string;
+  label: string;
+  href: string; // Shown to the roles `ACCESS_RULES` lets open its path
+  group: CommandGroupName;
+  icon: LucideIcon;
+  shortcut: string | null; // Key pressed after G (`SHORTCUT_PREFIX`), e.g. "p" for G P
+  keywords: string[]; // Extra words the palette search matches
+}
+
+// A product or blog post found by `/api/search`
+export interface SearchResult {
+  id: string;
+  title: string;
+  href: string;
+  description: string; // e.g. the product's categories or the post's date
+  imageSrc: string | null;
+}
+
+export interface SearchResults {
+  products: SearchResult[];
+  posts: SearchResult[];
+}
+
+export interface CommandPaletteStore {
+  isOpen: boolean;
+  setIsOpen: (isOpen: boolean) => void; // Open or close the palette
+  toggle: () => void; // ⌘K
+}
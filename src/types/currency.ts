@@ -0,0 +1,13 @@
+// Exchange-rate table, e.g. `src/config/exchangeRates.json`
+export interface ExchangeRates {
+  base: string; // Currency every rate is relative to (rate 1)
+  updatedAt: string; // When the rates were last refreshed
+  rates: Record<string, number>; // Currency code → units of that currency per 1 `base`
+}
+
+export interface CurrencyStore {
+  currency: string; // Currency the customer sees and pays in
+  rates: ExchangeRates; // Active exchange-rate table
+  setCurrency: (currency: string) => void; // Switch the display currency
+  loadRates: () => Promise<void>; // Refresh `rates` from `NEXT_PUBLIC_EXCHANGE_RATES_URL`, if set
+}
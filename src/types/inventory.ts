@@ -0,0 +1,17 @@
+import { CartItem } from "./cart";
+
+// Stock held for a checkout in progress, so nobody else can buy it meanwhile
+export interface StockReservation {
+  id: string;
+  items: CartItem[];
+  expiresAt: string; // ISO date, the stock is released after this moment
+}
+
+// A cart line asking for more units than can be sold
+export interface StockShortage {
+  productId: number;
+  variationId: number | null;
+  name: string;
+  requested: number;
+  available: number; // `0` when the line can't be bought at all
+}
@@ -0,0 +1,5 @@
+// An amount of money in the smallest unit of its currency (cents for USD, yen for JPY)
+export interface Money {
+  amount: number; // Integer minor units, e.g. 7598 for $75.98
+  currency: string; // ISO 4217 currency code, e.g. "USD"
+}
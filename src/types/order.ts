@@ -0,0 +1,158 @@
+import { CartItem } from "./cart";
+import { Money } from "./money";
+import { CardDetails, OrderPayment } from "./payment";
+import { PromotionLine } from "./promotion";
+import { DeliveryEstimate, ShippableItem } from "./shipping";
+import { TaxBreakdown, TaxClass, TaxLine } from "./tax";
+
+// Order statuses: WooCommerce's, plus the fulfillment steps admins move paid orders through
+// (see `ORDER_TRANSITIONS` in src/lib/orderWorkflow.ts)
+export type OrderStatus =
+  | "pending" // Created, awaiting payment
+  | "processing" // Paid, being prepared
+  | "packed" // Ready to hand to the carrier
+  | "shipped" // With the carrier (see `Order.tracking`)
+  | "delivered"
+  | "on-hold"
+  | "completed"
+  | "cancelled"
+  | "refunded"
+  | "failed";
+
+// One entry of an order's audit trail
+export interface OrderEvent {
+  at: string; // ISO date
+  status: OrderStatus; // The status after the event
+  note: string; // What happened, e.g. "Payment captured" or an admin's comment
+  actor: string | null; // Email of the admin who acted, `null` for checkout and payments
+}
+
+// The parcel of a shipped order
+export interface OrderTracking {
+  carrier: string; // e.g. "Canada Post"
+  number: string;
+}
+
+// The parts of an address that decide taxes and shipping
+export interface AddressLocation {
+  country: string; // As in the checkout form, e.g. "Canada"
+  region: string; // State / province code or name, "" when unknown
+}
+
+export interface OrderAddress {
+  firstName: string;
+  lastName: string;
+  company: string;
+  address: string;
+  apartment: string;
+  city: string;
+  country: string;
+  region: string; // State / province
+  postalCode: string;
+  phone: string;
+}
+
+// A cart line frozen at the moment the order was placed
+export interface OrderLine {
+  productId: number;
+  variationId: number | null;
+  name: string;
+  slug: string;
+  variation: string | null; // e.g. "Large / Thin"
+  imageSrc: string;
+  imageAlt: string;
+  taxClass: TaxClass;
+  quantity: number;
+  unitPrice: Money; // In the order currency
+  lineTotal: Money; // `unitPrice` × `quantity`
+}
+
+// A cart line re-priced on the server, as an order line and as the engines see it
+export interface PricedCartItem {
+  line: OrderLine;
+  shippable: ShippableItem; // In the store currency
+  promotionLine: PromotionLine; // In the order currency
+}
+
+// The delivery method chosen at checkout
+export interface OrderDelivery {
+  methodId: string;
+  title: string;
+  estimate: DeliveryEstimate;
+}
+
+// A promotion that applied to an order, shown as its own line in the totals
+export interface OrderDiscount {
+  promotionId: string;
+  code: string | null; // `null` for automatic promotions
+  label: string;
+  amount: Money; // Free shipping discounts are the shipping cost
+}
+
+// Totals shared by the cart summary, the checkout summary and `createOrder`
+export interface OrderTotals {
+  subtotal: Money;
+  discounts: OrderDiscount[];
+  discountTotal: Money;
+  shipping: Money;
+  taxes: TaxBreakdown;
+  total: Money;
+}
+
+export interface Order {
+  id: string;
+  createdAt: string; // ISO date
+  status: OrderStatus;
+  userId: string | null; // The signed-in customer who placed it, `null` for guest checkouts
+  confirmationTokenHash?: string | null; // Guest orders: opens `/thankyou/[orderId]` (see `/lib/orderAccess.ts`); `null` for account orders
+  email: string;
+  shippingAddress: OrderAddress;
+  delivery: OrderDelivery;
+  paymentMethodId: string;
+  payment: OrderPayment | null; // `null` until a payment has been started
+  currency: string; // Every amount below is in this currency
+  exchangeRate?: number; // Units of `currency` per 1 store currency when the order was placed (missing on older orders)
+  lines: OrderLine[];
+  subtotal: Money;
+  discounts: OrderDiscount[];
+  discountTotal: Money; // Sum of `discounts`, taken off `subtotal` and `shipping`
+  shipping: Money;
+  taxes: Money; // Sum of `taxLines`, charged on the discounted amounts
+  taxLines: TaxLine[];
+  pricesIncludeTax: boolean; // `taxes` is part of `subtotal` and `shipping`, not added to `total`
+  total: Money;
+  history: OrderEvent[]; // Audit trail, oldest first (empty for orders placed before it existed)
+  tracking: OrderTracking | null; // Set when the order ships
+}
+
+// Filters of the admin order list (empty strings match everything)
+export interface OrderFilters {
+  status: OrderStatus | "";
+  from: string; // ISO date (YYYY-MM-DD), inclusive
+  to: string; // ISO date (YYYY-MM-DD), inclusive
+  customer: string; // Part of the email or name on the order
+}
+
+// What the admin order actions answer the order page with
+export interface OrderActionResult {
+  error: string | null; // Shown next to the actions, `null` on success
+}
+
+// What the checkout form submits to `/api/create-order`
+export interface CheckoutInput {
+  email: string;
+  shippingAddress: OrderAddress;
+  deliveryMethodId: string; // `ShippingRate.id`, e.g. "standard"
+  paymentMethodId: string;
+  card: CardDetails | null; // Only for card payments; passed to the provider, never stored
+  currency: string;
+  items: CartItem[];
+  couponCodes: string[]; // As entered; checked by the promotion engine
+  reservationId: string | null; // The checkout's stock reservation (`/api/reserve-stock`), if any
+}
+
+export interface PaymentMethod {
+  id: string;
+  title: string;
+  provider: string; // Id of the `PaymentProvider` that processes it
+}
@@ -0,0 +1,68 @@
+import { Money } from "./money";
+
+// Where a payment is in its lifecycle
+export type PaymentStatus =
+  | "requires_action" // Waiting for the customer to confirm with their bank (3DS)
+  | "authorized" // Funds reserved, not yet collected
+  | "captured" // Funds collected
+  | "refunded"
+  | "declined";
+
+// Card fields from the checkout form; never stored
+export interface CardDetails {
+  number: string;
+  name: string;
+  expiry: string; // MM/YY
+  cvc: string;
+}
+
+export interface AuthorizeRequest {
+  orderId: string; // Our order id, echoed back in webhook events
+  amount: Money;
+  paymentMethodId: string; // "credit-card", "paypal", ...
+  card: CardDetails | null; // Only for card payments
+  returnUrl: string; // Where the customer lands after confirming with their bank
+}
+
+export interface PaymentResult {
+  transactionId: string; // The provider's reference for this payment
+  status: PaymentStatus;
+  actionUrl: string | null; // Set when `status` is `requires_action`
+}
+
+// A verified notification sent by the provider to `/api/payment-webhook/[provider]`
+export interface PaymentEvent {
+  type: "payment.authorized" | "payment.declined" | "payment.refunded";
+  transactionId: string;
+  orderId: string;
+}
+
+/**
+ * Payment Provider
+ *
+ * ## Purpose
+ * - The contract every payment gateway implements, so checkout and order handling never talk to a
+ *   specific gateway's API.
+ *
+ * ## Methods
+ * - `authorize`: Reserve `amount`. Resolves with `requires_action` when the customer still has to
+ *   confirm with their bank; throws a `PaymentError` when the payment is declined.
+ * - `capture`: Collect a previously authorized payment.
+ * - `refund`: Return `amount` (the full payment when omitted) of a captured payment.
+ * - `verifyWebhook`: Check the signature of a webhook request and parse it into a `PaymentEvent`.
+ *   Throws a `PaymentError` when the signature is invalid.
+ */
+export interface PaymentProvider {
+  id: string;
+  authorize: (request: AuthorizeRequest) => Promise<PaymentResult>;
+  capture: (transactionId: string) => Promise<PaymentResult>;
+  refund: (transactionId: string, amount?: Money) => Promise<PaymentResult>;
+  verifyWebhook: (rawBody: string, headers: Headers) => Promise<PaymentEvent>;
+}
+
+// Payment state recorded on an order
+export interface OrderPayment {
+  provider: string;
+  transactionId: string;
+  status: PaymentStatus;
+}
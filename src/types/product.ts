@@ -1,10 +1,36 @@
+import { Money } from "./money";
+import { TaxClass } from "./tax";
+
+// A selectable attribute of a variable product (e.g. Size: Medium, Large)
+export interface ProductAttribute {
+  name: string; // Attribute key, matches the keys of `ProductVariation.attributes`
+  label: string; // Display label, e.g. "Size"
+  options: string[]; // Values the customer can pick from
+}
+
+// One purchasable combination of attribute values of a variable product
+export interface ProductVariation {
+  id: number; // WooCommerce `databaseId` of the variation
+  name: string;
+  price: Money;
+  inStock: boolean;
+  stockQuantity: number | null; // Units that can be sold, `null` when unlimited (see `Product.stockQuantity`)
+  imageSrc: string;
+  imageAlt: string;
+  attributes: Record<string, string>; // Attribute name → value, "" matches any value
+}
+
 export interface Product {
-  id: number;
+  id: number; // WooCommerce `databaseId`
+  slug: string;
   name: string;
   color: string;
-  price: string;
-  inStock: boolean;
+  price: Money; // Lowest variation price for variable products
+  inStock: boolean; // Ships right away; otherwise it's on backorder and ships after `leadTime`
+  stockQuantity: number | null; // Units that can be sold, `null` when unlimited (stock not managed, or on backorder)
   leadTime: string;
+  taxClass: TaxClass; // Variations are taxed like their product
+  weight: number; // In kg, used for shipping rates; variations weigh the same
   description: string;
   imageSrc: string;
   imageAlt: string;
@@ -12,8 +38,44 @@ export interface Product {
     id: number;
     name: string;
   }[];
+  attributes: ProductAttribute[]; // Empty for simple products
+  variations: ProductVariation[]; // Empty for simple products
 }
 
 export interface ProductStore {
-  products: Product[];
+  products: Product[]; // Every product seen so far (shop pages, product pages), used to resolve cart items
+  upsertProducts: (products: Product[]) => void; // Add new products or refresh existing ones by id
+}
+
+// An admin's change to the catalog, stored in the `catalog-products` collection of the JSON file store
+export interface CatalogEntry {
+  id: number; // The product id (a WooCommerce `databaseId`, or a local id for products created in the admin)
+  product: Product; // Local products: the product as last saved. WooCommerce products: as last seen, so a deleted product's slug can be hidden
+  changes: Partial<Product>; // WooCommerce products: only the fields the admin changed, applied over the live product
+  isLocal: boolean; // Created in the admin rather than in WooCommerce
+  deleted: boolean; // Hidden from the shop
+  updatedAt: string; // ISO date
+}
+
+// How a product can be bought, as picked in the admin product form
+export type StockStatus = "in-stock" | "backorder" | "out-of-stock";
+
+// The fields of the admin product form, as the browser submits them
+export interface ProductFormValues {
+  name: string;
+  price: string; // Decimal, in the store currency, e.g. "25.99"
+  description: string;
+  imageSrc: string;
+  imageAlt: string;
+  categories: string; // Comma-separated category names, shown as breadcrumbs
+  stockStatus: StockStatus;
+  stockQuantity: string; // Units in stock, "" when stock isn't tracked
+  leadTime: string; // e.g. "7 days" or "2 weeks"
+}
+
+// What the admin product actions answer the form with
+export interface ProductActionResult {
+  error: string | null; // Shown above the form, `null` on success
+  fieldErrors: Record<string, string>; // Form field → message
+  productId: number | null; // The saved product, `null` when nothing was saved
 }
@@ -0,0 +1,46 @@
+import { Money } from "./money";
+
+// What a promotion takes off
+export type PromotionEffect =
+  | { type: "percent"; percent: number } // e.g. 10 for 10% off the eligible lines
+  | { type: "fixed"; amount: Money } // Off the eligible lines, in the store currency
+  | { type: "free-shipping" }
+  | { type: "buy-x-get-y"; buy: number; get: number }; // Buy `buy`, get the `get` cheapest units free
+
+export interface Promotion {
+  id: string;
+  code: string | null; // Coupon code (case-insensitive), `null` for automatic promotions
+  label: string; // Shown as the discount line, e.g. "10% off Asian cuisine"
+  effect: PromotionEffect;
+  categories?: string[]; // Only lines in one of these categories (`Product.breadcrumbs` names)
+  productIds?: number[]; // Only these products
+  minSubtotal?: Money; // Cart subtotal needed, in the store currency
+  startsAt?: string; // ISO date
+  expiresAt?: string; // ISO date, the promotion ends at this moment
+}
+
+// A cart line as the promotion engine sees it
+export interface PromotionLine {
+  key: string; // `${productId}-${variationId}`
+  productId: number;
+  categories: string[];
+  unitPrice: Money;
+  quantity: number;
+}
+
+// A promotion that applied to the cart
+export interface AppliedDiscount {
+  promotionId: string;
+  code: string | null;
+  label: string;
+  amount: Money; // Off the lines; `0` for free shipping, which the caller takes off shipping
+  freeShipping: boolean;
+}
+
+export interface PromotionResult {
+  currency: string; // Of every amount below
+  discounts: AppliedDiscount[];
+  lineDiscounts: Record<string, Money>; // Line key → total discount on that line
+  freeShipping: boolean;
+  rejectedCodes: Record<string, string>; // Code → why it didn't apply
+}
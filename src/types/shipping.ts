@@ -0,0 +1,60 @@
+import { Money } from "./money";
+
+// What a rate table is looked up by
+export type RateBasis =
+  | "weight" // Total weight in kg
+  | "quantity" // Number of items
+  | "subtotal"; // Cart subtotal in the store currency, e.g. 50 for $50.00
+
+// One row of a rate table: applies while the basis value is at most `upTo`
+export interface RateTier {
+  upTo: number | null; // `null` for the last, open-ended row
+  price: Money; // In the store currency
+}
+
+export interface ShippingMethodConfig {
+  id: string; // e.g. "standard", submitted as the checkout `deliveryMethodId`
+  title: string;
+  basis: RateBasis;
+  tiers: RateTier[]; // Ordered by `upTo`
+  freeOver?: Money; // Free once the subtotal reaches this amount (store currency)
+  transitDays: [number, number]; // Business days in transit, [fastest, slowest]
+}
+
+// The methods offered for a set of countries, or for some regions of a country
+export interface ShippingZone {
+  id: string;
+  name: string;
+  countries: string[]; // As in the checkout form, e.g. "Canada"
+  regions?: string[]; // Accepted spellings, e.g. ["AK", "Alaska"]; region zones win over country zones
+  methods: ShippingMethodConfig[];
+}
+
+export interface ShippingConfig {
+  handlingDays: number; // Business days to dispatch items that are in stock
+  zones: ShippingZone[];
+}
+
+// A cart or order line as the shipping engine sees it
+export interface ShippableItem {
+  quantity: number;
+  weight: number; // Per unit, in kg
+  inStock: boolean; // Out-of-stock items dispatch after the product's `leadTime`
+  leadTime: string; // e.g. "7 days"
+  lineTotal: Money; // In the store currency
+}
+
+// Estimated delivery window, as ISO dates ("2026-10-23")
+export interface DeliveryEstimate {
+  earliest: string;
+  latest: string;
+}
+
+// A delivery method priced for a specific cart and destination
+export interface ShippingRate {
+  id: string;
+  title: string;
+  price: Money; // In the store currency
+  isFree: boolean; // The free shipping threshold was reached
+  estimate: DeliveryEstimate;
+}
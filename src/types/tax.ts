@@ -0,0 +1,38 @@
+import { Money } from "./money";
+import { AddressLocation } from "./order";
+
+// WooCommerce tax classes
+export type TaxClass = "standard" | "reduced-rate" | "zero-rate";
+
+// Rates for a country, or for one region of it (region rules win over country rules)
+export interface TaxRule {
+  country: string;
+  regions?: string[]; // Accepted spellings, e.g. ["ON", "Ontario"]; omitted for the country-wide rule
+  label: string; // Shown on the summary, e.g. "HST"
+  rates: Partial<Record<TaxClass, number>>; // e.g. { standard: 0.13 }; a missing class uses `standard`
+}
+
+export interface TaxConfig {
+  pricesIncludeTax: boolean; // Catalog prices already contain tax (common in the EU)
+  shippingTaxClass: TaxClass | null; // `null` when shipping isn't taxed
+  rules: TaxRule[];
+}
+
+// Something being taxed: a cart line (`unitPrice` × `quantity`) or shipping
+export interface TaxableItem {
+  amount: Money;
+  taxClass: TaxClass;
+}
+
+// Tax collected at one rate, e.g. "HST 13%"
+export interface TaxLine {
+  label: string;
+  rate: number;
+  amount: Money;
+}
+
+export interface TaxBreakdown {
+  lines: TaxLine[];
+  total: Money; // Sum of `lines`
+  inclusive: boolean; // `total` is already part of the item amounts and must not be added again
+}